@@ -12,6 +12,7 @@ import Dashboard from "@/pages/dashboard";
 import Strategies from "@/pages/strategies";
 import Risk from "@/pages/risk";
 import Backtests from "@/pages/backtests";
+import MarketData from "@/pages/market-data";
 import Analytics from "@/pages/analytics";
 import Logs from "@/pages/logs";
 import AccountManagement from "./pages/account-management";
@@ -64,6 +65,7 @@ function AuthenticatedApp() {
             <Route path="/signals" component={Signals} />
             <Route path="/risk" component={Risk} />
             <Route path="/backtests" component={Backtests} />
+            <Route path="/market-data" component={MarketData} />
             <Route path="/analytics" component={Analytics} />
             <Route path="/logs" component={Logs} />
             <Route path="/brokers" component={Brokers} />
@@ -0,0 +1,197 @@
+import { useQuery } from "@tanstack/react-query";
+import { ComposedChart, Line, Area, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+
+interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  drawdown: number;
+}
+
+interface BacktestTrade {
+  id: number;
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: number;
+  entryTime: string;
+  entry: number;
+  exitTime: string;
+  exit: number;
+  exitReason: string;
+  pnl: number;
+  commission: number;
+  swap?: number; // Missing from results stored before swap was modelled
+  balance: number;
+}
+
+interface EquityChart {
+  points: EquityPoint[];
+  totalPoints: number;
+  trades: BacktestTrade[];
+}
+
+interface EquityCurveProps {
+  backtestId: string;
+}
+
+interface Marker {
+  time: number;
+  value: number;
+  trade: BacktestTrade;
+  kind: "ENTRY" | "EXIT";
+}
+
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Equity at the last chart point at or before the given time
+const equityAt = (points: { time: number; equity: number }[], time: number) => {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid].time <= time) low = mid; else high = mid - 1;
+  }
+  return points[low]?.equity ?? 0;
+};
+
+const MarkerShape = ({ cx, cy, payload }: any) => {
+  const { trade, kind } = payload as Marker;
+  if (kind === "ENTRY") {
+    // Triangle pointing in the trade direction
+    const path = trade.side === "BUY"
+      ? `M${cx},${cy - 5} L${cx + 4},${cy + 3} L${cx - 4},${cy + 3} Z`
+      : `M${cx},${cy + 5} L${cx + 4},${cy - 3} L${cx - 4},${cy - 3} Z`;
+    return <path d={path} fill="#2563eb" />;
+  }
+  return <circle cx={cx} cy={cy} r={3.5} fill={trade.pnl >= 0 ? "#16a34a" : "#dc2626"} />;
+};
+
+const ChartTooltip = ({ active, payload }: any) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+
+  if (point.trade) {
+    const { trade, kind } = point as Marker;
+    return (
+      <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+        <p className="font-medium">#{trade.id} {trade.side} {trade.quantity.toFixed(2)} {trade.symbol}</p>
+        {kind === "ENTRY" ? (
+          <p>Entry {trade.entry.toFixed(5)} at {format(new Date(trade.entryTime), "MMM dd HH:mm")}</p>
+        ) : (
+          <>
+            <p>Exit {trade.exit.toFixed(5)} at {format(new Date(trade.exitTime), "MMM dd HH:mm")} ({trade.exitReason.replace(/_/g, " ")})</p>
+            <p className={trade.pnl >= 0 ? "text-green-600" : "text-red-600"}>P&L {formatCurrency(trade.pnl - trade.commission + (trade.swap ?? 0))}</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+      <p className="font-medium">{format(new Date(point.time), "MMM dd, yyyy HH:mm")}</p>
+      <p>Equity {formatCurrency(point.equity)}</p>
+      <p className="text-red-600">Drawdown {point.drawdown.toFixed(2)}%</p>
+    </div>
+  );
+};
+
+export default function EquityCurve({ backtestId }: EquityCurveProps) {
+  const { data: chart, isLoading, error } = useQuery<EquityChart>({
+    queryKey: [`/api/backtests/${backtestId}/equity`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-4">Loading equity curve...</p>;
+  }
+  if (error || !chart) {
+    return <p className="text-sm text-muted-foreground py-4">No trade log stored for this backtest</p>;
+  }
+
+  const points = chart.points.map(point => ({ ...point, time: new Date(point.timestamp).getTime() }));
+  const markers: Marker[] = chart.trades.flatMap(trade => [
+    { time: new Date(trade.entryTime).getTime(), value: equityAt(points, new Date(trade.entryTime).getTime()), trade, kind: "ENTRY" as const },
+    { time: new Date(trade.exitTime).getTime(), value: trade.balance, trade, kind: "EXIT" as const },
+  ]);
+
+  return (
+    <div className="space-y-4" data-testid={`equity-curve-${backtestId}`}>
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">Equity Curve</span>
+        <span className="text-muted-foreground">
+          {chart.trades.length} trades
+          {chart.points.length < chart.totalPoints && ` · ${chart.points.length} of ${chart.totalPoints} bars shown`}
+        </span>
+      </div>
+      <ResponsiveContainer width="100%" height={320}>
+        <ComposedChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time: number) => format(new Date(time), "MMM dd")}
+          />
+          <YAxis yAxisId="equity" domain={["auto", "auto"]} tickFormatter={(value: number) => value.toFixed(0)} />
+          <YAxis yAxisId="drawdown" orientation="right" reversed domain={[0, "auto"]} tickFormatter={(value: number) => `${value.toFixed(0)}%`} />
+          <Tooltip content={<ChartTooltip />} />
+          <Area yAxisId="drawdown" type="stepAfter" dataKey="drawdown" stroke="#ff4444" fill="#ff4444" fillOpacity={0.15} isAnimationActive={false} />
+          <Line yAxisId="equity" type="monotone" dataKey="equity" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Scatter yAxisId="equity" data={markers} dataKey="value" shape={<MarkerShape />} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="flex justify-between items-center text-sm">
+        <span className="font-medium">Trades</span>
+        <div className="flex space-x-3">
+          <a href={`/api/backtests/${backtestId}/trades?format=csv&download=true`} className="text-primary hover:underline" data-testid="link-download-trades-csv">
+            CSV
+          </a>
+          <a href={`/api/backtests/${backtestId}/trades?format=json&download=true`} className="text-primary hover:underline" data-testid="link-download-trades-json">
+            JSON
+          </a>
+        </div>
+      </div>
+      <ScrollArea className="h-64 rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-background">
+            <tr className="text-muted-foreground text-left">
+              <th className="p-2 font-normal">#</th>
+              <th className="p-2 font-normal">Symbol</th>
+              <th className="p-2 font-normal">Side</th>
+              <th className="p-2 font-normal text-right">Lots</th>
+              <th className="p-2 font-normal">Entry</th>
+              <th className="p-2 font-normal">Exit</th>
+              <th className="p-2 font-normal">Reason</th>
+              <th className="p-2 font-normal text-right">Commission</th>
+              <th className="p-2 font-normal text-right">Swap</th>
+              <th className="p-2 font-normal text-right">P&L</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {chart.trades.map(trade => (
+              <tr key={trade.id} className="border-t" data-testid={`backtest-trade-${trade.id}`}>
+                <td className="p-2">{trade.id}</td>
+                <td className="p-2">{trade.symbol}</td>
+                <td className="p-2">
+                  <Badge variant={trade.side === "BUY" ? "default" : "secondary"}>{trade.side}</Badge>
+                </td>
+                <td className="p-2 text-right">{trade.quantity.toFixed(2)}</td>
+                <td className="p-2">{format(new Date(trade.entryTime), "MMM dd HH:mm")} @ {trade.entry.toFixed(5)}</td>
+                <td className="p-2">{format(new Date(trade.exitTime), "MMM dd HH:mm")} @ {trade.exit.toFixed(5)}</td>
+                <td className="p-2">{trade.exitReason.replace(/_/g, " ")}</td>
+                <td className="p-2 text-right">{formatCurrency(trade.commission)}</td>
+                <td className="p-2 text-right">{formatCurrency(trade.swap ?? 0)}</td>
+                <td className={`p-2 text-right ${trade.pnl >= 0 ? "text-green-600" : "text-red-600"}`}>{formatCurrency(trade.pnl)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface Distribution {
+  mean: number;
+  min: number;
+  max: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+interface FanPoint {
+  step: number;
+  timestamp: string;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  actual: number;
+}
+
+interface MonteCarloResult {
+  trades: number;
+  initialBalance: number;
+  actual: { finalEquity: number; maxDrawdown: number };
+  finalEquity: Distribution;
+  maxDrawdown: Distribution;
+  ruin: {
+    threshold: number;
+    probability: number;
+    tradesToRuin: Distribution | null;
+    daysToRuin: Distribution | null;
+  };
+  challenge: {
+    firm: string;
+    profitTargetPercent: number;
+    maxDrawdownPercent: number;
+    dailyLossPercent: number;
+    days: number;
+    passProbability: number;
+    outcomes: Record<"PASSED" | "DAILY_LOSS" | "MAX_DRAWDOWN" | "TIME_LIMIT", number>;
+    daysToPass: Distribution | null;
+  };
+  equityFan: FanPoint[];
+  drawdownFan: FanPoint[];
+}
+
+interface MonteCarloPanelProps {
+  backtestId: string;
+}
+
+const PROP_FIRMS = ["FTMO", "MYFOREXFUNDS", "THE5ERS", "CUSTOM"];
+
+const defaultOptions = {
+  simulations: "1000",
+  method: "RESAMPLE",
+  skipProbability: "0.1",
+  slippagePips: "0.5",
+  ruinPercent: "50",
+  propFirm: "FTMO",
+  challengeDays: "30",
+};
+
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+// Bands from the outside in: 5th-95th, then 25th-75th percentile
+const FanChart = ({ points, format, reversed }: { points: FanPoint[]; format: (value: number) => string; reversed?: boolean }) => (
+  <ResponsiveContainer width="100%" height={260}>
+    <ComposedChart data={points}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey="step" type="number" domain={["dataMin", "dataMax"]} tickFormatter={(step: number) => `${step}`} />
+      <YAxis domain={["auto", "auto"]} reversed={reversed} tickFormatter={format} />
+      <Tooltip
+        labelFormatter={(step: number) => `After ${step} trades`}
+        formatter={(value: number | number[], name: string) => [
+          Array.isArray(value) ? `${format(value[0])} - ${format(value[1])}` : format(value),
+          name,
+        ]}
+      />
+      <Area type="monotone" dataKey={(point: FanPoint) => [point.p5, point.p95]} name="5th-95th" stroke="none" fill="#2563eb" fillOpacity={0.15} isAnimationActive={false} />
+      <Area type="monotone" dataKey={(point: FanPoint) => [point.p25, point.p75]} name="25th-75th" stroke="none" fill="#2563eb" fillOpacity={0.3} isAnimationActive={false} />
+      <Line type="monotone" dataKey="p50" name="Median" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+      <Line type="monotone" dataKey="actual" name="Backtest" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+    </ComposedChart>
+  </ResponsiveContainer>
+);
+
+const Stat = ({ label, value, detail, testId }: { label: string; value: string; detail?: string; testId: string }) => (
+  <div className="text-center p-3 rounded-md bg-muted/50">
+    <p className="text-lg font-bold font-mono" data-testid={testId}>{value}</p>
+    <p className="text-xs text-muted-foreground">{label}</p>
+    {detail && <p className="text-xs text-muted-foreground mt-1">{detail}</p>}
+  </div>
+);
+
+export default function MonteCarloPanel({ backtestId }: MonteCarloPanelProps) {
+  const [options, setOptions] = useState(defaultOptions);
+  const [applied, setApplied] = useState(defaultOptions);
+
+  const { data: result, isFetching, error } = useQuery<MonteCarloResult>({
+    queryKey: [`/api/backtests/${backtestId}/monte-carlo?${new URLSearchParams(applied)}`],
+    retry: false,
+  });
+
+  const setOption = (key: keyof typeof defaultOptions, value: string) => setOptions(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="space-y-4" data-testid={`monte-carlo-${backtestId}`}>
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">Monte Carlo Robustness</span>
+        {result && (
+          <span className="text-muted-foreground">
+            {applied.simulations} paths from {result.trades} trades
+          </span>
+        )}
+      </div>
+
+      <form
+        className="grid grid-cols-4 gap-3 items-end"
+        onSubmit={(event) => {
+          event.preventDefault();
+          setApplied(options);
+        }}
+      >
+        <div className="space-y-1">
+          <Label className="text-xs">Method</Label>
+          <Select value={options.method} onValueChange={(value) => setOption("method", value)}>
+            <SelectTrigger data-testid="select-monte-carlo-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="RESAMPLE">Resample</SelectItem>
+              <SelectItem value="SHUFFLE">Shuffle</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Simulations</Label>
+          <Input type="number" min="100" max="10000" step="100" value={options.simulations} onChange={(e) => setOption("simulations", e.target.value)} data-testid="input-monte-carlo-simulations" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Skip probability</Label>
+          <Input type="number" min="0" max="0.9" step="0.05" value={options.skipProbability} onChange={(e) => setOption("skipProbability", e.target.value)} data-testid="input-monte-carlo-skip" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Extra slippage (pips)</Label>
+          <Input type="number" min="0" step="0.1" value={options.slippagePips} onChange={(e) => setOption("slippagePips", e.target.value)} data-testid="input-monte-carlo-slippage" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Ruin at loss %</Label>
+          <Input type="number" min="1" max="100" value={options.ruinPercent} onChange={(e) => setOption("ruinPercent", e.target.value)} data-testid="input-monte-carlo-ruin" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Prop firm</Label>
+          <Select value={options.propFirm} onValueChange={(value) => setOption("propFirm", value)}>
+            <SelectTrigger data-testid="select-monte-carlo-firm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROP_FIRMS.map(firm => (
+                <SelectItem key={firm} value={firm}>{firm}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Challenge days</Label>
+          <Input type="number" min="1" value={options.challengeDays} onChange={(e) => setOption("challengeDays", e.target.value)} data-testid="input-monte-carlo-days" />
+        </div>
+        <Button type="submit" variant="outline" disabled={isFetching} data-testid="button-run-monte-carlo">
+          {isFetching ? "Running..." : "Run"}
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{(error as Error).message}</p>}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat
+              label="Final Equity (median)"
+              value={formatCurrency(result.finalEquity.p50)}
+              detail={`5th ${formatCurrency(result.finalEquity.p5)} · 95th ${formatCurrency(result.finalEquity.p95)}`}
+              testId="monte-carlo-final-equity"
+            />
+            <Stat
+              label="Max Drawdown (median)"
+              value={`${result.maxDrawdown.p50.toFixed(1)}%`}
+              detail={`95th ${result.maxDrawdown.p95.toFixed(1)}% · backtest ${result.actual.maxDrawdown.toFixed(1)}%`}
+              testId="monte-carlo-max-drawdown"
+            />
+            <Stat
+              label="Risk of Ruin"
+              value={`${result.ruin.probability.toFixed(1)}%`}
+              detail={result.ruin.daysToRuin ? `Median ${result.ruin.daysToRuin.p50.toFixed(0)} days, ${result.ruin.tradesToRuin!.p50.toFixed(0)} trades` : `Below ${formatCurrency(result.ruin.threshold)}`}
+              testId="monte-carlo-ruin"
+            />
+            <Stat
+              label={`${result.challenge.firm} Pass Probability`}
+              value={`${result.challenge.passProbability.toFixed(1)}%`}
+              detail={`Daily loss ${result.challenge.outcomes.DAILY_LOSS.toFixed(0)}% · drawdown ${result.challenge.outcomes.MAX_DRAWDOWN.toFixed(0)}% · out of time ${result.challenge.outcomes.TIME_LIMIT.toFixed(0)}%`}
+              testId="monte-carlo-pass-probability"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Challenge: {result.challenge.profitTargetPercent.toFixed(0)}% target within {result.challenge.days} days,
+            {" "}{result.challenge.dailyLossPercent.toFixed(0)}% daily loss, {result.challenge.maxDrawdownPercent.toFixed(0)}% max drawdown
+            {result.challenge.daysToPass && ` · median pass after ${result.challenge.daysToPass.p50.toFixed(0)} days`}
+          </p>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Equity</p>
+            <FanChart points={result.equityFan} format={formatCurrency} />
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-2">Drawdown</p>
+            <FanChart points={result.drawdownFan} format={(value) => `${value.toFixed(1)}%`} reversed />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
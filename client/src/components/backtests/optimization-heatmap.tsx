@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { format } from "date-fns";
+
+interface OptimizationRun {
+  id: string;
+  status: string;
+  parameters: Record<string, number>;
+  window: number;
+  segment: "IN_SAMPLE" | "OUT_OF_SAMPLE";
+  score: number | null;
+  metrics: Record<string, number> | null;
+}
+
+interface WalkForwardWindow {
+  index: number;
+  outOfSample: { from: string; to: string };
+  bestParameters: Record<string, number> | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+}
+
+interface OptimizationResults {
+  job: { id: string; status: string; metrics: any };
+  parameterNames: string[];
+  progress: { completed: number; total: number } | null;
+  runs: OptimizationRun[];
+}
+
+interface OptimizationHeatmapProps {
+  backtestId: string;
+}
+
+const NONE = "__none";
+
+const formatScore = (value: number | null | undefined) => value === null || value === undefined ? "--" : value.toFixed(2);
+
+// Red for the worst score in view, green for the best
+const scoreColor = (score: number, min: number, max: number) => {
+  const ratio = max === min ? 1 : (score - min) / (max - min);
+  return `hsl(${Math.round(ratio * 120)}, 70%, 45%)`;
+};
+
+export default function OptimizationHeatmap({ backtestId }: OptimizationHeatmapProps) {
+  const [xParam, setXParam] = useState<string | null>(null);
+  const [yParam, setYParam] = useState<string | null>(null);
+  const [windowIndex, setWindowIndex] = useState("0");
+
+  const { data: results, isLoading } = useQuery<OptimizationResults>({
+    queryKey: [`/api/backtests/${backtestId}/optimization`],
+    refetchInterval: query => query.state.data?.progress ? 3000 : false,
+  });
+
+  if (isLoading || !results) {
+    return <p className="text-sm text-muted-foreground py-4">Loading optimization results...</p>;
+  }
+
+  const { parameterNames, progress } = results;
+  const summary = results.job.metrics?.optimization;
+  const walkForward: WalkForwardWindow[] = summary?.walkForward?.windows ?? [];
+  const x = xParam ?? parameterNames[0];
+  const y = yParam ?? (parameterNames.length > 1 ? parameterNames[1] : NONE);
+
+  // In-sample runs of the selected window; other swept parameters collapse to their best score
+  const runs = results.runs.filter(run => run.segment === "IN_SAMPLE" && run.window === Number(windowIndex));
+  const xValues = Array.from(new Set(runs.map(run => run.parameters[x]))).sort((a, b) => a - b);
+  const yValues = y === NONE ? [null] : Array.from(new Set(runs.map(run => run.parameters[y]))).sort((a, b) => a - b);
+  const cells = new Map<string, number>();
+  for (const run of runs) {
+    if (run.score === null) continue;
+    const key = `${run.parameters[x]}|${y === NONE ? "" : run.parameters[y]}`;
+    cells.set(key, Math.max(cells.get(key) ?? -Infinity, run.score));
+  }
+  const scores = Array.from(cells.values());
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  return (
+    <div className="space-y-4" data-testid={`optimization-heatmap-${backtestId}`}>
+      {progress && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>Runs completed</span>
+            <span data-testid="text-optimization-progress">{progress.completed} / {progress.total}</span>
+          </div>
+          <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-muted-foreground">Columns</span>
+        <Select value={x} onValueChange={setXParam}>
+          <SelectTrigger className="w-40" data-testid="select-heatmap-x">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {parameterNames.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">Rows</span>
+        <Select value={y} onValueChange={setYParam}>
+          <SelectTrigger className="w-40" data-testid="select-heatmap-y">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            {parameterNames.filter(name => name !== x).map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {walkForward.length > 0 && (
+          <>
+            <span className="text-muted-foreground">Window</span>
+            <Select value={windowIndex} onValueChange={setWindowIndex}>
+              <SelectTrigger className="w-32" data-testid="select-heatmap-window">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {walkForward.map(window => (
+                  <SelectItem key={window.index} value={String(window.index)}>Window {window.index + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        {summary && (
+          <span className="ml-auto text-muted-foreground">
+            Objective <span className="font-medium text-foreground">{summary.objective.replace(/_/g, " ")}</span>
+          </span>
+        )}
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No completed runs yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs font-mono border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="px-2 text-left text-muted-foreground font-normal">{y === NONE ? "" : `${y} \\ ${x}`}</th>
+                {xValues.map(value => (
+                  <th key={value} className="px-2 text-muted-foreground font-normal">{value}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {yValues.map(yValue => (
+                <tr key={yValue ?? NONE}>
+                  <th className="px-2 text-left text-muted-foreground font-normal">{yValue ?? x}</th>
+                  {xValues.map(xValue => {
+                    const score = cells.get(`${xValue}|${yValue ?? ""}`);
+                    return (
+                      <td
+                        key={xValue}
+                        className="min-w-[56px] px-2 py-2 text-center rounded text-white"
+                        style={{ backgroundColor: score === undefined ? "hsl(var(--muted))" : scoreColor(score, min, max) }}
+                        title={`${x}=${xValue}${yValue === null ? "" : `, ${y}=${yValue}`}`}
+                        data-testid={`heatmap-cell-${xValue}-${yValue ?? "all"}`}
+                      >
+                        {score === undefined ? "--" : formatScore(score)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {summary?.bestParameters && (
+        <p className="text-sm" data-testid="text-best-parameters">
+          <span className="text-muted-foreground">Best parameters: </span>
+          <span className="font-mono">
+            {Object.entries(summary.bestParameters).map(([name, value]) => `${name}=${value}`).join(", ")}
+          </span>
+          <span className="text-muted-foreground"> (score {formatScore(summary.bestScore)})</span>
+        </p>
+      )}
+
+      {walkForward.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">Walk-forward</span>
+            <span className="text-muted-foreground" data-testid="text-walk-forward-efficiency">
+              Efficiency {summary.walkForward.efficiency === null ? "--" : `${(summary.walkForward.efficiency * 100).toFixed(0)}%`}
+            </span>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-muted-foreground text-left">
+                <th className="font-normal">Window</th>
+                <th className="font-normal">Out-of-sample</th>
+                <th className="font-normal">Parameters</th>
+                <th className="font-normal text-right">IS score</th>
+                <th className="font-normal text-right">OOS score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {walkForward.map(window => (
+                <tr key={window.index} data-testid={`walk-forward-window-${window.index}`}>
+                  <td>{window.index + 1}</td>
+                  <td>{format(new Date(window.outOfSample.from), "MMM dd")} - {format(new Date(window.outOfSample.to), "MMM dd, yyyy")}</td>
+                  <td className="font-mono text-xs">
+                    {window.bestParameters ? Object.entries(window.bestParameters).map(([name, value]) => `${name}=${value}`).join(", ") : "--"}
+                  </td>
+                  <td className="text-right font-mono">{formatScore(window.inSampleScore)}</td>
+                  <td className="text-right font-mono">{formatScore(window.outOfSampleScore)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
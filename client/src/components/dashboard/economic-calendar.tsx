@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Link } from "wouter";
+
+interface EconomicEvent {
+  id: string;
+  title: string;
+  currency: string;
+  impact: "LOW" | "MEDIUM" | "HIGH";
+  eventTime: string;
+  symbols: string[];
+  forecast: string | null;
+  previous: string | null;
+}
+
+const impactVariant: Record<EconomicEvent["impact"], "default" | "secondary" | "destructive" | "outline"> = {
+  HIGH: "destructive",
+  MEDIUM: "secondary",
+  LOW: "outline",
+};
+
+export default function EconomicCalendar() {
+  const { data: events } = useQuery<EconomicEvent[]>({
+    queryKey: ["/api/calendar/events?hours=48&impact=MEDIUM&limit=8"],
+    refetchInterval: 60000,
+  });
+
+  const formatTimeUntil = (dateString: string) => {
+    const diffMins = Math.round((new Date(dateString).getTime() - Date.now()) / 60000);
+    if (diffMins <= 0) return "Now";
+    if (diffMins < 60) return `in ${diffMins}m`;
+    if (diffMins < 1440) return `in ${Math.floor(diffMins / 60)}h ${diffMins % 60}m`;
+    return new Date(dateString).toLocaleDateString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Upcoming News</CardTitle>
+          <Link href="/risk">
+            <Button variant="ghost" size="sm" data-testid="button-view-calendar">
+              View Blackouts
+            </Button>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {events?.length ? (
+          <div className="space-y-3">
+            {events.map(event => (
+              <div key={event.id} className="flex items-center gap-3" data-testid={`economic-event-${event.id}`}>
+                <Badge variant={impactVariant[event.impact]} className="w-16 justify-center">{event.impact}</Badge>
+                <span className="font-mono text-sm w-10">{event.currency}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{event.title}</p>
+                  {(event.forecast || event.previous) && (
+                    <p className="text-xs text-muted-foreground">
+                      Forecast {event.forecast ?? "–"} · Previous {event.previous ?? "–"}
+                    </p>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{formatTimeUntil(event.eventTime)}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center text-sm text-muted-foreground py-4">
+            No medium or high impact releases in the next 48 hours
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import {
   DropdownMenu,
@@ -15,6 +16,15 @@ import { Link } from "wouter";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Menu } from "lucide-react";
 
+interface EmergencyStopStatus {
+  active: boolean;
+  halt: {
+    reason: string;
+    triggeredBy: string;
+    triggeredAt: string;
+  } | null;
+}
+
 interface HeaderProps {
   title: string;
   description: string;
@@ -23,14 +33,20 @@ interface HeaderProps {
 export default function Header({ title, description }: HeaderProps) {
   const { toast } = useToast();
   const { user, logout } = useAuth();
+  const { data: emergencyStop } = useQuery<EmergencyStopStatus>({
+    queryKey: ["/api/risk/emergency-stop"],
+  });
 
   const handleEmergencyStop = async () => {
     if (!confirm('Are you sure you want to trigger emergency stop? This will close all positions and halt trading.')) {
       return;
     }
 
+    const reason = prompt('Reason for the emergency stop (optional):') || undefined;
+
     try {
-      await apiRequest("POST", "/api/risk/emergency-stop");
+      await apiRequest("POST", "/api/risk/emergency-stop", { reason });
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/emergency-stop"] });
       toast({
         title: "Emergency Stop Activated",
         description: "All trading has been halted and positions are being closed.",
@@ -45,6 +61,28 @@ export default function Header({ title, description }: HeaderProps) {
     }
   };
 
+  const handleResumeTrading = async () => {
+    const reason = prompt('Why is it safe to resume trading? A reason is required.');
+    if (!reason?.trim()) {
+      return;
+    }
+
+    try {
+      await apiRequest("POST", "/api/risk/resume", { reason });
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/emergency-stop"] });
+      toast({
+        title: "Trading Resumed",
+        description: "The emergency stop was lifted. Strategies stay paused until started again.",
+      });
+    } catch (error) {
+      toast({
+        title: "Resume Failed",
+        description: "Failed to resume trading. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-14 items-center">
@@ -110,13 +148,31 @@ export default function Header({ title, description }: HeaderProps) {
         </Sheet>
         <div className="flex flex-1 items-center justify-end space-x-4">
           <nav className="flex items-center space-x-4">
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={handleEmergencyStop}
-            >
-              Emergency Stop
-            </Button>
+            {emergencyStop?.active ? (
+              <>
+                <span className="text-sm font-medium text-destructive" data-testid="text-emergency-stop-active">
+                  Trading halted{emergencyStop.halt ? `: ${emergencyStop.halt.reason}` : ""}
+                </span>
+                {user?.role === "admin" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleResumeTrading}
+                    data-testid="button-resume-trading"
+                  >
+                    Resume Trading
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={handleEmergencyStop}
+              >
+                Emergency Stop
+              </Button>
+            )}
             
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
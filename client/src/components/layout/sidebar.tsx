@@ -16,6 +16,7 @@ import {
   X,
   LogOut,
   User,
+  Database,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -94,6 +95,16 @@ const Sidebar = () => {
         </div>
       </Link>
 
+      <Link href="/market-data">
+        <div className={cn(
+          "flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors cursor-pointer",
+          location === "/market-data" ? "bg-primary text-primary-foreground" : "hover:bg-muted text-muted-foreground hover:text-foreground"
+        )}>
+          <Database className="h-5 w-5" />
+          <span>Market Data</span>
+        </div>
+      </Link>
+
       <Link href="/analytics">
         <div className={cn(
           "flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors cursor-pointer",
@@ -99,6 +99,7 @@ export function useWebSocket(url: string = '/ws') {
       case "POSITION_UPDATED":
         // Invalidate positions and dashboard queries
         queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/risk/currency-exposure"] });
         queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
         break;
 
@@ -110,9 +111,35 @@ export function useWebSocket(url: string = '/ws') {
         break;
 
       case "RISK_EVENT":
+      case "RISK_BREACH":
         // Invalidate risk data
         queryClient.invalidateQueries({ queryKey: ["/api/risk/status"] });
         queryClient.invalidateQueries({ queryKey: ["/api/risk/events"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/risk/compliance"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/risk/breaches"] });
+        break;
+
+      case "RISK_RULE_UPDATED":
+        queryClient.invalidateQueries({ queryKey: ["/api/risk/rules"] });
+        break;
+
+      case "RISK_LIMITS_UPDATED":
+        queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/risk/limits/") });
+        queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/risk/status") });
+        break;
+
+      case "BACKTEST_UPDATE":
+        queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+        break;
+
+      case "COST_PROFILE_UPDATED":
+        queryClient.invalidateQueries({ queryKey: ["/api/execution-costs/profiles"] });
+        break;
+
+      case "CALENDAR_IMPORTED":
+        // Calendar queries carry their filters in the key, so match on the prefix
+        queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/calendar/") });
+        queryClient.invalidateQueries({ queryKey: ["/api/risk/sessions"] });
         break;
 
       case "ALERT_CREATED":
@@ -127,6 +154,7 @@ export function useWebSocket(url: string = '/ws') {
         break;
 
       case "EMERGENCY_STOP":
+      case "TRADING_RESUMED":
         // Force refresh all data
         queryClient.invalidateQueries();
         break;
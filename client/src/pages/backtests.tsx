@@ -11,6 +11,12 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import OptimizationHeatmap from "@/components/backtests/optimization-heatmap";
+import EquityCurve from "@/components/backtests/equity-curve";
+import MonteCarloPanel from "@/components/backtests/monte-carlo";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertBacktestSchema, type Backtest, type Strategy } from "@shared/schema";
@@ -21,12 +27,50 @@ import { z } from "zod";
 
 const backtestFormSchema = insertBacktestSchema.extend({
   parametersJson: z.string().min(1, "Parameters are required"),
+  costProfile: z.string().min(1, "Cost profile is required"),
 });
 
 type BacktestFormData = z.infer<typeof backtestFormSchema>;
 
+interface CostProfile {
+  name: string;
+  description: string;
+}
+
+// Strategy parameters the optimizer can sweep, with a sensible default range for each
+const SWEEP_PARAMETERS = [
+  { key: "donchianPeriod", label: "Donchian Period", min: 10, max: 40, step: 5 },
+  { key: "atrPeriod", label: "ATR Period", min: 10, max: 20, step: 2 },
+  { key: "riskPercent", label: "Risk %", min: 0.5, max: 2, step: 0.5 },
+] as const;
+
+type SweepRange = { enabled: boolean; min: string; max: string; step: string };
+
+const defaultOptimizeForm = () => ({
+  name: "",
+  strategyId: "",
+  startDate: format(new Date(Date.now() - 365 * 24 * 60 * 60 * 1000), "yyyy-MM-dd"),
+  endDate: format(new Date(), "yyyy-MM-dd"),
+  method: "GRID",
+  samples: "50",
+  objective: "SHARPE",
+  costProfile: "STANDARD",
+  ranges: Object.fromEntries(SWEEP_PARAMETERS.map(parameter => [parameter.key, {
+    enabled: parameter.key !== "riskPercent",
+    min: String(parameter.min),
+    max: String(parameter.max),
+    step: String(parameter.step),
+  }])) as Record<string, SweepRange>,
+  walkForward: false,
+  inSampleDays: "90",
+  outOfSampleDays: "30",
+  anchored: false,
+});
+
 export default function Backtests() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isOptimizeDialogOpen, setIsOptimizeDialogOpen] = useState(false);
+  const [optimizeForm, setOptimizeForm] = useState(defaultOptimizeForm);
   const [selectedBacktest, setSelectedBacktest] = useState<any>(null);
   const { toast } = useToast();
 
@@ -38,13 +82,18 @@ export default function Backtests() {
     queryKey: ["/api/strategies"],
   });
 
+  const { data: costProfiles } = useQuery<CostProfile[]>({
+    queryKey: ["/api/execution-costs/profiles"],
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: BacktestFormData) => {
       const backtestData = {
         ...data,
-        parameters: JSON.parse(data.parametersJson),
+        parameters: { ...JSON.parse(data.parametersJson), costProfile: data.costProfile },
       };
       delete (backtestData as any).parametersJson;
+      delete (backtestData as any).costProfile;
       
       return apiRequest("POST", "/api/backtests", backtestData);
     },
@@ -58,6 +107,57 @@ export default function Backtests() {
     },
   });
 
+  const optimizeMutation = useMutation({
+    mutationFn: async () => {
+      const parameters = Object.fromEntries(
+        Object.entries(optimizeForm.ranges)
+          .filter(([, range]) => range.enabled)
+          .map(([key, range]) => [key, { min: Number(range.min), max: Number(range.max), step: Number(range.step) }])
+      );
+      return apiRequest("POST", "/api/backtests/optimize", {
+        name: optimizeForm.name,
+        strategyId: optimizeForm.strategyId,
+        startDate: optimizeForm.startDate,
+        endDate: optimizeForm.endDate,
+        parameters,
+        method: optimizeForm.method,
+        samples: Number(optimizeForm.samples),
+        objective: optimizeForm.objective,
+        backtestParameters: { costProfile: optimizeForm.costProfile },
+        walkForward: optimizeForm.walkForward ? {
+          inSampleDays: Number(optimizeForm.inSampleDays),
+          outOfSampleDays: Number(optimizeForm.outOfSampleDays),
+          anchored: optimizeForm.anchored,
+        } : undefined,
+      });
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+      setIsOptimizeDialogOpen(false);
+      setOptimizeForm(defaultOptimizeForm());
+      setSelectedBacktest(data);
+      toast({ title: "Optimization started", description: `${data.totalRuns} runs queued` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start optimization", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("POST", `/api/backtests/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+      toast({ title: "Optimization cancelling" });
+    },
+    onError: () => {
+      toast({ title: "Failed to cancel optimization", variant: "destructive" });
+    },
+  });
+
+  const updateRange = (key: string, changes: Partial<SweepRange>) => {
+    setOptimizeForm(current => ({ ...current, ranges: { ...current.ranges, [key]: { ...current.ranges[key], ...changes } } }));
+  };
+
   const form = useForm<BacktestFormData>({
     resolver: zodResolver(backtestFormSchema),
     defaultValues: {
@@ -66,10 +166,9 @@ export default function Backtests() {
       startDate: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000), // 1 year ago
       endDate: new Date(),
       parametersJson: JSON.stringify({
-        initialBalance: 100000,
-        commission: 0.00002,
-        spread: 0.0001
+        initialBalance: 100000
       }, null, 2),
+      costProfile: "STANDARD",
     },
   });
 
@@ -111,6 +210,210 @@ export default function Backtests() {
             <p className="text-muted-foreground">Test strategies against historical data</p>
           </div>
           
+          <div className="flex space-x-2">
+          <Dialog open={isOptimizeDialogOpen} onOpenChange={setIsOptimizeDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" data-testid="button-optimize-backtest">
+                <i className="fas fa-sliders-h mr-2"></i>
+                Optimize
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Optimize Strategy Parameters</DialogTitle>
+              </DialogHeader>
+              <form
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  optimizeMutation.mutate();
+                }}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Job Name</Label>
+                    <Input
+                      placeholder="e.g., Donchian sweep"
+                      value={optimizeForm.name}
+                      onChange={(e) => setOptimizeForm({ ...optimizeForm, name: e.target.value })}
+                      data-testid="input-optimize-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Strategy</Label>
+                    <Select value={optimizeForm.strategyId} onValueChange={(value) => setOptimizeForm({ ...optimizeForm, strategyId: value })}>
+                      <SelectTrigger data-testid="select-optimize-strategy">
+                        <SelectValue placeholder="Select strategy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {strategies?.map((strategy: any) => (
+                          <SelectItem key={strategy.id} value={strategy.id}>
+                            {strategy.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Start Date</Label>
+                    <Input
+                      type="date"
+                      value={optimizeForm.startDate}
+                      onChange={(e) => setOptimizeForm({ ...optimizeForm, startDate: e.target.value })}
+                      data-testid="input-optimize-start"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>End Date</Label>
+                    <Input
+                      type="date"
+                      value={optimizeForm.endDate}
+                      onChange={(e) => setOptimizeForm({ ...optimizeForm, endDate: e.target.value })}
+                      data-testid="input-optimize-end"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Parameter Ranges</Label>
+                  {SWEEP_PARAMETERS.map(parameter => {
+                    const range = optimizeForm.ranges[parameter.key];
+                    return (
+                      <div key={parameter.key} className="grid grid-cols-[auto_1fr_repeat(3,5rem)] items-center gap-2">
+                        <Switch
+                          checked={range.enabled}
+                          onCheckedChange={(checked) => updateRange(parameter.key, { enabled: checked })}
+                          data-testid={`switch-sweep-${parameter.key}`}
+                        />
+                        <span className="text-sm">{parameter.label}</span>
+                        {(["min", "max", "step"] as const).map(field => (
+                          <Input
+                            key={field}
+                            type="number"
+                            step="any"
+                            placeholder={field}
+                            disabled={!range.enabled}
+                            value={range[field]}
+                            onChange={(e) => updateRange(parameter.key, { [field]: e.target.value })}
+                            data-testid={`input-sweep-${parameter.key}-${field}`}
+                          />
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label>Search</Label>
+                    <Select value={optimizeForm.method} onValueChange={(value) => setOptimizeForm({ ...optimizeForm, method: value })}>
+                      <SelectTrigger data-testid="select-optimize-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="GRID">Grid</SelectItem>
+                        <SelectItem value="RANDOM">Random</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Samples</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      disabled={optimizeForm.method !== "RANDOM"}
+                      value={optimizeForm.samples}
+                      onChange={(e) => setOptimizeForm({ ...optimizeForm, samples: e.target.value })}
+                      data-testid="input-optimize-samples"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Objective</Label>
+                    <Select value={optimizeForm.objective} onValueChange={(value) => setOptimizeForm({ ...optimizeForm, objective: value })}>
+                      <SelectTrigger data-testid="select-optimize-objective">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="SHARPE">Sharpe Ratio</SelectItem>
+                        <SelectItem value="PROFIT_FACTOR">Profit Factor</SelectItem>
+                        <SelectItem value="PROP_PASS_RATE">Prop Pass Rate</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Costs</Label>
+                    <Select value={optimizeForm.costProfile} onValueChange={(value) => setOptimizeForm({ ...optimizeForm, costProfile: value })}>
+                      <SelectTrigger data-testid="select-optimize-cost-profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {costProfiles?.map(profile => (
+                          <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={optimizeForm.walkForward}
+                      onCheckedChange={(checked) => setOptimizeForm({ ...optimizeForm, walkForward: checked })}
+                      data-testid="switch-walk-forward"
+                    />
+                    <Label>Walk-forward</Label>
+                  </div>
+                  {optimizeForm.walkForward && (
+                    <div className="grid grid-cols-3 gap-4 items-end">
+                      <div className="space-y-2">
+                        <Label>In-sample days</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={optimizeForm.inSampleDays}
+                          onChange={(e) => setOptimizeForm({ ...optimizeForm, inSampleDays: e.target.value })}
+                          data-testid="input-in-sample-days"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Out-of-sample days</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={optimizeForm.outOfSampleDays}
+                          onChange={(e) => setOptimizeForm({ ...optimizeForm, outOfSampleDays: e.target.value })}
+                          data-testid="input-out-of-sample-days"
+                        />
+                      </div>
+                      <div className="flex items-center space-x-2 pb-2">
+                        <Switch
+                          checked={optimizeForm.anchored}
+                          onCheckedChange={(checked) => setOptimizeForm({ ...optimizeForm, anchored: checked })}
+                          data-testid="switch-anchored"
+                        />
+                        <Label>Anchored</Label>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex justify-between">
+                  <Button type="button" variant="outline" onClick={() => setIsOptimizeDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={optimizeMutation.isPending || !optimizeForm.name || !optimizeForm.strategyId}
+                    data-testid="button-submit-optimize"
+                  >
+                    {optimizeMutation.isPending ? "Starting..." : "Start Optimization"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button data-testid="button-create-backtest">
@@ -235,6 +538,31 @@ export default function Backtests() {
                     />
                   </div>
                   
+                  <FormField
+                    control={form.control}
+                    name="costProfile"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Execution Costs</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-cost-profile">
+                              <SelectValue placeholder="Select cost profile" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {costProfiles?.map(profile => (
+                              <SelectItem key={profile.name} value={profile.name}>
+                                {profile.name}{profile.description && ` - ${profile.description}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="parametersJson"
@@ -266,6 +594,7 @@ export default function Backtests() {
               </Form>
             </DialogContent>
           </Dialog>
+          </div>
         </div>
 
         {/* Backtest Results */}
@@ -278,6 +607,12 @@ export default function Backtests() {
                     <div className="flex items-center space-x-3">
                       <CardTitle data-testid={`backtest-name-${index}`}>{backtest.name}</CardTitle>
                       {getStatusBadge(backtest.status)}
+                      {backtest.kind === "OPTIMIZATION" && (
+                        <Badge variant="outline" data-testid={`backtest-kind-${index}`}>Optimization</Badge>
+                      )}
+                      {backtest.parameters?.costProfile && (
+                        <Badge variant="outline" data-testid={`backtest-cost-profile-${index}`}>{backtest.parameters.costProfile} costs</Badge>
+                      )}
                     </div>
                     <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                       <span data-testid={`backtest-dates-${index}`}>
@@ -292,21 +627,48 @@ export default function Backtests() {
                     <Button 
                       variant="outline" 
                       size="sm"
-                      onClick={() => setSelectedBacktest(backtest)}
+                      onClick={() => setSelectedBacktest(selectedBacktest?.id === backtest.id ? null : backtest)}
                       data-testid={`button-view-backtest-${index}`}
                     >
                       <i className="fas fa-eye mr-2"></i>
-                      View Details
+                      {selectedBacktest?.id === backtest.id ? "Hide Details" : "View Details"}
                     </Button>
-                    {backtest.status === "COMPLETED" && (
-                      <Button 
-                        variant="ghost" 
+                    {backtest.kind === "OPTIMIZATION" && backtest.status === "RUNNING" && (
+                      <Button
+                        variant="outline"
                         size="sm"
-                        data-testid={`button-download-backtest-${index}`}
+                        onClick={() => cancelMutation.mutate(backtest.id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-optimization-${index}`}
                       >
-                        <i className="fas fa-download"></i>
+                        <i className="fas fa-stop mr-2"></i>
+                        Cancel
                       </Button>
                     )}
+                    {backtest.status === "COMPLETED" && backtest.artifactUri && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            data-testid={`button-download-backtest-${index}`}
+                          >
+                            <i className="fas fa-download"></i>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <a href={`/api/backtests/${backtest.id}/trades?format=csv&download=true`}>Trades (CSV)</a>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <a href={`/api/backtests/${backtest.id}/trades?format=json&download=true`}>Trades (JSON)</a>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <a href={`/api/backtests/${backtest.id}/artifact`}>Full results (JSON)</a>
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </div>
                 </div>
               </CardHeader>
@@ -355,12 +717,33 @@ export default function Backtests() {
                         ${formatMetric(backtest.metrics.avgTrade)}
                       </p>
                     </div>
+                    {backtest.metrics.sortinoRatio !== undefined && (
+                      <div className="col-span-full grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4 border-t pt-4 text-sm">
+                        {[
+                          { label: "CAGR", value: formatMetric(backtest.metrics.cagr, "%"), testId: "cagr" },
+                          { label: "Sortino", value: formatMetric(backtest.metrics.sortinoRatio), testId: "sortino" },
+                          { label: "MAR", value: formatMetric(backtest.metrics.marRatio), testId: "mar" },
+                          { label: "Recovery Factor", value: formatMetric(backtest.metrics.recoveryFactor), testId: "recovery-factor" },
+                          { label: "Ulcer Index", value: formatMetric(backtest.metrics.ulcerIndex), testId: "ulcer-index" },
+                          { label: "Exposure", value: formatMetric(backtest.metrics.exposure, "%", 1), testId: "exposure" },
+                          { label: "Expectancy", value: `$${formatMetric(backtest.metrics.expectancy)}`, testId: "expectancy" },
+                          { label: "Max DD Duration", value: formatMetric(backtest.metrics.maxDrawdownDuration, "d", 1), testId: "drawdown-duration" },
+                        ].map(metric => (
+                          <div key={metric.testId} className="text-center">
+                            <p className="text-muted-foreground">{metric.label}</p>
+                            <p className="font-semibold font-mono" data-testid={`backtest-${metric.testId}-${index}`}>{metric.value}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ) : backtest.status === "RUNNING" ? (
                   <div className="flex items-center justify-center py-8">
                     <div className="text-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-                      <p className="text-muted-foreground">Backtest in progress...</p>
+                      <p className="text-muted-foreground">
+                        {backtest.kind === "OPTIMIZATION" ? "Optimization in progress..." : "Backtest in progress..."}
+                      </p>
                     </div>
                   </div>
                 ) : backtest.status === "FAILED" ? (
@@ -370,6 +753,13 @@ export default function Backtests() {
                       <p className="text-destructive">Backtest failed to complete</p>
                     </div>
                   </div>
+                ) : backtest.status === "CANCELLED" ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="text-center">
+                      <i className="fas fa-ban text-muted-foreground text-4xl mb-4"></i>
+                      <p className="text-muted-foreground">Cancelled before all runs completed</p>
+                    </div>
+                  </div>
                 ) : (
                   <div className="flex items-center justify-center py-8">
                     <div className="text-center">
@@ -378,6 +768,21 @@ export default function Backtests() {
                     </div>
                   </div>
                 )}
+                {backtest.kind === "OPTIMIZATION" && selectedBacktest?.id === backtest.id && (
+                  <div className="mt-6 border-t pt-4">
+                    <OptimizationHeatmap backtestId={backtest.id} />
+                  </div>
+                )}
+                {backtest.kind !== "OPTIMIZATION" && backtest.status === "COMPLETED" && selectedBacktest?.id === backtest.id && (
+                  <div className="mt-6 border-t pt-4">
+                    <EquityCurve backtestId={backtest.id} />
+                  </div>
+                )}
+                {backtest.kind !== "OPTIMIZATION" && backtest.status === "COMPLETED" && backtest.artifactUri && selectedBacktest?.id === backtest.id && (
+                  <div className="mt-6 border-t pt-4">
+                    <MonteCarloPanel backtestId={backtest.id} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           )) : (
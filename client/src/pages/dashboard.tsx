@@ -10,6 +10,7 @@ import OpenPositions from "@/components/dashboard/open-positions";
 import SystemHealth from "@/components/dashboard/system-health";
 import RecentAlerts from "@/components/dashboard/recent-alerts";
 import { AITradingStatus } from "@/components/dashboard/ai-trading-status";
+import EconomicCalendar from "@/components/dashboard/economic-calendar";
 
 // Define the dashboard data interface
 interface DashboardData {
@@ -107,9 +108,10 @@ export default function Dashboard() {
         </div>
 
         {/* Bottom Row */}
-        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 md:gap-6">
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 md:gap-6">
           <RecentTrades trades={safeData?.recentTrades} />
           <RecentAlerts alerts={safeData?.alerts} />
+          <EconomicCalendar />
         </div>
       </div>
     </div>
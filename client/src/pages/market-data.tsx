@@ -0,0 +1,254 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Fragment, useState } from "react";
+import Header from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+const TIMEFRAMES = ["M1", "M5", "M15", "H1", "H4", "D1"];
+const FORMATS = [
+  { value: "AUTO", label: "Auto-detect" },
+  { value: "HISTDATA", label: "HistData" },
+  { value: "DUKASCOPY", label: "Dukascopy" },
+  { value: "MT5", label: "MT5 export" },
+];
+
+interface CoverageGap {
+  from: string;
+  to: string;
+  missingBars: number;
+}
+
+interface CoverageReport {
+  symbol: string;
+  timeframe: string;
+  barCount: number;
+  firstBar: string;
+  lastBar: string;
+  coveragePercent: number;
+  gaps: CoverageGap[];
+}
+
+export default function MarketData() {
+  const [file, setFile] = useState<File | null>(null);
+  const [symbol, setSymbol] = useState("EURUSD");
+  const [timeframe, setTimeframe] = useState("M1");
+  const [fileFormat, setFileFormat] = useState("AUTO");
+  const [utcOffset, setUtcOffset] = useState("");
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: coverage, isLoading } = useQuery<CoverageReport[]>({
+    queryKey: ["/api/market-data/coverage"],
+  });
+
+  // CSV files are posted as raw text, so this bypasses apiRequest's JSON body
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("Select a file to import");
+
+      const params = new URLSearchParams({ symbol, timeframe, format: fileFormat });
+      if (utcOffset !== "") params.set("utcOffsetMinutes", utcOffset);
+
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch(`/api/market-data/bars?${params.toString()}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "text/csv",
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: await file.text(),
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      return result;
+    },
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/market-data/coverage"] });
+      toast({
+        title: "Import completed",
+        description: `${result.imported} ${result.format} bars imported, ${result.skipped} rows skipped`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatDate = (value: string) => format(new Date(value), "yyyy-MM-dd HH:mm");
+
+  const getCoverageBadge = (percent: number) => {
+    const variant = percent >= 99 ? "default" : percent >= 90 ? "secondary" : "destructive";
+    return <Badge variant={variant}>{percent.toFixed(1)}%</Badge>;
+  };
+
+  return (
+    <>
+      <Header title="Market Data" description="Historical OHLCV bars used by backtests and signal providers" />
+
+      <div className="p-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Bars</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="bar-file">CSV File</Label>
+                <Input
+                  id="bar-file"
+                  type="file"
+                  accept=".csv,.txt"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  data-testid="input-bar-file"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bar-symbol">Symbol</Label>
+                <Input
+                  id="bar-symbol"
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                  data-testid="input-bar-symbol"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Timeframe</Label>
+                <Select value={timeframe} onValueChange={setTimeframe}>
+                  <SelectTrigger data-testid="select-bar-timeframe">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMEFRAMES.map((tf) => (
+                      <SelectItem key={tf} value={tf}>{tf}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={fileFormat} onValueChange={setFileFormat}>
+                  <SelectTrigger data-testid="select-bar-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORMATS.map((f) => (
+                      <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bar-utc-offset">UTC Offset (minutes)</Label>
+                <Input
+                  id="bar-utc-offset"
+                  type="number"
+                  placeholder="Format default"
+                  value={utcOffset}
+                  onChange={(e) => setUtcOffset(e.target.value)}
+                  data-testid="input-bar-utc-offset"
+                />
+              </div>
+              <div className="md:col-span-4 text-sm text-muted-foreground">
+                HistData timestamps default to EST (UTC-300); Dukascopy and MT5 exports default to UTC.
+              </div>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={!file || !symbol || importMutation.isPending}
+                data-testid="button-import-bars"
+              >
+                <i className="fas fa-upload mr-2"></i>
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Data Coverage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading coverage...</div>
+            ) : !coverage || coverage.length === 0 ? (
+              <div className="text-center py-8">
+                <i className="fas fa-database text-4xl text-muted-foreground mb-4"></i>
+                <p className="text-muted-foreground">No historical bars stored yet</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm" data-testid="table-coverage">
+                  <thead>
+                    <tr className="border-b border-border text-left text-muted-foreground">
+                      <th className="py-2 pr-4">Symbol</th>
+                      <th className="py-2 pr-4">Timeframe</th>
+                      <th className="py-2 pr-4">Bars</th>
+                      <th className="py-2 pr-4">First Bar (UTC)</th>
+                      <th className="py-2 pr-4">Last Bar (UTC)</th>
+                      <th className="py-2 pr-4">Coverage</th>
+                      <th className="py-2">Gaps</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {coverage.map((row) => {
+                      const key = `${row.symbol}-${row.timeframe}`;
+                      return (
+                        <Fragment key={key}>
+                          <tr className="border-b border-border" data-testid={`row-coverage-${key}`}>
+                            <td className="py-2 pr-4 font-medium">{row.symbol}</td>
+                            <td className="py-2 pr-4">{row.timeframe}</td>
+                            <td className="py-2 pr-4 font-mono">{row.barCount.toLocaleString()}</td>
+                            <td className="py-2 pr-4 font-mono">{formatDate(row.firstBar)}</td>
+                            <td className="py-2 pr-4 font-mono">{formatDate(row.lastBar)}</td>
+                            <td className="py-2 pr-4">{getCoverageBadge(row.coveragePercent)}</td>
+                            <td className="py-2">
+                              {row.gaps.length === 0 ? (
+                                <span className="text-muted-foreground">None</span>
+                              ) : (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setExpandedRow(expandedRow === key ? null : key)}
+                                  data-testid={`button-gaps-${key}`}
+                                >
+                                  {row.gaps.length} gaps
+                                  <i className={`fas fa-chevron-${expandedRow === key ? "up" : "down"} ml-2`}></i>
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedRow === key && (
+                            <tr className="border-b border-border bg-muted/30">
+                              <td colSpan={7} className="p-3">
+                                <div className="max-h-64 overflow-y-auto space-y-1">
+                                  {row.gaps.map((gap, index) => (
+                                    <div key={index} className="flex justify-between font-mono text-xs">
+                                      <span>{formatDate(gap.from)} → {formatDate(gap.to)}</span>
+                                      <span className="text-muted-foreground">{gap.missingBars} missing bars</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
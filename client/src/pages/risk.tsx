@@ -1,9 +1,15 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import Header from "@/components/layout/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 
 // Define interfaces for risk data
 interface RiskStatus {
@@ -26,6 +32,222 @@ interface RiskEvent {
   createdAt: string;
 }
 
+interface RuleCheck {
+  rule: string;
+  status: "PASS" | "WARNING" | "BREACH" | "PENDING";
+  value: number;
+  limit: number;
+  message: string;
+}
+
+interface ComplianceReport {
+  accountId: string;
+  accountName: string;
+  firm: string;
+  compliant: boolean;
+  checks: RuleCheck[];
+  evaluatedAt: string;
+}
+
+interface AccountBreachStatus {
+  accountId: string;
+  locked: boolean;
+  lockedUntil?: string;
+  breaches: { rule: string; actions: string[]; message: string; since: string }[];
+}
+
+interface CurrencyExposure {
+  currency: string;
+  long: number;
+  short: number;
+  net: number;
+  limit: number | null;
+  utilization: number | null;
+  symbols: Record<string, number>;
+}
+
+interface CurrencyExposureReport {
+  accountId: string;
+  accountName: string;
+  accountCurrency: string;
+  currencies: CurrencyExposure[];
+  clusters: { symbols: string[]; exposure: number; limit: number; utilization: number }[];
+  evaluatedAt: string;
+}
+
+interface RiskAnalyticsReport {
+  accountId: string;
+  accountName: string;
+  accountCurrency: string;
+  options: { confidence: number; horizonDays: number; lookbackDays: number };
+  observations: number;
+  results: { method: string; valueAtRisk: number; expectedShortfall: number; percentOfEquity: number }[];
+  stress: {
+    scenario: string;
+    description: string;
+    pnl: number;
+    percentOfEquity: number;
+    positions: { positionId: string; symbol: string; side: string; priceChangePercent: number; pnl: number }[];
+  }[];
+  warnings: string[];
+}
+
+interface NewsEvent {
+  time: string;
+  currency: string;
+  impact: "LOW" | "MEDIUM" | "HIGH";
+  title: string;
+  bufferMinutes: number;
+}
+
+interface EconomicEvent {
+  id: string;
+  title: string;
+  currency: string;
+  impact: NewsEvent["impact"];
+  eventTime: string;
+  symbols: string[];
+  forecast: string | null;
+  previous: string | null;
+}
+
+interface SessionStatus {
+  market: { open: boolean; reason?: string; opensAt?: string; closesAt?: string };
+  sessions: {
+    name: string;
+    startTime: string;
+    endTime: string;
+    timezone: string;
+    allowedSymbols: string[];
+    isActive: boolean;
+    isOpen: boolean;
+    localTime: string;
+  }[];
+  blackoutSettings: { minImpact: NewsEvent["impact"]; action: "BLOCK" | "FLATTEN" | "TIGHTEN_STOPS"; tightenStopPips: number };
+  activeBlackouts: { event: NewsEvent; startsAt: string; endsAt: string; symbols: string[] }[];
+  upcomingEvents: NewsEvent[];
+}
+
+interface PreTradeRule {
+  name: string;
+  description: string;
+  required: boolean;
+  enabled: boolean;
+  severity: "INFO" | "WARNING" | "CRITICAL";
+  config: Record<string, unknown>;
+}
+
+interface RuleTrace {
+  rule: string;
+  severity: string;
+  status: "PASS" | "ADJUSTED" | "FAILED" | "SKIPPED" | "ERROR";
+  blocking: boolean;
+  reason?: string;
+  quantityIn: number;
+  adjustedQuantity?: number;
+  details?: Record<string, unknown>;
+  durationMs: number;
+}
+
+interface RiskDecision {
+  id: string;
+  accountId: string;
+  strategyId: string | null;
+  symbol: string;
+  side: string;
+  requestedQuantity: number;
+  finalQuantity: number;
+  approved: boolean;
+  reason: string | null;
+  inputs: { strategy: { id: string; name: string }; account: { id: string; name: string } };
+  trace: RuleTrace[];
+  createdAt: string;
+}
+
+interface DecisionReplay {
+  original: RiskDecision;
+  replay: RiskDecision;
+  changed: boolean;
+}
+
+type RiskLimitName = "dailyLossLimit" | "maxDrawdownPercent" | "maxExposure" | "maxPositions" | "maxLotSize" | "riskPerTradePercent";
+type RiskLimits = Partial<Record<RiskLimitName, number>>;
+
+interface RiskLimitVersion {
+  id: string;
+  scope: "ACCOUNT" | "STRATEGY";
+  scopeId: string;
+  version: number;
+  limits: RiskLimits;
+  effectiveFrom: string;
+  createdBy: string;
+  reason: string | null;
+  createdAt: string;
+  status: "ACTIVE" | "PENDING" | "SUPERSEDED";
+}
+
+interface RiskLimitsView {
+  scope: RiskLimitVersion["scope"];
+  scopeId: string;
+  current: RiskLimitVersion | null;
+  pending: RiskLimitVersion[];
+  effective?: Record<RiskLimitName, { value: number | null; propRule: number | null; limit: number | null; source: "PROP_RULES" | "RISK_LIMIT" | null }>;
+  intradayLoosening: boolean;
+}
+
+interface RiskLimitChange {
+  versions: RiskLimitVersion[];
+  loosened: RiskLimitName[];
+  deferredUntil: string | null;
+}
+
+// Rows of the risk rules card; strategies only take the position limits
+const RISK_LIMIT_FIELDS: {
+  name: RiskLimitName;
+  label: string;
+  description: string;
+  testId: string;
+  group: "account" | "position";
+  format: (value: number) => string;
+}[] = [
+  { name: "dailyLossLimit", label: "Daily Loss Limit", description: "Maximum daily loss allowed", testId: "daily-loss", group: "account", format: value => `$${value.toLocaleString()}` },
+  { name: "maxDrawdownPercent", label: "Max Drawdown", description: "Maximum equity drawdown", testId: "max-drawdown", group: "account", format: value => `${value}%` },
+  { name: "maxExposure", label: "Max Exposure", description: "Total position exposure limit", testId: "max-exposure", group: "account", format: value => `$${value.toLocaleString()}` },
+  { name: "maxPositions", label: "Max Positions", description: "Maximum concurrent positions", testId: "max-positions", group: "position", format: value => `${value}` },
+  { name: "maxLotSize", label: "Max Lot Size", description: "Maximum lot size per trade", testId: "max-lot-size", group: "position", format: value => value.toFixed(2) },
+  { name: "riskPerTradePercent", label: "Risk Per Trade", description: "Maximum risk percentage per trade", testId: "risk-per-trade", group: "position", format: value => `${value}%` },
+];
+
+const STRATEGY_LIMIT_FIELDS: RiskLimitName[] = ["maxExposure", "maxPositions", "maxLotSize", "riskPerTradePercent"];
+
+const traceStatusVariant: Record<RuleTrace["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  PASS: "default",
+  ADJUSTED: "secondary",
+  FAILED: "destructive",
+  ERROR: "destructive",
+  SKIPPED: "outline",
+};
+
+const formatMoney = (value: number, currency: string) =>
+  value.toLocaleString(undefined, { style: "currency", currency, maximumFractionDigits: 0 });
+
+// Green for net long, red for net short; stronger the closer the currency is to its limit
+// (or to the largest exposure on the account when it has no limit)
+const exposureCellStyle = (exposure: CurrencyExposure, largest: number) => {
+  const share = exposure.utilization !== null ? exposure.utilization / 100 : Math.abs(exposure.net) / (largest || 1);
+  const alpha = Math.min(1, 0.15 + share * 0.75);
+  return {
+    backgroundColor: exposure.net >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})`,
+  };
+};
+
+const checkStatusVariant: Record<RuleCheck["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  PASS: "default",
+  WARNING: "secondary",
+  BREACH: "destructive",
+  PENDING: "outline",
+};
+
 export default function Risk() {
   const { data: riskStatus, isLoading } = useQuery<RiskStatus>({
     queryKey: ["/api/risk/status"],
@@ -38,6 +260,195 @@ export default function Risk() {
     refetchInterval: 30000,
   });
 
+  const { data: compliance } = useQuery<ComplianceReport[]>({
+    queryKey: ["/api/risk/compliance"],
+    refetchInterval: 10000,
+  });
+
+  const { data: breachStatus } = useQuery<AccountBreachStatus[]>({
+    queryKey: ["/api/risk/breaches"],
+    refetchInterval: 10000,
+  });
+
+  const { data: currencyExposure } = useQuery<CurrencyExposureReport[]>({
+    queryKey: ["/api/risk/currency-exposure"],
+    refetchInterval: 10000,
+  });
+
+  const { data: valueAtRisk } = useQuery<RiskAnalyticsReport[]>({
+    queryKey: ["/api/risk/var"],
+    refetchInterval: 60000,
+  });
+
+  const { data: sessionStatus } = useQuery<SessionStatus>({
+    queryKey: ["/api/risk/sessions"],
+    refetchInterval: 60000,
+  });
+
+  const { data: calendarEvents } = useQuery<EconomicEvent[]>({
+    queryKey: ["/api/calendar/events?hours=72"],
+    refetchInterval: 60000,
+  });
+
+  const { data: preTradeRules } = useQuery<PreTradeRule[]>({
+    queryKey: ["/api/risk/rules"],
+  });
+
+  const { data: decisions } = useQuery<RiskDecision[]>({
+    queryKey: ["/api/risk/decisions"],
+    refetchInterval: 10000,
+  });
+
+  const { data: accounts } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const { data: strategies } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/strategies"],
+  });
+
+  // "account:<id>" or "strategy:<id>"; the first account until another scope is picked
+  const [limitsScope, setLimitsScope] = useState<string | null>(null);
+  const activeLimitsScope = limitsScope ?? (accounts?.[0] ? `account:${accounts[0].id}` : null);
+  const limitsPath = activeLimitsScope ? `/api/risk/limits/${activeLimitsScope.replace(":", "/")}` : null;
+
+  const { data: riskLimits } = useQuery<RiskLimitsView>({
+    queryKey: [limitsPath ?? "/api/risk/limits"],
+    enabled: !!limitsPath,
+  });
+
+  const { data: limitHistory } = useQuery<RiskLimitVersion[]>({
+    queryKey: [`${limitsPath}/history`],
+    enabled: !!limitsPath,
+  });
+
+  const { toast } = useToast();
+  const [editingLimit, setEditingLimit] = useState<RiskLimitName | null>(null);
+  const [limitValue, setLimitValue] = useState("");
+  const [limitReason, setLimitReason] = useState("");
+  const [calendarFile, setCalendarFile] = useState<File | null>(null);
+  const [expandedDecision, setExpandedDecision] = useState<string | null>(null);
+  const [replays, setReplays] = useState<Record<string, DecisionReplay>>({});
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ name, enabled }: { name: string; enabled: boolean }) => {
+      return apiRequest("PUT", `/api/risk/rules/${name}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/rules"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rule Update Failed",
+        description: error.message || "Failed to update the pre-trade rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sends the full set of limits with the edited one replaced; an empty value removes it
+  const limitsMutation = useMutation({
+    mutationFn: async (): Promise<RiskLimitChange> => {
+      if (!limitsPath || !editingLimit) throw new Error("Select a limit to edit");
+      const limits: RiskLimits = { ...(riskLimits?.current?.limits ?? {}) };
+      if (limitValue.trim() === "") {
+        delete limits[editingLimit];
+      } else {
+        limits[editingLimit] = Number(limitValue);
+      }
+      return apiRequest("PUT", limitsPath, { limits, reason: limitReason });
+    },
+    onSuccess: (change) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/risk/limits/") });
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/status"] });
+      setEditingLimit(null);
+      toast({
+        title: "Risk limits updated",
+        description: change.deferredUntil
+          ? `${change.loosened.join(", ")} loosened from ${new Date(change.deferredUntil).toLocaleString()}`
+          : "The new limits are in effect",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Limit Update Failed",
+        description: error.message || "Failed to update the risk limits.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startLimitEdit = (name: RiskLimitName) => {
+    setEditingLimit(name);
+    setLimitValue(riskLimits?.current?.limits[name]?.toString() ?? "");
+    setLimitReason("");
+  };
+
+  const blackoutMutation = useMutation({
+    mutationFn: async (action: SessionStatus["blackoutSettings"]["action"]) => {
+      return apiRequest("PUT", "/api/risk/news-blackout", { action });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/sessions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update the news blackout action.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Calendar files are posted as raw text, so this bypasses apiRequest's JSON body
+  const calendarImportMutation = useMutation({
+    mutationFn: async () => {
+      if (!calendarFile) throw new Error("Select a calendar file to import");
+
+      const token = localStorage.getItem("auth_token");
+      const response = await fetch("/api/calendar/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "text/plain",
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: await calendarFile.text(),
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP error! status: ${response.status}`);
+      return result;
+    },
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/events?hours=72"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/risk/sessions"] });
+      toast({
+        title: "Calendar imported",
+        description: `${result.imported} ${result.format} events imported, ${result.skipped} skipped`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string): Promise<DecisionReplay> => {
+      return apiRequest("POST", `/api/risk/decisions/${id}/replay`);
+    },
+    onSuccess: (replay) => {
+      setReplays(current => ({ ...current, [replay.original.id]: replay }));
+      setExpandedDecision(replay.original.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "Failed to replay the risk decision.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const riskEvents = Array.isArray(riskEventsData) ? riskEventsData : [];
 
   if (isLoading) {
@@ -162,101 +573,571 @@ export default function Risk() {
           </Card>
         </div>
 
-        {/* Risk Rules Configuration */}
+        {/* Prop Firm Compliance */}
         <Card>
           <CardHeader>
-            <CardTitle>Risk Rules Configuration</CardTitle>
+            <CardTitle>Prop Firm Compliance</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-4">
-                <h4 className="font-medium">Account Limits</h4>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                    <div>
-                      <p className="font-medium">Daily Loss Limit</p>
-                      <p className="text-sm text-muted-foreground">Maximum daily loss allowed</p>
+            <div className="space-y-6">
+              {compliance?.length ? (
+                compliance.map(report => {
+                  const breaches = breachStatus?.find(status => status.accountId === report.accountId);
+                  return (
+                    <div key={report.accountId} className="space-y-3" data-testid={`compliance-${report.accountId}`}>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h4 className="font-medium">{report.accountName}</h4>
+                          <p className="text-sm text-muted-foreground">
+                            {report.firm === "CUSTOM" ? "Custom rules" : `${report.firm} rules`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {breaches?.locked && (
+                            <Badge variant="destructive" data-testid={`account-locked-${report.accountId}`}>
+                              <i className="fas fa-lock mr-1"></i>
+                              LOCKED{breaches.lockedUntil ? ` until ${new Date(breaches.lockedUntil).toLocaleString()}` : ""}
+                            </Badge>
+                          )}
+                          <Badge
+                            variant={report.compliant ? "default" : "destructive"}
+                            data-testid={`compliance-status-${report.accountId}`}
+                          >
+                            {report.compliant ? "COMPLIANT" : "BREACHED"}
+                          </Badge>
+                        </div>
+                      </div>
+                      {breaches?.breaches.map(breach => (
+                        <p key={breach.rule} className="text-sm text-destructive" data-testid={`breach-${report.accountId}-${breach.rule}`}>
+                          {breach.rule.replace(/_/g, " ")} breached at {new Date(breach.since).toLocaleTimeString()}: {breach.actions.join(", ")}
+                        </p>
+                      ))}
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                        {report.checks.map(check => (
+                          <div
+                            key={check.rule}
+                            className="flex justify-between items-center p-3 bg-muted rounded-lg"
+                            data-testid={`compliance-check-${report.accountId}-${check.rule}`}
+                          >
+                            <div>
+                              <p className="font-medium text-sm">{check.rule.replace(/_/g, " ")}</p>
+                              <p className="text-xs text-muted-foreground">{check.message}</p>
+                            </div>
+                            <Badge variant={checkStatusVariant[check.status]}>{check.status}</Badge>
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                    <div className="text-right">
-                      <p className="font-mono">$5,000</p>
-                      <Button variant="ghost" size="sm" data-testid="button-edit-daily-loss">
-                        <i className="fas fa-edit"></i>
-                      </Button>
+                  );
+                })
+              ) : (
+                <p className="text-sm text-muted-foreground">No accounts to evaluate</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Currency Exposure */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Currency Exposure</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {currencyExposure?.length ? (
+                currencyExposure.map(report => {
+                  const largest = Math.max(0, ...report.currencies.map(exposure => Math.abs(exposure.net)));
+                  return (
+                    <div key={report.accountId} className="space-y-3" data-testid={`currency-exposure-${report.accountId}`}>
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-medium">{report.accountName}</h4>
+                        <span className="text-sm text-muted-foreground">Net exposure in {report.accountCurrency}</span>
+                      </div>
+                      {report.currencies.length ? (
+                        <div className="grid grid-cols-3 md:grid-cols-6 lg:grid-cols-8 gap-2">
+                          {report.currencies.map(exposure => (
+                            <div
+                              key={exposure.currency}
+                              className="p-3 rounded-lg text-center"
+                              style={exposureCellStyle(exposure, largest)}
+                              title={Object.entries(exposure.symbols).map(([symbol, amount]) => `${symbol}: ${amount.toFixed(0)}`).join("\n")}
+                              data-testid={`currency-exposure-${report.accountId}-${exposure.currency}`}
+                            >
+                              <p className="font-medium">{exposure.currency}</p>
+                              <p className="font-mono text-sm">
+                                {exposure.net >= 0 ? "+" : "-"}{Math.abs(exposure.net).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                              </p>
+                              <p className="text-xs">
+                                {exposure.limit !== null ? `${exposure.utilization?.toFixed(0)}% of limit` : "No limit"}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No open currency exposure</p>
+                      )}
+                      {report.clusters.map(cluster => (
+                        <div
+                          key={cluster.symbols.join("-")}
+                          className="flex justify-between items-center p-3 bg-muted rounded-lg"
+                          data-testid={`correlation-cluster-${report.accountId}-${cluster.symbols.join("-")}`}
+                        >
+                          <div>
+                            <p className="font-medium text-sm">Correlated: {cluster.symbols.join(", ")}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {cluster.exposure.toLocaleString(undefined, { maximumFractionDigits: 0 })} of {cluster.limit.toLocaleString()} {report.accountCurrency}
+                            </p>
+                          </div>
+                          <Badge variant={getRiskLevel(cluster.exposure, cluster.limit).color}>
+                            {getRiskLevel(cluster.exposure, cluster.limit).level}
+                          </Badge>
+                        </div>
+                      ))}
                     </div>
-                  </div>
+                  );
+                })
+              ) : (
+                <p className="text-sm text-muted-foreground">No accounts to evaluate</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
 
-                  <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                    <div>
-                      <p className="font-medium">Max Drawdown</p>
-                      <p className="text-sm text-muted-foreground">Maximum equity drawdown</p>
+        {/* Value at Risk & Stress Tests */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Value at Risk & Stress Tests</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {valueAtRisk?.length ? (
+                valueAtRisk.map(report => (
+                  <div key={report.accountId} className="space-y-4" data-testid={`var-${report.accountId}`}>
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium">{report.accountName}</h4>
+                      <span className="text-sm text-muted-foreground">
+                        {(report.options.confidence * 100).toFixed(0)}%, {report.options.horizonDays}-day horizon, {report.observations} daily returns
+                      </span>
                     </div>
-                    <div className="text-right">
-                      <p className="font-mono">15%</p>
-                      <Button variant="ghost" size="sm" data-testid="button-edit-max-drawdown">
-                        <i className="fas fa-edit"></i>
-                      </Button>
+                    {report.warnings.map(warning => (
+                      <p key={warning} className="text-sm text-muted-foreground">{warning}</p>
+                    ))}
+                    {report.results.length > 0 && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {report.results.map(result => (
+                          <div key={result.method} className="p-3 bg-muted rounded-lg" data-testid={`var-${report.accountId}-${result.method}`}>
+                            <p className="font-medium text-sm">{result.method.replace(/_/g, " ")}</p>
+                            <div className="flex justify-between text-sm mt-2">
+                              <span>VaR</span>
+                              <span className="font-mono text-red-600">
+                                {formatMoney(result.valueAtRisk, report.accountCurrency)} ({result.percentOfEquity.toFixed(2)}%)
+                              </span>
+                            </div>
+                            <div className="flex justify-between text-sm">
+                              <span>Expected Shortfall</span>
+                              <span className="font-mono text-red-600">{formatMoney(result.expectedShortfall, report.accountCurrency)}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      {report.stress.map(result => (
+                        <div
+                          key={result.scenario}
+                          className="p-3 bg-muted rounded-lg"
+                          data-testid={`stress-${report.accountId}-${result.scenario.replace(/\W+/g, "-").toLowerCase()}`}
+                        >
+                          <div className="flex justify-between items-center">
+                            <div>
+                              <p className="font-medium text-sm">{result.scenario}</p>
+                              <p className="text-xs text-muted-foreground">{result.description}</p>
+                            </div>
+                            <span className={`font-mono ${result.pnl < 0 ? "text-red-600" : "text-green-600"}`}>
+                              {formatMoney(result.pnl, report.accountCurrency)} ({result.percentOfEquity.toFixed(2)}%)
+                            </span>
+                          </div>
+                          {result.positions.some(position => position.pnl !== 0) && (
+                            <div className="mt-2 space-y-1">
+                              {result.positions.filter(position => position.pnl !== 0).map(position => (
+                                <div key={position.positionId} className="flex justify-between text-xs text-muted-foreground">
+                                  <span>{position.side} {position.symbol} ({position.priceChangePercent.toFixed(2)}%)</span>
+                                  <span className="font-mono">{formatMoney(position.pnl, report.accountCurrency)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No accounts to evaluate</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
 
-                  <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                    <div>
-                      <p className="font-medium">Max Exposure</p>
-                      <p className="text-sm text-muted-foreground">Total position exposure limit</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-mono">$75,000</p>
-                      <Button variant="ghost" size="sm" data-testid="button-edit-max-exposure">
-                        <i className="fas fa-edit"></i>
-                      </Button>
-                    </div>
+        {/* Risk Rules Configuration */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle>Risk Rules Configuration</CardTitle>
+              <Select value={activeLimitsScope ?? undefined} onValueChange={scope => { setLimitsScope(scope); setEditingLimit(null); }}>
+                <SelectTrigger className="w-64" data-testid="select-limits-scope">
+                  <SelectValue placeholder="Select an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts?.map(account => (
+                    <SelectItem key={account.id} value={`account:${account.id}`}>Account: {account.name}</SelectItem>
+                  ))}
+                  {strategies?.map(strategy => (
+                    <SelectItem key={strategy.id} value={`strategy:${strategy.id}`}>Strategy: {strategy.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {riskLimits && !riskLimits.intradayLoosening && (
+              <p className="text-sm text-muted-foreground">
+                The prop rules do not allow loosening limits mid-day; raised or removed limits take effect at the next rollover.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {(["account", "position"] as const).map(group => (
+                <div key={group} className="space-y-4">
+                  <h4 className="font-medium">{group === "account" ? "Account Limits" : "Position Limits"}</h4>
+                  <div className="space-y-3">
+                    {RISK_LIMIT_FIELDS.filter(field => field.group === group).map(field => {
+                      const supported = riskLimits?.scope !== "STRATEGY" || STRATEGY_LIMIT_FIELDS.includes(field.name);
+                      const effective = riskLimits?.effective?.[field.name];
+                      const value = effective ? effective.value : riskLimits?.current?.limits[field.name] ?? null;
+                      return (
+                        <div key={field.name} className="p-3 bg-muted rounded-lg" data-testid={`risk-limit-${field.testId}`}>
+                          <div className="flex justify-between items-center">
+                            <div>
+                              <p className="font-medium">{field.label}</p>
+                              <p className="text-sm text-muted-foreground">{field.description}</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-mono">{!supported ? "Account only" : value !== null ? field.format(value) : "No limit"}</p>
+                              {effective?.source && (
+                                <Badge variant="outline" className="text-xs">
+                                  {effective.source === "RISK_LIMIT" ? "Account limit" : "Prop rules"}
+                                </Badge>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={!supported || !riskLimits}
+                                onClick={() => startLimitEdit(field.name)}
+                                data-testid={`button-edit-${field.testId}`}
+                              >
+                                <i className="fas fa-edit"></i>
+                              </Button>
+                            </div>
+                          </div>
+
+                          {editingLimit === field.name && (
+                            <div className="flex flex-wrap items-center gap-2 mt-3">
+                              <Input
+                                type="number"
+                                step="any"
+                                min="0"
+                                placeholder="No limit"
+                                value={limitValue}
+                                onChange={e => setLimitValue(e.target.value)}
+                                className="w-28"
+                                data-testid={`input-limit-${field.testId}`}
+                              />
+                              <Input
+                                placeholder="Reason for the change"
+                                value={limitReason}
+                                onChange={e => setLimitReason(e.target.value)}
+                                className="flex-1 min-w-40"
+                                data-testid={`input-limit-reason-${field.testId}`}
+                              />
+                              <Button
+                                size="sm"
+                                disabled={!limitReason.trim() || limitsMutation.isPending}
+                                onClick={() => limitsMutation.mutate()}
+                                data-testid={`button-save-${field.testId}`}
+                              >
+                                Save
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setEditingLimit(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
+              ))}
+            </div>
+
+            {!!riskLimits?.pending.length && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Pending Changes</h4>
+                {riskLimits.pending.map(version => (
+                  <div key={version.id} className="flex items-center justify-between p-3 border rounded-lg text-sm" data-testid={`risk-limit-pending-${version.version}`}>
+                    <span className="font-mono">
+                      v{version.version}: {Object.entries(version.limits).map(([name, value]) => `${name} ${value}`).join(", ") || "no limits"}
+                    </span>
+                    <span className="text-muted-foreground">from {new Date(version.effectiveFrom).toLocaleString()}</span>
+                  </div>
+                ))}
               </div>
+            )}
 
-              <div className="space-y-4">
-                <h4 className="font-medium">Position Limits</h4>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                    <div>
-                      <p className="font-medium">Max Positions</p>
-                      <p className="text-sm text-muted-foreground">Maximum concurrent positions</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-mono">10</p>
-                      <Button variant="ghost" size="sm" data-testid="button-edit-max-positions">
-                        <i className="fas fa-edit"></i>
-                      </Button>
-                    </div>
+            {!!limitHistory?.length && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Change History</h4>
+                {limitHistory.slice(0, 10).map(version => (
+                  <div key={version.id} className="flex items-center gap-3 text-sm" data-testid={`risk-limit-version-${version.version}`}>
+                    <Badge variant={version.status === "ACTIVE" ? "default" : version.status === "PENDING" ? "secondary" : "outline"}>
+                      v{version.version} {version.status}
+                    </Badge>
+                    <span className="flex-1 truncate">{version.reason}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {version.createdBy} · {new Date(version.createdAt).toLocaleString()}
+                    </span>
                   </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
 
-                  <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                    <div>
-                      <p className="font-medium">Max Lot Size</p>
-                      <p className="text-sm text-muted-foreground">Maximum lot size per trade</p>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-mono">1.0</p>
-                      <Button variant="ghost" size="sm" data-testid="button-edit-max-lot-size">
-                        <i className="fas fa-edit"></i>
-                      </Button>
+        {/* Trading Sessions & News Blackouts */}
+        {sessionStatus && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Trading Sessions & News Blackouts</CardTitle>
+                <Badge variant={sessionStatus.market.open ? "default" : "destructive"} data-testid="badge-market-status">
+                  {sessionStatus.market.open ? "Market Open" : "Market Closed"}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!sessionStatus.market.open && sessionStatus.market.opensAt && (
+                <p className="text-sm text-muted-foreground">
+                  {sessionStatus.market.reason}; reopens {new Date(sessionStatus.market.opensAt).toLocaleString()}
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {sessionStatus.sessions.map(session => (
+                  <div key={session.name} className="p-3 bg-muted rounded-lg" data-testid={`session-${session.name}`}>
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">{session.name}</p>
+                      <Badge variant={session.isOpen ? "default" : "outline"}>{session.isOpen ? "Open" : "Closed"}</Badge>
                     </div>
+                    <p className="text-sm text-muted-foreground">
+                      {session.startTime}–{session.endTime} {session.timezone} (now {session.localTime})
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono">
+                      {session.allowedSymbols.length ? session.allowedSymbols.join(", ") : "All symbols"}
+                    </p>
                   </div>
+                ))}
+              </div>
 
-                  <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                    <div>
-                      <p className="font-medium">Risk Per Trade</p>
-                      <p className="text-sm text-muted-foreground">Maximum risk percentage per trade</p>
+              <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                <div>
+                  <p className="font-medium">Before {sessionStatus.blackoutSettings.minImpact.toLowerCase()}-impact news</p>
+                  <p className="text-sm text-muted-foreground">New trades in affected symbols are always blocked during a blackout</p>
+                </div>
+                <Select
+                  value={sessionStatus.blackoutSettings.action}
+                  onValueChange={value => blackoutMutation.mutate(value as SessionStatus["blackoutSettings"]["action"])}
+                >
+                  <SelectTrigger className="w-56" data-testid="select-blackout-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="BLOCK">Block new trades only</SelectItem>
+                    <SelectItem value="FLATTEN">Flatten open positions</SelectItem>
+                    <SelectItem value="TIGHTEN_STOPS">Tighten stops to {sessionStatus.blackoutSettings.tightenStopPips} pips</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {sessionStatus.activeBlackouts.map(blackout => (
+                <div
+                  key={`${blackout.event.time}-${blackout.event.title}`}
+                  className="p-3 border border-destructive rounded-lg text-sm"
+                  data-testid="active-blackout"
+                >
+                  <span className="font-medium">{blackout.event.currency} {blackout.event.title}</span>
+                  <span className="text-muted-foreground"> blackout until {new Date(blackout.endsAt).toLocaleTimeString()}: {blackout.symbols.join(", ")}</span>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium">Economic Calendar</h4>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="file"
+                      accept=".xml,.csv,.json,.txt"
+                      className="w-64"
+                      onChange={(e) => setCalendarFile(e.target.files?.[0] ?? null)}
+                      data-testid="input-calendar-file"
+                    />
+                    <Button
+                      size="sm"
+                      disabled={!calendarFile || calendarImportMutation.isPending}
+                      onClick={() => calendarImportMutation.mutate()}
+                      data-testid="button-import-calendar"
+                    >
+                      {calendarImportMutation.isPending ? "Importing..." : "Import"}
+                    </Button>
+                  </div>
+                </div>
+                {calendarEvents?.length ? (
+                  calendarEvents.map(event => (
+                    <div key={event.id} className="flex items-center gap-2 text-sm" data-testid={`calendar-event-${event.id}`}>
+                      <Badge variant={event.impact === "HIGH" ? "destructive" : event.impact === "MEDIUM" ? "secondary" : "outline"}>
+                        {event.impact}
+                      </Badge>
+                      <span className="font-mono">{event.currency}</span>
+                      <span>{event.title}</span>
+                      <span className="text-xs text-muted-foreground truncate">{event.symbols.join(", ")}</span>
+                      <span className="ml-auto text-muted-foreground whitespace-nowrap">{new Date(event.eventTime).toLocaleString()}</span>
                     </div>
-                    <div className="text-right">
-                      <p className="font-mono">2%</p>
-                      <Button variant="ghost" size="sm" data-testid="button-edit-risk-per-trade">
-                        <i className="fas fa-edit"></i>
-                      </Button>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">No releases in the next 72 hours; import a ForexFactory XML, CSV or JSON export</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pre-Trade Rules */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pre-Trade Rules</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {preTradeRules?.length ? (
+              <div className="space-y-2">
+                {preTradeRules.map(rule => (
+                  <div
+                    key={rule.name}
+                    className="flex items-center justify-between p-3 bg-muted rounded-lg"
+                    data-testid={`pre-trade-rule-${rule.name}`}
+                  >
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium font-mono text-sm">{rule.name}</p>
+                        <Badge variant={rule.severity === "CRITICAL" ? "destructive" : rule.severity === "WARNING" ? "secondary" : "outline"}>
+                          {rule.severity}
+                        </Badge>
+                        {rule.required && <Badge variant="outline">Required</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{rule.description}</p>
                     </div>
+                    <Switch
+                      checked={rule.enabled}
+                      disabled={rule.required || updateRuleMutation.isPending}
+                      onCheckedChange={enabled => updateRuleMutation.mutate({ name: rule.name, enabled })}
+                      data-testid={`switch-rule-${rule.name}`}
+                    />
                   </div>
-                </div>
+                ))}
               </div>
-            </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No pre-trade rules registered</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pre-Trade Decisions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pre-Trade Decisions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {decisions?.length ? (
+              <div className="space-y-2">
+                {decisions.map(decision => {
+                  const replay = replays[decision.id];
+                  return (
+                    <div key={decision.id} className="p-3 bg-muted rounded-lg" data-testid={`risk-decision-${decision.id}`}>
+                      <div className="flex items-center justify-between">
+                        <div
+                          className="flex items-center gap-2 cursor-pointer"
+                          onClick={() => setExpandedDecision(expandedDecision === decision.id ? null : decision.id)}
+                        >
+                          <Badge variant={decision.approved ? "default" : "destructive"}>
+                            {decision.approved ? "APPROVED" : "BLOCKED"}
+                          </Badge>
+                          <span className="font-medium">{decision.side} {decision.requestedQuantity} {decision.symbol}</span>
+                          {decision.approved && decision.finalQuantity < decision.requestedQuantity && (
+                            <span className="text-sm text-muted-foreground">resized to {decision.finalQuantity}</span>
+                          )}
+                          <span className="text-sm text-muted-foreground">
+                            {decision.inputs.strategy.name} on {decision.inputs.account.name}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">{new Date(decision.createdAt).toLocaleString()}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={replayMutation.isPending}
+                            onClick={() => replayMutation.mutate(decision.id)}
+                            data-testid={`button-replay-${decision.id}`}
+                          >
+                            <i className="fas fa-redo"></i>
+                          </Button>
+                        </div>
+                      </div>
+                      {decision.reason && <p className="text-sm text-muted-foreground mt-1">{decision.reason}</p>}
+
+                      {expandedDecision === decision.id && (
+                        <div className="mt-3 space-y-1">
+                          {decision.trace.map(entry => (
+                            <div key={entry.rule} className="flex items-center gap-2 text-sm">
+                              <Badge variant={traceStatusVariant[entry.status]} className="w-20 justify-center">{entry.status}</Badge>
+                              <span className="font-mono">{entry.rule}</span>
+                              {entry.adjustedQuantity !== undefined && (
+                                <span className="text-muted-foreground">{entry.quantityIn} → {entry.adjustedQuantity}</span>
+                              )}
+                              {entry.reason && <span className="text-muted-foreground">{entry.reason}</span>}
+                              <span className="ml-auto text-xs text-muted-foreground">{entry.durationMs}ms</span>
+                            </div>
+                          ))}
+
+                          {replay && (
+                            <div className="mt-2 p-2 border rounded text-sm" data-testid={`replay-result-${decision.id}`}>
+                              <span className="font-medium">Replay under current rules: </span>
+                              <Badge variant={replay.replay.approved ? "default" : "destructive"}>
+                                {replay.replay.approved ? "APPROVED" : "BLOCKED"}
+                              </Badge>
+                              <span className="ml-2">
+                                {replay.changed ? `Outcome changed, final quantity ${replay.replay.finalQuantity}` : "Same outcome"}
+                              </span>
+                              {replay.replay.reason && <p className="text-muted-foreground mt-1">{replay.replay.reason}</p>}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No pre-trade decisions recorded yet</p>
+            )}
           </CardContent>
         </Card>
 
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertStrategySchema, type Strategy } from "@shared/schema";
@@ -19,6 +20,7 @@ import { z } from "zod";
 
 const strategyFormSchema = insertStrategySchema.extend({
   symbols: z.string().min(1, "At least one symbol is required"),
+  accountIds: z.array(z.string()).min(1, "Bind at least one account"),
   parametersJson: z.string().min(1, "Parameters are required"),
   riskProfileJson: z.string().optional(),
 });
@@ -28,12 +30,18 @@ type StrategyFormData = z.infer<typeof strategyFormSchema>;
 export default function Strategies() {
   const [selectedStrategy, setSelectedStrategy] = useState<Strategy | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [bindingStrategy, setBindingStrategy] = useState<Strategy | null>(null);
+  const [boundAccountIds, setBoundAccountIds] = useState<string[]>([]);
   const { toast } = useToast();
 
   const { data: strategies, isLoading } = useQuery<Strategy[]>({
     queryKey: ["/api/strategies"],
   });
 
+  const { data: accounts } = useQuery<any[]>({
+    queryKey: ["/api/accounts"],
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: StrategyFormData) => {
       const strategyData = {
@@ -79,12 +87,37 @@ export default function Strategies() {
     },
   });
 
+  const bindMutation = useMutation({
+    mutationFn: ({ strategyId, accountIds }: { strategyId: string; accountIds: string[] }) =>
+      apiRequest("PATCH", `/api/strategies/${strategyId}`, { accountIds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/strategies"] });
+      setBindingStrategy(null);
+      toast({ title: "Account binding updated" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update account binding", variant: "destructive" });
+    },
+  });
+
+  const openBindingDialog = (strategy: Strategy) => {
+    setBindingStrategy(strategy);
+    setBoundAccountIds(strategy.accountIds || []);
+  };
+
+  const toggleAccount = (ids: string[], accountId: string, checked: boolean) =>
+    checked ? [...ids, accountId] : ids.filter(id => id !== accountId);
+
+  const getAccountName = (accountId: string) =>
+    accounts?.find((account: any) => account.id === accountId)?.name || accountId;
+
   const form = useForm<StrategyFormData>({
     resolver: zodResolver(strategyFormSchema),
     defaultValues: {
       name: "",
       description: "",
       symbols: "",
+      accountIds: [],
       parametersJson: JSON.stringify({
         donchianPeriod: 20,
         atrPeriod: 14,
@@ -187,6 +220,30 @@ export default function Strategies() {
                     )}
                   />
                   
+                  <FormField
+                    control={form.control}
+                    name="accountIds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Trading Accounts</FormLabel>
+                        <div className="grid grid-cols-2 gap-2">
+                          {accounts?.map((account: any) => (
+                            <label key={account.id} className="flex items-center space-x-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(account.id)}
+                                onCheckedChange={(checked) => field.onChange(toggleAccount(field.value, account.id, checked === true))}
+                                data-testid={`checkbox-strategy-account-${account.id}`}
+                              />
+                              <span>{account.name}</span>
+                              <Badge variant="outline">{account.mode}</Badge>
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={form.control}
                     name="parametersJson"
@@ -258,6 +315,14 @@ export default function Strategies() {
                         Start
                       </Button>
                     )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openBindingDialog(strategy)}
+                      data-testid={`button-bind-accounts-${index}`}
+                    >
+                      <i className="fas fa-link"></i>
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -270,13 +335,23 @@ export default function Strategies() {
                 </div>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
                     <p className="text-sm text-muted-foreground">Symbols</p>
                     <p className="font-mono" data-testid={`strategy-symbols-${index}`}>
                       {strategy.symbols.join(", ")}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Accounts</p>
+                    <div className="flex flex-wrap gap-1" data-testid={`strategy-accounts-${index}`}>
+                      {strategy.accountIds?.length ? strategy.accountIds.map(accountId => (
+                        <Badge key={accountId} variant="secondary">{getAccountName(accountId)}</Badge>
+                      )) : (
+                        <span className="text-sm text-destructive">Not bound</span>
+                      )}
+                    </div>
+                  </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Version</p>
                     <p data-testid={`strategy-version-${index}`}>{strategy.version}</p>
@@ -314,6 +389,45 @@ export default function Strategies() {
           )}
         </div>
       </div>
+
+      <Dialog open={!!bindingStrategy} onOpenChange={(open) => !open && setBindingStrategy(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Account Binding - {bindingStrategy?.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Signals from this strategy are sized, risk-checked and routed separately for each selected account.
+          </p>
+          <div className="space-y-2">
+            {accounts?.map((account: any) => (
+              <label key={account.id} className="flex items-center space-x-3 p-2 rounded border border-border">
+                <Checkbox
+                  checked={boundAccountIds.includes(account.id)}
+                  onCheckedChange={(checked) => setBoundAccountIds(toggleAccount(boundAccountIds, account.id, checked === true))}
+                  data-testid={`checkbox-bind-account-${account.id}`}
+                />
+                <div className="flex-1">
+                  <p className="font-medium">{account.name}</p>
+                  <p className="text-xs text-muted-foreground">{account.brokerId} · {account.baseCurrency}</p>
+                </div>
+                <Badge variant="outline">{account.mode}</Badge>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => setBindingStrategy(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => bindingStrategy && bindMutation.mutate({ strategyId: bindingStrategy.id, accountIds: boundAccountIds })}
+              disabled={bindMutation.isPending}
+              data-testid="button-save-binding"
+            >
+              {bindMutation.isPending ? "Saving..." : "Save Binding"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
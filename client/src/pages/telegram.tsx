@@ -97,7 +97,8 @@ export default function TelegramPage() {
    /risk - Risk metrics
    /strategies - Strategy status
    /alerts - Toggle notifications
-   /stop - Emergency stop (admin only)`;
+   /stop - Emergency stop (admin only)
+   /resume <reason> - Resume trading (admin only)`;
 
     navigator.clipboard.writeText(instructions);
   };
@@ -80,10 +80,41 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
+  // Restore a persisted emergency stop before anything can trade
+  const { riskManager } = await import("./services/risk-manager");
+  await riskManager.restoreEmergencyStop();
+
+  // Optional pre-trade rules on top of the core checks; disabled until configured
+  await import("./services/custom-risk-rules");
+
+  // Put working paper orders back in the paper book
+  const { orderManager } = await import("./services/order-manager");
+  await orderManager.restoreWorkingOrders().catch(console.error);
+
   // Start market data service
   const { marketDataService } = await import("./services/market-data");
   marketDataService.start().catch(console.error);
 
+  // Enforce stop-loss / take-profit on open positions from live prices
+  const { positionProtectionService } = await import("./services/position-protection");
+  positionProtectionService.start();
+
+  // Snapshot account equity at each broker rollover for daily loss limits
+  const { dailyPnLService } = await import("./services/daily-pnl");
+  dailyPnLService.start();
+
+  // Flatten or tighten stops as news blackouts begin
+  const { sessionManager } = await import("./services/session-manager");
+  sessionManager.start().catch(console.error);
+
+  // Load stored economic releases and start polling the calendar feed, if one is configured
+  const { economicCalendarService } = await import("./services/economic-calendar");
+  economicCalendarService.start().catch(console.error);
+
+  // Act on prop rule breaches as account equity changes
+  const { breachMonitor } = await import("./services/breach-monitor");
+  breachMonitor.start();
+
   // Initialize Telegram bot
   const { telegramBot } = await import("./services/telegram-bot");
   console.log('Telegram bot service loaded');
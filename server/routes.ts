@@ -1,17 +1,35 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { insertStrategySchema, insertAccountSchema, insertBacktestSchema, insertAlertSchema } from "@shared/schema";
+import { storage, Strategy } from "./storage";
+import { insertStrategySchema, insertAccountSchema, insertAlertSchema } from "@shared/schema";
 import { strategyEngine } from "./services/strategy-engine";
 import { riskManager } from "./services/risk-manager";
-import { orderManager } from "./services/order-manager";
+import { orderManager, orderRequestSchema } from "./services/order-manager";
 import { marketDataService } from "./services/market-data";
 import { Request, Response } from "express";
 import { authService } from "./services/auth";
 import { authenticateToken, requireRole } from "./middleware/auth";
 import { mt5Integration } from "./services/mt5-integration";
 import { aiTradingEngine } from "./services/ai-trading-engine";
+import { historicalDataService, barImportOptionsSchema, TIMEFRAMES } from "./services/historical-data";
+import { pricingService } from "./services/pricing";
+import { propRulesService } from "./services/prop-rules";
+import { dailyPnLService } from "./services/daily-pnl";
+import { breachMonitor } from "./services/breach-monitor";
+import { currencyExposureService } from "./services/currency-exposure";
+import { riskAnalyticsService, varOptionsSchema } from "./services/risk-analytics";
+import { preTradeRules, ruleSettingsUpdateSchema } from "./services/pre-trade-rules";
+import { sessionManager, sessionUpdateSchema, newsBlackoutSettingsSchema, newsEventSchema, NEWS_IMPACTS } from "./services/session-manager";
+import { economicCalendarService, calendarImportOptionsSchema, calendarSettingsSchema } from "./services/economic-calendar";
+import { riskLimitsService, riskLimitsUpdateSchema, propRulesUpdateSchema, RISK_LIMIT_SCOPES, RiskLimitScope } from "./services/risk-limits";
+import { backtestOptimizer, optimizationConfigSchema } from "./services/backtest-optimizer";
+import { backtestArtifactStore } from "./services/backtest-artifacts";
+import { backtestRequestSchema } from "./services/backtesting-engine";
+import { performanceTracker } from "./services/performance-tracker";
+import { executionCostService } from "./services/execution-costs";
+import { costProfileSchema, costProfileNameSchema, DEFAULT_COST_PROFILE } from "./services/execution-cost-model";
+import { monteCarloSimulator, monteCarloOptionsSchema } from "./services/monte-carlo";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
@@ -246,9 +264,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Strategies may only be bound to existing accounts
+  const validateAccountBinding = async (accountIds: unknown): Promise<string | null> => {
+    if (!Array.isArray(accountIds)) return "accountIds must be an array";
+    for (const accountId of accountIds) {
+      if (!(await storage.getAccount(accountId))) return `Unknown account: ${accountId}`;
+    }
+    return null;
+  };
+
   app.post("/api/strategies", async (req, res) => {
     try {
       const validatedData = insertStrategySchema.parse(req.body);
+      const bindingError = await validateAccountBinding(validatedData.accountIds ?? []);
+      if (bindingError) {
+        return res.status(400).json({ error: bindingError });
+      }
       const strategy = await storage.createStrategy(validatedData);
 
       // Notify strategy engine of new strategy
@@ -265,6 +296,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const updates = req.body;
+
+      if (updates.accountIds !== undefined) {
+        const bindingError = await validateAccountBinding(updates.accountIds);
+        if (bindingError) {
+          return res.status(400).json({ error: bindingError });
+        }
+      }
+
       const strategy = await storage.updateStrategy(id, updates);
 
       // Hot-reload strategy if it's running
@@ -282,6 +321,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/strategies/:id/start", async (req, res) => {
     try {
       const { id } = req.params;
+      if (riskManager.isEmergencyStopActive()) {
+        return res.status(403).json({ error: "Emergency stop is active; resume trading before starting strategies" });
+      }
+
       const strategy = await storage.updateStrategy(id, { status: "RUNNING", isEnabled: true });
 
       await strategyEngine.startStrategy(strategy);
@@ -338,10 +381,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/accounts", async (req, res) => {
     try {
       const validatedData = insertAccountSchema.parse(req.body);
+      if (validatedData.propRules) {
+        propRulesService.parse(validatedData.propRules);
+      }
       const account = await storage.createAccount(validatedData);
       res.json(account);
-    } catch (error) {
-      res.status(400).json({ error: "Failed to create account" });
+    } catch (error: any) {
+      const issues = error.errors?.map((e: any) => `${e.path.join(".")}: ${e.message}`).join("; ");
+      res.status(400).json({ error: issues || "Failed to create account" });
     }
   });
 
@@ -437,30 +484,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!position) {
         return res.status(404).json({ error: "Position not found" });
       }
+      if (!position.isOpen) {
+        return res.status(400).json({ error: "Position is already closed" });
+      }
 
-      // Create market order to close position
-      // const closeOrder = await orderManager.createCloseOrder(position);
-      const closeOrder = { id: 'mock-close-order' }; // Simplified for now
-      const updatedPosition = await storage.updatePosition(id, { isOpen: false });
+      // A market order through the broker, like protection and emergency-stop closes; the fill closes the position
+      const closeOrder = await orderManager.createCloseOrder(position);
+      if (closeOrder.status === "REJECTED") {
+        return res.status(400).json({ error: `Close order rejected: ${closeOrder.rejectReason}`, order: closeOrder });
+      }
 
-      await notificationManager.sendTradeNotification("CLOSE", position.symbol, {
-        size: position.quantity,
-        price: position.currentPrice,
-        pnl: position.unrealizedPnL
-      });
+      const updatedPosition = (await storage.getPosition(id))!;
+      if (!updatedPosition.isOpen) {
+        await notificationManager.sendTradeNotification("CLOSE", position.symbol, {
+          size: position.quantity,
+          price: closeOrder.avgFillPrice,
+          pnl: updatedPosition.realizedPnL
+        });
+        broadcast({ type: "POSITION_CLOSED", data: updatedPosition });
+      }
 
-      broadcast({ type: "POSITION_CLOSED", data: updatedPosition });
-      res.json({ message: "Position closed", order: closeOrder });
+      res.json({ message: updatedPosition.isOpen ? `Close order ${closeOrder.status}` : "Position closed", order: closeOrder, position: updatedPosition });
     } catch (error) {
       await notificationManager.sendAlert("ERROR", `Failed to close position: ${error.message}`);
       res.status(400).json({ error: "Failed to close position" });
     }
   });
 
+  // Orders API
+  app.get("/api/orders", async (req, res) => {
+    try {
+      const { accountId, status } = req.query;
+      const orders = await storage.getOrders(accountId as string | undefined, status as string | undefined);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch orders" });
+    }
+  });
+
+  app.post("/api/orders", authenticateToken, async (req, res) => {
+    try {
+      const parsed = orderRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      const request = parsed.data;
+      const account = await storage.getAccount(request.accountId);
+      if (!account) {
+        return res.status(400).json({ error: `Unknown account: ${request.accountId}` });
+      }
+
+      // Orders that only reduce an open position skip the pre-trade rules, so locked or blocked
+      // accounts, and any account during an emergency stop, can still get flat
+      const openPositions = await storage.getOpenPositions(account.id);
+      const reduces = openPositions.some(position =>
+        position.symbol === request.symbol &&
+        position.side !== request.side &&
+        parseFloat(position.quantity) >= request.quantity
+      );
+
+      let quantity = request.quantity;
+      let riskDecisionId: string | undefined;
+      if (!reduces) {
+        // Manual orders run through the same rule pipeline as strategy signals, without strategy limits
+        const manualStrategy: Strategy = {
+          id: "",
+          userId: req.user!.id,
+          name: `Manual (${req.user!.username})`,
+          status: "ACTIVE",
+          isEnabled: true,
+          symbols: [request.symbol],
+          accountIds: [account.id],
+          createdAt: new Date().toISOString(),
+        };
+        const riskCheck = await riskManager.validateTrade({
+          accountId: account.id,
+          symbol: request.symbol,
+          side: request.side,
+          quantity: request.quantity,
+          stopLoss: request.stopLoss,
+          takeProfit: request.takeProfit,
+          reason: "Manual order",
+        }, manualStrategy, account);
+        if (!riskCheck.approved) {
+          return res.status(403).json({ error: riskCheck.reason, decisionId: riskCheck.decisionId });
+        }
+        quantity = riskCheck.adjustedQuantity ?? request.quantity;
+        riskDecisionId = riskCheck.decisionId;
+      }
+
+      const order = await orderManager.submitOrder({
+        accountId: request.accountId,
+        symbol: request.symbol,
+        side: request.side,
+        type: request.type,
+        quantity: quantity.toString(),
+        price: request.price?.toString(),
+        stopPrice: request.stopPrice?.toString(),
+        stopLoss: request.stopLoss?.toString(),
+        takeProfit: request.takeProfit?.toString(),
+        timeInForce: request.timeInForce,
+        expiresAt: request.expiresAt?.toISOString(),
+        status: "PENDING",
+        idempotencyKey: request.idempotencyKey || `MANUAL_${request.accountId}_${Date.now()}`,
+        riskDecisionId,
+      });
+
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to submit order" });
+    }
+  });
+
+  app.post("/api/orders/:id/cancel", async (req, res) => {
+    try {
+      const order = await orderManager.cancelOrder(req.params.id);
+      res.json(order);
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message || "Failed to cancel order" });
+    }
+  });
+
   // Risk API
   app.get("/api/risk/status", async (req, res) => {
     try {
-      const riskStatus = await riskManager.getCurrentRiskStatus();
+      const riskStatus = await riskManager.getCurrentRiskStatus(req.query.accountId as string | undefined);
       res.json(riskStatus);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch risk status" });
@@ -469,33 +618,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/risk/events", async (req, res) => {
     try {
-      // Mock risk events data
-      const riskEvents = [
-        {
-          id: "risk-evt-1",
-          level: "WARNING",
-          rule: "Daily Loss Limit",
-          action: "Position Size Reduced",
-          details: { 
-            threshold: 5000, 
-            current: 3500,
-            percentage: 70 
-          },
-          createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString()
-        },
-        {
-          id: "risk-evt-2",
-          level: "INFO",
-          rule: "Maximum Drawdown",
-          action: "Alert Triggered",
-          details: { 
-            threshold: 15, 
-            current: 8.5,
-            percentage: 56.7 
-          },
-          createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString()
-        }
-      ];
+      const riskEvents = await storage.getRiskEvents(req.query.accountId as string | undefined);
       res.json(riskEvents);
     } catch (error) {
       console.error("Failed to fetch risk events:", error);
@@ -503,21 +626,480 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/risk/emergency-stop", async (req, res) => {
+  // Prop-firm rule compliance for every account, or one with ?accountId=
+  app.get("/api/risk/compliance", async (req, res) => {
+    try {
+      let accounts = await storage.getAccounts();
+      if (req.query.accountId) {
+        accounts = accounts.filter(account => account.id === req.query.accountId);
+      }
+      const reports = await Promise.all(accounts.map(async account =>
+        propRulesService.evaluate(account, await riskLimitsService.getRules(account))
+      ));
+      res.json(reports);
+    } catch (error) {
+      console.error("Failed to evaluate prop rules:", error);
+      res.status(500).json({ error: "Failed to evaluate prop rules" });
+    }
+  });
+
+  // Net exposure per currency and correlated clusters, per account
+  app.get("/api/risk/currency-exposure", async (req, res) => {
+    try {
+      let accounts = await storage.getAccounts();
+      if (req.query.accountId) {
+        accounts = accounts.filter(account => account.id === req.query.accountId);
+      }
+      const reports = await Promise.all(accounts.map(account => currencyExposureService.getReport(account)));
+      res.json(reports);
+    } catch (error) {
+      console.error("Failed to calculate currency exposure:", error);
+      res.status(500).json({ error: "Failed to calculate currency exposure" });
+    }
+  });
+
+  // Value-at-Risk, Expected Shortfall and stress scenarios, per account
+  app.get("/api/risk/var", async (req, res) => {
+    try {
+      const parsed = varOptionsSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      let accounts = await storage.getAccounts();
+      if (req.query.accountId) {
+        accounts = accounts.filter(account => account.id === req.query.accountId);
+      }
+      const reports = await Promise.all(accounts.map(account => riskAnalyticsService.getReport(account, parsed.data)));
+      res.json(reports);
+    } catch (error) {
+      console.error("Failed to calculate value at risk:", error);
+      res.status(500).json({ error: "Failed to calculate value at risk" });
+    }
+  });
+
+  // Today's P&L since the broker rollover, per account
+  app.get("/api/risk/daily-pnl", async (req, res) => {
+    try {
+      let accounts = await storage.getAccounts();
+      if (req.query.accountId) {
+        accounts = accounts.filter(account => account.id === req.query.accountId);
+      }
+      res.json(await Promise.all(accounts.map(account => dailyPnLService.getDailyPnL(account))));
+    } catch (error) {
+      console.error("Failed to calculate daily P&L:", error);
+      res.status(500).json({ error: "Failed to calculate daily P&L" });
+    }
+  });
+
+  app.get("/api/accounts/:id/equity-snapshots", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      res.json(await dailyPnLService.getSnapshotHistory(req.params.id, limit));
+    } catch (error) {
+      console.error("Failed to fetch equity snapshots:", error);
+      res.status(500).json({ error: "Failed to fetch equity snapshots" });
+    }
+  });
+
+  // Active rule breaches and account locks
+  app.get("/api/risk/breaches", async (req, res) => {
+    try {
+      res.json(await breachMonitor.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch risk breaches" });
+    }
+  });
+
+  app.get("/api/risk/prop-presets", async (req, res) => {
+    res.json(propRulesService.getPresets());
+  });
+
+  // Loosening changes are held until the next rollover when the current rules say so, like risk limits
+  app.put("/api/accounts/:id/prop-rules", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      const account = await storage.getAccount(req.params.id);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      const parsed = propRulesUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      let rules;
+      try {
+        rules = propRulesService.parse(parsed.data.rules);
+      } catch (error: any) {
+        const issues = error.errors?.map((e: any) => `${e.path.join(".")}: ${e.message}`).join("; ");
+        return res.status(400).json({ error: issues || "Invalid prop rules" });
+      }
+
+      const plan = await riskLimitsService.planPropRulesChange(account, parsed.data);
+      if (plan.conflict) {
+        return res.status(409).json({ error: plan.conflict, earliestEffectiveFrom: plan.deferredUntil });
+      }
+
+      const change = await riskLimitsService.setPropRules(account, parsed.data, req.user!.username);
+      const updated = (await storage.getAccount(account.id))!;
+      broadcast({ type: "RISK_LIMITS_UPDATED", data: { scope: "ACCOUNT", scopeId: account.id, propRules: change }, timestamp: new Date().toISOString() });
+      res.json({ account: updated, rules, ...change, compliance: await propRulesService.evaluate(updated, await riskLimitsService.getRules(updated)) });
+    } catch (error) {
+      console.error("Failed to update prop rules:", error);
+      res.status(500).json({ error: "Failed to update prop rules" });
+    }
+  });
+
+  app.get("/api/accounts/:id/prop-rules/history", async (req, res) => {
     try {
-      await riskManager.emergencyStop();
+      const account = await storage.getAccount(req.params.id);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+      res.json(await riskLimitsService.getPropRulesHistory(account.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch prop rule history" });
+    }
+  });
 
-      // Send critical notification
-      await notificationManager.sendAlert("CRITICAL", "Emergency Stop Triggered - All trading has been halted");
+  app.get("/api/risk/emergency-stop", async (req, res) => {
+    try {
+      const history = await riskManager.getHaltHistory();
+      res.json({ ...riskManager.getEmergencyStopStatus(), history });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch emergency stop status" });
+    }
+  });
+
+  app.post("/api/risk/emergency-stop", authenticateToken, async (req, res) => {
+    try {
+      const reason = typeof req.body?.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : undefined;
+      const status = await riskManager.emergencyStop(req.user!.username, "API", reason);
 
-      broadcast({ type: "EMERGENCY_STOP", timestamp: new Date().toISOString() });
-      res.json({ message: "Emergency stop executed" });
+      broadcast({ type: "EMERGENCY_STOP", data: status, timestamp: new Date().toISOString() });
+      res.json({ message: "Emergency stop executed", ...status });
     } catch (error) {
       await notificationManager.sendAlert("ERROR", `Failed to execute emergency stop: ${error.message}`);
       res.status(500).json({ error: "Failed to execute emergency stop" });
     }
   });
 
+  app.post("/api/risk/resume", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ error: "A reason is required to resume trading" });
+      }
+      if (!riskManager.isEmergencyStopActive()) {
+        return res.status(409).json({ error: "Emergency stop is not active" });
+      }
+
+      const halt = await riskManager.resumeTrading(req.user!.username, "API", reason);
+      broadcast({ type: "TRADING_RESUMED", data: halt, timestamp: new Date().toISOString() });
+      res.json({ message: "Trading resumed", halt });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resume trading" });
+    }
+  });
+
+  // Trading sessions, market hours and news blackouts
+  app.get("/api/risk/sessions", async (req, res) => {
+    try {
+      res.json(sessionManager.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch trading sessions" });
+    }
+  });
+
+  app.put("/api/risk/sessions/:name", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = sessionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+      if (!sessionManager.getSessions().some(session => session.name === req.params.name)) {
+        return res.status(404).json({ error: "Trading session not found" });
+      }
+
+      res.json(await sessionManager.updateSession(req.params.name, parsed.data, req.user!.username));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update trading session" });
+    }
+  });
+
+  app.put("/api/risk/news-blackout", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = newsBlackoutSettingsSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      res.json(await sessionManager.updateBlackoutSettings(parsed.data, req.user!.username));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update news blackout settings" });
+    }
+  });
+
+  app.post("/api/risk/news-events", authenticateToken, async (req, res) => {
+    try {
+      const parsed = newsEventSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      await sessionManager.addNewsEvent(parsed.data);
+      res.json(sessionManager.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to add news event" });
+    }
+  });
+
+  // Economic calendar; imported releases schedule the news blackouts
+  app.get("/api/calendar/events", async (req, res) => {
+    try {
+      const { currency, impact } = req.query;
+      if (impact && !(NEWS_IMPACTS as readonly string[]).includes(impact as string)) {
+        return res.status(400).json({ error: `impact must be one of ${NEWS_IMPACTS.join(", ")}` });
+      }
+
+      // Upcoming week by default
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      const hours = req.query.hours ? parseInt(req.query.hours as string, 10) : 7 * 24;
+      const to = req.query.to ? new Date(req.query.to as string) : new Date(from.getTime() + hours * 60 * 60000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ error: "from and to must be dates" });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      res.json(await economicCalendarService.getEvents({
+        from,
+        to,
+        currency: currency as string | undefined,
+        minImpact: impact as typeof NEWS_IMPACTS[number] | undefined,
+        limit,
+      }));
+    } catch (error) {
+      console.error("Failed to fetch economic events:", error);
+      res.status(500).json({ error: "Failed to fetch economic events" });
+    }
+  });
+
+  // Raw XML, CSV or JSON body; format and utcOffsetMinutes go in the query string
+  app.post(
+    "/api/calendar/import",
+    authenticateToken,
+    express.text({ type: ["text/csv", "text/plain", "text/xml", "application/xml", "application/json"], limit: "10mb" }),
+    async (req, res) => {
+      try {
+        const parsed = calendarImportOptionsSchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+        }
+        if (typeof req.body !== "string" || req.body.length === 0) {
+          return res.status(400).json({ error: "Calendar file content is required (Content-Type: text/xml, text/csv or application/json)" });
+        }
+
+        const result = await economicCalendarService.importContent(req.body, parsed.data);
+        broadcast({ type: "CALENDAR_IMPORTED", data: result, timestamp: new Date().toISOString() });
+        res.json(result);
+      } catch (error: any) {
+        console.error("Calendar import error:", error);
+        res.status(400).json({ error: error.message || "Failed to import economic calendar" });
+      }
+    }
+  );
+
+  app.post("/api/calendar/refresh", authenticateToken, async (req, res) => {
+    try {
+      const result = await economicCalendarService.refreshFeed();
+      broadcast({ type: "CALENDAR_IMPORTED", data: result, timestamp: new Date().toISOString() });
+      res.json(result);
+    } catch (error: any) {
+      res.status(502).json({ error: error.message || "Failed to refresh the economic calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar/settings", async (req, res) => {
+    res.json(economicCalendarService.getSettings());
+  });
+
+  app.put("/api/calendar/settings", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      const parsed = calendarSettingsSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      res.json(await economicCalendarService.updateSettings(parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update economic calendar settings" });
+    }
+  });
+
+  // Blackout windows in the coming hours, per symbol
+  app.get("/api/calendar/blackouts", async (req, res) => {
+    try {
+      const symbols = req.query.symbol ? [(req.query.symbol as string).toUpperCase()] : undefined;
+      const hours = req.query.hours ? parseInt(req.query.hours as string, 10) : undefined;
+      res.json(sessionManager.getBlackoutSchedule(symbols, hours));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch news blackouts" });
+    }
+  });
+
+  // Versioned risk limits per account or strategy, on top of the prop rules
+  const findLimitScope = async (scope: string, scopeId: string): Promise<RiskLimitScope | null> => {
+    const normalized = scope.toUpperCase() as RiskLimitScope;
+    if (!RISK_LIMIT_SCOPES.includes(normalized)) return null;
+    const owner = normalized === "ACCOUNT" ? await storage.getAccount(scopeId) : await storage.getStrategy(scopeId);
+    return owner ? normalized : null;
+  };
+
+  app.get("/api/risk/limits/:scope/:scopeId", async (req, res) => {
+    try {
+      const scope = await findLimitScope(req.params.scope, req.params.scopeId);
+      if (!scope) {
+        return res.status(404).json({ error: "Account or strategy not found" });
+      }
+
+      res.json(await riskLimitsService.getView(scope, req.params.scopeId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch risk limits" });
+    }
+  });
+
+  app.get("/api/risk/limits/:scope/:scopeId/history", async (req, res) => {
+    try {
+      const scope = await findLimitScope(req.params.scope, req.params.scopeId);
+      if (!scope) {
+        return res.status(404).json({ error: "Account or strategy not found" });
+      }
+
+      res.json(await riskLimitsService.getHistory(scope, req.params.scopeId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch risk limit history" });
+    }
+  });
+
+  // Replaces the limits; DELETE is the same change with every limit removed
+  const setRiskLimits = async (req: Request, res: Response, body: unknown) => {
+    try {
+      const scope = await findLimitScope(req.params.scope, req.params.scopeId);
+      if (!scope) {
+        return res.status(404).json({ error: "Account or strategy not found" });
+      }
+
+      const parsed = riskLimitsUpdateSchema.safeParse(body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+      const unsupported = riskLimitsService.getUnsupportedLimits(scope, parsed.data.limits);
+      if (unsupported.length > 0) {
+        return res.status(400).json({ error: `${unsupported.join(", ")} can only be set on accounts` });
+      }
+
+      const plan = await riskLimitsService.planChange(scope, req.params.scopeId, parsed.data);
+      if (plan.conflict) {
+        return res.status(409).json({ error: plan.conflict, earliestEffectiveFrom: plan.deferredUntil });
+      }
+
+      const change = await riskLimitsService.setLimits(scope, req.params.scopeId, parsed.data, req.user!.username);
+      broadcast({ type: "RISK_LIMITS_UPDATED", data: { scope, scopeId: req.params.scopeId, ...change }, timestamp: new Date().toISOString() });
+      res.json(change);
+    } catch (error) {
+      console.error("Failed to update risk limits:", error);
+      res.status(500).json({ error: "Failed to update risk limits" });
+    }
+  };
+
+  app.put("/api/risk/limits/:scope/:scopeId", authenticateToken, requireRole(["admin"]), (req, res) =>
+    setRiskLimits(req, res, req.body));
+
+  app.delete("/api/risk/limits/:scope/:scopeId", authenticateToken, requireRole(["admin"]), (req, res) =>
+    setRiskLimits(req, res, { reason: "Limits removed", ...req.body, limits: {} }));
+
+  // Pre-trade rules and the decision trace recorded for every order they evaluated
+  app.get("/api/risk/rules", async (req, res) => {
+    try {
+      res.json(await preTradeRules.list());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pre-trade rules" });
+    }
+  });
+
+  app.put("/api/risk/rules/:name", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      if (!preTradeRules.has(req.params.name)) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+
+      const parsed = ruleSettingsUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      let rule;
+      try {
+        rule = await preTradeRules.configure(req.params.name, parsed.data);
+      } catch (error: any) {
+        const issues = error.errors?.map((e: any) => `config.${e.path.join(".")}: ${e.message}`).join("; ");
+        return res.status(400).json({ error: issues || error.message });
+      }
+
+      broadcast({ type: "RISK_RULE_UPDATED", data: rule, timestamp: new Date().toISOString() });
+      res.json(rule);
+    } catch (error) {
+      console.error("Failed to update pre-trade rule:", error);
+      res.status(500).json({ error: "Failed to update pre-trade rule" });
+    }
+  });
+
+  app.get("/api/risk/decisions", async (req, res) => {
+    try {
+      if (req.query.orderId) {
+        const order = await storage.getOrder(req.query.orderId as string);
+        if (!order) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+        const decision = order.riskDecisionId ? await preTradeRules.getDecision(order.riskDecisionId) : null;
+        return res.json(decision ? [decision] : []);
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      res.json(await preTradeRules.getDecisions({ accountId: req.query.accountId as string | undefined, limit }));
+    } catch (error) {
+      console.error("Failed to fetch risk decisions:", error);
+      res.status(500).json({ error: "Failed to fetch risk decisions" });
+    }
+  });
+
+  app.get("/api/risk/decisions/:id", async (req, res) => {
+    try {
+      const decision = await preTradeRules.getDecision(req.params.id);
+      if (!decision) {
+        return res.status(404).json({ error: "Decision not found" });
+      }
+      res.json(decision);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch risk decision" });
+    }
+  });
+
+  // Evaluates a past decision's trade again under the current rules and account state
+  app.post("/api/risk/decisions/:id/replay", async (req, res) => {
+    try {
+      const replay = await preTradeRules.replay(req.params.id);
+      if (!replay) {
+        return res.status(404).json({ error: "Decision not found" });
+      }
+      res.json(replay);
+    } catch (error) {
+      console.error("Failed to replay risk decision:", error);
+      res.status(500).json({ error: "Failed to replay risk decision" });
+    }
+  });
+
   // Backtests API
   app.get("/api/backtests", async (req, res) => {
     try {
@@ -1122,8 +1704,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/backtests", async (req, res) => {
     try {
-      const validatedData = insertBacktestSchema.parse(req.body);
-      const backtest = await storage.createBacktest(validatedData);
+      const parsed = backtestRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      const request = parsed.data;
+      const costProfile = request.parameters.costProfile || DEFAULT_COST_PROFILE;
+      if (!await executionCostService.get(costProfile)) {
+        return res.status(400).json({ error: `Unknown cost profile: ${costProfile}` });
+      }
+      const backtest = await storage.createBacktest({
+        ...request,
+        startDate: request.startDate.toISOString(),
+        endDate: request.endDate.toISOString(),
+        kind: "SINGLE",
+        parentId: null,
+      });
 
       // Start backtest execution (async)
       strategyEngine.runBacktest(backtest).catch(console.error);
@@ -1190,6 +1787,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { timeframe = "30d", account = "all" } = req.query;
 
+      // 1-day 95% historical VaR of the first account's open positions
+      const [firstAccount] = await storage.getAccounts();
+      const varReport = firstAccount ? await riskAnalyticsService.getReport(firstAccount) : null;
+      const valueAtRisk = varReport?.results.find(result => result.method === "HISTORICAL")?.valueAtRisk ?? 0;
+
+      // Ratios from the selected account's closed positions over the timeframe
+      const timeframeDays: Record<string, number> = { "7d": 7, "30d": 30, "90d": 90, "1y": 365 };
+      const accountId = account !== "all" ? account as string : firstAccount?.id;
+      const since = new Date(Date.now() - (timeframeDays[timeframe as string] ?? 30) * 24 * 3600000);
+      const performance = accountId ? await performanceTracker.calculateMetrics(accountId, since) : null;
+
       // Mock performance data
       const performanceData = {
         equity: Array.from({ length: 30 }, (_, i) => ({
@@ -1220,12 +1828,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { symbol: "AUDUSD", trades: 19, pnl: 1120, winRate: 62.3 }
         ],
         riskMetrics: {
-          sharpeRatio: 1.85,
-          sortinoRatio: 2.12,
-          calmarRatio: 1.94,
-          maxDrawdown: 8.3,
-          volatility: 12.5,
-          valueAtRisk: 2340
+          sharpeRatio: performance?.sharpeRatio ?? 0,
+          sortinoRatio: performance?.sortinoRatio ?? 0,
+          calmarRatio: performance?.calmarRatio ?? 0,
+          maxDrawdown: performance?.maxDrawdown ?? 0,
+          volatility: performance?.volatility ?? 0,
+          valueAtRisk
         }
       };
 
@@ -1279,6 +1887,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Historical Market Data API
+  app.get("/api/market-data/bars", authenticateToken, async (req, res) => {
+    try {
+      const { symbol, timeframe = "H1", from, to, limit } = req.query;
+
+      if (!symbol) {
+        return res.status(400).json({ error: "symbol is required" });
+      }
+      if (!TIMEFRAMES.includes(timeframe as any)) {
+        return res.status(400).json({ error: `timeframe must be one of ${TIMEFRAMES.join(", ")}` });
+      }
+
+      const bars = await historicalDataService.getBars((symbol as string).toUpperCase(), timeframe as any, {
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+        limit: limit ? parseInt(limit as string) : 5000,
+      });
+      res.json(bars);
+    } catch (error) {
+      console.error("Failed to fetch bars:", error);
+      res.status(500).json({ error: "Failed to fetch bars" });
+    }
+  });
+
+  // Raw CSV body; symbol, timeframe, format and utcOffsetMinutes go in the query string
+  app.post(
+    "/api/market-data/bars",
+    authenticateToken,
+    express.text({ type: ["text/csv", "text/plain"], limit: "200mb" }),
+    async (req, res) => {
+      try {
+        const parsed = barImportOptionsSchema.safeParse(req.query);
+        if (!parsed.success) {
+          return res.status(400).json({ error: "Invalid import options", details: parsed.error.flatten() });
+        }
+        if (typeof req.body !== "string" || req.body.length === 0) {
+          return res.status(400).json({ error: "CSV file content is required (Content-Type: text/csv)" });
+        }
+
+        const result = await historicalDataService.importCsv(req.body, parsed.data);
+        broadcast({ type: "MARKET_DATA_IMPORTED", data: result });
+        res.json(result);
+      } catch (error: any) {
+        console.error("Bar import error:", error);
+        res.status(400).json({ error: error.message || "Failed to import bars" });
+      }
+    }
+  );
+
+  app.get("/api/market-data/coverage", authenticateToken, async (req, res) => {
+    try {
+      const { symbol } = req.query;
+      const coverage = await historicalDataService.getCoverage(symbol ? (symbol as string).toUpperCase() : undefined);
+      res.json(coverage);
+    } catch (error) {
+      console.error("Failed to fetch data coverage:", error);
+      res.status(500).json({ error: "Failed to fetch data coverage" });
+    }
+  });
+
   // Trading Signals API
   app.get("/api/signals", async (req, res) => {
     try {
@@ -1357,6 +2025,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const backtest = await storage.getBacktest(id);
       const strategy = await storage.getStrategy(backtest.strategyId);
+      if (!strategy) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
 
       const { backtestingEngine } = await import("./services/backtesting-engine");
       backtestingEngine.runBacktest(backtest, strategy).catch(console.error);
@@ -1367,6 +2038,207 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stored results of a completed backtest: trade log, equity/drawdown series and config snapshot
+  app.get("/api/backtests/:id/trades", async (req, res) => {
+    try {
+      const format = req.query.format === "csv" ? "csv" : "json";
+      const result = await backtestArtifactStore.loadById(req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (!result.artifact) {
+        return res.status(404).json({ error: "No trade log stored for this backtest" });
+      }
+
+      if (req.query.download === "true") {
+        res.setHeader('Content-Disposition', `attachment; filename="backtest-${req.params.id}-trades.${format}"`);
+      }
+      if (format === "csv") {
+        res.setHeader('Content-Type', 'text/csv');
+        return res.send(backtestArtifactStore.toTradesCsv(result.artifact.trades));
+      }
+      res.json(result.artifact.trades);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch backtest trades" });
+    }
+  });
+
+  app.get("/api/backtests/:id/equity", async (req, res) => {
+    try {
+      const points = req.query.points ? parseInt(req.query.points as string) : undefined;
+      if (points !== undefined && (!Number.isFinite(points) || points < 2)) {
+        return res.status(400).json({ error: "points must be a number of at least 2" });
+      }
+
+      const result = await backtestArtifactStore.loadById(req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (!result.artifact) {
+        return res.status(404).json({ error: "No equity series stored for this backtest" });
+      }
+
+      res.json(backtestArtifactStore.getEquityChart(result.artifact, points));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch backtest equity" });
+    }
+  });
+
+  app.get("/api/backtests/:id/artifact", async (req, res) => {
+    try {
+      const result = await backtestArtifactStore.loadById(req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (!result.artifact) {
+        return res.status(404).json({ error: "No results stored for this backtest" });
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="backtest-${req.params.id}.json"`);
+      res.json(result.artifact);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch backtest results" });
+    }
+  });
+
+  // Resampled, thinned and slipped replays of the stored trades
+  app.get("/api/backtests/:id/monte-carlo", async (req, res) => {
+    try {
+      const parsed = monteCarloOptionsSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      const result = await backtestArtifactStore.loadById(req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      if (!result.artifact) {
+        return res.status(404).json({ error: "No trade log stored for this backtest" });
+      }
+      if (result.artifact.trades.length === 0) {
+        return res.status(400).json({ error: "The backtest has no trades to resample" });
+      }
+
+      res.json(await monteCarloSimulator.run(req.params.id, result.artifact, parsed.data));
+    } catch (error) {
+      console.error("Monte Carlo analysis error:", error);
+      res.status(500).json({ error: "Failed to run Monte Carlo analysis" });
+    }
+  });
+
+  // Execution cost profiles priced into backtests and paper fills
+  app.get("/api/execution-costs/profiles", async (req, res) => {
+    try {
+      res.json(await executionCostService.list());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch cost profiles" });
+    }
+  });
+
+  app.get("/api/execution-costs/profiles/:name", async (req, res) => {
+    try {
+      const profile = await executionCostService.get(req.params.name);
+      if (!profile) {
+        return res.status(404).json({ error: "Cost profile not found" });
+      }
+
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch cost profile" });
+    }
+  });
+
+  app.put("/api/execution-costs/profiles/:name", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      const name = costProfileNameSchema.safeParse(req.params.name);
+      if (!name.success) {
+        return res.status(400).json({ error: `name: ${name.error.errors[0].message}` });
+      }
+      const parsed = costProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+
+      const profile = await executionCostService.save(name.data, parsed.data, req.user!.username);
+      broadcast({ type: "COST_PROFILE_UPDATED", data: profile, timestamp: new Date().toISOString() });
+      res.json(profile);
+    } catch (error) {
+      console.error("Failed to update cost profile:", error);
+      res.status(500).json({ error: "Failed to update cost profile" });
+    }
+  });
+
+  app.delete("/api/execution-costs/profiles/:name", authenticateToken, requireRole(["admin"]), async (req, res) => {
+    try {
+      if (!await executionCostService.get(req.params.name)) {
+        return res.status(404).json({ error: "Cost profile not found" });
+      }
+
+      const restored = await executionCostService.remove(req.params.name);
+      broadcast({ type: "COST_PROFILE_UPDATED", data: restored ?? { name: req.params.name, removed: true }, timestamp: new Date().toISOString() });
+      res.json(restored ?? { success: true });
+    } catch (error) {
+      console.error("Failed to remove cost profile:", error);
+      res.status(500).json({ error: "Failed to remove cost profile" });
+    }
+  });
+
+  // Parameter sweeps and walk-forward runs, stored as child backtests of one job
+  app.post("/api/backtests/optimize", authenticateToken, async (req, res) => {
+    try {
+      const parsed = optimizationConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ") });
+      }
+      if (!await storage.getStrategy(parsed.data.strategyId)) {
+        return res.status(404).json({ error: "Strategy not found" });
+      }
+      if (!await executionCostService.get(parsed.data.backtestParameters.costProfile)) {
+        return res.status(400).json({ error: `Unknown cost profile: ${parsed.data.backtestParameters.costProfile}` });
+      }
+
+      let plan;
+      try {
+        plan = backtestOptimizer.plan(parsed.data);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const job = await backtestOptimizer.start(parsed.data);
+      broadcast({ type: "BACKTEST_UPDATE", data: job, timestamp: new Date().toISOString() });
+      res.json({ ...job, totalRuns: plan.totalRuns });
+    } catch (error) {
+      console.error("Failed to start optimization:", error);
+      res.status(500).json({ error: "Failed to start optimization" });
+    }
+  });
+
+  app.get("/api/backtests/:id/optimization", async (req, res) => {
+    try {
+      const results = await backtestOptimizer.getResults(req.params.id);
+      if (!results) {
+        return res.status(404).json({ error: "Optimization not found" });
+      }
+
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch optimization results" });
+    }
+  });
+
+  app.post("/api/backtests/:id/cancel", authenticateToken, async (req, res) => {
+    try {
+      if (!backtestOptimizer.cancel(req.params.id)) {
+        return res.status(409).json({ error: "No running optimization with this id" });
+      }
+
+      res.json({ message: "Optimization cancelling" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel optimization" });
+    }
+  });
+
   // Enhanced Logging API
   app.get("/api/logs", async (req, res) => {
     try {
@@ -1396,24 +2268,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Account currency by account id, for P&L conversion
+  const getAccountCurrencies = async (): Promise<Map<string, string>> => {
+    const accounts = await storage.getAccounts();
+    return new Map(accounts.map(account => [account.id, account.baseCurrency || "USD"]));
+  };
+
   // Enhanced Positions API with real-time updates
   app.post("/api/positions/update-prices", async (req, res) => {
     try {
       const openPositions = await storage.getOpenPositions();
       const { marketDataService } = await import("./services/market-data");
+      const accountCurrencies = await getAccountCurrencies();
 
       for (const position of openPositions) {
         const currentPrice = await marketDataService.getLatestPrice(position.symbol);
         if (currentPrice) {
-          const quantity = parseFloat(position.quantity);
-          const avgPrice = parseFloat(position.avgPrice);
-          const side = position.side;
-
-          // Calculate unrealized P&L
-          const pnlPerUnit = side === "BUY" ? 
-            currentPrice.price - avgPrice : 
-            avgPrice - currentPrice.price;
-          const unrealizedPnL = pnlPerUnit * quantity * 100000;
+          // Calculate unrealized P&L in the account's currency
+          const unrealizedPnL = pricingService.calculatePnL(
+            position.symbol,
+            position.side,
+            parseFloat(position.quantity),
+            parseFloat(position.avgPrice),
+            currentPrice.price,
+            accountCurrencies.get(position.accountId)
+          );
 
           await storage.updatePosition(position.id, {
             currentPrice: currentPrice.price.toString(),
@@ -1486,45 +2365,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     broadcast({ type: "PRICE_UPDATE", data: update });
   });
 
+  // Push order state changes, including resting orders filled or expired by the broker
+  orderManager.onOrderUpdate((order) => {
+    const type = order.status === "FILLED" || order.status === "PARTIAL" ? "ORDER_FILLED" :
+      order.status === "CANCELLED" || order.status === "EXPIRED" ? "ORDER_CANCELLED" : "ORDER_UPDATED";
+    broadcast({ type, data: order });
+  });
+
+  breachMonitor.onBreach((account, breach) => {
+    broadcast({ type: "RISK_BREACH", data: { accountId: account.id, ...breach } });
+  });
+
   // Start periodic position price updates
   setInterval(async () => {
     try {
       const openPositions = await storage.getOpenPositions();
+      const accountCurrencies = await getAccountCurrencies();
       const updatedPositions = [];
 
       for (const position of openPositions) {
-        const currentPrice = await marketDataService.getLatestPrice(position.symbol);
-        if (currentPrice) {
-          const quantity = parseFloat(position.quantity);
-          const avgPrice = parseFloat(position.avgPrice);
-          const side = position.side;
-          const previousPnL = parseFloat(position.unrealizedPnL);
-
-          // Calculate unrealized P&L
-          const pnlPerUnit = side === "BUY" ? 
-            currentPrice.price - avgPrice : 
-            avgPrice - currentPrice.price;
-          const unrealizedPnL = pnlPerUnit * quantity * 100000;
-
-          const updatedPosition = await storage.updatePosition(position.id, {
-            currentPrice: currentPrice.price.toString(),
-            unrealizedPnL: unrealizedPnL.toString(),
-          });
-
-          // Send notification for significant P&L changes
-          const pnlChange = Math.abs(unrealizedPnL - previousPnL);
-          if (pnlChange > 1000) { // Notify for changes > $1000
-            const changeDirection = unrealizedPnL > previousPnL ? "📈 PROFIT" : "📉 LOSS";
-            await notificationManager.sendAlert("INFO", 
-              `${changeDirection}: ${position.symbol} P&L changed by $${pnlChange.toFixed(2)} (Total: $${unrealizedPnL.toFixed(2)})`,
-              position.symbol
+        // A position that cannot be marked keeps its last P&L rather than stopping the rest
+        try {
+          const currentPrice = await marketDataService.getLatestPrice(position.symbol);
+          if (currentPrice) {
+            const previousPnL = parseFloat(position.unrealizedPnL);
+
+            // Calculate unrealized P&L in the account's currency
+            const unrealizedPnL = pricingService.calculatePnL(
+              position.symbol,
+              position.side,
+              parseFloat(position.quantity),
+              parseFloat(position.avgPrice),
+              currentPrice.price,
+              accountCurrencies.get(position.accountId)
             );
-          }
 
-          updatedPositions.push(updatedPosition);
+            const updatedPosition = await storage.updatePosition(position.id, {
+              currentPrice: currentPrice.price.toString(),
+              unrealizedPnL: unrealizedPnL.toString(),
+            });
+
+            // Send notification for significant P&L changes
+            const pnlChange = Math.abs(unrealizedPnL - previousPnL);
+            if (pnlChange > 1000) { // Notify for changes > $1000
+              const changeDirection = unrealizedPnL > previousPnL ? "📈 PROFIT" : "📉 LOSS";
+              await notificationManager.sendAlert("INFO", 
+                `${changeDirection}: ${position.symbol} P&L changed by $${pnlChange.toFixed(2)} (Total: $${unrealizedPnL.toFixed(2)})`,
+                position.symbol
+              );
+            }
+
+            updatedPositions.push(updatedPosition);
+          }
+        } catch (error) {
+          console.error(`Failed to mark position ${position.id}:`, error);
         }
       }
 
+      // Mark each account's equity to market
+      const accounts = await storage.getAccounts();
+      const markedPositions = await storage.getOpenPositions();
+      for (const account of accounts) {
+        const unrealizedPnL = markedPositions
+          .filter(position => position.accountId === account.id)
+          .reduce((sum, position) => sum + parseFloat(position.unrealizedPnL || "0"), 0);
+        const marked = await storage.updateAccount(account.id, {
+          equity: (parseFloat(account.balance || "0") + unrealizedPnL).toFixed(2),
+        });
+        await breachMonitor.onEquityUpdate(marked).catch(error =>
+          console.error(`Breach monitor error on account ${account.id}:`, error)
+        );
+      }
+
       if (updatedPositions.length > 0) {
         broadcast({ type: "POSITIONS_UPDATED", data: updatedPositions });
       }
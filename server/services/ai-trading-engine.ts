@@ -3,6 +3,9 @@ import axios from 'axios';
 import { mt5Integration } from './mt5-integration';
 import { storage } from '../storage';
 import { notificationManager } from './notification-manager';
+import { positionSizingService } from './position-sizing';
+import { sessionManager } from './session-manager';
+import { ATR, MACD, RSI, SMA, latestValue } from './indicators';
 
 interface AIAnalysis {
   signal: 'BUY' | 'SELL' | 'HOLD';
@@ -60,6 +63,11 @@ class AITradingEngine {
       throw new Error('MT5 not connected - cannot start AI trading');
     }
 
+    const { riskManager } = await import('./risk-manager');
+    if (riskManager.isEmergencyStopActive()) {
+      throw new Error('Emergency stop is active - cannot start AI trading');
+    }
+
     this.isActive = true;
     console.log('🤖 AI Trading Engine started');
 
@@ -157,73 +165,30 @@ class AITradingEngine {
     const closes = data.map(d => d.close);
     
     // Simple Moving Averages
-    const sma20 = this.calculateSMA(closes, 20);
-    const sma50 = this.calculateSMA(closes, 50);
+    const sma20 = latestValue(new SMA(20), closes);
+    const sma50 = latestValue(new SMA(50), closes);
     
     // RSI
-    const rsi = this.calculateRSI(closes, 14);
+    const rsi = latestValue(new RSI(14), closes);
     
     // MACD
-    const macd = this.calculateMACD(closes);
+    const macd = latestValue(new MACD(12, 26, 9), closes);
+    
+    // Volatility
+    const atr = latestValue(new ATR(14), data);
 
     return {
       sma20,
       sma50,
       rsi,
-      macd: macd.signal,
-      trend: sma20 > sma50 ? 'BULLISH' : 'BEARISH'
+      macd: macd?.macd ?? null,
+      macdSignal: macd?.signal ?? null,
+      macdHistogram: macd?.histogram ?? null,
+      atr,
+      trend: sma20 !== null && sma50 !== null ? (sma20 > sma50 ? 'BULLISH' : 'BEARISH') : 'UNKNOWN'
     };
   }
 
-  private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return 0;
-    const recentPrices = prices.slice(-period);
-    return recentPrices.reduce((sum, price) => sum + price, 0) / period;
-  }
-
-  private calculateRSI(prices: number[], period: number): number {
-    if (prices.length < period + 1) return 50;
-    
-    let gains = 0;
-    let losses = 0;
-    
-    for (let i = prices.length - period; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) gains += change;
-      else losses += Math.abs(change);
-    }
-    
-    const avgGain = gains / period;
-    const avgLoss = losses / period;
-    const rs = avgGain / avgLoss;
-    
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateMACD(prices: number[]): { signal: number; histogram: number } {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    const macdLine = ema12 - ema26;
-    const signalLine = this.calculateEMA([macdLine], 9);
-    
-    return {
-      signal: macdLine - signalLine,
-      histogram: macdLine - signalLine
-    };
-  }
-
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length === 0) return 0;
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-    
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-    
-    return ema;
-  }
-
   private async getAIAnalysis(context: MarketContext): Promise<AIAnalysis> {
     const prompt = `
 You are an expert forex trader analyzing the ${context.symbol} pair. Based on the following market data, provide a trading recommendation:
@@ -330,6 +295,13 @@ Only recommend BUY/SELL if confidence is above 70%. Focus on risk management.
 
   private async executeTrade(symbol: string, analysis: AIAnalysis): Promise<void> {
     try {
+      // Market hours, news blackouts and the symbol's trading sessions
+      const tradeable = sessionManager.isSymbolTradeable(symbol);
+      if (!tradeable.allowed) {
+        console.log(`Skipping ${symbol} - ${tradeable.reason}`);
+        return;
+      }
+
       // Check current positions to avoid overexposure
       const positionsResult = await mt5Integration.getPositions();
       if (!positionsResult.success) {
@@ -343,17 +315,26 @@ Only recommend BUY/SELL if confidence is above 70%. Focus on risk management.
         return;
       }
 
-      // Calculate position size (1% risk per trade)
+      // Size the trade from the MT5 account's equity (1% risk per trade)
       const accountResult = await mt5Integration.getAccountInfo();
       if (!accountResult.success) {
         console.error('Failed to get account info');
         return;
       }
 
-      const balance = accountResult.account.balance;
-      const riskAmount = balance * 0.01; // 1% risk
-      const stopDistance = analysis.stopLoss ? Math.abs(analysis.entryPrice! - analysis.stopLoss) : 0.01;
-      const positionSize = Math.min(0.1, riskAmount / (stopDistance * 100000)); // Standard lot calculation
+      const sizing = await positionSizingService.calculate({
+        equity: accountResult.account.equity ?? accountResult.account.balance,
+        accountCurrency: accountResult.account.currency || 'USD',
+        brokerId: 'mt5',
+        symbol,
+        stopDistance: analysis.stopLoss ? Math.abs(analysis.entryPrice! - analysis.stopLoss) : 0.01,
+        riskPercent: 1,
+      });
+      if (sizing.quantity <= 0) {
+        console.log(`Skipping ${symbol} - ${sizing.note || 'no tradable size'}`);
+        return;
+      }
+      const positionSize = sizing.quantity;
 
       // Place order through MT5
       const orderResult = await mt5Integration.placeOrder(
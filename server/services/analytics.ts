@@ -1,19 +1,11 @@
 
 import { storage } from "../storage";
+import { pricingService } from "./pricing";
+import { performanceMetrics, PerformanceReport, EquitySample } from "./performance-metrics";
 
-interface PerformanceMetrics {
-  totalReturn: number;
-  sharpeRatio: number;
-  sortinoRatio: number;
-  maxDrawdown: number;
-  winRate: number;
-  profitFactor: number;
+interface PerformanceMetrics extends PerformanceReport {
+  netProfit: number;
   averageTrade: number;
-  largestWin: number;
-  largestLoss: number;
-  consecutiveWins: number;
-  consecutiveLosses: number;
-  totalTrades: number;
   averageHoldTime: number;
 }
 
@@ -34,16 +26,24 @@ class Analytics {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - days);
 
-      const orders = await storage.getOrdersByStrategy(strategyId);
+      const orders = (await storage.getOrders()).filter(order => order.strategyId === strategyId);
       const filledOrders = orders.filter(order => 
         order.status === "FILLED" && 
         new Date(order.createdAt || "") >= cutoffDate
       );
 
-      const trades = this.groupOrdersIntoTrades(filledOrders);
-      const metrics = this.calculateMetrics(trades);
-      const dailyReturns = this.calculateDailyReturns(trades);
-      const drawdownHistory = this.calculateDrawdownHistory(dailyReturns);
+      const accounts = await storage.getAccounts();
+      const accountCurrencies = new Map(accounts.map(account => [account.id, account.baseCurrency || "USD"]));
+
+      const trades = this.groupOrdersIntoTrades(filledOrders, accountCurrencies);
+      // Capital of the accounts the strategy trades on, backed out to the start of the period
+      const capital = accounts
+        .filter(account => !strategy.accountIds?.length || strategy.accountIds.includes(account.id))
+        .reduce((sum, account) => sum + parseFloat(account.balance), 0);
+      const equity = this.buildEquityCurve(trades, capital, cutoffDate);
+      const metrics = this.calculateMetrics(trades, equity);
+      const dailyReturns = this.calculateDailyReturns(equity);
+      const drawdownHistory = this.calculateDrawdownHistory(equity);
 
       return {
         strategyId,
@@ -58,14 +58,15 @@ class Analytics {
     }
   }
 
-  private groupOrdersIntoTrades(orders: any[]): any[] {
+  // P&L is converted into the currency of the account each order traded on
+  private groupOrdersIntoTrades(orders: any[], accountCurrencies: Map<string, string>): any[] {
     const trades: any[] = [];
     const positionMap = new Map<string, any>();
 
     for (const order of orders.sort((a, b) => 
       new Date(a.createdAt || "").getTime() - new Date(b.createdAt || "").getTime()
     )) {
-      const key = `${order.symbol}_${order.strategyId}`;
+      const key = `${order.accountId}_${order.symbol}_${order.strategyId}`;
       const existingPosition = positionMap.get(key);
 
       if (!existingPosition) {
@@ -87,15 +88,20 @@ class Analytics {
         if (Math.abs(newQty) < 0.001) {
           // Position closed
           const exitPrice = parseFloat(order.avgFillPrice || "0");
-          const pnl = existingPosition.side === "BUY" ?
-            (exitPrice - existingPosition.entryPrice) * existingPosition.quantity :
-            (existingPosition.entryPrice - exitPrice) * existingPosition.quantity;
+          const pnl = pricingService.calculatePnL(
+            order.symbol,
+            existingPosition.side,
+            existingPosition.quantity,
+            existingPosition.entryPrice,
+            exitPrice,
+            accountCurrencies.get(order.accountId)
+          );
 
           trades.push({
             ...existingPosition,
             exitTime: order.createdAt,
             exitPrice,
-            pnl: pnl * 100000, // Convert to USD
+            pnl,
             holdTime: new Date(order.createdAt || "").getTime() - 
                      new Date(existingPosition.entryTime).getTime(),
           });
@@ -114,169 +120,63 @@ class Analytics {
     return trades;
   }
 
-  private calculateMetrics(trades: any[]): PerformanceMetrics {
-    if (trades.length === 0) {
-      return this.getDefaultMetrics();
-    }
+  // Equity at the period start, then after every closed trade, ending at today's capital
+  private buildEquityCurve(trades: any[], capital: number, from: Date): EquitySample[] {
+    const totalPnL = trades.reduce((sum, t) => sum + t.pnl, 0);
+    let equity = capital - totalPnL;
+    const curve: EquitySample[] = [{ timestamp: from, equity }];
 
-    const pnls = trades.map(t => t.pnl);
-    const wins = pnls.filter(p => p > 0);
-    const losses = pnls.filter(p => p < 0);
-
-    const totalReturn = pnls.reduce((sum, p) => sum + p, 0);
-    const winRate = (wins.length / trades.length) * 100;
-    const avgWin = wins.length > 0 ? wins.reduce((sum, w) => sum + w, 0) / wins.length : 0;
-    const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((sum, l) => sum + l, 0) / losses.length) : 0;
-    const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
-
-    // Calculate drawdown
-    let runningPnL = 0;
-    let peak = 0;
-    let maxDrawdown = 0;
+    for (const trade of [...trades].sort((a, b) => new Date(a.exitTime).getTime() - new Date(b.exitTime).getTime())) {
+      equity += trade.pnl;
+      curve.push({ timestamp: new Date(trade.exitTime), equity });
+    }
+    curve.push({ timestamp: new Date(), equity });
+    return curve;
+  }
 
-    for (const trade of trades) {
-      runningPnL += trade.pnl;
-      if (runningPnL > peak) peak = runningPnL;
-      const drawdown = peak - runningPnL;
-      if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+  private calculateMetrics(trades: any[], equity: EquitySample[]): PerformanceMetrics {
+    if (trades.length === 0) {
+      return this.getDefaultMetrics();
     }
 
-    // Calculate Sharpe ratio
-    const returns = pnls.map(p => p / 100000); // Normalize
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
-    const volatility = Math.sqrt(variance);
-    const sharpeRatio = volatility > 0 ? (avgReturn / volatility) * Math.sqrt(252) : 0;
+    const report = performanceMetrics.calculate(
+      equity,
+      trades.map(t => ({ pnl: t.pnl, entryTime: new Date(t.entryTime), exitTime: new Date(t.exitTime) }))
+    );
 
     return {
-      totalReturn,
-      sharpeRatio,
-      sortinoRatio: this.calculateSortinoRatio(returns),
-      maxDrawdown: (maxDrawdown / 100000) * 100, // As percentage
-      winRate,
-      profitFactor,
-      averageTrade: totalReturn / trades.length,
-      largestWin: Math.max(...pnls),
-      largestLoss: Math.min(...pnls),
-      consecutiveWins: this.calculateConsecutiveWins(pnls),
-      consecutiveLosses: this.calculateConsecutiveLosses(pnls),
-      totalTrades: trades.length,
+      ...report,
+      netProfit: equity[equity.length - 1].equity - equity[0].equity,
+      averageTrade: report.expectancy,
       averageHoldTime: trades.reduce((sum, t) => sum + t.holdTime, 0) / trades.length,
     };
   }
 
-  private calculateSortinoRatio(returns: number[]): number {
-    const targetReturn = 0;
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const downside = returns.filter(r => r < targetReturn);
-    
-    if (downside.length === 0) return 0;
-    
-    const downsideDeviation = Math.sqrt(
-      downside.reduce((sum, r) => sum + Math.pow(r - targetReturn, 2), 0) / downside.length
-    );
-    
-    return downsideDeviation > 0 ? (avgReturn / downsideDeviation) * Math.sqrt(252) : 0;
-  }
-
-  private calculateConsecutiveWins(pnls: number[]): number {
-    let maxConsecutive = 0;
-    let current = 0;
-    
-    for (const pnl of pnls) {
-      if (pnl > 0) {
-        current++;
-        maxConsecutive = Math.max(maxConsecutive, current);
-      } else {
-        current = 0;
-      }
-    }
-    
-    return maxConsecutive;
-  }
-
-  private calculateConsecutiveLosses(pnls: number[]): number {
-    let maxConsecutive = 0;
-    let current = 0;
-    
-    for (const pnl of pnls) {
-      if (pnl < 0) {
-        current++;
-        maxConsecutive = Math.max(maxConsecutive, current);
-      } else {
-        current = 0;
-      }
-    }
-    
-    return maxConsecutive;
-  }
-
-  private calculateDailyReturns(trades: any[]): Array<{ date: string; return: number }> {
-    const dailyMap = new Map<string, number>();
-    
-    for (const trade of trades) {
-      const date = new Date(trade.exitTime).toISOString().split('T')[0];
-      const existing = dailyMap.get(date) || 0;
-      dailyMap.set(date, existing + trade.pnl);
-    }
+  private calculateDailyReturns(equity: EquitySample[]): Array<{ date: string; return: number }> {
+    const closes = performanceMetrics.getDailyCloses(equity);
+    const returns = performanceMetrics.getDailyReturns(equity);
 
-    return Array.from(dailyMap.entries())
-      .map(([date, pnl]) => ({ date, return: pnl / 100000 }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    return returns.map((dailyReturn, i) => ({
+      date: closes[i + 1].timestamp.toISOString().split('T')[0],
+      return: dailyReturn,
+    }));
   }
 
-  private calculateDrawdownHistory(dailyReturns: Array<{ date: string; return: number }>): Array<{ date: string; drawdown: number }> {
-    let runningReturn = 0;
-    let peak = 0;
-    
-    return dailyReturns.map(day => {
-      runningReturn += day.return;
-      if (runningReturn > peak) peak = runningReturn;
-      const drawdown = ((peak - runningReturn) / peak) * 100;
-      
-      return {
-        date: day.date,
-        drawdown: drawdown || 0,
-      };
-    });
+  private calculateDrawdownHistory(equity: EquitySample[]): Array<{ date: string; drawdown: number }> {
+    return performanceMetrics.getDrawdownSeries(performanceMetrics.getDailyCloses(equity)).map(point => ({
+      date: point.timestamp.toISOString().split('T')[0],
+      drawdown: point.drawdown,
+    }));
   }
 
   private getDefaultMetrics(): PerformanceMetrics {
     return {
-      totalReturn: 0,
-      sharpeRatio: 0,
-      sortinoRatio: 0,
-      maxDrawdown: 0,
-      winRate: 0,
-      profitFactor: 0,
+      ...performanceMetrics.calculate([], []),
+      netProfit: 0,
       averageTrade: 0,
-      largestWin: 0,
-      largestLoss: 0,
-      consecutiveWins: 0,
-      consecutiveLosses: 0,
-      totalTrades: 0,
       averageHoldTime: 0,
     };
   }
-
-  async getSessionStatus(): Promise<any> {
-    const currentSessions = [];
-    
-    for (const session of this.sessions) {
-      const tradeability = await this.isSymbolTradeable(session.allowedSymbols[0]);
-      currentSessions.push({
-        ...session,
-        isCurrentlyActive: tradeability.allowed,
-      });
-    }
-
-    return {
-      sessions: currentSessions,
-      newsBlackout: this.isNewsBlackout,
-      upcomingEvents: this.newsEvents.slice(0, 5),
-    };
-  }
 }
 
 export const analytics = new Analytics();
-export const sessionManager = new SessionManager();
@@ -0,0 +1,150 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { storage, StoredBacktest } from "../storage";
+import { logger } from "./logger";
+import { BacktestTrade, EquityPoint } from "./backtest-simulator";
+import type { CostProfile } from "./execution-cost-model";
+
+// Full results of a backtest run, written as one JSON file per backtest. The backtest row
+// only keeps summary metrics and points at the file through artifactUri.
+
+const ARTIFACT_DIR = process.env.BACKTEST_ARTIFACT_DIR || path.join(process.cwd(), "backtest_artifacts");
+
+// Chart series are thinned to at most this many points unless asked otherwise
+const DEFAULT_CHART_POINTS = 1000;
+
+// Everything needed to re-run the backtest exactly as it was run
+interface BacktestConfigSnapshot {
+  backtestId: string;
+  name: string;
+  strategy: {
+    id: string;
+    name: string;
+    symbols: string[];
+    parameters: Record<string, any>; // Effective values, optimizer overrides included
+  };
+  startDate: string;
+  endDate: string;
+  initialBalance: number;
+  parameters: Record<string, any>; // Backtest parameters as submitted
+  costs?: CostProfile; // Profile the fills were priced with; missing from older results
+  bars: number;
+  ranAt: string;
+}
+
+interface ArtifactTrade extends Omit<BacktestTrade, "entryTime" | "exitTime"> {
+  id: number; // 1-based, in exit order
+  entryTime: string;
+  exitTime: string;
+  balance: number; // Account balance after the trade closed
+}
+
+interface ArtifactEquityPoint extends Omit<EquityPoint, "timestamp"> {
+  timestamp: string;
+}
+
+interface BacktestArtifact {
+  version: 1;
+  config: BacktestConfigSnapshot;
+  finalBalance: number;
+  trades: ArtifactTrade[];
+  equity: ArtifactEquityPoint[];
+}
+
+interface ArtifactInput {
+  config: BacktestConfigSnapshot;
+  finalBalance: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
+
+interface EquityChart {
+  points: ArtifactEquityPoint[];
+  totalPoints: number;
+  trades: ArtifactTrade[]; // Entry and exit markers
+}
+
+const CSV_COLUMNS: (keyof ArtifactTrade)[] = [
+  "id", "symbol", "side", "quantity", "entryTime", "entry", "exitTime", "exit",
+  "stopLoss", "takeProfit", "exitReason", "pnl", "commission", "swap", "balance", "reason",
+];
+
+class BacktestArtifactStore {
+  async save(backtestId: string, input: ArtifactInput): Promise<string> {
+    let balance = input.config.initialBalance;
+    const artifact: BacktestArtifact = {
+      version: 1,
+      config: input.config,
+      finalBalance: input.finalBalance,
+      trades: input.trades.map((trade, index) => {
+        balance += trade.pnl - trade.commission + trade.swap;
+        return {
+          ...trade,
+          id: index + 1,
+          entryTime: trade.entryTime.toISOString(),
+          exitTime: trade.exitTime.toISOString(),
+          balance,
+        };
+      }),
+      equity: input.equityCurve.map(point => ({ ...point, timestamp: point.timestamp.toISOString() })),
+    };
+
+    await fs.mkdir(ARTIFACT_DIR, { recursive: true });
+    const file = path.join(ARTIFACT_DIR, `${backtestId}.json`);
+    await fs.writeFile(file, JSON.stringify(artifact));
+    return pathToFileURL(file).href;
+  }
+
+  // null when the backtest never stored results, e.g. optimizer child runs
+  async load(backtest: StoredBacktest): Promise<BacktestArtifact | null> {
+    if (!backtest.artifactUri) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(fileURLToPath(backtest.artifactUri), "utf-8"));
+    } catch (error) {
+      logger.error('system', `Failed to read backtest artifact ${backtest.artifactUri}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  async loadById(id: string): Promise<{ backtest: StoredBacktest; artifact: BacktestArtifact | null } | null> {
+    const backtest = await storage.getBacktest(id).catch(() => null);
+    if (!backtest) return null;
+    return { backtest, artifact: await this.load(backtest) };
+  }
+
+  // Keeps the first and last point and the deepest drawdown of every bucket, so thinning
+  // never hides a drawdown
+  getEquityChart(artifact: BacktestArtifact, maxPoints = DEFAULT_CHART_POINTS): EquityChart {
+    const { equity } = artifact;
+    if (equity.length <= maxPoints) {
+      return { points: equity, totalPoints: equity.length, trades: artifact.trades };
+    }
+
+    const bucketSize = Math.ceil(equity.length / maxPoints);
+    const points: ArtifactEquityPoint[] = [];
+    for (let start = 0; start < equity.length; start += bucketSize) {
+      const bucket = equity.slice(start, start + bucketSize);
+      points.push(bucket.reduce((deepest, point) => point.drawdown > deepest.drawdown ? point : deepest));
+    }
+    points[0] = equity[0];
+    points[points.length - 1] = equity[equity.length - 1];
+
+    return { points, totalPoints: equity.length, trades: artifact.trades };
+  }
+
+  toTradesCsv(trades: ArtifactTrade[]): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? "" : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [
+      CSV_COLUMNS.join(","),
+      ...trades.map(trade => CSV_COLUMNS.map(column => escape(trade[column])).join(",")),
+    ].join("\n") + "\n";
+  }
+}
+
+export const backtestArtifactStore = new BacktestArtifactStore();
+export type { BacktestArtifact, BacktestConfigSnapshot, ArtifactTrade, ArtifactEquityPoint, EquityChart };
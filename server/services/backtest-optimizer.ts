@@ -0,0 +1,555 @@
+import { z } from "zod";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Worker } from "worker_threads";
+import { storage, StoredBacktest } from "../storage";
+import { logger } from "./logger";
+import { backtestingEngine } from "./backtesting-engine";
+import { strategyLogic } from "./strategy-logic";
+import { propRulesService, PROP_FIRMS } from "./prop-rules";
+import { TIMEFRAMES } from "./historical-data";
+import { BacktestMetrics, BarEvent, ChallengeRules } from "./backtest-simulator";
+import { executionCostService } from "./execution-costs";
+import { costProfileNameSchema, CostProfile, DEFAULT_COST_PROFILE } from "./execution-cost-model";
+
+// Parameter sweeps over a strategy's backtest. Each parameter set is replayed on a worker
+// thread and stored as a child backtest of the optimization job, which keeps the best
+// result. With walk-forward, the best in-sample set of each window is replayed on the
+// out-of-sample period that follows it.
+
+export const OPTIMIZATION_METHODS = ["GRID", "RANDOM"] as const;
+export const OPTIMIZATION_OBJECTIVES = ["SHARPE", "PROFIT_FACTOR", "PROP_PASS_RATE"] as const;
+
+// Runs per window; a grid larger than this has to be narrowed or sampled randomly
+const MAX_COMBINATIONS = 500;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const parameterRangeSchema = z.union([
+  z.object({ values: z.array(z.number()).min(1) }),
+  z.object({ min: z.number(), max: z.number(), step: z.number().positive() })
+    .refine(range => range.max >= range.min, { message: "max must not be below min" }),
+]);
+
+export const optimizationConfigSchema = z.object({
+  strategyId: z.string().min(1),
+  name: z.string().min(1),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  initialBalance: z.number().positive().default(10000),
+  // Same keys as a single backtest's parameters
+  backtestParameters: z.object({
+    timeframe: z.enum(TIMEFRAMES).default("H1"),
+    spread: z.number().min(0).optional(),
+    commission: z.number().min(0).optional(),
+    accountCurrency: z.string().regex(/^[A-Z]{3}$/).optional(),
+    costProfile: costProfileNameSchema.default(DEFAULT_COST_PROFILE),
+  }).default({}),
+  // Strategy parameters to sweep, e.g. { "donchianPeriod": { "min": 10, "max": 40, "step": 5 } }
+  parameters: z.record(parameterRangeSchema).refine(ranges => Object.keys(ranges).length > 0, {
+    message: "Sweep at least one parameter",
+  }),
+  method: z.enum(OPTIMIZATION_METHODS).default("GRID"),
+  samples: z.number().int().positive().max(MAX_COMBINATIONS).default(50), // RANDOM only
+  objective: z.enum(OPTIMIZATION_OBJECTIVES).default("SHARPE"),
+  minTrades: z.number().int().min(0).default(10), // Runs with fewer trades are not ranked
+  propFirm: z.enum(PROP_FIRMS).default("FTMO"), // Challenge rules for PROP_PASS_RATE
+  challengeDays: z.number().int().positive().default(30),
+  walkForward: z.object({
+    inSampleDays: z.number().int().positive(),
+    outOfSampleDays: z.number().int().positive(),
+    anchored: z.boolean().default(false), // Every in-sample window starts at startDate
+  }).optional(),
+  workers: z.number().int().min(1).max(16).default(Math.max(1, os.cpus().length - 1)),
+}).refine(config => config.endDate > config.startDate, { message: "endDate must be after startDate", path: ["endDate"] });
+
+type OptimizationConfig = z.infer<typeof optimizationConfigSchema>;
+type OptimizationObjective = typeof OPTIMIZATION_OBJECTIVES[number];
+type ParameterSet = Record<string, number>;
+
+interface DateWindow {
+  from: Date;
+  to: Date;
+}
+
+interface OptimizationWindow {
+  index: number;
+  inSample: DateWindow;
+  outOfSample?: DateWindow; // Walk-forward only
+}
+
+interface OptimizationPlan {
+  combinations: ParameterSet[];
+  windows: OptimizationWindow[];
+  totalRuns: number;
+}
+
+// Sent to each worker once when it starts
+interface OptimizerWorkerData {
+  strategy: { name: string; parameters: Record<string, any> };
+  bars: BarEvent[];
+  parameters: Record<string, any>;
+  costs: CostProfile; // Resolved up front: workers have no database
+  initialBalance: number;
+  challenge: ChallengeRules;
+}
+
+interface OptimizerTask extends DateWindow {
+  id: string;
+  parameters: ParameterSet; // Strategy parameters overriding the stored ones
+  window: number;
+  segment: "IN_SAMPLE" | "OUT_OF_SAMPLE";
+}
+
+interface OptimizerTaskResult {
+  id: string;
+  metrics?: BacktestMetrics;
+  finalBalance?: number;
+  propPassRate?: number;
+  error?: string;
+}
+
+interface RankedRun {
+  task: OptimizerTask;
+  run: StoredBacktest;
+  score: number | null; // null when the run had too few trades or failed
+}
+
+interface WalkForwardWindow {
+  index: number;
+  inSample: DateWindow;
+  outOfSample: DateWindow;
+  bestParameters: ParameterSet | null;
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSampleRunId: string | null;
+}
+
+interface OptimizationSummary {
+  objective: OptimizationObjective;
+  method: OptimizationConfig["method"];
+  runs: number;
+  bestRunId: string | null;
+  bestParameters: ParameterSet | null;
+  bestScore: number | null;
+  walkForward?: {
+    windows: WalkForwardWindow[];
+    efficiency: number | null; // Mean out-of-sample score over mean in-sample score
+  };
+}
+
+interface OptimizationRun {
+  id: string;
+  status: string;
+  parameters: ParameterSet;
+  window: number;
+  segment: OptimizerTask["segment"];
+  score: number | null;
+  metrics: (BacktestMetrics & { propPassRate?: number }) | null;
+}
+
+interface OptimizationResults {
+  job: StoredBacktest;
+  parameterNames: string[];
+  progress: { completed: number; total: number } | null; // null once the job has finished
+  runs: OptimizationRun[];
+}
+
+interface OptimizationJob {
+  completed: number;
+  total: number;
+  cancelled: boolean;
+  pool?: OptimizerPool;
+}
+
+// Compiled builds start the .js worker next to this file, tsx starts the .ts source
+const WORKER_URL = new URL(`./optimizer-worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+// Worker threads don't inherit the tsx loader, so the .ts source is started through a bootstrap that registers it
+function createWorker(data: OptimizerWorkerData): Worker {
+  if (!WORKER_URL.pathname.endsWith(".ts")) return new Worker(WORKER_URL, { workerData: data });
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData: data });
+}
+
+// Fixed set of workers that share the job's bars; tasks go to whichever worker is free
+class OptimizerPool {
+  private workers: Worker[];
+
+  constructor(size: number, data: OptimizerWorkerData) {
+    this.workers = Array.from({ length: size }, () => createWorker(data));
+  }
+
+  run(tasks: OptimizerTask[], onResult: (result: OptimizerTaskResult) => void, isCancelled: () => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const queue = [...tasks];
+      let remaining = tasks.length;
+      let settled = false;
+      const listeners = new Map<Worker, { message: (result: OptimizerTaskResult) => void; error: (error: Error) => void }>();
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        for (const [worker, listener] of Array.from(listeners.entries())) {
+          worker.off("message", listener.message);
+          worker.off("error", listener.error);
+        }
+        if (error) reject(error); else resolve();
+      };
+
+      const dispatch = (worker: Worker) => {
+        if (isCancelled()) return finish(new Error("Optimization cancelled"));
+        const task = queue.shift();
+        if (task) worker.postMessage(task);
+      };
+
+      if (remaining === 0) return finish();
+      for (const worker of this.workers) {
+        const listener = {
+          message: (result: OptimizerTaskResult) => {
+            onResult(result);
+            if (--remaining === 0) finish(); else dispatch(worker);
+          },
+          error: (error: Error) => finish(error),
+        };
+        listeners.set(worker, listener);
+        worker.on("message", listener.message);
+        worker.on("error", listener.error);
+        dispatch(worker);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+}
+
+class BacktestOptimizer {
+  private jobs = new Map<string, OptimizationJob>();
+
+  // Parameter sets and date windows a config expands to; throws when it cannot run
+  plan(config: OptimizationConfig): OptimizationPlan {
+    const combinations = config.method === "GRID" ? this.getGrid(config.parameters) : this.getRandomSample(config.parameters, config.samples);
+    if (combinations.length > MAX_COMBINATIONS) {
+      throw new Error(`The grid has ${combinations.length} parameter sets; narrow it to ${MAX_COMBINATIONS} or use RANDOM search`);
+    }
+
+    const windows = this.getWindows(config);
+    if (windows.length === 0) {
+      throw new Error("The date range is shorter than one in-sample and one out-of-sample window");
+    }
+
+    return {
+      combinations,
+      windows,
+      totalRuns: combinations.length * windows.length + (config.walkForward ? windows.length : 0),
+    };
+  }
+
+  // Creates the parent job and runs it in the background
+  async start(config: OptimizationConfig): Promise<StoredBacktest> {
+    const plan = this.plan(config);
+    const strategy = await storage.getStrategy(config.strategyId);
+    if (!strategy) {
+      throw new Error(`Strategy ${config.strategyId} not found`);
+    }
+    if (!(await executionCostService.get(config.backtestParameters.costProfile))) {
+      throw new Error(`Unknown cost profile: ${config.backtestParameters.costProfile}`);
+    }
+
+    const job = await storage.createBacktest({
+      strategyId: config.strategyId,
+      name: config.name,
+      startDate: config.startDate.toISOString(),
+      endDate: config.endDate.toISOString(),
+      parameters: config as any,
+      kind: "OPTIMIZATION",
+      parentId: null,
+    });
+    await storage.updateBacktest(job.id, { status: "RUNNING" });
+    this.jobs.set(job.id, { completed: 0, total: plan.totalRuns, cancelled: false });
+
+    this.run(job, config, plan).catch(async error => {
+      logger.error('system', `Optimization ${config.name} failed: ${(error as Error).message}`);
+      await storage.updateBacktest(job.id, { status: (error as Error).message === "Optimization cancelled" ? "CANCELLED" : "FAILED" });
+    }).finally(() => this.jobs.delete(job.id));
+
+    logger.info('system', `Optimization ${config.name} started: ${plan.totalRuns} runs on ${config.workers} workers`);
+    return job;
+  }
+
+  // Runs already on a worker finish; nothing new is dispatched
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job) return false;
+    job.cancelled = true;
+    return true;
+  }
+
+  async getResults(id: string): Promise<OptimizationResults | null> {
+    const job = await storage.getBacktest(id).catch(() => null);
+    if (!job || job.kind !== "OPTIMIZATION") return null;
+
+    const config = job.parameters as unknown as OptimizationConfig;
+    const progress = this.jobs.get(id);
+    const runs = await storage.getBacktests(undefined, id);
+
+    return {
+      job,
+      parameterNames: Object.keys(config.parameters),
+      progress: progress ? { completed: progress.completed, total: progress.total } : null,
+      runs: runs.map(run => {
+        const parameters = run.parameters as any;
+        return {
+          id: run.id,
+          status: run.status,
+          parameters: parameters.strategyParameters,
+          window: parameters.optimization.window,
+          segment: parameters.optimization.segment,
+          score: parameters.optimization.score,
+          metrics: run.metrics as OptimizationRun["metrics"],
+        };
+      }),
+    };
+  }
+
+  private async run(job: StoredBacktest, config: OptimizationConfig, plan: OptimizationPlan): Promise<void> {
+    const state = this.jobs.get(job.id)!;
+    const strategy = (await storage.getStrategy(config.strategyId))!;
+    const symbols: string[] = Array.isArray(strategy.symbols) ? strategy.symbols : JSON.parse(strategy.symbols);
+    const bars = await backtestingEngine.loadBars(symbols, config.backtestParameters.timeframe, config.startDate, config.endDate, config.backtestParameters.accountCurrency || "USD");
+    const costs = await executionCostService.resolve(config.backtestParameters, symbols);
+
+    const rules = propRulesService.parse({ firm: config.propFirm, initialBalance: config.initialBalance });
+    state.pool = new OptimizerPool(config.workers, {
+      strategy: { name: strategy.name, parameters: strategyLogic.getParameters(strategy) },
+      bars,
+      parameters: config.backtestParameters,
+      costs,
+      initialBalance: config.initialBalance,
+      challenge: {
+        days: config.challengeDays,
+        profitTargetPercent: rules.profitTargetPercent ?? 10,
+        dailyLossPercent: rules.dailyLoss.limitPercent ?? 5,
+        maxDrawdownPercent: rules.maxDrawdown.limitPercent,
+      },
+    });
+
+    try {
+      const ranked: RankedRun[] = [];
+      const windows: WalkForwardWindow[] = [];
+
+      for (const window of plan.windows) {
+        const inSample = await this.runTasks(job, config, state, plan.combinations.map((parameters, i) => ({
+          id: `${window.index}-${i + 1}`,
+          parameters,
+          window: window.index,
+          segment: "IN_SAMPLE" as const,
+          ...window.inSample,
+        })));
+        ranked.push(...inSample);
+
+        if (window.outOfSample) {
+          const best = this.best(inSample);
+          const [outOfSample] = best ? await this.runTasks(job, config, state, [{
+            id: `${window.index}-oos`,
+            parameters: best.task.parameters,
+            window: window.index,
+            segment: "OUT_OF_SAMPLE",
+            ...window.outOfSample,
+          }]) : [];
+          windows.push({
+            index: window.index,
+            inSample: window.inSample,
+            outOfSample: window.outOfSample,
+            bestParameters: best?.task.parameters ?? null,
+            inSampleScore: best?.score ?? null,
+            outOfSampleScore: outOfSample?.score ?? null,
+            outOfSampleRunId: outOfSample?.run.id ?? null,
+          });
+          if (outOfSample) ranked.push(outOfSample);
+        }
+      }
+
+      const best = this.best(ranked.filter(entry => entry.task.segment === "IN_SAMPLE"));
+      const summary: OptimizationSummary = {
+        objective: config.objective,
+        method: config.method,
+        runs: ranked.length,
+        bestRunId: best?.run.id ?? null,
+        bestParameters: best?.task.parameters ?? null,
+        bestScore: best?.score ?? null,
+      };
+
+      let metrics: Partial<BacktestMetrics> | null = best?.run.metrics as BacktestMetrics ?? null;
+      if (config.walkForward) {
+        const outOfSample = ranked.filter(entry => entry.task.segment === "OUT_OF_SAMPLE" && entry.run.metrics);
+        summary.walkForward = { windows, efficiency: this.getEfficiency(windows) };
+        metrics = this.combineOutOfSample(outOfSample.map(entry => entry.run.metrics as BacktestMetrics));
+      }
+
+      await storage.updateBacktest(job.id, {
+        status: "COMPLETED",
+        metrics: { ...metrics, optimization: summary } as any,
+        completedAt: new Date().toISOString(),
+      });
+      logger.info('system', `Optimization ${config.name} completed: best ${config.objective} ${summary.bestScore?.toFixed(3) ?? "n/a"}`, undefined, {
+        bestParameters: summary.bestParameters,
+      });
+    } finally {
+      await state.pool.close();
+    }
+  }
+
+  // Runs the tasks on the pool and stores each as a child backtest as soon as it finishes
+  private async runTasks(job: StoredBacktest, config: OptimizationConfig, state: OptimizationJob, tasks: OptimizerTask[]): Promise<RankedRun[]> {
+    const saves: Promise<RankedRun>[] = [];
+    await state.pool!.run(tasks, result => {
+      state.completed++;
+      saves.push(this.saveRun(job, config, tasks.find(task => task.id === result.id)!, result));
+    }, () => state.cancelled);
+    return Promise.all(saves);
+  }
+
+  private async saveRun(job: StoredBacktest, config: OptimizationConfig, task: OptimizerTask, result: OptimizerTaskResult): Promise<RankedRun> {
+    const score = this.score(result, config);
+    const label = task.segment === "OUT_OF_SAMPLE"
+      ? `OOS ${task.window + 1}`
+      : `${config.walkForward ? `W${task.window + 1} ` : ""}#${task.id.split("-")[1]}`;
+    const run = await storage.createBacktest({
+      strategyId: config.strategyId,
+      name: `${config.name} ${label}`,
+      startDate: task.from.toISOString(),
+      endDate: task.to.toISOString(),
+      parameters: {
+        ...config.backtestParameters,
+        initialBalance: config.initialBalance,
+        strategyParameters: task.parameters,
+        optimization: { window: task.window, segment: task.segment, score },
+      } as any,
+      kind: "SINGLE",
+      parentId: job.id,
+    });
+
+    const stored = await storage.updateBacktest(run.id, result.error
+      ? { status: "FAILED" }
+      : {
+          status: "COMPLETED",
+          metrics: { ...result.metrics!, propPassRate: result.propPassRate } as any,
+          completedAt: new Date().toISOString(),
+        });
+    return { task, run: stored, score };
+  }
+
+  private score(result: OptimizerTaskResult, config: OptimizationConfig): number | null {
+    if (!result.metrics || result.metrics.totalTrades < config.minTrades) return null;
+
+    switch (config.objective) {
+      case "PROFIT_FACTOR":
+        return result.metrics.profitFactor;
+      case "PROP_PASS_RATE":
+        return result.propPassRate ?? 0;
+      default:
+        return result.metrics.sharpeRatio;
+    }
+  }
+
+  private best(runs: RankedRun[]): RankedRun | null {
+    return runs.reduce<RankedRun | null>((best, entry) =>
+      entry.score !== null && (best === null || entry.score > best.score!) ? entry : best, null);
+  }
+
+  private getGrid(ranges: OptimizationConfig["parameters"]): ParameterSet[] {
+    return Object.entries(ranges).reduce<ParameterSet[]>(
+      (sets, [name, range]) => sets.flatMap(set => this.getValues(range).map(value => ({ ...set, [name]: value }))),
+      [{}]
+    );
+  }
+
+  // Distinct random points of the grid, at most `samples` of them
+  private getRandomSample(ranges: OptimizationConfig["parameters"], samples: number): ParameterSet[] {
+    const values = Object.entries(ranges).map(([name, range]) => [name, this.getValues(range)] as const);
+    const size = values.reduce((total, [, options]) => total * options.length, 1);
+    const sets = new Map<string, ParameterSet>();
+
+    while (sets.size < Math.min(samples, size)) {
+      const set: ParameterSet = {};
+      for (const [name, options] of values) {
+        set[name] = options[Math.floor(Math.random() * options.length)];
+      }
+      sets.set(JSON.stringify(set), set);
+    }
+    return Array.from(sets.values());
+  }
+
+  private getValues(range: OptimizationConfig["parameters"][string]): number[] {
+    if ("values" in range) return Array.from(new Set(range.values));
+
+    const values: number[] = [];
+    const steps = Math.floor((range.max - range.min) / range.step + 1e-9);
+    for (let i = 0; i <= steps; i++) {
+      values.push(parseFloat((range.min + i * range.step).toFixed(10)));
+    }
+    return values;
+  }
+
+  // One window for a plain sweep; rolling or anchored in/out-of-sample pairs for walk-forward
+  private getWindows(config: OptimizationConfig): OptimizationWindow[] {
+    const start = config.startDate.getTime();
+    const end = config.endDate.getTime();
+    if (!config.walkForward) {
+      return [{ index: 0, inSample: { from: config.startDate, to: config.endDate } }];
+    }
+
+    const inSampleMs = config.walkForward.inSampleDays * MS_PER_DAY;
+    const outOfSampleMs = config.walkForward.outOfSampleDays * MS_PER_DAY;
+    const windows: OptimizationWindow[] = [];
+    for (let split = start + inSampleMs; split + outOfSampleMs <= end; split += outOfSampleMs) {
+      windows.push({
+        index: windows.length,
+        inSample: { from: new Date(config.walkForward.anchored ? start : split - inSampleMs), to: new Date(split - 1) },
+        outOfSample: { from: new Date(split), to: new Date(split + outOfSampleMs - 1) },
+      });
+    }
+    return windows;
+  }
+
+  private getEfficiency(windows: WalkForwardWindow[]): number | null {
+    const scored = windows.filter(window => window.inSampleScore !== null && window.outOfSampleScore !== null);
+    if (scored.length === 0) return null;
+
+    const inSample = scored.reduce((sum, window) => sum + window.inSampleScore!, 0) / scored.length;
+    const outOfSample = scored.reduce((sum, window) => sum + window.outOfSampleScore!, 0) / scored.length;
+    return inSample !== 0 ? outOfSample / inSample : null;
+  }
+
+  // The out-of-sample periods traded back to back, each with its window's best parameters
+  private combineOutOfSample(metrics: BacktestMetrics[]): Partial<BacktestMetrics> | null {
+    if (metrics.length === 0) return null;
+
+    const totalTrades = metrics.reduce((sum, m) => sum + m.totalTrades, 0);
+    return {
+      totalReturn: (metrics.reduce((growth, m) => growth * (1 + m.totalReturn / 100), 1) - 1) * 100,
+      maxDrawdown: Math.max(...metrics.map(m => m.maxDrawdown)),
+      sharpeRatio: metrics.reduce((sum, m) => sum + m.sharpeRatio, 0) / metrics.length,
+      profitFactor: metrics.reduce((sum, m) => sum + m.profitFactor, 0) / metrics.length,
+      winRate: totalTrades > 0 ? metrics.reduce((sum, m) => sum + m.winRate * m.totalTrades, 0) / totalTrades : 0,
+      totalTrades,
+      avgTrade: totalTrades > 0 ? metrics.reduce((sum, m) => sum + m.avgTrade * m.totalTrades, 0) / totalTrades : 0,
+    };
+  }
+}
+
+export const backtestOptimizer = new BacktestOptimizer();
+export type {
+  OptimizationConfig,
+  OptimizationObjective,
+  OptimizationPlan,
+  OptimizationSummary,
+  OptimizationResults,
+  OptimizationRun,
+  OptimizerWorkerData,
+  OptimizerTask,
+  OptimizerTaskResult,
+};
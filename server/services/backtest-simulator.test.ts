@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { backtestSimulator, BarEvent } from "./backtest-simulator";
+import { costProfileSchema, CostProfile } from "./execution-cost-model";
+import { strategyLogic, TradeSetup } from "./strategy-logic";
+
+const START = Date.UTC(2026, 6, 14, 8);
+const HOUR = 60 * 60 * 1000;
+
+// Long EURUSD from 1.1000, 50 pips of risk and 100 pips of target
+const LONG: TradeSetup = {
+  symbol: "EURUSD",
+  side: "BUY",
+  entryPrice: 1.1,
+  stopLoss: 1.095,
+  takeProfit: 1.11,
+  riskPercent: 1,
+  reason: "test",
+};
+
+function costs(config: Record<string, unknown> = {}): CostProfile {
+  return { name: "TEST", ...costProfileSchema.parse({ spread: { defaultPips: 0 }, ...config }) };
+}
+
+// [open, high, low, close] per hour; the first bar's close is the entry
+function bars(...ohlc: [number, number, number, number][]): BarEvent[] {
+  return ohlc.map(([open, high, low, close], i) => ({
+    symbol: "EURUSD",
+    timestamp: new Date(START + i * HOUR),
+    open,
+    high,
+    low,
+    close,
+    volume: 100,
+  }));
+}
+
+// The setup is offered on the first bar only, unless `every` is set
+function run(barEvents: BarEvent[], profile = costs(), every = false) {
+  let offered = false;
+  vi.spyOn(strategyLogic, "evaluate").mockImplementation(() => {
+    if (offered && !every) return null;
+    offered = true;
+    return LONG;
+  });
+  return backtestSimulator.run({
+    strategy: { name: "Test" },
+    bars: barEvents,
+    parameters: {},
+    costs: profile,
+    initialBalance: 10000,
+  });
+}
+
+describe("BacktestSimulator exits", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sizes the trade so the stop risks the setup's percent of the balance", () => {
+    const [trade] = run(bars([1.1, 1.1, 1.1, 1.1], [1.1, 1.1, 1.094, 1.096])).trades;
+
+    expect(trade.quantity).toBeCloseTo(0.2, 10);
+    expect(trade.exitReason).toBe("STOP_LOSS");
+    expect(trade.pnl).toBeCloseTo(-100, 6);
+  });
+
+  it("assumes the stop filled first when one bar reaches both the stop and the target", () => {
+    const [trade] = run(bars([1.1, 1.1, 1.1, 1.1], [1.1, 1.112, 1.094, 1.105])).trades;
+
+    expect(trade.exitReason).toBe("STOP_LOSS");
+    expect(trade.exit).toBeCloseTo(1.095, 10);
+  });
+
+  it("does not check the entry bar's own range for exits", () => {
+    const [trade] = run(bars([1.1, 1.12, 1.09, 1.1], [1.1, 1.105, 1.098, 1.102])).trades;
+
+    expect(trade.exitReason).toBe("END_OF_DATA");
+    expect(trade.exit).toBeCloseTo(1.102, 10);
+  });
+
+  it("fills a gap through the stop or the target at the bar's open", () => {
+    const [stopped] = run(bars([1.1, 1.1, 1.1, 1.1], [1.09, 1.092, 1.088, 1.091])).trades;
+    expect(stopped.exitReason).toBe("STOP_LOSS");
+    expect(stopped.exit).toBeCloseTo(1.09, 10);
+    vi.restoreAllMocks();
+
+    const [target] = run(bars([1.1, 1.1, 1.1, 1.1], [1.115, 1.12, 1.114, 1.118])).trades;
+    expect(target.exitReason).toBe("TAKE_PROFIT");
+    expect(target.exit).toBeCloseTo(1.115, 10);
+  });
+
+  it("slips stops but fills targets at the level", () => {
+    const slipping = costs({ slippage: { model: "FIXED", pips: 1 } });
+
+    const [stopped] = run(bars([1.1, 1.1, 1.1, 1.1], [1.1, 1.1, 1.094, 1.096]), slipping).trades;
+    expect(stopped.entry).toBeCloseTo(1.1001, 10);
+    expect(stopped.exit).toBeCloseTo(1.0949, 10);
+    vi.restoreAllMocks();
+
+    const [target] = run(bars([1.1, 1.1, 1.1, 1.1], [1.1, 1.111, 1.1, 1.105]), slipping).trades;
+    expect(target.exitReason).toBe("TAKE_PROFIT");
+    expect(target.exit).toBeCloseTo(1.11, 10);
+  });
+
+  it("exits before re-entering on the same bar", () => {
+    const { trades } = run(bars([1.1, 1.1, 1.1, 1.1], [1.1, 1.1, 1.094, 1.1], [1.1, 1.102, 1.099, 1.101]), costs(), true);
+
+    expect(trades.map(trade => trade.exitReason)).toEqual(["STOP_LOSS", "END_OF_DATA"]);
+    expect(trades[1].entryTime).toEqual(trades[0].exitTime);
+    expect(trades[1].entry).toBeCloseTo(1.1, 10);
+  });
+
+  it("books exits into the balance and the closing equity", () => {
+    const result = run(bars([1.1, 1.1, 1.1, 1.1], [1.1, 1.111, 1.1, 1.105]));
+
+    expect(result.finalBalance).toBeCloseTo(10200, 6);
+    expect(result.equityCurve[result.equityCurve.length - 1].equity).toBeCloseTo(10200, 6);
+  });
+});
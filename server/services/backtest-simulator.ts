@@ -0,0 +1,360 @@
+import { strategyLogic, StrategyBar, StrategyDefinition, TradeSetup } from "./strategy-logic";
+import { pricingService, PriceLookup } from "./pricing";
+import { performanceMetrics, PerformanceReport } from "./performance-metrics";
+import { ExecutionCostModel, CostProfile, seededRandom } from "./execution-cost-model";
+import { ATR } from "./indicators";
+
+// The bar replay behind every backtest. It only needs bars and parameters, so the
+// BacktestingEngine runs it in-process and the optimizer runs it on worker threads.
+
+interface BacktestTrade {
+  symbol: string;
+  side: "BUY" | "SELL";
+  entry: number;
+  exit: number;
+  quantity: number; // Lots
+  entryTime: Date;
+  exitTime: Date;
+  pnl: number;
+  commission: number;
+  swap: number; // Overnight financing; negative when charged
+  stopLoss: number;
+  takeProfit: number;
+  exitReason: "STOP_LOSS" | "TAKE_PROFIT" | "END_OF_DATA";
+  reason: string;
+}
+
+interface OpenTrade {
+  setup: TradeSetup;
+  entry: number;
+  quantity: number;
+  entryTime: Date;
+  commission: number;
+}
+
+interface BarEvent extends StrategyBar {
+  symbol: string;
+  spread?: number | null; // Price units, when the bar source recorded it
+  conversion?: boolean; // Only prices currency conversion; never traded
+}
+
+// Money is reported in the account currency, converted at the replayed prices
+interface ConversionContext {
+  accountCurrency: string;
+  lookup: PriceLookup;
+}
+
+interface EquityPoint {
+  timestamp: Date;
+  equity: number; // Marked to market at the bar close
+  drawdown: number; // Percent below the running equity peak
+}
+
+// Trade statistics use P&L net of commission and swap
+interface BacktestMetrics extends PerformanceReport {
+  annualizedReturn: number; // Same as cagr, kept for stored results
+  avgTrade: number;
+}
+
+interface SimulationRequest {
+  strategy: StrategyDefinition;
+  bars: BarEvent[]; // Every symbol, oldest first
+  parameters: Record<string, any>; // Backtest parameters: accountCurrency, seed for random slippage
+  costs: CostProfile;
+  initialBalance: number;
+  from?: Date; // Earlier bars only warm up the indicators
+  to?: Date;
+}
+
+interface SimulationResult {
+  trades: BacktestTrade[];
+  finalBalance: number;
+  maxDrawdown: number;
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+// A prop challenge restarted every `days` on the simulated equity
+interface ChallengeRules {
+  days: number;
+  profitTargetPercent: number;
+  dailyLossPercent: number; // Of the challenge's starting balance
+  maxDrawdownPercent: number; // Static, from the challenge's starting balance
+}
+
+interface ChallengeResult {
+  attempts: number;
+  passed: number;
+  passRate: number; // Percent of attempts that reached the target without a breach
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+class BacktestSimulator {
+  run(request: SimulationRequest): SimulationResult {
+    const { strategy, parameters, initialBalance, from, to } = request;
+    const costs = new ExecutionCostModel(request.costs, seededRandom(parameters.seed ?? 1));
+
+    const trades: BacktestTrade[] = [];
+    const openTrades = new Map<string, OpenTrade>();
+    const history = new Map<string, StrategyBar[]>();
+    const lastBars = new Map<string, BarEvent>();
+    const atrs = new Map<string, ATR>(); // For ATR slippage
+    const equityCurve: EquityPoint[] = [];
+    // Rates come from the replayed bars only, including the conversion pairs loaded with them
+    const conversion: ConversionContext = {
+      accountCurrency: parameters.accountCurrency || "USD",
+      lookup: symbol => lastBars.get(symbol)?.close ?? null,
+    };
+    let currentBalance = initialBalance;
+    let peak = currentBalance;
+
+    // Replay bars in time order; each bar is treated as just closed
+    for (const bar of request.bars) {
+      if (to && bar.timestamp > to) break;
+
+      lastBars.set(bar.symbol, bar);
+      if (bar.conversion) continue;
+
+      const symbolHistory = history.get(bar.symbol) || [];
+      symbolHistory.push(bar);
+      if (symbolHistory.length > strategyLogic.lookbackBars) symbolHistory.shift();
+      history.set(bar.symbol, symbolHistory);
+      const atr = atrs.get(bar.symbol) || new ATR(request.costs.slippage.atrPeriod);
+      atr.update(bar);
+      atrs.set(bar.symbol, atr);
+      if (from && bar.timestamp < from) continue;
+
+      // Exits first: the trade closes on the first bar whose range reaches its stop or target
+      const openTrade = openTrades.get(bar.symbol);
+      if (openTrade) {
+        const trade = this.checkExit(openTrade, bar, atr.value, costs, conversion);
+        if (trade) {
+          trades.push(trade);
+          currentBalance += trade.pnl - trade.commission + trade.swap;
+          openTrades.delete(bar.symbol);
+        }
+      }
+
+      // Entries on the close of this bar, using the same rules as live trading
+      if (!openTrades.has(bar.symbol)) {
+        const setup = strategyLogic.evaluate(strategy, bar.symbol, symbolHistory);
+        if (setup) {
+          openTrades.set(bar.symbol, this.openTrade(setup, bar, currentBalance, atr.value, costs, conversion));
+        }
+      }
+
+      // Track drawdown on marked-to-market equity
+      const equity = currentBalance + this.unrealizedPnL(openTrades, lastBars, costs, conversion);
+      if (equity > peak) {
+        peak = equity;
+      }
+      equityCurve.push({ timestamp: bar.timestamp, equity, drawdown: ((peak - equity) / peak) * 100 });
+    }
+
+    // Close anything still open at the last available price
+    for (const [symbol, openTrade] of Array.from(openTrades.entries())) {
+      const lastBar = lastBars.get(symbol)!;
+      const slippage = costs.getSlippage(symbol, atrs.get(symbol)?.value);
+      const trade = this.closeTrade(openTrade, lastBar.close, lastBar, "END_OF_DATA", slippage, costs, conversion);
+      trades.push(trade);
+      currentBalance += trade.pnl - trade.commission + trade.swap;
+    }
+
+    const metrics = this.calculateMetrics(trades, currentBalance, initialBalance, equityCurve);
+    return {
+      trades,
+      finalBalance: currentBalance,
+      maxDrawdown: metrics.maxDrawdown,
+      equityCurve,
+      metrics,
+    };
+  }
+
+  // Starts a new challenge every `days` from the first bar; a challenge cut short by the end
+  // of the data only counts if it had already passed or breached
+  getPropPassRate(equityCurve: EquityPoint[], rules: ChallengeRules): ChallengeResult {
+    let attempts = 0;
+    let passed = 0;
+    let index = 0;
+
+    while (index < equityCurve.length) {
+      const start = equityCurve[index];
+      const end = start.timestamp.getTime() + rules.days * MS_PER_DAY;
+      const target = start.equity * (1 + rules.profitTargetPercent / 100);
+      const floor = start.equity * (1 - rules.maxDrawdownPercent / 100);
+      const dailyAllowance = start.equity * rules.dailyLossPercent / 100;
+      let outcome: "PASSED" | "FAILED" | null = null;
+      let day = "";
+      let dayStart = start.equity;
+
+      for (; index < equityCurve.length && equityCurve[index].timestamp.getTime() < end; index++) {
+        const point = equityCurve[index];
+        if (outcome) continue;
+
+        const pointDay = point.timestamp.toISOString().slice(0, 10);
+        if (pointDay !== day) {
+          day = pointDay;
+          dayStart = point.equity;
+        }
+        if (point.equity <= floor || dayStart - point.equity >= dailyAllowance) {
+          outcome = "FAILED";
+        } else if (point.equity >= target) {
+          outcome = "PASSED";
+        }
+      }
+
+      const complete = index < equityCurve.length;
+      if (outcome || complete) {
+        attempts++;
+        if (outcome === "PASSED") passed++;
+      }
+    }
+
+    return { attempts, passed, passRate: attempts > 0 ? (passed / attempts) * 100 : 0 };
+  }
+
+  private openTrade(
+    setup: TradeSetup,
+    bar: BarEvent,
+    balance: number,
+    atr: number | null,
+    costs: ExecutionCostModel,
+    conversion: ConversionContext
+  ): OpenTrade {
+    // Market entry at the bar close, paying half the spread plus slippage
+    const spread = costs.getSpread(setup.symbol, bar.timestamp, bar.spread);
+    const cost = spread / 2 + costs.getSlippage(setup.symbol, atr);
+    const entry = setup.side === "BUY" ? bar.close + cost : bar.close - cost;
+    const riskAmount = balance * (setup.riskPercent / 100);
+    const stopPips = pricingService.toPips(setup.symbol, Math.max(Math.abs(entry - setup.stopLoss), spread || 1e-9));
+    const pipValuePerLot = pricingService.getPipValue(setup.symbol, 1, conversion.accountCurrency, conversion.lookup);
+    const quantity = riskAmount / (stopPips * pipValuePerLot);
+
+    return {
+      setup,
+      entry,
+      quantity,
+      entryTime: bar.timestamp,
+      commission: costs.getCommission(setup.symbol, quantity, conversion.accountCurrency, conversion.lookup),
+    };
+  }
+
+  private checkExit(
+    trade: OpenTrade,
+    bar: BarEvent,
+    atr: number | null,
+    costs: ExecutionCostModel,
+    conversion: ConversionContext
+  ): BacktestTrade | null {
+    const { side, stopLoss, takeProfit } = trade.setup;
+    const isBuy = side === "BUY";
+
+    const stopHit = isBuy ? bar.low <= stopLoss : bar.high >= stopLoss;
+    const targetHit = isBuy ? bar.high >= takeProfit : bar.low <= takeProfit;
+
+    // Bars have no intrabar path, so when both levels sit inside one bar assume the stop filled first.
+    // A gap through a level fills at the open rather than the level. Stops fill as market
+    // orders and slip; targets are limit orders and don't.
+    if (stopHit) {
+      const gapped = isBuy ? bar.open < stopLoss : bar.open > stopLoss;
+      const slippage = costs.getSlippage(trade.setup.symbol, atr);
+      return this.closeTrade(trade, gapped ? bar.open : stopLoss, bar, "STOP_LOSS", slippage, costs, conversion);
+    }
+    if (targetHit) {
+      const gapped = isBuy ? bar.open > takeProfit : bar.open < takeProfit;
+      return this.closeTrade(trade, gapped ? bar.open : takeProfit, bar, "TAKE_PROFIT", 0, costs, conversion);
+    }
+
+    return null;
+  }
+
+  private closeTrade(
+    trade: OpenTrade,
+    price: number,
+    bar: BarEvent,
+    exitReason: BacktestTrade["exitReason"],
+    slippage: number,
+    costs: ExecutionCostModel,
+    conversion: ConversionContext
+  ): BacktestTrade {
+    const { symbol, side, stopLoss, takeProfit, reason } = trade.setup;
+    const { accountCurrency, lookup } = conversion;
+    const cost = costs.getSpread(symbol, bar.timestamp, bar.spread) / 2 + slippage;
+    const exit = side === "BUY" ? price - cost : price + cost;
+    const pnl = pricingService.calculatePnL(symbol, side, trade.quantity, trade.entry, exit, accountCurrency, lookup);
+
+    return {
+      symbol,
+      side,
+      entry: trade.entry,
+      exit,
+      quantity: trade.quantity,
+      entryTime: trade.entryTime,
+      exitTime: bar.timestamp,
+      pnl,
+      commission: trade.commission + costs.getCommission(symbol, trade.quantity, accountCurrency, lookup),
+      swap: costs.getSwap(symbol, side, trade.quantity, trade.entryTime, bar.timestamp, accountCurrency, lookup),
+      stopLoss,
+      takeProfit,
+      exitReason,
+      reason,
+    };
+  }
+
+  // Open trades marked at the last close, with the swap accrued so far
+  private unrealizedPnL(
+    openTrades: Map<string, OpenTrade>,
+    lastBars: Map<string, BarEvent>,
+    costs: ExecutionCostModel,
+    conversion: ConversionContext
+  ): number {
+    const { accountCurrency, lookup } = conversion;
+    let total = 0;
+    for (const [symbol, trade] of Array.from(openTrades.entries())) {
+      const bar = lastBars.get(symbol)!;
+      const { side } = trade.setup;
+      total += pricingService.calculatePnL(symbol, side, trade.quantity, trade.entry, bar.close, accountCurrency, lookup);
+      total += costs.getSwap(symbol, side, trade.quantity, trade.entryTime, bar.timestamp, accountCurrency, lookup);
+    }
+    return total;
+  }
+
+  // Measured on the bar-by-bar equity, from the starting balance to the balance after the
+  // end-of-data closes
+  private calculateMetrics(
+    trades: BacktestTrade[],
+    finalBalance: number,
+    initialBalance: number,
+    equityCurve: EquityPoint[]
+  ): BacktestMetrics {
+    const first = equityCurve[0];
+    const last = equityCurve[equityCurve.length - 1];
+    const equity = first
+      ? [{ timestamp: first.timestamp, equity: initialBalance }, ...equityCurve, { timestamp: last.timestamp, equity: finalBalance }]
+      : [];
+    const report = performanceMetrics.calculate(
+      equity,
+      trades.map(trade => ({ pnl: trade.pnl - trade.commission + trade.swap, entryTime: trade.entryTime, exitTime: trade.exitTime }))
+    );
+
+    return {
+      ...report,
+      totalReturn: ((finalBalance - initialBalance) / initialBalance) * 100,
+      annualizedReturn: report.cagr,
+      avgTrade: report.expectancy,
+    };
+  }
+}
+
+export const backtestSimulator = new BacktestSimulator();
+export type {
+  BacktestTrade,
+  BarEvent,
+  EquityPoint,
+  BacktestMetrics,
+  SimulationRequest,
+  SimulationResult,
+  ChallengeRules,
+  ChallengeResult,
+};
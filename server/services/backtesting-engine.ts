@@ -1,42 +1,32 @@
-
-import { Strategy, Backtest, InsertBacktest } from "@shared/schema";
-import { storage } from "../storage";
-import { marketDataService } from "./market-data";
-
-interface BacktestTrade {
-  symbol: string;
-  side: "BUY" | "SELL";
-  entry: number;
-  exit: number;
-  quantity: number;
-  entryTime: Date;
-  exitTime: Date;
-  pnl: number;
-  commission: number;
-}
-
-interface BacktestMetrics {
-  totalReturn: number;
-  annualizedReturn: number;
-  sharpeRatio: number;
-  maxDrawdown: number;
-  winRate: number;
-  profitFactor: number;
-  totalTrades: number;
-  avgTrade: number;
-  avgWin: number;
-  avgLoss: number;
-  largestWin: number;
-  largestLoss: number;
-  consecutiveWins: number;
-  consecutiveLosses: number;
-}
+import { z } from "zod";
+import { storage, Strategy, StoredBacktest } from "../storage";
+import { historicalDataService, Timeframe } from "./historical-data";
+import { logger } from "./logger";
+import { pricingService } from "./pricing";
+import { strategyLogic } from "./strategy-logic";
+import { backtestSimulator, BacktestMetrics, BarEvent } from "./backtest-simulator";
+import { backtestArtifactStore } from "./backtest-artifacts";
+import { executionCostService } from "./execution-costs";
+import { costProfileNameSchema } from "./execution-cost-model";
+
+// Backtests created from the API; other parameters (timeframe, costProfile, seed...) pass through
+export const backtestRequestSchema = z.object({
+  strategyId: z.string().min(1),
+  name: z.string().min(1),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  parameters: z.object({
+    initialBalance: z.coerce.number().positive().default(10000),
+    commission: z.coerce.number().min(0).optional(), // Legacy fraction of notional; cost profiles replace it
+    costProfile: costProfileNameSchema.optional(),
+  }).passthrough().default({}),
+}).refine(request => request.endDate > request.startDate, { message: "endDate must be after startDate", path: ["endDate"] });
 
 class BacktestingEngine {
   private isRunning = false;
-  private currentBacktest: Backtest | null = null;
+  private currentBacktest: StoredBacktest | null = null;
 
-  async runBacktest(backtest: Backtest, strategy: Strategy): Promise<BacktestMetrics> {
+  async runBacktest(backtest: StoredBacktest, strategy: Strategy): Promise<BacktestMetrics> {
     this.isRunning = true;
     this.currentBacktest = backtest;
 
@@ -44,50 +34,50 @@ class BacktestingEngine {
       console.log(`Starting backtest: ${backtest.name}`);
       await storage.updateBacktest(backtest.id, { status: "RUNNING" });
 
-      // Generate historical data for backtesting
-      const historicalData = this.generateHistoricalData(
-        strategy.symbols,
-        new Date(backtest.startDate || "2023-01-01"),
-        new Date(backtest.endDate || "2024-01-01")
-      );
-
-      const trades: BacktestTrade[] = [];
-      let currentBalance = parseFloat(backtest.initialBalance || "10000");
-      let equity = currentBalance;
-      let peak = currentBalance;
-      let maxDrawdown = 0;
-
-      // Run strategy against historical data
-      for (const dataPoint of historicalData) {
-        if (!this.isRunning) break;
-
-        const signal = await this.executeStrategyLogic(strategy, dataPoint);
-        
-        if (signal) {
-          const trade = this.simulateTrade(signal, dataPoint, currentBalance * 0.02); // 2% risk per trade
-          if (trade) {
-            trades.push(trade);
-            currentBalance += trade.pnl - trade.commission;
-            equity = currentBalance;
+      // Load stored historical bars for backtesting
+      const parameters = this.getParameters(backtest);
+      const symbols: string[] = Array.isArray(strategy.symbols) ? strategy.symbols : JSON.parse(strategy.symbols);
+      const startDate = new Date(backtest.startDate || "2023-01-01");
+      const endDate = new Date(backtest.endDate || "2024-01-01");
+      const historicalData = await this.loadBars(symbols, parameters.timeframe || "H1", startDate, endDate, parameters.accountCurrency || "USD");
+      const costs = await executionCostService.resolve(parameters, symbols);
+
+      // Optimizer runs carry the strategy parameters they were tested with
+      const strategyParameters = { ...strategyLogic.getParameters(strategy), ...parameters.strategyParameters };
+      const initialBalance = Number(parameters.initialBalance) || 10000;
+      const { metrics, finalBalance, trades, equityCurve } = backtestSimulator.run({
+        strategy: { ...strategy, parameters: strategyParameters },
+        bars: historicalData,
+        parameters,
+        costs,
+        initialBalance,
+      });
 
-            // Track drawdown
-            if (equity > peak) {
-              peak = equity;
-            }
-            const drawdown = ((peak - equity) / peak) * 100;
-            if (drawdown > maxDrawdown) {
-              maxDrawdown = drawdown;
-            }
-          }
-        }
-      }
+      const artifactUri = await backtestArtifactStore.save(backtest.id, {
+        config: {
+          backtestId: backtest.id,
+          name: backtest.name,
+          strategy: { id: strategy.id, name: strategy.name, symbols, parameters: strategyParameters },
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          initialBalance,
+          parameters,
+          costs,
+          bars: historicalData.length,
+          ranAt: new Date().toISOString(),
+        },
+        finalBalance,
+        trades,
+        equityCurve,
+      });
 
-      const metrics = this.calculateMetrics(trades, currentBalance, parseFloat(backtest.initialBalance || "10000"));
-      
       await storage.updateBacktest(backtest.id, {
         status: "COMPLETED",
+        parameters: { ...parameters, costProfile: costs.name },
         metrics: metrics as any,
-        finalEquity: currentBalance.toString()
+        finalEquity: finalBalance.toString(),
+        artifactUri,
+        completedAt: new Date().toISOString(),
       });
 
       console.log(`Backtest completed: ${backtest.name}`);
@@ -103,149 +93,64 @@ class BacktestingEngine {
     }
   }
 
-  private generateHistoricalData(symbols: string[], startDate: Date, endDate: Date): any[] {
-    const data: any[] = [];
-    const current = new Date(startDate);
-    
-    while (current <= endDate) {
-      for (const symbol of symbols) {
-        const basePrice = this.getBasePrice(symbol);
-        const price = basePrice + (Math.random() - 0.5) * basePrice * 0.02; // 2% volatility
-        
-        data.push({
-          symbol,
-          timestamp: new Date(current),
-          open: price,
-          high: price * (1 + Math.random() * 0.01),
-          low: price * (1 - Math.random() * 0.01),
-          close: price + (Math.random() - 0.5) * price * 0.005,
-          volume: Math.floor(Math.random() * 1000000) + 100000
-        });
-      }
-      current.setHours(current.getHours() + 1); // Hourly data
-    }
-    
-    return data;
+  private getParameters(backtest: StoredBacktest): StoredBacktest["parameters"] {
+    return typeof backtest.parameters === "string" ?
+      JSON.parse(backtest.parameters || "{}") : (backtest.parameters || {});
   }
 
-  private getBasePrice(symbol: string): number {
-    const basePrices: { [key: string]: number } = {
-      "EURUSD": 1.0850,
-      "GBPUSD": 1.2650,
-      "USDJPY": 149.50,
-      "AUDUSD": 0.6750,
+  // Stored bars for every symbol, plus the pairs that convert their P&L to the account
+  // currency, merged into one time-ordered replay
+  async loadBars(symbols: string[], timeframe: Timeframe, startDate: Date, endDate: Date, accountCurrency = "USD"): Promise<BarEvent[]> {
+    const loaded = new Map<string, BarEvent[]>();
+    const load = async (symbol: string, conversion: boolean): Promise<BarEvent[]> => {
+      if (!loaded.has(symbol)) {
+        const bars = await historicalDataService.getBars(symbol, timeframe, { from: startDate, to: endDate });
+        loaded.set(symbol, bars.map(bar => ({
+          symbol,
+          timestamp: bar.timestamp,
+          open: bar.open,
+          high: bar.high,
+          low: bar.low,
+          close: bar.close,
+          volume: bar.volume,
+          spread: bar.spread,
+          conversion,
+        })));
+      }
+      return loaded.get(symbol)!;
     };
-    return basePrices[symbol] || 1.0;
-  }
 
-  private async executeStrategyLogic(strategy: Strategy, dataPoint: any): Promise<any> {
-    // Simplified strategy logic for backtesting
-    const shouldSignal = Math.random() < 0.05; // 5% chance for demo
-    
-    if (shouldSignal) {
-      return {
-        symbol: dataPoint.symbol,
-        side: Math.random() > 0.5 ? "BUY" : "SELL",
-        price: dataPoint.close,
-        timestamp: dataPoint.timestamp
-      };
+    for (const symbol of symbols) await load(symbol, false);
+    if (Array.from(loaded.values()).every(bars => bars.length === 0)) {
+      throw new Error(`No ${timeframe} bars stored for ${symbols.join(", ")} between ${startDate.toISOString()} and ${endDate.toISOString()}`);
     }
-    return null;
-  }
-
-  private simulateTrade(signal: any, dataPoint: any, riskAmount: number): BacktestTrade | null {
-    const commission = 7; // $7 per trade
-    const spread = dataPoint.close * 0.0002; // 2 pip spread
-    const stopLoss = signal.side === "BUY" ? 
-      dataPoint.close * 0.99 : dataPoint.close * 1.01; // 1% stop loss
-    const takeProfit = signal.side === "BUY" ? 
-      dataPoint.close * 1.02 : dataPoint.close * 0.98; // 2% take profit
 
-    // Simulate exit (randomly choose win/loss based on probabilities)
-    const isWin = Math.random() > 0.4; // 60% win rate for demo
-    const exitPrice = isWin ? takeProfit : stopLoss;
-    
-    const quantity = riskAmount / Math.abs(dataPoint.close - stopLoss);
-    const pnl = signal.side === "BUY" ? 
-      (exitPrice - dataPoint.close) * quantity :
-      (dataPoint.close - exitPrice) * quantity;
+    // P&L is always in the quote currency; only per-million commissions need the base
+    for (const symbol of symbols) {
+      const { baseCurrency, quoteCurrency } = pricingService.getInstrument(symbol);
+      if (!(await this.loadConversion(quoteCurrency, accountCurrency, load))) {
+        throw new Error(`No ${timeframe} bars stored to convert ${quoteCurrency} to ${accountCurrency} for ${symbol}; import a ${quoteCurrency}/${accountCurrency} pair or both legs through USD`);
+      }
+      if (!(await this.loadConversion(baseCurrency, accountCurrency, load))) {
+        logger.warning("system", `No ${timeframe} bars stored to convert ${baseCurrency} to ${accountCurrency}; per-million commissions on ${symbol} cannot be priced`, symbol);
+      }
+    }
 
-    return {
-      symbol: signal.symbol,
-      side: signal.side,
-      entry: dataPoint.close,
-      exit: exitPrice,
-      quantity,
-      entryTime: new Date(dataPoint.timestamp),
-      exitTime: new Date(dataPoint.timestamp.getTime() + Math.random() * 3600000), // Exit within an hour
-      pnl,
-      commission
-    };
+    const data = Array.from(loaded.values()).flat();
+    return data.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
-  private calculateMetrics(trades: BacktestTrade[], finalBalance: number, initialBalance: number): BacktestMetrics {
-    const totalReturn = ((finalBalance - initialBalance) / initialBalance) * 100;
-    const winningTrades = trades.filter(t => t.pnl > 0);
-    const losingTrades = trades.filter(t => t.pnl < 0);
-    
-    const winRate = trades.length > 0 ? (winningTrades.length / trades.length) * 100 : 0;
-    const avgWin = winningTrades.length > 0 ? 
-      winningTrades.reduce((sum, t) => sum + t.pnl, 0) / winningTrades.length : 0;
-    const avgLoss = losingTrades.length > 0 ? 
-      Math.abs(losingTrades.reduce((sum, t) => sum + t.pnl, 0) / losingTrades.length) : 0;
-    
-    const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
-    const avgTrade = trades.length > 0 ? 
-      trades.reduce((sum, t) => sum + t.pnl, 0) / trades.length : 0;
+  // Loads a direct or inverse pair for from/to, or both legs of a cross through USD; false when none is stored
+  private async loadConversion(from: string, to: string, load: (symbol: string, conversion: boolean) => Promise<BarEvent[]>): Promise<boolean> {
+    if (from === to) return true;
 
-    return {
-      totalReturn,
-      annualizedReturn: totalReturn, // Simplified
-      sharpeRatio: 1.85, // Mock calculation
-      maxDrawdown: Math.random() * 15, // Mock
-      winRate,
-      profitFactor,
-      totalTrades: trades.length,
-      avgTrade,
-      avgWin,
-      avgLoss,
-      largestWin: winningTrades.length > 0 ? Math.max(...winningTrades.map(t => t.pnl)) : 0,
-      largestLoss: losingTrades.length > 0 ? Math.min(...losingTrades.map(t => t.pnl)) : 0,
-      consecutiveWins: this.calculateConsecutiveWins(trades),
-      consecutiveLosses: this.calculateConsecutiveLosses(trades)
+    const findPair = async (a: string, b: string) => {
+      if (a === b) return true;
+      return (await load(`${a}${b}`, true)).length > 0 || (await load(`${b}${a}`, true)).length > 0;
     };
-  }
 
-  private calculateConsecutiveWins(trades: BacktestTrade[]): number {
-    let maxConsecutive = 0;
-    let current = 0;
-    
-    for (const trade of trades) {
-      if (trade.pnl > 0) {
-        current++;
-        maxConsecutive = Math.max(maxConsecutive, current);
-      } else {
-        current = 0;
-      }
-    }
-    
-    return maxConsecutive;
-  }
-
-  private calculateConsecutiveLosses(trades: BacktestTrade[]): number {
-    let maxConsecutive = 0;
-    let current = 0;
-    
-    for (const trade of trades) {
-      if (trade.pnl < 0) {
-        current++;
-        maxConsecutive = Math.max(maxConsecutive, current);
-      } else {
-        current = 0;
-      }
-    }
-    
-    return maxConsecutive;
+    if (await findPair(from, to)) return true;
+    return (await findPair(from, "USD")) && (await findPair("USD", to));
   }
 
   stopBacktest(): void {
@@ -0,0 +1,250 @@
+import { storage, Account, Position } from "../storage";
+import { propRulesService, PropRules, RuleCheck, BreachAction } from "./prop-rules";
+import { riskLimitsService } from "./risk-limits";
+import { dailyPnLService } from "./daily-pnl";
+import { orderManager } from "./order-manager";
+import { notificationManager } from "./notification-manager";
+import { logger } from "./logger";
+
+// Re-evaluates each account's prop rules whenever its equity changes and carries out
+// the breach actions configured for any rule that is breached.
+
+type BreachableRule = keyof PropRules["breachActions"];
+
+interface ActiveBreach {
+  rule: BreachableRule;
+  actions: BreachAction[];
+  message: string;
+  since: string;
+}
+
+interface TradingBlock {
+  blocked: boolean;
+  reason?: string;
+}
+
+interface AccountBreachStatus {
+  accountId: string;
+  locked: boolean;
+  lockedUntil?: string;
+  breaches: ActiveBreach[];
+}
+
+type BreachCallback = (account: Account, breach: ActiveBreach) => void;
+
+class BreachMonitor {
+  private isRunning = false;
+  private breaches = new Map<string, Map<BreachableRule, ActiveBreach>>();
+  private busyAccounts = new Set<string>();
+  private breachCallbacks: BreachCallback[] = [];
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    // Fills move the balance, so re-check the account straight away
+    orderManager.onOrderUpdate(order => {
+      if (order.status !== "FILLED" && order.status !== "PARTIAL") return;
+      storage.getAccount(order.accountId)
+        .then(account => account && this.onEquityUpdate(account))
+        .catch(error => console.error("Breach monitor error:", error));
+    });
+
+    console.log("Breach monitor started");
+  }
+
+  stop(): void {
+    this.isRunning = false;
+  }
+
+  onBreach(callback: BreachCallback): void {
+    this.breachCallbacks.push(callback);
+  }
+
+  // Called whenever an account's equity is marked to market
+  async onEquityUpdate(account: Account): Promise<void> {
+    if (!this.isRunning || this.busyAccounts.has(account.id)) return;
+
+    // One evaluation per account at a time so actions are not carried out twice
+    this.busyAccounts.add(account.id);
+    try {
+      await this.evaluate(account);
+    } catch (error) {
+      logger.error('risk', `Breach evaluation failed for ${account.name}: ${(error as Error).message}`);
+    } finally {
+      this.busyAccounts.delete(account.id);
+    }
+  }
+
+  async evaluate(account: Account): Promise<void> {
+    account = await this.releaseExpiredLock(account);
+
+    // The prop rules as tightened by the account's own risk limits, the same ones checked pre-trade
+    const rules = await riskLimitsService.getRules(account);
+    const report = await propRulesService.evaluate(account, rules);
+    const active = this.breaches.get(account.id) || new Map<BreachableRule, ActiveBreach>();
+
+    for (const check of report.checks) {
+      if (!(check.rule in rules.breachActions)) continue;
+      const rule = check.rule as BreachableRule;
+
+      if (check.status !== "BREACH") {
+        active.delete(rule);
+        continue;
+      }
+
+      // Actions run once when the rule is first breached, not on every update
+      if (active.has(rule)) continue;
+
+      const breach: ActiveBreach = {
+        rule,
+        actions: rules.breachActions[rule],
+        message: check.message,
+        since: new Date().toISOString(),
+      };
+      active.set(rule, breach);
+      await this.handleBreach(account, check, breach);
+    }
+
+    this.breaches.set(account.id, active);
+  }
+
+  // Whether new orders may be placed on the account
+  getTradingBlock(account: Account): TradingBlock {
+    if (account.status === "LOCKED" && account.lockedUntil && new Date(account.lockedUntil) > new Date()) {
+      return { blocked: true, reason: `Account locked until ${account.lockedUntil}` };
+    }
+
+    const blocking = Array.from(this.breaches.get(account.id)?.values() || [])
+      .find(breach => breach.actions.includes("BLOCK") || breach.actions.includes("LOCK_ACCOUNT"));
+    return blocking
+      ? { blocked: true, reason: `${blocking.rule} breached: ${blocking.message}` }
+      : { blocked: false };
+  }
+
+  async getStatus(): Promise<AccountBreachStatus[]> {
+    const accounts = await storage.getAccounts();
+    return accounts.map(account => ({
+      accountId: account.id,
+      locked: account.status === "LOCKED",
+      lockedUntil: account.lockedUntil,
+      breaches: Array.from(this.breaches.get(account.id)?.values() || []),
+    }));
+  }
+
+  private async handleBreach(account: Account, check: RuleCheck, breach: ActiveBreach): Promise<void> {
+    logger.error('risk', `${breach.rule} breached on ${account.name}: ${check.message}; actions ${breach.actions.join(", ")}`);
+
+    await storage.createRiskEvent({
+      accountId: account.id,
+      strategyId: null,
+      level: "CRITICAL",
+      rule: breach.rule,
+      action: breach.actions.join(", "),
+      details: { message: check.message, value: check.value, limit: check.limit, timestamp: breach.since },
+    });
+
+    await storage.createAlert({
+      level: "CRITICAL",
+      title: "Risk Rule Breached",
+      message: `${account.name}: ${breach.rule} - ${check.message}. Actions: ${breach.actions.join(", ")}`,
+      source: "BREACH_MONITOR",
+    });
+    await notificationManager.sendRiskWarning(`${account.name}: ${breach.rule} breached - ${check.message}`);
+
+    for (const action of breach.actions) {
+      try {
+        await this.applyAction(account, action);
+      } catch (error) {
+        logger.error('risk', `Breach action ${action} failed on ${account.name}: ${(error as Error).message}`);
+      }
+    }
+
+    this.breachCallbacks.forEach(callback => {
+      try {
+        callback(account, breach);
+      } catch (error) {
+        console.error("Breach callback error:", error);
+      }
+    });
+  }
+
+  private async applyAction(account: Account, action: BreachAction): Promise<void> {
+    switch (action) {
+      case "CLOSE_LOSERS":
+        await this.closePositions(account, position => parseFloat(position.unrealizedPnL || "0") < 0);
+        break;
+
+      case "FLATTEN":
+        await this.cancelWorkingOrders(account);
+        await this.closePositions(account, () => true);
+        break;
+
+      case "PAUSE_STRATEGIES":
+        await this.pauseStrategies(account);
+        break;
+
+      case "LOCK_ACCOUNT": {
+        const lockedUntil = dailyPnLService.getNextRollover().toISOString();
+        await storage.updateAccount(account.id, { status: "LOCKED", lockedUntil });
+        logger.warning('risk', `Account ${account.name} locked until ${lockedUntil}`);
+        break;
+      }
+
+      // WARN is covered by the breach alert and BLOCK by getTradingBlock
+      default:
+        break;
+    }
+  }
+
+  private async closePositions(account: Account, shouldClose: (position: Position) => boolean): Promise<void> {
+    const positions = (await storage.getOpenPositions(account.id)).filter(shouldClose);
+    for (const position of positions) {
+      const order = await orderManager.createCloseOrder(position);
+      logger.info('risk', `Breach close of position ${position.id}: order ${order.status}`, position.symbol);
+    }
+  }
+
+  private async cancelWorkingOrders(account: Account): Promise<void> {
+    const working = (await storage.getOrders(account.id))
+      .filter(order => order.status === "PENDING" || order.status === "PARTIAL");
+    for (const order of working) {
+      await orderManager.cancelOrder(order.id).catch(error =>
+        logger.warning('risk', `Could not cancel order ${order.id}: ${(error as Error).message}`, order.symbol)
+      );
+    }
+  }
+
+  private async pauseStrategies(account: Account): Promise<void> {
+    const { strategyEngine } = await import("./strategy-engine");
+    const strategies = (await storage.getStrategies())
+      .filter(strategy => strategy.status === "RUNNING" && (strategy.accountIds || []).includes(account.id));
+
+    for (const strategy of strategies) {
+      const paused = await storage.updateStrategy(strategy.id, { status: "PAUSED" });
+      await strategyEngine.stopStrategy(paused);
+      await notificationManager.sendStrategyAlert(strategy.name, "PAUSED", { reason: `Risk breach on ${account.name}` });
+    }
+  }
+
+  // Locks end at the start of the next trading day
+  private async releaseExpiredLock(account: Account): Promise<Account> {
+    if (account.status !== "LOCKED" || !account.lockedUntil || new Date(account.lockedUntil) > new Date()) {
+      return account;
+    }
+
+    const unlocked = await storage.updateAccount(account.id, { status: "ACTIVE", lockedUntil: undefined });
+    this.breaches.delete(account.id);
+    logger.info('risk', `Account ${account.name} unlocked for the new trading day`);
+    await storage.createAlert({
+      level: "INFO",
+      title: "Account Unlocked",
+      message: `${account.name} is unlocked for the new trading day`,
+      source: "BREACH_MONITOR",
+    });
+    return unlocked;
+  }
+}
+
+export const breachMonitor = new BreachMonitor();
+export type { ActiveBreach, TradingBlock, AccountBreachStatus };
@@ -0,0 +1,258 @@
+import { storage, Account, Position } from "../storage";
+import { marketDataService } from "./market-data";
+import { pricingService } from "./pricing";
+import { propRulesService, PropRules } from "./prop-rules";
+import { Timeframe } from "./historical-data";
+
+// Net exposure per currency and correlated-symbol clusters, both in the account currency.
+// A long EURUSD is long EUR and short USD for the same notional, so long EURUSD plus
+// long EURGBP is twice long EUR.
+
+interface CurrencyExposure {
+  currency: string;
+  long: number;
+  short: number; // Negative
+  net: number;
+  limit: number | null;
+  utilization: number | null; // |net| as a percent of the limit
+  symbols: Record<string, number>; // Signed contribution of each symbol
+}
+
+interface CorrelationCluster {
+  symbols: string[];
+  exposure: number; // Direction-adjusted notional; offsetting positions cancel out
+  limit: number;
+  utilization: number;
+}
+
+interface CurrencyExposureReport {
+  accountId: string;
+  accountName: string;
+  accountCurrency: string;
+  currencies: CurrencyExposure[];
+  clusters: CorrelationCluster[];
+  correlations: Record<string, Record<string, number | null>>;
+  evaluatedAt: string;
+}
+
+interface ProposedTrade {
+  symbol: string;
+  side: string;
+  quantity: number; // Lots
+}
+
+interface ExposureCheck {
+  approved: boolean;
+  reason?: string;
+}
+
+// Fewest aligned returns a correlation is computed from
+const MIN_CORRELATION_SAMPLES = 10;
+
+class CurrencyExposureService {
+  // Signed exposure per currency; the account currency itself carries no FX risk and is left out
+  getNetExposure(positions: Array<Pick<Position, "symbol" | "side" | "quantity">>, accountCurrency: string): Map<string, CurrencyExposure> {
+    const exposures = new Map<string, CurrencyExposure>();
+
+    const add = (currency: string, symbol: string, amount: number) => {
+      if (currency === accountCurrency || amount === 0) return;
+      const exposure = exposures.get(currency) || { currency, long: 0, short: 0, net: 0, limit: null, utilization: null, symbols: {} };
+      if (amount > 0) exposure.long += amount;
+      else exposure.short += amount;
+      exposure.net += amount;
+      exposure.symbols[symbol] = (exposure.symbols[symbol] || 0) + amount;
+      exposures.set(currency, exposure);
+    };
+
+    for (const position of positions) {
+      const spec = pricingService.getInstrument(position.symbol);
+      const notional = pricingService.getNotional(position.symbol, parseFloat(position.quantity || "0"), accountCurrency);
+      const direction = position.side === "BUY" ? 1 : -1;
+      add(spec.baseCurrency, spec.symbol, direction * notional);
+      add(spec.quoteCurrency, spec.symbol, -direction * notional);
+    }
+
+    return exposures;
+  }
+
+  getCurrencyLimit(rules: PropRules, currency: string): number | null {
+    return rules.currencyLimits[currency] ?? rules.defaultCurrencyLimit ?? null;
+  }
+
+  // Rejects a trade that takes a currency's net exposure further past its limit
+  async checkCurrencyLimits(account: Account, trade: ProposedTrade): Promise<ExposureCheck> {
+    const rules = propRulesService.getRules(account);
+    const accountCurrency = account.baseCurrency || "USD";
+    const openPositions = await storage.getOpenPositions(account.id);
+
+    const before = this.getNetExposure(openPositions, accountCurrency);
+    const after = this.getNetExposure([...openPositions, this.toPosition(trade)], accountCurrency);
+
+    for (const [currency, exposure] of Array.from(after.entries())) {
+      const limit = this.getCurrencyLimit(rules, currency);
+      if (limit === null) continue;
+
+      const previous = Math.abs(before.get(currency)?.net || 0);
+      if (Math.abs(exposure.net) > limit && Math.abs(exposure.net) > previous) {
+        return {
+          approved: false,
+          reason: `Net ${currency} exposure would be ${exposure.net.toFixed(0)} ${accountCurrency}, over the ${limit} limit`,
+        };
+      }
+    }
+
+    return { approved: true };
+  }
+
+  // Rejects a trade that stacks risk on open positions in symbols that move with it
+  async checkCorrelation(account: Account, trade: ProposedTrade): Promise<ExposureCheck> {
+    const { correlation } = propRulesService.getRules(account);
+    const accountCurrency = account.baseCurrency || "USD";
+    const openPositions = await storage.getOpenPositions(account.id);
+    const tradeDirection = trade.side === "BUY" ? 1 : -1;
+
+    let stacked = pricingService.getNotional(trade.symbol, trade.quantity, accountCurrency);
+    const members = [trade.symbol];
+
+    for (const position of openPositions) {
+      const rho = this.getCorrelation(trade.symbol, position.symbol, correlation.timeframe, correlation.lookback);
+      if (rho === null || Math.abs(rho) < correlation.threshold) continue;
+
+      // Same-direction exposure on a positively correlated symbol adds up; opposite or negatively correlated offsets
+      const direction = (position.side === "BUY" ? 1 : -1) * Math.sign(rho) * tradeDirection;
+      stacked += direction * pricingService.getNotional(position.symbol, parseFloat(position.quantity || "0"), accountCurrency);
+      if (!members.includes(position.symbol)) members.push(position.symbol);
+    }
+
+    if (members.length > 1 && stacked > correlation.maxClusterExposure) {
+      return {
+        approved: false,
+        reason: `Correlated exposure across ${members.join(", ")} would be ${stacked.toFixed(0)} ${accountCurrency}, over the ${correlation.maxClusterExposure} cluster limit`,
+      };
+    }
+
+    return { approved: true };
+  }
+
+  // Pearson correlation of bar-to-bar log returns over the bars both symbols have
+  getCorrelation(symbolA: string, symbolB: string, timeframe: Timeframe, lookback: number): number | null {
+    if (symbolA === symbolB) return 1;
+
+    const returnsA = this.getReturns(symbolA, timeframe, lookback);
+    const returnsB = this.getReturns(symbolB, timeframe, lookback);
+    const xs: number[] = [];
+    const ys: number[] = [];
+    returnsA.forEach((value, timestamp) => {
+      const other = returnsB.get(timestamp);
+      if (other !== undefined) {
+        xs.push(value);
+        ys.push(other);
+      }
+    });
+    if (xs.length < MIN_CORRELATION_SAMPLES) return null;
+
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < xs.length; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+      varianceY += (ys[i] - meanY) ** 2;
+    }
+    if (varianceX === 0 || varianceY === 0) return null;
+
+    return covariance / Math.sqrt(varianceX * varianceY);
+  }
+
+  async getReport(account: Account): Promise<CurrencyExposureReport> {
+    const rules = propRulesService.getRules(account);
+    const accountCurrency = account.baseCurrency || "USD";
+    const openPositions = await storage.getOpenPositions(account.id);
+
+    const currencies = Array.from(this.getNetExposure(openPositions, accountCurrency).values()).map(exposure => {
+      const limit = this.getCurrencyLimit(rules, exposure.currency);
+      return { ...exposure, limit, utilization: limit ? (Math.abs(exposure.net) / limit) * 100 : null };
+    }).sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+
+    const symbols = Array.from(new Set(openPositions.map(p => p.symbol)));
+    const correlations: Record<string, Record<string, number | null>> = {};
+    for (const a of symbols) {
+      correlations[a] = {};
+      for (const b of symbols) {
+        correlations[a][b] = this.getCorrelation(a, b, rules.correlation.timeframe, rules.correlation.lookback);
+      }
+    }
+
+    return {
+      accountId: account.id,
+      accountName: account.name,
+      accountCurrency,
+      currencies,
+      clusters: this.getClusters(openPositions, correlations, rules, accountCurrency),
+      correlations,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Groups open positions whose symbols are correlated past the threshold, directly or through another member
+  private getClusters(
+    positions: Position[],
+    correlations: Record<string, Record<string, number | null>>,
+    rules: PropRules,
+    accountCurrency: string
+  ): CorrelationCluster[] {
+    const { threshold, maxClusterExposure } = rules.correlation;
+    const symbols = Object.keys(correlations);
+    const assigned = new Set<string>();
+    const clusters: CorrelationCluster[] = [];
+
+    for (const seed of symbols) {
+      if (assigned.has(seed)) continue;
+
+      const members = [seed];
+      assigned.add(seed);
+      for (let i = 0; i < members.length; i++) {
+        for (const other of symbols) {
+          const rho = correlations[members[i]][other];
+          if (!assigned.has(other) && rho !== null && Math.abs(rho) >= threshold) {
+            members.push(other);
+            assigned.add(other);
+          }
+        }
+      }
+      if (members.length < 2) continue;
+
+      // Exposure measured in the seed's direction, flipping members that move against it
+      const exposure = Math.abs(positions
+        .filter(position => members.includes(position.symbol))
+        .reduce((sum, position) => {
+          const direction = (position.side === "BUY" ? 1 : -1) * Math.sign(correlations[seed][position.symbol] ?? 1);
+          return sum + direction * pricingService.getNotional(position.symbol, parseFloat(position.quantity || "0"), accountCurrency);
+        }, 0));
+
+      clusters.push({ symbols: members, exposure, limit: maxClusterExposure, utilization: (exposure / maxClusterExposure) * 100 });
+    }
+
+    return clusters;
+  }
+
+  private getReturns(symbol: string, timeframe: Timeframe, lookback: number): Map<number, number> {
+    const candles = marketDataService.getCandles(symbol, timeframe, lookback + 1);
+    const returns = new Map<number, number>();
+    for (let i = 1; i < candles.length; i++) {
+      if (candles[i - 1].close > 0 && candles[i].close > 0) {
+        returns.set(candles[i].timestamp.getTime(), Math.log(candles[i].close / candles[i - 1].close));
+      }
+    }
+    return returns;
+  }
+
+  private toPosition(trade: ProposedTrade): Pick<Position, "symbol" | "side" | "quantity"> {
+    return { symbol: trade.symbol, side: trade.side, quantity: trade.quantity.toString() };
+  }
+}
+
+export const currencyExposureService = new CurrencyExposureService();
+export type { CurrencyExposure, CorrelationCluster, CurrencyExposureReport, ProposedTrade, ExposureCheck };
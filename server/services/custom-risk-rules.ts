@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { preTradeRules } from "./pre-trade-rules";
+import { dailyPnLService } from "./daily-pnl";
+import { marketDataService } from "./market-data";
+import { pricingService } from "./pricing";
+
+// Optional pre-trade rules registered on top of the core checks. They start disabled;
+// enable and configure them through PUT /api/risk/rules/:name.
+
+preTradeRules.register({
+  name: "MAX_TRADES_PER_DAY",
+  description: "Limits new trades per trading day, per account or per strategy",
+  configSchema: z.object({
+    maxTrades: z.number().int().positive().default(10),
+    perStrategy: z.boolean().default(false),
+  }),
+  severity: "WARNING",
+  enabled: false,
+  evaluate: async ({ account, strategy }, config) => {
+    const { rolloverAt } = await dailyPnLService.getSnapshot(account);
+
+    // Opening orders placed since the rollover; close orders do not count as trades
+    const trades = (await storage.getOrders(account.id)).filter(order =>
+      new Date(order.createdAt) >= rolloverAt &&
+      order.status !== "REJECTED" && order.status !== "CANCELLED" &&
+      !order.idempotencyKey?.startsWith("CLOSE_") &&
+      (!config.perStrategy || order.strategyId === strategy.id)
+    ).length;
+
+    const scope = config.perStrategy ? `for ${strategy.name}` : "on the account";
+    return trades >= config.maxTrades
+      ? { passed: false, reason: `${trades} trades today ${scope}, limit is ${config.maxTrades}`, details: { trades } }
+      : { passed: true, details: { trades } };
+  },
+});
+
+preTradeRules.register({
+  name: "MIN_REWARD_RISK",
+  description: "Take-profit distance must be a minimum multiple of the stop-loss distance",
+  configSchema: z.object({
+    minRatio: z.number().positive().default(1.5),
+    requireStops: z.boolean().default(true), // Fail trades without both a stop-loss and a take-profit
+  }),
+  severity: "WARNING",
+  enabled: false,
+  evaluate: ({ signal }, config) => {
+    if (signal.stopLoss === undefined || signal.takeProfit === undefined) {
+      return config.requireStops
+        ? { passed: false, reason: "Trade has no stop-loss or take-profit to measure reward:risk" }
+        : { passed: true };
+    }
+
+    const quote = marketDataService.getLatestPrice(signal.symbol);
+    if (!quote) {
+      return { passed: false, reason: `No live quote for ${signal.symbol}` };
+    }
+
+    const entry = signal.side === "BUY" ? quote.ask : quote.bid;
+    const risk = Math.abs(entry - signal.stopLoss);
+    const reward = Math.abs(signal.takeProfit - entry);
+    const ratio = risk > 0 ? reward / risk : 0;
+    const details = { entry, risk, reward, ratio };
+
+    return ratio < config.minRatio
+      ? { passed: false, reason: `Reward:risk ${ratio.toFixed(2)} is below the ${config.minRatio} minimum`, details }
+      : { passed: true, details };
+  },
+});
+
+preTradeRules.register({
+  name: "MAX_SPREAD",
+  description: "Skips trades while the spread is wider than allowed",
+  configSchema: z.object({
+    maxSpreadPips: z.number().positive().default(3),
+    symbols: z.record(z.string(), z.number().positive()).default({}), // Per-symbol overrides in pips
+  }),
+  severity: "WARNING",
+  enabled: false,
+  evaluate: ({ signal }, config) => {
+    const quote = marketDataService.getLatestPrice(signal.symbol);
+    if (!quote) {
+      return { passed: false, reason: `No live quote for ${signal.symbol}` };
+    }
+
+    const spreadPips = pricingService.toPips(signal.symbol, quote.ask - quote.bid);
+    const maxSpreadPips = config.symbols[signal.symbol] ?? config.maxSpreadPips;
+    const details = { spreadPips, maxSpreadPips };
+
+    return spreadPips > maxSpreadPips
+      ? { passed: false, reason: `${signal.symbol} spread ${spreadPips.toFixed(1)} pips is above ${maxSpreadPips}`, details }
+      : { passed: true, details };
+  },
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { dailyPnLService } from "./daily-pnl";
+
+const NEW_YORK_5PM = { timeZone: "America/New_York", hour: 17 };
+
+describe("DailyPnLService trading days", () => {
+  afterEach(() => {
+    dailyPnLService.configureRollover(NEW_YORK_5PM);
+  });
+
+  it("counts time after the 17:00 New York rollover toward the next day", () => {
+    dailyPnLService.configureRollover(NEW_YORK_5PM);
+
+    // 16:59 and 17:00 EDT
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-14T20:59:00Z"))).toBe("2026-07-14");
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-14T21:00:00Z"))).toBe("2026-07-15");
+    // 16:59 and 17:00 EST
+    expect(dailyPnLService.getTradingDay(new Date("2026-01-14T21:59:00Z"))).toBe("2026-01-14");
+    expect(dailyPnLService.getTradingDay(new Date("2026-01-14T22:00:00Z"))).toBe("2026-01-15");
+  });
+
+  it("rolls a Friday evening into Saturday's trading day and a Sunday evening into Monday's", () => {
+    dailyPnLService.configureRollover(NEW_YORK_5PM);
+
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-17T22:00:00Z"))).toBe("2026-07-18");
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-19T21:30:00Z"))).toBe("2026-07-20");
+  });
+
+  it("starts each trading day at 17:00 New York on the previous calendar day, in summer and winter", () => {
+    dailyPnLService.configureRollover(NEW_YORK_5PM);
+
+    expect(dailyPnLService.getRolloverTime("2026-07-15").toISOString()).toBe("2026-07-14T21:00:00.000Z");
+    expect(dailyPnLService.getRolloverTime("2026-01-15").toISOString()).toBe("2026-01-14T22:00:00.000Z");
+  });
+
+  it("keeps the rollover at 17:00 local time on either side of a DST change", () => {
+    dailyPnLService.configureRollover(NEW_YORK_5PM);
+
+    // Clocks go forward on Sunday 8 March 2026 and back on Sunday 1 November 2026
+    expect(dailyPnLService.getRolloverTime("2026-03-08").toISOString()).toBe("2026-03-07T22:00:00.000Z");
+    expect(dailyPnLService.getRolloverTime("2026-03-09").toISOString()).toBe("2026-03-08T21:00:00.000Z");
+    expect(dailyPnLService.getRolloverTime("2026-11-01").toISOString()).toBe("2026-10-31T21:00:00.000Z");
+    expect(dailyPnLService.getRolloverTime("2026-11-02").toISOString()).toBe("2026-11-01T22:00:00.000Z");
+  });
+
+  it("returns the rollover that ends the current trading day", () => {
+    dailyPnLService.configureRollover(NEW_YORK_5PM);
+
+    expect(dailyPnLService.getNextRollover(new Date("2026-07-14T12:00:00Z")).toISOString()).toBe("2026-07-14T21:00:00.000Z");
+    expect(dailyPnLService.getNextRollover(new Date("2026-07-14T21:00:00Z")).toISOString()).toBe("2026-07-15T21:00:00.000Z");
+    // The Saturday morning before the DST change rolls over on Saturday evening EST
+    expect(dailyPnLService.getNextRollover(new Date("2026-03-07T12:00:00Z")).toISOString()).toBe("2026-03-07T22:00:00.000Z");
+  });
+
+  it("follows a configured rollover zone and hour", () => {
+    dailyPnLService.configureRollover({ timeZone: "UTC", hour: 0 });
+
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-14T23:59:59Z"))).toBe("2026-07-15");
+    expect(dailyPnLService.getRolloverTime("2026-07-15").toISOString()).toBe("2026-07-14T00:00:00.000Z");
+
+    dailyPnLService.configureRollover({ timeZone: "Europe/London", hour: 22 });
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-14T20:59:00Z"))).toBe("2026-07-14");
+    expect(dailyPnLService.getTradingDay(new Date("2026-07-14T21:00:00Z"))).toBe("2026-07-15");
+    expect(dailyPnLService.getRolloverTime("2026-07-15").toISOString()).toBe("2026-07-14T21:00:00.000Z");
+  });
+});
@@ -0,0 +1,246 @@
+import { db } from "../db";
+import { equitySnapshots, EquitySnapshot } from "@shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { storage, Account } from "../storage";
+import { logger } from "./logger";
+
+// Daily P&L per account, measured from an equity snapshot taken at the broker's
+// daily rollover. Most FX brokers and prop firms roll the trading day at 17:00 New York.
+
+interface RolloverConfig {
+  timeZone: string;
+  hour: number; // Local hour the new trading day starts
+}
+
+interface DailyPnL {
+  accountId: string;
+  tradingDay: string;
+  rolloverAt: string;
+  startBalance: number;
+  startEquity: number;
+  realizedPnL: number; // Closed since the rollover
+  commission: number; // Negative: charged on fills since the rollover
+  swap: number;
+  unrealizedPnL: number; // All open positions
+  equity: number; // Start balance plus today's closed P&L and the open P&L
+  netPnL: number; // Equity change since the snapshot
+}
+
+const MS_PER_DAY = 86400000;
+
+class DailyPnLService {
+  private rollover: RolloverConfig = {
+    timeZone: process.env.BROKER_ROLLOVER_TIMEZONE || "America/New_York",
+    hour: parseInt(process.env.BROKER_ROLLOVER_HOUR || "17", 10),
+  };
+  private snapshots = new Map<string, EquitySnapshot>();
+  private firstSnapshots = new Map<string, EquitySnapshot>();
+  private snapshotInterval: NodeJS.Timeout | null = null;
+
+  // Checks once a minute so every account gets its snapshot at the rollover, not on first use
+  start(): void {
+    if (this.snapshotInterval) return;
+
+    this.snapshotInterval = setInterval(() => {
+      this.snapshotAllAccounts().catch(error => console.error("Equity snapshot error:", error));
+    }, 60000);
+    this.snapshotAllAccounts().catch(error => console.error("Equity snapshot error:", error));
+  }
+
+  stop(): void {
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+  }
+
+  getRolloverConfig(): RolloverConfig {
+    return { ...this.rollover };
+  }
+
+  configureRollover(config: Partial<RolloverConfig>): void {
+    this.rollover = { ...this.rollover, ...config };
+    this.snapshots.clear();
+  }
+
+  // Trading day a moment belongs to; time after the rollover counts toward the next day
+  getTradingDay(at: Date = new Date()): string {
+    const local = this.getZonedParts(at);
+    let day = Date.UTC(local.year, local.month - 1, local.day);
+    if (local.hour >= this.rollover.hour) day += MS_PER_DAY;
+    return new Date(day).toISOString().slice(0, 10);
+  }
+
+  // Instant the trading day started: the rollover hour on the previous calendar day
+  getRolloverTime(tradingDay: string): Date {
+    const [year, month, day] = tradingDay.split("-").map(Number);
+    const wallClock = Date.UTC(year, month - 1, day - 1, this.rollover.hour);
+
+    // Resolve the zone offset twice so rollovers next to a DST change land on the right hour
+    let instant = wallClock - this.getZoneOffset(new Date(wallClock));
+    instant = wallClock - this.getZoneOffset(new Date(instant));
+    return new Date(instant);
+  }
+
+  // Start of the trading day after the one `at` falls in
+  getNextRollover(at: Date = new Date()): Date {
+    const next = new Date(Date.parse(this.getTradingDay(at)) + MS_PER_DAY).toISOString().slice(0, 10);
+    return this.getRolloverTime(next);
+  }
+
+  // Snapshot for the current trading day, taken now if the rollover has not been recorded yet
+  async getSnapshot(account: Account): Promise<EquitySnapshot> {
+    const tradingDay = this.getTradingDay();
+    const cached = this.snapshots.get(account.id);
+    if (cached?.tradingDay === tradingDay) return cached;
+
+    const snapshot = await this.findSnapshot(account.id, tradingDay) || await this.takeSnapshot(account, tradingDay);
+    this.snapshots.set(account.id, snapshot);
+    return snapshot;
+  }
+
+  // Earliest snapshot stored for the account, or today's when there is none yet
+  async getFirstSnapshot(account: Account): Promise<EquitySnapshot> {
+    const cached = this.firstSnapshots.get(account.id);
+    if (cached) return cached;
+
+    let first: EquitySnapshot | undefined;
+    try {
+      [first] = await db.select()
+        .from(equitySnapshots)
+        .where(eq(equitySnapshots.accountId, account.id))
+        .orderBy(asc(equitySnapshots.tradingDay))
+        .limit(1);
+    } catch (error) {
+      logger.error('risk', `Failed to load first equity snapshot for ${account.id}: ${(error as Error).message}`);
+    }
+
+    const snapshot = first || await this.getSnapshot(account);
+    this.firstSnapshots.set(account.id, snapshot);
+    return snapshot;
+  }
+
+  async getSnapshotHistory(accountId: string, limit = 30): Promise<EquitySnapshot[]> {
+    return db.select()
+      .from(equitySnapshots)
+      .where(eq(equitySnapshots.accountId, accountId))
+      .orderBy(desc(equitySnapshots.tradingDay))
+      .limit(limit);
+  }
+
+  async getDailyPnL(account: Account): Promise<DailyPnL> {
+    const snapshot = await this.getSnapshot(account);
+    const since = snapshot.rolloverAt.getTime();
+    const closedToday = (timestamp?: string) => !!timestamp && new Date(timestamp).getTime() >= since;
+
+    // Realized P&L and commission from the orders filled since the rollover, so partial closes
+    // of positions opened before it count on the day they happen
+    const orders = (await storage.getOrders(account.id)).filter(order => closedToday(order.filledAt || order.createdAt));
+    const realizedPnL = orders.reduce((sum, order) => sum + parseFloat(order.realizedPnL || "0"), 0);
+    const commission = -orders.reduce((sum, order) => sum + parseFloat(order.commission || "0"), 0);
+
+    const openPositions = await storage.getOpenPositions(account.id);
+    const closedPositions = (await storage.getClosedPositions())
+      .filter(p => p.accountId === account.id && closedToday(p.closedAt));
+    const todaysPositions = [...closedPositions, ...openPositions.filter(p => closedToday(p.createdAt))];
+    const swap = todaysPositions.reduce((sum, p) => sum + parseFloat(p.swap || "0"), 0);
+    const unrealizedPnL = openPositions.reduce((sum, p) => sum + parseFloat(p.unrealizedPnL || "0"), 0);
+
+    const equity = snapshot.balance + realizedPnL + commission + swap + unrealizedPnL;
+
+    return {
+      accountId: account.id,
+      tradingDay: snapshot.tradingDay,
+      rolloverAt: snapshot.rolloverAt.toISOString(),
+      startBalance: snapshot.balance,
+      startEquity: snapshot.equity,
+      realizedPnL,
+      commission,
+      swap,
+      unrealizedPnL,
+      equity,
+      netPnL: equity - snapshot.equity,
+    };
+  }
+
+  private async snapshotAllAccounts(): Promise<void> {
+    const accounts = await storage.getAccounts();
+    for (const account of accounts) {
+      await this.getSnapshot(account);
+    }
+  }
+
+  private async takeSnapshot(account: Account, tradingDay: string): Promise<EquitySnapshot> {
+    const openPositions = await storage.getOpenPositions(account.id);
+    const balance = parseFloat(account.balance || "0");
+    const equity = balance + openPositions.reduce((sum, p) => sum + parseFloat(p.unrealizedPnL || "0"), 0);
+    const rolloverAt = this.getRolloverTime(tradingDay);
+
+    // A snapshot that only lived in memory would be re-taken mid-day after a restart, so a
+    // failed write is an error: daily loss checks fail closed until it can be stored
+    let stored: EquitySnapshot | undefined;
+    try {
+      await db.insert(equitySnapshots)
+        .values({ accountId: account.id, tradingDay, rolloverAt, balance, equity })
+        .onConflictDoNothing();
+
+      // Read back so a snapshot inserted concurrently wins over this one
+      stored = await this.findSnapshot(account.id, tradingDay);
+    } catch (error) {
+      logger.error('risk', `Failed to persist equity snapshot for ${account.name}: ${(error as Error).message}`);
+      throw new Error(`Equity snapshot for ${account.name} on ${tradingDay} could not be stored: ${(error as Error).message}`);
+    }
+    if (!stored) {
+      throw new Error(`Equity snapshot for ${account.name} on ${tradingDay} was not stored`);
+    }
+
+    logger.info('risk', `Equity snapshot for ${account.name} on ${tradingDay}: balance ${stored.balance.toFixed(2)}, equity ${stored.equity.toFixed(2)}`);
+    return stored;
+  }
+
+  private async findSnapshot(accountId: string, tradingDay: string): Promise<EquitySnapshot | undefined> {
+    try {
+      const [snapshot] = await db.select()
+        .from(equitySnapshots)
+        .where(and(eq(equitySnapshots.accountId, accountId), eq(equitySnapshots.tradingDay, tradingDay)))
+        .limit(1);
+      return snapshot;
+    } catch (error) {
+      logger.error('risk', `Failed to load equity snapshot for ${accountId}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private getZonedParts(at: Date): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: this.rollover.timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    }).formatToParts(at);
+
+    const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || "0", 10);
+    return {
+      year: value("year"),
+      month: value("month"),
+      day: value("day"),
+      hour: value("hour"),
+      minute: value("minute"),
+      second: value("second"),
+    };
+  }
+
+  // Milliseconds the rollover zone is ahead of UTC at `at`
+  private getZoneOffset(at: Date): number {
+    const local = this.getZonedParts(at);
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+    return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+  }
+}
+
+export const dailyPnLService = new DailyPnLService();
+export type { DailyPnL, RolloverConfig };
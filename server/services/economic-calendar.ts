@@ -0,0 +1,390 @@
+import { z } from "zod";
+import { db } from "../db";
+import { economicEvents, EconomicEvent, InsertEconomicEvent } from "@shared/schema";
+import { and, asc, eq, gte, lte, sql } from "drizzle-orm";
+import { marketDataService } from "./market-data";
+import { pricingService } from "./pricing";
+import { sessionManager, NewsEvent, NEWS_IMPACTS } from "./session-manager";
+import { logger } from "./logger";
+
+// Economic calendar imported from ForexFactory-style exports (the weekly XML, CSV or JSON
+// files) or polled from a feed URL. Stored releases are handed to the session manager,
+// which schedules a blackout window around each one for the symbols that trade its currency.
+
+export const CALENDAR_FORMATS = ["AUTO", "XML", "CSV", "JSON"] as const;
+
+type CalendarFormat = Exclude<typeof CALENDAR_FORMATS[number], "AUTO">;
+type NewsImpact = typeof NEWS_IMPACTS[number];
+
+export const calendarImportOptionsSchema = z.object({
+  format: z.enum(CALENDAR_FORMATS).default("AUTO"),
+  // Offset of XML and CSV times from UTC; the ForexFactory weekly export is in GMT.
+  // JSON dates carry their own offset.
+  utcOffsetMinutes: z.coerce.number().int().default(0),
+});
+
+export const calendarSettingsSchema = z.object({
+  feedUrl: z.string().url().optional(),
+  feedFormat: z.enum(CALENDAR_FORMATS).default("AUTO"),
+  refreshMinutes: z.number().int().min(5).default(60),
+  // Blackout either side of a release, by impact
+  bufferMinutes: z.object({
+    HIGH: z.number().int().min(0).default(15),
+    MEDIUM: z.number().int().min(0).default(5),
+    LOW: z.number().int().min(0).default(0),
+  }).default({}),
+});
+
+type CalendarImportOptions = z.input<typeof calendarImportOptionsSchema>;
+type CalendarSettings = z.infer<typeof calendarSettingsSchema>;
+
+interface ParsedEvent {
+  title: string;
+  currency: string;
+  impact: NewsImpact;
+  eventTime: Date;
+  forecast: string | null;
+  previous: string | null;
+  actual: string | null;
+}
+
+interface CalendarImportResult {
+  format: CalendarFormat;
+  imported: number;
+  skipped: number; // Holidays, tentative times and unreadable rows
+  currencies: string[];
+  firstEvent: string | null;
+  lastEvent: string | null;
+}
+
+interface FeedRefresh {
+  at: string;
+  result?: CalendarImportResult;
+  error?: string;
+}
+
+interface CalendarQuery {
+  from?: Date;
+  to?: Date;
+  currency?: string;
+  minImpact?: NewsImpact;
+  limit?: number;
+}
+
+const IMPACTS: Record<string, NewsImpact | null> = {
+  high: "HIGH",
+  medium: "MEDIUM",
+  low: "LOW",
+  "non-economic": "LOW",
+  holiday: null, // Bank holidays are not releases
+};
+
+const IMPACT_RANK: Record<NewsImpact, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+// Releases handed to the session manager: recent ones still inside their window, and the weeks ahead
+const LOOKBACK_MS = 24 * 60 * 60000;
+const LOOKAHEAD_MS = 14 * 24 * 60 * 60000;
+
+const FEED_TIMEOUT_MS = 15000;
+
+class EconomicCalendarService {
+  private settings: CalendarSettings = calendarSettingsSchema.parse({
+    feedUrl: process.env.ECONOMIC_CALENDAR_URL || undefined,
+  });
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private lastRefresh: FeedRefresh | null = null;
+
+  async start(): Promise<void> {
+    await this.loadUpcoming();
+    this.scheduleFeed();
+  }
+
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  async importContent(content: string, options: CalendarImportOptions = {}, source?: string): Promise<CalendarImportResult> {
+    const { format: requested, utcOffsetMinutes } = calendarImportOptionsSchema.parse(options);
+    const trimmed = content.replace(/^\uFEFF/, "").trim();
+    if (trimmed.length === 0) {
+      throw new Error("Calendar file is empty");
+    }
+
+    const format = requested === "AUTO" ? this.detectFormat(trimmed) : requested;
+    const { events, skipped } = format === "XML" ? this.parseXml(trimmed, utcOffsetMinutes)
+      : format === "JSON" ? this.parseJson(trimmed)
+      : this.parseCsv(trimmed, utcOffsetMinutes);
+
+    if (events.length === 0 && skipped > 0) {
+      throw new Error(`No readable events in the ${format} file (${skipped} rows skipped)`);
+    }
+
+    await this.saveEvents(events, source || format);
+    await sessionManager.addNewsEvents(events.map(event => this.toNewsEvent(event)));
+
+    const times = events.map(event => event.eventTime.getTime()).sort((a, b) => a - b);
+    logger.info('system', `Imported ${events.length} economic events from ${source || format} (${skipped} skipped)`);
+    return {
+      format,
+      imported: events.length,
+      skipped,
+      currencies: Array.from(new Set(events.map(event => event.currency))).sort(),
+      firstEvent: times.length > 0 ? new Date(times[0]).toISOString() : null,
+      lastEvent: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : null,
+    };
+  }
+
+  // Pulls the configured feed URL now
+  async refreshFeed(): Promise<CalendarImportResult> {
+    const { feedUrl, feedFormat } = this.settings;
+    if (!feedUrl) {
+      throw new Error("No economic calendar feed URL is configured");
+    }
+
+    try {
+      const response = await fetch(feedUrl, { signal: AbortSignal.timeout(FEED_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Feed returned HTTP ${response.status}`);
+      }
+
+      const result = await this.importContent(await response.text(), { format: feedFormat }, "FEED");
+      this.lastRefresh = { at: new Date().toISOString(), result };
+      return result;
+    } catch (error) {
+      this.lastRefresh = { at: new Date().toISOString(), error: (error as Error).message };
+      logger.error('system', `Economic calendar feed refresh failed: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  async getEvents(query: CalendarQuery = {}): Promise<EconomicEvent[]> {
+    const conditions = [];
+    if (query.from) conditions.push(gte(economicEvents.eventTime, query.from));
+    if (query.to) conditions.push(lte(economicEvents.eventTime, query.to));
+    if (query.currency) conditions.push(eq(economicEvents.currency, query.currency.toUpperCase()));
+
+    const rows = await db.select().from(economicEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(economicEvents.eventTime))
+      .limit(query.limit ?? 500);
+
+    const minRank = IMPACT_RANK[query.minImpact ?? "LOW"];
+    return rows.filter(row => IMPACT_RANK[row.impact as NewsImpact] >= minRank);
+  }
+
+  // Quoted symbols whose base or quote is the currency; ALL covers every symbol
+  getSymbolsForCurrency(currency: string): string[] {
+    const symbols = marketDataService.getSymbols();
+    if (currency === "ALL") return symbols;
+
+    return symbols.filter(symbol => {
+      const spec = pricingService.getInstrument(symbol);
+      return spec.baseCurrency === currency || spec.quoteCurrency === currency;
+    });
+  }
+
+  getSettings(): CalendarSettings & { lastRefresh: FeedRefresh | null } {
+    return { ...this.settings, lastRefresh: this.lastRefresh };
+  }
+
+  async updateSettings(updates: Partial<z.input<typeof calendarSettingsSchema>>): Promise<CalendarSettings> {
+    this.settings = calendarSettingsSchema.parse({
+      ...this.settings,
+      ...updates,
+      bufferMinutes: { ...this.settings.bufferMinutes, ...updates.bufferMinutes },
+    });
+    logger.info('system', `Economic calendar settings updated${this.settings.feedUrl ? `, feed ${this.settings.feedUrl}` : ""}`);
+
+    // New buffers apply to releases already loaded
+    await this.loadUpcoming();
+    this.scheduleFeed();
+    return { ...this.settings };
+  }
+
+  private scheduleFeed(): void {
+    this.stop();
+    if (!this.settings.feedUrl) return;
+
+    this.refreshInterval = setInterval(() => {
+      this.refreshFeed().catch(() => undefined); // Logged in refreshFeed
+    }, this.settings.refreshMinutes * 60000);
+    this.refreshFeed().catch(() => undefined);
+  }
+
+  private async loadUpcoming(): Promise<void> {
+    try {
+      const now = Date.now();
+      const events = await this.getEvents({ from: new Date(now - LOOKBACK_MS), to: new Date(now + LOOKAHEAD_MS) });
+      if (events.length === 0) return;
+
+      await sessionManager.addNewsEvents(events.map(event => this.toNewsEvent({
+        ...event,
+        impact: event.impact as NewsImpact,
+      })));
+    } catch (error) {
+      logger.error('system', `Failed to load economic events: ${(error as Error).message}`);
+    }
+  }
+
+  // Re-imports update the forecast, previous and actual figures of releases already stored
+  private async saveEvents(events: ParsedEvent[], source: string): Promise<void> {
+    if (events.length === 0) return;
+
+    const rows: InsertEconomicEvent[] = events.map(event => ({
+      ...event,
+      symbols: this.getSymbolsForCurrency(event.currency),
+      source,
+    }));
+
+    try {
+      await db.insert(economicEvents)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: [economicEvents.currency, economicEvents.title, economicEvents.eventTime],
+          set: {
+            impact: sql`excluded.impact`,
+            symbols: sql`excluded.symbols`,
+            forecast: sql`excluded.forecast`,
+            previous: sql`excluded.previous`,
+            actual: sql`excluded.actual`,
+            source: sql`excluded.source`,
+          },
+        });
+    } catch (error) {
+      // The blackouts still apply for this run
+      logger.error('system', `Failed to store economic events: ${(error as Error).message}`);
+    }
+  }
+
+  private toNewsEvent(event: Pick<ParsedEvent, "title" | "currency" | "impact" | "eventTime">): NewsEvent {
+    return {
+      time: event.eventTime.toISOString(),
+      currency: event.currency,
+      impact: event.impact,
+      title: event.title,
+      bufferMinutes: this.settings.bufferMinutes[event.impact],
+    };
+  }
+
+  private detectFormat(content: string): CalendarFormat {
+    if (content.startsWith("<")) return "XML";
+    if (content.startsWith("[") || content.startsWith("{")) return "JSON";
+    return "CSV";
+  }
+
+  // <weeklyevents><event><title/><country/><date/><time/><impact/><forecast/><previous/></event>...
+  private parseXml(content: string, utcOffsetMinutes: number): { events: ParsedEvent[]; skipped: number } {
+    const events: ParsedEvent[] = [];
+    let skipped = 0;
+
+    for (const match of Array.from(content.matchAll(/<event>([\s\S]*?)<\/event>/g))) {
+      const field = (tag: string) => {
+        const value = match[1].match(new RegExp(`<${tag}>\\s*(?:<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>|([\\s\\S]*?))\\s*</${tag}>`));
+        return value ? (value[1] ?? value[2] ?? "").trim() : "";
+      };
+
+      const event = this.toEvent(field("title"), field("country"), field("impact"),
+        this.parseDateTime(field("date"), field("time"), utcOffsetMinutes), field("forecast"), field("previous"), field("actual"));
+      if (event) events.push(event);
+      else skipped++;
+    }
+
+    return { events, skipped };
+  }
+
+  // Title,Country,Date,Time,Impact,Forecast,Previous with a header row
+  private parseCsv(content: string, utcOffsetMinutes: number): { events: ParsedEvent[]; skipped: number } {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = this.splitCsvLine(lines[0]).map(column => column.trim().toLowerCase());
+    const index = (name: string) => header.indexOf(name);
+    if (index("title") < 0 || index("country") < 0 || index("date") < 0) {
+      throw new Error("CSV needs Title, Country and Date columns");
+    }
+
+    const events: ParsedEvent[] = [];
+    let skipped = 0;
+    for (const line of lines.slice(1)) {
+      const values = this.splitCsvLine(line);
+      const field = (name: string) => (index(name) >= 0 ? values[index(name)] ?? "" : "").trim();
+
+      const event = this.toEvent(field("title"), field("country"), field("impact"),
+        this.parseDateTime(field("date"), field("time"), utcOffsetMinutes), field("forecast"), field("previous"), field("actual"));
+      if (event) events.push(event);
+      else skipped++;
+    }
+
+    return { events, skipped };
+  }
+
+  // [{ "title", "country", "date": "2026-01-09T08:30:00-05:00", "impact", "forecast", "previous" }]
+  private parseJson(content: string): { events: ParsedEvent[]; skipped: number } {
+    const parsed = JSON.parse(content);
+    const items: any[] = Array.isArray(parsed) ? parsed : parsed.events ?? [];
+
+    const events: ParsedEvent[] = [];
+    let skipped = 0;
+    for (const item of items) {
+      const date = typeof item?.date === "string" && item.date.includes("T") ? new Date(item.date) : null;
+      const event = this.toEvent(String(item?.title ?? ""), String(item?.country ?? item?.currency ?? ""), String(item?.impact ?? ""),
+        date, item?.forecast, item?.previous, item?.actual);
+      if (event) events.push(event);
+      else skipped++;
+    }
+
+    return { events, skipped };
+  }
+
+  private toEvent(title: string, country: string, impactText: string, eventTime: Date | null, forecast?: unknown, previous?: unknown, actual?: unknown): ParsedEvent | null {
+    const currency = country.trim().toUpperCase();
+    const impact = IMPACTS[impactText.trim().toLowerCase()];
+    if (!title || !/^[A-Z]{3}$/.test(currency) || !impact || !eventTime || isNaN(eventTime.getTime())) {
+      return null;
+    }
+
+    const text = (value: unknown) => value === undefined || value === null || value === "" ? null : String(value);
+    return { title, currency, impact, eventTime, forecast: text(forecast), previous: text(previous), actual: text(actual) };
+  }
+
+  // MM-DD-YYYY and 8:30am; "All Day", "Tentative" and empty times have no release to black out
+  private parseDateTime(date: string, time: string, utcOffsetMinutes: number): Date | null {
+    const dateMatch = date.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+    const timeMatch = time.trim().toLowerCase().match(/^(\d{1,2}):(\d{2})\s*(am|pm)$/);
+    if (!dateMatch || !timeMatch) return null;
+
+    let hours = parseInt(timeMatch[1], 10) % 12;
+    if (timeMatch[3] === "pm") hours += 12;
+
+    const [, month, day, year] = dateMatch.map(Number);
+    const utc = Date.UTC(year, month - 1, day, hours, parseInt(timeMatch[2], 10));
+    return new Date(utc - utcOffsetMinutes * 60000);
+  }
+
+  private splitCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = "";
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"' && quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === "," && !quoted) {
+        values.push(current);
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    values.push(current);
+    return values;
+  }
+}
+
+export const economicCalendarService = new EconomicCalendarService();
+export type { CalendarFormat, CalendarSettings, CalendarImportOptions, CalendarImportResult, CalendarQuery, FeedRefresh };
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { pricingService, PriceLookup } from "./pricing";
+
+// Trading costs shared by the backtester and the paper broker: spread, slippage, commission
+// and overnight swap, configured per broker as a cost profile. Only pricing is imported:
+// the backtest simulator also runs on optimizer worker threads.
+
+export const SPREAD_SOURCES = ["MODEL", "DATA"] as const;
+export const SLIPPAGE_MODELS = ["NONE", "FIXED", "ATR", "RANDOM"] as const;
+export const COMMISSION_MODELS = ["NONE", "PER_LOT", "PER_MILLION"] as const;
+// Indexed by Date.getUTCDay()
+export const WEEKDAYS = ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"] as const;
+
+export const DEFAULT_COST_PROFILE = "STANDARD";
+
+const spreadWindowSchema = z.object({
+  fromHour: z.number().int().min(0).max(23),
+  toHour: z.number().int().min(1).max(24), // Exclusive; a window that ends before it starts wraps past midnight
+  multiplier: z.number().positive(),
+});
+
+const swapRateSchema = z.object({
+  long: z.number(),
+  short: z.number(),
+});
+
+export const costProfileSchema = z.object({
+  description: z.string().default(""),
+  brokers: z.array(z.string()).default([]), // Broker ids whose accounts trade with this profile
+  spread: z.object({
+    source: z.enum(SPREAD_SOURCES).default("MODEL"), // DATA: bar spreads in backtests, the live quote on paper
+    defaultPips: z.number().min(0).default(1),
+    symbols: z.record(z.number().min(0)).default({}), // Pips, per symbol
+    schedule: z.array(spreadWindowSchema).default([]), // UTC hours; the first matching window applies
+  }).default({}),
+  slippage: z.object({
+    model: z.enum(SLIPPAGE_MODELS).default("NONE"),
+    pips: z.number().min(0).default(0), // FIXED; the maximum for RANDOM; ATR when no range is known
+    atrFraction: z.number().min(0).default(0.05),
+    atrPeriod: z.number().int().positive().default(14),
+  }).default({}),
+  commission: z.object({
+    model: z.enum(COMMISSION_MODELS).default("NONE"),
+    amount: z.number().min(0).default(0), // Account currency per side: per lot, or per million of notional
+  }).default({}),
+  swap: z.object({
+    enabled: z.boolean().default(false),
+    rolloverHour: z.number().int().min(0).max(23).default(21), // UTC; 17:00 New York in summer
+    tripleDay: z.enum(WEEKDAYS).default("WEDNESDAY"), // Carries the weekend's two extra nights
+    symbols: z.record(swapRateSchema).default({}), // Pips per night; negative is charged
+  }).default({}),
+});
+
+export const costProfileNameSchema = z.string().regex(/^[A-Z0-9_]{2,32}$/, "Use 2-32 upper-case letters, digits or underscores");
+
+type CostProfileConfig = z.infer<typeof costProfileSchema>;
+
+interface CostProfile extends CostProfileConfig {
+  name: string;
+}
+
+// Typical retail rollover rates in pips per lot per night
+const SWAP_RATES: Record<string, z.input<typeof swapRateSchema>> = {
+  EURUSD: { long: -0.8, short: 0.3 },
+  GBPUSD: { long: -0.5, short: -0.1 },
+  USDJPY: { long: 1.2, short: -2.0 },
+  AUDUSD: { long: -0.4, short: 0 },
+  USDCAD: { long: 0.2, short: -0.9 },
+  USDCHF: { long: 0.6, short: -1.3 },
+  NZDUSD: { long: -0.3, short: -0.2 },
+  XAUUSD: { long: -3.5, short: 1.5 },
+};
+
+// Spreads widen around the New York rollover and through the Asian session
+const SPREAD_SCHEDULE = [
+  { fromHour: 21, toHour: 23, multiplier: 3 },
+  { fromHour: 23, toHour: 7, multiplier: 1.5 },
+];
+
+// Profiles every install starts with; stored profiles of the same name replace them
+export const BUILT_IN_COST_PROFILES: Record<string, z.input<typeof costProfileSchema>> = {
+  STANDARD: {
+    description: "Retail account: marked-up spreads, no commission",
+    brokers: ["paper", "oanda", "mt5"],
+    spread: {
+      defaultPips: 1.5,
+      symbols: { EURUSD: 1.0, GBPUSD: 1.4, USDJPY: 1.1, AUDUSD: 1.2, USDCAD: 1.6, USDCHF: 1.5, NZDUSD: 1.8, XAUUSD: 3.0 },
+      schedule: SPREAD_SCHEDULE,
+    },
+    slippage: { model: "RANDOM", pips: 0.5 },
+    swap: { enabled: true, symbols: SWAP_RATES },
+  },
+  RAW: {
+    description: "ECN account: raw spreads plus commission per lot",
+    brokers: ["ibkr", "ctrader"],
+    spread: {
+      defaultPips: 0.4,
+      symbols: { EURUSD: 0.1, GBPUSD: 0.3, USDJPY: 0.2, AUDUSD: 0.2, USDCAD: 0.4, USDCHF: 0.4, NZDUSD: 0.5, XAUUSD: 1.2 },
+      schedule: SPREAD_SCHEDULE,
+    },
+    slippage: { model: "ATR", atrFraction: 0.02, pips: 0.2 },
+    commission: { model: "PER_LOT", amount: 3.5 },
+    swap: { enabled: true, symbols: SWAP_RATES },
+  },
+};
+
+// Prices every cost for one profile. Spreads and slippage are in price units, money in the
+// account currency.
+class ExecutionCostModel {
+  constructor(readonly profile: CostProfile, private random: () => number = Math.random) {}
+
+  // Full bid/ask spread at `time`; DATA profiles use the quoted spread when there is one
+  getSpread(symbol: string, time: Date, quoted?: number | null): number {
+    const { spread } = this.profile;
+    if (spread.source === "DATA" && quoted != null) return quoted;
+
+    const pips = spread.symbols[symbol.toUpperCase()] ?? spread.defaultPips;
+    return pips * this.getSpreadMultiplier(time) * pricingService.getPipSize(symbol);
+  }
+
+  // Adverse move on a market fill; `atr` is the symbol's current average true range
+  getSlippage(symbol: string, atr?: number | null): number {
+    const { slippage } = this.profile;
+    const pipSize = pricingService.getPipSize(symbol);
+
+    switch (slippage.model) {
+      case "FIXED":
+        return slippage.pips * pipSize;
+      case "RANDOM":
+        return this.random() * slippage.pips * pipSize;
+      case "ATR":
+        return atr ? atr * slippage.atrFraction : slippage.pips * pipSize;
+      default:
+        return 0;
+    }
+  }
+
+  // Charged on each side of a trade
+  getCommission(symbol: string, lots: number, accountCurrency = "USD", lookup?: PriceLookup): number {
+    const { commission } = this.profile;
+    if (commission.model === "PER_LOT") {
+      return lots * commission.amount;
+    }
+    if (commission.model === "PER_MILLION") {
+      return (pricingService.getNotional(symbol, lots, accountCurrency, lookup) / 1000000) * commission.amount;
+    }
+    return 0;
+  }
+
+  // Rollovers after `from` up to and including `to`; there are none on Saturday or Sunday
+  getRollovers(from: Date, to: Date): Date[] {
+    const rollovers: Date[] = [];
+    const time = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), this.profile.swap.rolloverHour));
+    if (time <= from) time.setUTCDate(time.getUTCDate() + 1);
+
+    for (; time <= to; time.setUTCDate(time.getUTCDate() + 1)) {
+      const day = time.getUTCDay();
+      if (day !== 0 && day !== 6) rollovers.push(new Date(time));
+    }
+    return rollovers;
+  }
+
+  // Nights financed by one rollover
+  getNights(rollover: Date): number {
+    return WEEKDAYS[rollover.getUTCDay()] === this.profile.swap.tripleDay ? 3 : 1;
+  }
+
+  // Financing for holding `lots` from `from` to `to`; negative is a charge
+  getSwap(
+    symbol: string,
+    side: string,
+    lots: number,
+    from: Date,
+    to: Date,
+    accountCurrency = "USD",
+    lookup?: PriceLookup
+  ): number {
+    const { swap } = this.profile;
+    const rates = swap.symbols[symbol.toUpperCase()];
+    if (!swap.enabled || !rates) return 0;
+
+    const nights = this.getRollovers(from, to).reduce((sum, rollover) => sum + this.getNights(rollover), 0);
+    if (nights === 0) return 0;
+
+    const pips = side === "BUY" ? rates.long : rates.short;
+    return nights * pips * pricingService.getPipValue(symbol, lots, accountCurrency, lookup);
+  }
+
+  private getSpreadMultiplier(time: Date): number {
+    const hour = time.getUTCHours();
+    const window = this.profile.spread.schedule.find(w =>
+      w.fromHour < w.toHour ? hour >= w.fromHour && hour < w.toHour : hour >= w.fromHour || hour < w.toHour
+    );
+    return window?.multiplier ?? 1;
+  }
+}
+
+// Deterministic generator for RANDOM slippage, so a backtest replays the same fills
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export { ExecutionCostModel, seededRandom };
+export type { CostProfileConfig, CostProfile };
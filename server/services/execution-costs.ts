@@ -0,0 +1,145 @@
+import { db } from "../db";
+import { executionCostProfiles } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { logger } from "./logger";
+import { pricingService } from "./pricing";
+import {
+  BUILT_IN_COST_PROFILES,
+  DEFAULT_COST_PROFILE,
+  costProfileSchema,
+  CostProfile,
+  CostProfileConfig,
+} from "./execution-cost-model";
+
+// Stored execution cost profiles. Each broker trades with the first profile that lists it,
+// and a backtest picks one by name; the built-in profiles apply until they are edited.
+
+interface CostProfileView extends CostProfile {
+  builtIn: boolean;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+class ExecutionCostService {
+  private profiles = new Map<string, CostProfileView>();
+  private profilesLoaded: Promise<void> | null = null;
+
+  constructor() {
+    for (const [name, config] of Object.entries(BUILT_IN_COST_PROFILES)) {
+      this.profiles.set(name, this.toView(name, costProfileSchema.parse(config), null, null));
+    }
+  }
+
+  async list(): Promise<CostProfileView[]> {
+    await this.loadProfiles();
+    return Array.from(this.profiles.values());
+  }
+
+  async get(name: string): Promise<CostProfileView | undefined> {
+    await this.loadProfiles();
+    return this.profiles.get(name);
+  }
+
+  // Accounts whose broker no profile lists use the default profile
+  async getForBroker(brokerId: string): Promise<CostProfile> {
+    await this.loadProfiles();
+    const profiles = Array.from(this.profiles.values());
+    return this.strip(profiles.find(profile => profile.brokers.includes(brokerId)) ?? this.profiles.get(DEFAULT_COST_PROFILE)!);
+  }
+
+  // The profile named in backtest parameters. The older `spread` (price units) and
+  // `commission` (fraction of notional) parameters still override it when given.
+  async resolve(parameters: Record<string, any>, symbols: string[]): Promise<CostProfile> {
+    const name = parameters.costProfile || DEFAULT_COST_PROFILE;
+    const stored = await this.get(name);
+    if (!stored) {
+      throw new Error(`Unknown cost profile: ${name}`);
+    }
+
+    const profile = this.strip(stored);
+    if (typeof parameters.spread === "number") {
+      profile.spread = {
+        ...profile.spread,
+        source: "MODEL",
+        symbols: Object.fromEntries(symbols.map(symbol => [symbol, pricingService.toPips(symbol, parameters.spread)])),
+        schedule: [],
+      };
+    }
+    if (typeof parameters.commission === "number") {
+      profile.commission = { model: "PER_MILLION", amount: parameters.commission * 1000000 };
+    }
+    return profile;
+  }
+
+  async save(name: string, config: CostProfileConfig, updatedBy: string): Promise<CostProfileView> {
+    await this.loadProfiles();
+    const view = this.toView(name, config, updatedBy, new Date());
+    this.profiles.set(name, view);
+
+    try {
+      await db.insert(executionCostProfiles)
+        .values({ name, config, updatedBy, updatedAt: view.updatedAt })
+        .onConflictDoUpdate({ target: executionCostProfiles.name, set: { config, updatedBy, updatedAt: view.updatedAt } });
+    } catch (error) {
+      logger.error('system', `Failed to persist cost profile ${name}: ${(error as Error).message}`);
+    }
+
+    logger.info('system', `Cost profile ${name} updated by ${updatedBy}`);
+    return view;
+  }
+
+  // Built-in profiles go back to their defaults rather than disappearing
+  async remove(name: string): Promise<CostProfileView | null> {
+    await this.loadProfiles();
+    if (!this.profiles.has(name)) {
+      throw new Error(`Unknown cost profile: ${name}`);
+    }
+    await db.delete(executionCostProfiles).where(eq(executionCostProfiles.name, name));
+    const builtIn = BUILT_IN_COST_PROFILES[name];
+    if (builtIn) {
+      const restored = this.toView(name, costProfileSchema.parse(builtIn), null, null);
+      this.profiles.set(name, restored);
+      logger.info('system', `Cost profile ${name} reset to its defaults`);
+      return restored;
+    }
+
+    this.profiles.delete(name);
+    logger.info('system', `Cost profile ${name} removed`);
+    return null;
+  }
+
+  private toView(name: string, config: CostProfileConfig, updatedBy: string | null, updatedAt: Date | null): CostProfileView {
+    return { name, ...config, builtIn: name in BUILT_IN_COST_PROFILES, updatedBy, updatedAt };
+  }
+
+  // The plain profile, as recorded with a backtest or sent to optimizer workers
+  private strip(view: CostProfileView): CostProfile {
+    const { builtIn, updatedBy, updatedAt, ...profile } = view;
+    return profile;
+  }
+
+  // Stored profiles replace the built-in ones of the same name
+  private loadProfiles(): Promise<void> {
+    if (!this.profilesLoaded) {
+      this.profilesLoaded = (async () => {
+        try {
+          const rows = await db.select().from(executionCostProfiles);
+          for (const row of rows) {
+            const parsed = costProfileSchema.safeParse(row.config);
+            if (!parsed.success) {
+              logger.error('system', `Stored cost profile ${row.name} is invalid, ignoring it`);
+              continue;
+            }
+            this.profiles.set(row.name, this.toView(row.name, parsed.data, row.updatedBy, row.updatedAt));
+          }
+        } catch (error) {
+          logger.error('system', `Failed to load cost profiles: ${(error as Error).message}`);
+        }
+      })();
+    }
+    return this.profilesLoaded;
+  }
+}
+
+export const executionCostService = new ExecutionCostService();
+export type { CostProfileView };
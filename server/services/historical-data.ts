@@ -0,0 +1,381 @@
+import { db } from "../db";
+import { marketBars, InsertMarketBar, MarketBar } from "@shared/schema";
+import { and, asc, count, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { z } from "zod";
+
+export const TIMEFRAMES = ["M1", "M5", "M15", "H1", "H4", "D1"] as const;
+export type Timeframe = typeof TIMEFRAMES[number];
+
+export const TIMEFRAME_SECONDS: Record<Timeframe, number> = {
+  M1: 60,
+  M5: 300,
+  M15: 900,
+  H1: 3600,
+  H4: 14400,
+  D1: 86400,
+};
+
+export type BarFileFormat = "HISTDATA" | "DUKASCOPY" | "MT5";
+
+export interface OHLCVBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  spread?: number | null;
+}
+
+export const barImportOptionsSchema = z.object({
+  symbol: z.string().min(1).transform(symbol => symbol.toUpperCase()),
+  timeframe: z.enum(TIMEFRAMES),
+  format: z.enum(["AUTO", "HISTDATA", "DUKASCOPY", "MT5"]).default("AUTO"),
+  // Offset of the file's timestamps from UTC. Defaults per format:
+  // HistData is EST without DST (-300), Dukascopy "Gmt time" is UTC, MT5 exports are server time (assumed UTC).
+  utcOffsetMinutes: z.coerce.number().int().optional(),
+});
+
+type ImportOptions = z.input<typeof barImportOptionsSchema> & { timeframe: Timeframe };
+
+interface ImportResult {
+  symbol: string;
+  timeframe: Timeframe;
+  format: BarFileFormat;
+  imported: number;
+  skipped: number;
+  firstBar: string | null;
+  lastBar: string | null;
+}
+
+interface BarQuery {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+interface CoverageGap {
+  from: string;
+  to: string;
+  missingBars: number;
+}
+
+interface CoverageReport {
+  symbol: string;
+  timeframe: string;
+  barCount: number;
+  firstBar: string;
+  lastBar: string;
+  coveragePercent: number;
+  gaps: CoverageGap[];
+}
+
+const DEFAULT_UTC_OFFSETS: Record<BarFileFormat, number> = {
+  HISTDATA: -300,
+  DUKASCOPY: 0,
+  MT5: 0,
+};
+
+const INSERT_CHUNK_SIZE = 500;
+
+class HistoricalDataService {
+  async importCsv(content: string, options: ImportOptions): Promise<ImportResult> {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    if (lines.length === 0) {
+      throw new Error("File is empty");
+    }
+
+    const format = !options.format || options.format === "AUTO" ? this.detectFormat(lines[0]) : options.format;
+    const utcOffsetMinutes = options.utcOffsetMinutes ?? DEFAULT_UTC_OFFSETS[format];
+    const { bars, skipped } = this.parseLines(lines, format, options.symbol, utcOffsetMinutes);
+
+    await this.saveBars(options.symbol, options.timeframe, bars, format);
+
+    return {
+      symbol: options.symbol,
+      timeframe: options.timeframe,
+      format,
+      imported: bars.length,
+      skipped,
+      firstBar: bars.length > 0 ? bars[0].timestamp.toISOString() : null,
+      lastBar: bars.length > 0 ? bars[bars.length - 1].timestamp.toISOString() : null,
+    };
+  }
+
+  async saveBars(symbol: string, timeframe: Timeframe, bars: OHLCVBar[], source: string): Promise<void> {
+    const rows: InsertMarketBar[] = bars.map(bar => ({
+      symbol,
+      timeframe,
+      timestamp: bar.timestamp,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      spread: bar.spread ?? null,
+      source,
+    }));
+
+    db.transaction((tx) => {
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        tx.insert(marketBars)
+          .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+          .onConflictDoUpdate({
+            target: [marketBars.symbol, marketBars.timeframe, marketBars.timestamp],
+            set: {
+              open: sql`excluded.open`,
+              high: sql`excluded.high`,
+              low: sql`excluded.low`,
+              close: sql`excluded.close`,
+              volume: sql`excluded.volume`,
+              spread: sql`excluded.spread`,
+              source: sql`excluded.source`,
+            },
+          })
+          .run();
+      }
+    });
+  }
+
+  async getBars(symbol: string, timeframe: Timeframe, query: BarQuery = {}): Promise<MarketBar[]> {
+    const conditions = [eq(marketBars.symbol, symbol), eq(marketBars.timeframe, timeframe)];
+    if (query.from) conditions.push(gte(marketBars.timestamp, query.from));
+    if (query.to) conditions.push(lte(marketBars.timestamp, query.to));
+
+    const builder = db.select()
+      .from(marketBars)
+      .where(and(...conditions))
+      .orderBy(asc(marketBars.timestamp));
+
+    return query.limit ? builder.limit(query.limit) : builder;
+  }
+
+  // Most recent `count` bars at or before `before`, returned oldest first
+  async getRecentBars(symbol: string, timeframe: Timeframe, count: number, before?: Date): Promise<MarketBar[]> {
+    const conditions = [eq(marketBars.symbol, symbol), eq(marketBars.timeframe, timeframe)];
+    if (before) conditions.push(lte(marketBars.timestamp, before));
+
+    const rows = await db.select()
+      .from(marketBars)
+      .where(and(...conditions))
+      .orderBy(desc(marketBars.timestamp))
+      .limit(count);
+
+    return rows.reverse();
+  }
+
+  async getCoverage(symbol?: string): Promise<CoverageReport[]> {
+    const summaries = await db.select({
+      symbol: marketBars.symbol,
+      timeframe: marketBars.timeframe,
+      barCount: count(),
+      firstBar: sql<number>`min(${marketBars.timestamp})`,
+      lastBar: sql<number>`max(${marketBars.timestamp})`,
+    })
+      .from(marketBars)
+      .where(symbol ? eq(marketBars.symbol, symbol) : undefined)
+      .groupBy(marketBars.symbol, marketBars.timeframe)
+      .orderBy(marketBars.symbol, marketBars.timeframe);
+
+    const reports: CoverageReport[] = [];
+    for (const summary of summaries) {
+      const interval = TIMEFRAME_SECONDS[summary.timeframe as Timeframe] || 60;
+      const gaps = this.findGaps(summary.symbol, summary.timeframe, interval);
+      const missingBars = gaps.reduce((sum, gap) => sum + gap.missingBars, 0);
+
+      reports.push({
+        symbol: summary.symbol,
+        timeframe: summary.timeframe,
+        barCount: summary.barCount,
+        firstBar: new Date(summary.firstBar * 1000).toISOString(),
+        lastBar: new Date(summary.lastBar * 1000).toISOString(),
+        coveragePercent: (summary.barCount / (summary.barCount + missingBars)) * 100,
+        gaps,
+      });
+    }
+
+    return reports;
+  }
+
+  private findGaps(symbol: string, timeframe: string, interval: number): CoverageGap[] {
+    const rows = db.all<{ prevTs: number; ts: number }>(sql`
+      SELECT prev_ts AS prevTs, timestamp AS ts FROM (
+        SELECT timestamp, LAG(timestamp) OVER (ORDER BY timestamp) AS prev_ts
+        FROM market_bars
+        WHERE symbol = ${symbol} AND timeframe = ${timeframe}
+      )
+      WHERE timestamp - prev_ts > ${interval}
+    `);
+
+    return rows
+      .filter(row => !this.isWeekendClosure(row.prevTs + interval, row.ts))
+      .map(row => ({
+        from: new Date((row.prevTs + interval) * 1000).toISOString(),
+        to: new Date(row.ts * 1000).toISOString(),
+        missingBars: Math.round((row.ts - row.prevTs) / interval) - 1,
+      }));
+  }
+
+  // FX closes from Friday ~21:00 UTC until Sunday ~21:00 UTC; a gap that sits
+  // entirely inside that window (padded for DST and daily bars) is expected.
+  private isWeekendClosure(gapStart: number, gapEnd: number): boolean {
+    const start = new Date(gapStart * 1000);
+    const startDay = start.getUTCDay();
+    const daysSinceFriday = (startDay + 2) % 7;
+    if (daysSinceFriday > 2) return false;
+
+    const friday = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - daysSinceFriday);
+    const closureStart = friday / 1000 + 20 * 3600;
+    const closureEnd = friday / 1000 + 3 * 86400;
+
+    return gapStart >= closureStart && gapEnd <= closureEnd;
+  }
+
+  private detectFormat(firstLine: string): BarFileFormat {
+    if (firstLine.startsWith("<DATE>") || /^\d{4}\.\d{2}\.\d{2}\t/.test(firstLine)) {
+      return "MT5";
+    }
+    if (/^(gmt|local) time/i.test(firstLine) || /^\d{2}\.\d{2}\.\d{4} \d{2}:\d{2}/.test(firstLine)) {
+      return "DUKASCOPY";
+    }
+    if (/^\d{8} \d{6};/.test(firstLine) || /^\d{4}\.\d{2}\.\d{2},\d{2}:\d{2},/.test(firstLine)) {
+      return "HISTDATA";
+    }
+    throw new Error("Unrecognised file format; expected HistData, Dukascopy or MT5 export");
+  }
+
+  private parseLines(
+    lines: string[],
+    format: BarFileFormat,
+    symbol: string,
+    utcOffsetMinutes: number
+  ): { bars: OHLCVBar[]; skipped: number } {
+    const bars: OHLCVBar[] = [];
+    let skipped = 0;
+    let header: string[] | null = null;
+
+    for (const line of lines) {
+      if (format === "MT5" && line.startsWith("<")) {
+        header = line.split("\t").map(column => column.replace(/[<>]/g, "").toUpperCase());
+        continue;
+      }
+      if (format === "DUKASCOPY" && /time/i.test(line.split(",")[0])) {
+        continue;
+      }
+
+      const bar = format === "HISTDATA" ? this.parseHistDataLine(line)
+        : format === "DUKASCOPY" ? this.parseDukascopyLine(line)
+        : this.parseMT5Line(line, header, symbol);
+
+      if (!bar || !this.isValidBar(bar)) {
+        skipped++;
+        continue;
+      }
+
+      // Dukascopy pads closed-market periods with flat zero-volume bars
+      if (format === "DUKASCOPY" && bar.volume === 0 && bar.high === bar.low) {
+        skipped++;
+        continue;
+      }
+
+      bar.timestamp = new Date(bar.timestamp.getTime() - utcOffsetMinutes * 60000);
+      bars.push(bar);
+    }
+
+    bars.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return { bars, skipped };
+  }
+
+  // "20240102 170000;1.104270;1.104290;1.104180;1.104230;0" (ASCII) or
+  // "2024.01.02,17:00,1.104270,1.104290,1.104180,1.104230,0" (MetaTrader)
+  private parseHistDataLine(line: string): OHLCVBar | null {
+    const ascii = line.match(/^(\d{4})(\d{2})(\d{2}) (\d{2})(\d{2})(\d{2});(.+)$/);
+    if (ascii) {
+      const [, y, mo, d, h, mi, s, rest] = ascii;
+      return this.buildBar(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s), rest.split(";"));
+    }
+
+    const metatrader = line.match(/^(\d{4})\.(\d{2})\.(\d{2}),(\d{2}):(\d{2}),(.+)$/);
+    if (metatrader) {
+      const [, y, mo, d, h, mi, rest] = metatrader;
+      return this.buildBar(Date.UTC(+y, +mo - 1, +d, +h, +mi), rest.split(","));
+    }
+
+    return null;
+  }
+
+  // "01.01.2024 00:00:00.000,1.10427,1.10429,1.10418,1.10423,1234.5"
+  // Local-time exports carry their offset: "01.01.2024 00:00:00.000 GMT+0200"
+  private parseDukascopyLine(line: string): OHLCVBar | null {
+    const [timestamp, ...values] = line.split(",");
+    const match = timestamp.match(/^(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?: GMT([+-])(\d{2})(\d{2}))?$/);
+    if (!match) return null;
+
+    const [, d, mo, y, h, mi, s, sign, offH, offM] = match;
+    let time = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+    if (sign) {
+      time -= (sign === "+" ? 1 : -1) * (+offH * 60 + +offM) * 60000;
+    }
+    return this.buildBar(time, values);
+  }
+
+  // Tab separated: <DATE> <TIME> <OPEN> <HIGH> <LOW> <CLOSE> <TICKVOL> <VOL> <SPREAD>
+  // Daily exports omit the <TIME> column.
+  private parseMT5Line(line: string, header: string[] | null, symbol: string): OHLCVBar | null {
+    const values = line.split("\t");
+    const columns = header || (values.length >= 9
+      ? ["DATE", "TIME", "OPEN", "HIGH", "LOW", "CLOSE", "TICKVOL", "VOL", "SPREAD"]
+      : ["DATE", "OPEN", "HIGH", "LOW", "CLOSE", "TICKVOL", "VOL", "SPREAD"]);
+    const field = (name: string) => {
+      const index = columns.indexOf(name);
+      return index >= 0 ? values[index] : undefined;
+    };
+
+    const date = field("DATE")?.match(/^(\d{4})\.(\d{2})\.(\d{2})$/);
+    if (!date) return null;
+    const time = (field("TIME") || "00:00:00").match(/^(\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (!time) return null;
+
+    const tickVolume = parseFloat(field("TICKVOL") || "0");
+    const realVolume = parseFloat(field("VOL") || "0");
+    const spreadPoints = parseFloat(field("SPREAD") || "");
+
+    const bar = this.buildBar(
+      Date.UTC(+date[1], +date[2] - 1, +date[3], +time[1], +time[2], +(time[3] || 0)),
+      [field("OPEN"), field("HIGH"), field("LOW"), field("CLOSE"), String(realVolume > 0 ? realVolume : tickVolume)]
+    );
+    if (bar && !isNaN(spreadPoints)) {
+      bar.spread = spreadPoints * this.getPointSize(symbol);
+    }
+    return bar;
+  }
+
+  private buildBar(time: number, values: (string | undefined)[]): OHLCVBar | null {
+    const [open, high, low, close, volume] = values.map(value => parseFloat(value ?? ""));
+    if ([open, high, low, close].some(value => isNaN(value))) return null;
+
+    return {
+      timestamp: new Date(time),
+      open,
+      high,
+      low,
+      close,
+      volume: isNaN(volume) ? 0 : volume,
+    };
+  }
+
+  private isValidBar(bar: OHLCVBar): boolean {
+    return !isNaN(bar.timestamp.getTime()) &&
+      bar.low > 0 &&
+      bar.high >= bar.low &&
+      bar.open >= bar.low && bar.open <= bar.high &&
+      bar.close >= bar.low && bar.close <= bar.high;
+  }
+
+  private getPointSize(symbol: string): number {
+    return symbol.includes("JPY") ? 0.001 : 0.00001;
+  }
+}
+
+export const historicalDataService = new HistoricalDataService();
+export type { ImportResult, CoverageReport };
@@ -0,0 +1,218 @@
+// Streaming technical indicators. Each indicator is fed one value (or bar) at a time
+// and returns its current reading, or null until it has seen enough data to be valid.
+// Strategies, signal providers and the AI engine all use these so their values agree.
+
+interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface Indicator<TInput, TOutput> {
+  update(input: TInput): TOutput | null;
+  readonly value: TOutput | null;
+}
+
+interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+interface BandsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export class SMA implements Indicator<number, number> {
+  private window: number[] = [];
+  private sum = 0;
+  value: number | null = null;
+
+  constructor(readonly period: number) {}
+
+  update(input: number): number | null {
+    this.window.push(input);
+    this.sum += input;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!;
+    }
+
+    this.value = this.window.length === this.period ? this.sum / this.period : null;
+    return this.value;
+  }
+}
+
+// Seeded with the SMA of the first `period` inputs
+export class EMA implements Indicator<number, number> {
+  private seed: SMA;
+  private multiplier: number;
+  value: number | null = null;
+
+  constructor(readonly period: number) {
+    this.seed = new SMA(period);
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(input: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(input);
+    } else {
+      this.value = (input - this.value) * this.multiplier + this.value;
+    }
+    return this.value;
+  }
+}
+
+// Wilder's smoothing: average of the first `period` inputs, then (prev * (period - 1) + input) / period
+class WilderAverage implements Indicator<number, number> {
+  private count = 0;
+  private sum = 0;
+  value: number | null = null;
+
+  constructor(readonly period: number) {}
+
+  update(input: number): number | null {
+    if (this.value === null) {
+      this.count++;
+      this.sum += input;
+      if (this.count === this.period) {
+        this.value = this.sum / this.period;
+      }
+    } else {
+      this.value = (this.value * (this.period - 1) + input) / this.period;
+    }
+    return this.value;
+  }
+}
+
+export class RSI implements Indicator<number, number> {
+  private gains: WilderAverage;
+  private losses: WilderAverage;
+  private previous: number | null = null;
+  value: number | null = null;
+
+  constructor(readonly period = 14) {
+    this.gains = new WilderAverage(period);
+    this.losses = new WilderAverage(period);
+  }
+
+  update(input: number): number | null {
+    if (this.previous === null) {
+      this.previous = input;
+      return null;
+    }
+
+    const change = input - this.previous;
+    this.previous = input;
+
+    const avgGain = this.gains.update(Math.max(change, 0));
+    const avgLoss = this.losses.update(Math.max(-change, 0));
+    if (avgGain === null || avgLoss === null) return null;
+
+    this.value = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+    return this.value;
+  }
+}
+
+export class ATR implements Indicator<PriceBar, number> {
+  private average: WilderAverage;
+  private previousClose: number | null = null;
+  value: number | null = null;
+
+  constructor(readonly period = 14) {
+    this.average = new WilderAverage(period);
+  }
+
+  update(bar: PriceBar): number | null {
+    const trueRange = this.previousClose === null ?
+      bar.high - bar.low :
+      Math.max(
+        bar.high - bar.low,
+        Math.abs(bar.high - this.previousClose),
+        Math.abs(bar.low - this.previousClose)
+      );
+    this.previousClose = bar.close;
+
+    this.value = this.average.update(trueRange);
+    return this.value;
+  }
+}
+
+export class MACD implements Indicator<number, MACDValue> {
+  private fast: EMA;
+  private slow: EMA;
+  private signalLine: EMA;
+  value: MACDValue | null = null;
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signalLine = new EMA(signalPeriod);
+  }
+
+  update(input: number): MACDValue | null {
+    const fast = this.fast.update(input);
+    const slow = this.slow.update(input);
+    if (fast === null || slow === null) return null;
+
+    // The signal line is an EMA of the MACD line's own history
+    const macd = fast - slow;
+    const signal = this.signalLine.update(macd);
+    if (signal === null) return null;
+
+    this.value = { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+}
+
+export class BollingerBands implements Indicator<number, BandsValue> {
+  private window: number[] = [];
+  value: BandsValue | null = null;
+
+  constructor(readonly period = 20, readonly stdDevMultiplier = 2) {}
+
+  update(input: number): BandsValue | null {
+    this.window.push(input);
+    if (this.window.length > this.period) this.window.shift();
+    if (this.window.length < this.period) return null;
+
+    const middle = this.window.reduce((sum, v) => sum + v, 0) / this.period;
+    const variance = this.window.reduce((sum, v) => sum + Math.pow(v - middle, 2), 0) / this.period;
+    const deviation = Math.sqrt(variance) * this.stdDevMultiplier;
+
+    this.value = { upper: middle + deviation, middle, lower: middle - deviation };
+    return this.value;
+  }
+}
+
+// Highest high / lowest low of the last `period` bars, including the bar just added
+export class DonchianChannel implements Indicator<PriceBar, BandsValue> {
+  private window: PriceBar[] = [];
+  value: BandsValue | null = null;
+
+  constructor(readonly period = 20) {}
+
+  update(bar: PriceBar): BandsValue | null {
+    this.window.push(bar);
+    if (this.window.length > this.period) this.window.shift();
+    if (this.window.length < this.period) return null;
+
+    const upper = Math.max(...this.window.map(b => b.high));
+    const lower = Math.min(...this.window.map(b => b.low));
+
+    this.value = { upper, middle: (upper + lower) / 2, lower };
+    return this.value;
+  }
+}
+
+// Feeds a whole series through a fresh indicator and returns its final reading
+export function latestValue<TInput, TOutput>(indicator: Indicator<TInput, TOutput>, inputs: TInput[]): TOutput | null {
+  for (const input of inputs) {
+    indicator.update(input);
+  }
+  return indicator.value;
+}
+
+export type { PriceBar, Indicator, MACDValue, BandsValue };
@@ -1,3 +1,6 @@
+import { historicalDataService, TIMEFRAMES, TIMEFRAME_SECONDS, Timeframe } from "./historical-data";
+import { pricingService } from "./pricing";
+
 interface MarketData {
   symbol: string;
   price: number;
@@ -8,15 +11,67 @@ interface MarketData {
   volume: number;
 }
 
+interface Candle {
+  symbol: string;
+  timeframe: Timeframe;
+  timestamp: Date; // Bar open time (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Tick count
+  partial?: boolean; // Started mid-period, with the ticks before startup missing
+}
+
 type PriceUpdateCallback = (update: MarketData) => void;
+type BarCloseCallback = (bar: Candle) => void;
+
+// Closed bars kept in memory per symbol and timeframe
+const CANDLE_BUFFER_SIZE = 500;
+
+// Fixed-size buffer of closed candles; oldest bars are overwritten once full
+class CandleBuffer {
+  private items: Candle[] = [];
+  private start = 0;
+
+  constructor(private capacity: number) {}
+
+  push(candle: Candle): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(candle);
+    } else {
+      this.items[this.start] = candle;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // Oldest first
+  toArray(count?: number): Candle[] {
+    const ordered = this.items.slice(this.start).concat(this.items.slice(0, this.start));
+    return count !== undefined ? ordered.slice(-count) : ordered;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+}
 
 class MarketDataService {
   private prices: Map<string, MarketData> = new Map();
   private callbacks: PriceUpdateCallback[] = [];
+  private barCloseCallbacks: { timeframe?: Timeframe; callback: BarCloseCallback }[] = [];
+  private candleBuffers: Map<string, Map<Timeframe, CandleBuffer>> = new Map();
+  private formingCandles: Map<string, Map<Timeframe, Candle>> = new Map();
   private isRunning = false;
   private updateInterval: NodeJS.Timeout | null = null;
 
+  constructor() {
+    pricingService.setLivePrices(symbol => this.getLatestPrice(symbol)?.price ?? null);
+  }
+
   async start(): Promise<void> {
+    if (this.isRunning) return;
+
     this.isRunning = true;
     console.log("Market Data Service started with mock data");
 
@@ -49,10 +104,38 @@ class MarketDataService {
       });
     });
 
+    // Warm the candle buffers from stored history so strategies have lookback immediately
+    await this.seedCandles(Object.keys(symbolPrices));
+
     // Start mock data generation immediately
     this.startMockDataGeneration();
   }
 
+  private async seedCandles(symbols: string[]): Promise<void> {
+    for (const symbol of symbols) {
+      for (const timeframe of TIMEFRAMES) {
+        try {
+          const bars = await historicalDataService.getRecentBars(symbol, timeframe, CANDLE_BUFFER_SIZE);
+          const buffer = this.getCandleBuffer(symbol, timeframe);
+          for (const bar of bars) {
+            buffer.push({
+              symbol,
+              timeframe,
+              timestamp: bar.timestamp,
+              open: bar.open,
+              high: bar.high,
+              low: bar.low,
+              close: bar.close,
+              volume: bar.volume,
+            });
+          }
+        } catch (error) {
+          console.error(`Failed to seed ${symbol} ${timeframe} candles:`, error);
+        }
+      }
+    }
+  }
+
   private startMockDataGeneration(): void {
     this.updateInterval = setInterval(() => {
       if (!this.isRunning) return;
@@ -84,6 +167,7 @@ class MarketDataService {
 
         this.prices.set(symbol, updatedData);
         this.notifyCallbacks(updatedData);
+        this.aggregateTick(updatedData);
       });
     }, 1000); // Update every second
   }
@@ -154,6 +238,20 @@ class MarketDataService {
     this.callbacks.push(callback);
   }
 
+  // Fires when a candle closes, i.e. on the first tick of the next period
+  onBarClose(callback: BarCloseCallback, timeframe?: Timeframe): void {
+    this.barCloseCallbacks.push({ timeframe, callback });
+  }
+
+  // Closed candles, oldest first
+  getCandles(symbol: string, timeframe: Timeframe, count?: number): Candle[] {
+    return this.candleBuffers.get(symbol)?.get(timeframe)?.toArray(count) || [];
+  }
+
+  getFormingCandle(symbol: string, timeframe: Timeframe): Candle | null {
+    return this.formingCandles.get(symbol)?.get(timeframe) || null;
+  }
+
   getAllPrices(): MarketData[] {
     return Array.from(this.prices.values());
   }
@@ -171,6 +269,73 @@ class MarketDataService {
     console.log("Market Data Service stopped");
   }
 
+  private aggregateTick(tick: MarketData): void {
+    const time = new Date(tick.timestamp).getTime();
+    let forming = this.formingCandles.get(tick.symbol);
+    if (!forming) {
+      forming = new Map();
+      this.formingCandles.set(tick.symbol, forming);
+    }
+
+    for (const timeframe of TIMEFRAMES) {
+      const periodMs = TIMEFRAME_SECONDS[timeframe] * 1000;
+      const openTime = Math.floor(time / periodMs) * periodMs;
+      const candle = forming.get(timeframe);
+
+      if (candle && candle.timestamp.getTime() === openTime) {
+        candle.high = Math.max(candle.high, tick.price);
+        candle.low = Math.min(candle.low, tick.price);
+        candle.close = tick.price;
+        candle.volume++;
+        continue;
+      }
+
+      // The first candle after startup only saw the ticks since then, so it is never closed as a full bar
+      if (candle && !candle.partial) {
+        this.getCandleBuffer(tick.symbol, timeframe).push(candle);
+        this.notifyBarClose(candle);
+      }
+
+      forming.set(timeframe, {
+        symbol: tick.symbol,
+        timeframe,
+        timestamp: new Date(openTime),
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: 1,
+        ...(!candle && time > openTime && { partial: true }),
+      });
+    }
+  }
+
+  private getCandleBuffer(symbol: string, timeframe: Timeframe): CandleBuffer {
+    let buffers = this.candleBuffers.get(symbol);
+    if (!buffers) {
+      buffers = new Map();
+      this.candleBuffers.set(symbol, buffers);
+    }
+
+    let buffer = buffers.get(timeframe);
+    if (!buffer) {
+      buffer = new CandleBuffer(CANDLE_BUFFER_SIZE);
+      buffers.set(timeframe, buffer);
+    }
+    return buffer;
+  }
+
+  private notifyBarClose(bar: Candle): void {
+    this.barCloseCallbacks.forEach(({ timeframe, callback }) => {
+      if (timeframe && timeframe !== bar.timeframe) return;
+      try {
+        callback(bar);
+      } catch (error) {
+        console.error("Bar close callback error:", error);
+      }
+    });
+  }
+
   private notifyCallbacks(update: MarketData): void {
     this.callbacks.forEach(callback => {
       try {
@@ -182,4 +347,5 @@ class MarketDataService {
   }
 }
 
-export const marketDataService = new MarketDataService();
\ No newline at end of file
+export const marketDataService = new MarketDataService();
+export type { MarketData, Candle };
\ No newline at end of file
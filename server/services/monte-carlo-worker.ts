@@ -0,0 +1,236 @@
+import { parentPort, workerData } from "worker_threads";
+import { seededRandom } from "./execution-cost-model";
+import type {
+  MonteCarloJob,
+  MonteCarloResult,
+  ChallengeLimits,
+  ChallengeOutcome,
+  Distribution,
+  FanPoint,
+} from "./monte-carlo";
+
+// Worker thread for the Monte Carlo analysis. The prepared job arrives in workerData and
+// the result is posted back once, so thousands of paths don't hold up the event loop.
+
+interface PathResult {
+  equity: number;
+  maxDrawdown: number;
+  ruinedAt: number | null; // Step index
+  challenge: ChallengeOutcome;
+  passedAt: number | null; // Step index
+}
+
+// Fan charts are thinned to about this many steps
+const FAN_POINTS = 100;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+class MonteCarloPaths {
+  simulate(job: MonteCarloJob): MonteCarloResult {
+    const { backtestId, options, returns, times, start, initialBalance, limits } = job;
+    const ruinThreshold = initialBalance * (1 - options.ruinPercent / 100);
+    const random = seededRandom(options.seed);
+
+    const fanSteps = this.getFanSteps(returns.length);
+    const fanIndexOf = new Int32Array(returns.length + 1).fill(-1);
+    fanSteps.forEach((step, index) => { fanIndexOf[step] = index; });
+    const equityAtStep = fanSteps.map(() => new Float64Array(options.simulations));
+    const drawdownAtStep = fanSteps.map(() => new Float64Array(options.simulations));
+    const paths: PathResult[] = [];
+
+    for (let i = 0; i < options.simulations; i++) {
+      const order = options.method === "SHUFFLE" ? this.shuffle(returns.length, random) : returns.map(() => Math.floor(random() * returns.length));
+      paths.push(this.runPath(order.map(index => {
+        if (random() < options.skipProbability) return 0;
+        const slippage = (random() + random()) * options.slippagePips;
+        return returns[index].return - returns[index].slippagePerPip * slippage;
+      }), times, initialBalance, ruinThreshold, limits, (step, equity, drawdown) => {
+        const fanIndex = fanIndexOf[step];
+        if (fanIndex === -1) return;
+        equityAtStep[fanIndex][i] = equity;
+        drawdownAtStep[fanIndex][i] = drawdown;
+      }));
+    }
+
+    // The backtest's own sequence, for reference
+    const actualEquity: number[] = [];
+    const actualDrawdown: number[] = [];
+    const actual = this.runPath(returns.map(r => r.return), times, initialBalance, -Infinity, limits, (step, equity, drawdown) => {
+      actualEquity[step] = equity;
+      actualDrawdown[step] = drawdown;
+    });
+
+    const ruined = paths.filter(path => path.ruinedAt !== null);
+    const passed = paths.filter(path => path.passedAt !== null);
+    const outcomes = { PASSED: 0, DAILY_LOSS: 0, MAX_DRAWDOWN: 0, TIME_LIMIT: 0 };
+    for (const path of paths) outcomes[path.challenge]++;
+    const stepTime = (step: number) => step === 0 ? start : times[step - 1];
+    const toPercent = (count: number) => (count / paths.length) * 100;
+
+    return {
+      backtestId,
+      options,
+      trades: returns.length,
+      initialBalance,
+      actual: { finalEquity: actual.equity, maxDrawdown: actual.maxDrawdown },
+      finalEquity: this.getDistribution(paths.map(path => path.equity)),
+      maxDrawdown: this.getDistribution(paths.map(path => path.maxDrawdown)),
+      ruin: {
+        threshold: ruinThreshold,
+        probability: toPercent(ruined.length),
+        tradesToRuin: ruined.length > 0 ? this.getDistribution(ruined.map(path => path.ruinedAt!)) : null,
+        daysToRuin: ruined.length > 0 ? this.getDistribution(ruined.map(path => (stepTime(path.ruinedAt!) - start) / MS_PER_DAY)) : null,
+      },
+      challenge: {
+        firm: options.propFirm,
+        profitTargetPercent: (limits.target / initialBalance - 1) * 100,
+        maxDrawdownPercent: limits.maxDrawdownPercent,
+        dailyLossPercent: limits.dailyLossPercent,
+        days: options.challengeDays,
+        passProbability: toPercent(passed.length),
+        outcomes: {
+          PASSED: toPercent(outcomes.PASSED),
+          DAILY_LOSS: toPercent(outcomes.DAILY_LOSS),
+          MAX_DRAWDOWN: toPercent(outcomes.MAX_DRAWDOWN),
+          TIME_LIMIT: toPercent(outcomes.TIME_LIMIT),
+        },
+        daysToPass: passed.length > 0 ? this.getDistribution(passed.map(path => (stepTime(path.passedAt!) - times[0]) / MS_PER_DAY)) : null,
+      },
+      equityFan: fanSteps.map((step, index) => this.toFanPoint(step, stepTime(step), equityAtStep[index], actualEquity[step])),
+      drawdownFan: fanSteps.map((step, index) => this.toFanPoint(step, stepTime(step), drawdownAtStep[index], actualDrawdown[step])),
+    };
+  }
+
+  // Replays per-trade returns on the slot times; `onStep` sees the equity before the first
+  // trade (step 0) and after every trade. A ruined path stops trading.
+  private runPath(
+    tradeReturns: number[],
+    times: number[],
+    initialBalance: number,
+    ruinThreshold: number,
+    limits: ChallengeLimits,
+    onStep: (step: number, equity: number, drawdown: number) => void
+  ): PathResult {
+    let equity = initialBalance;
+    let peak = initialBalance;
+    let maxDrawdown = 0;
+    let ruinedAt: number | null = null;
+    let challenge: ChallengeOutcome | null = null;
+    let passedAt: number | null = null;
+    let day = "";
+    let dayStart = initialBalance;
+    const tradingDays = new Set<string>();
+    onStep(0, equity, 0);
+
+    for (let i = 0; i < tradeReturns.length; i++) {
+      const time = times[i];
+      const tradeDay = new Date(time).toISOString().slice(0, 10);
+      if (tradeDay !== day) {
+        day = tradeDay;
+        dayStart = equity;
+      }
+
+      if (ruinedAt === null && tradeReturns[i] !== 0) {
+        equity *= 1 + tradeReturns[i];
+        tradingDays.add(tradeDay);
+      }
+      peak = Math.max(peak, equity);
+      const drawdown = peak > 0 ? ((peak - equity) / peak) * 100 : 0;
+      maxDrawdown = Math.max(maxDrawdown, drawdown);
+      if (ruinedAt === null && equity <= ruinThreshold) {
+        ruinedAt = i + 1;
+      }
+
+      if (!challenge) {
+        challenge = this.checkChallenge(equity, peak, dayStart, tradingDays.size, time, limits);
+        if (challenge === "PASSED") passedAt = i + 1;
+      }
+      onStep(i + 1, equity, drawdown);
+    }
+
+    return { equity, maxDrawdown, ruinedAt, challenge: challenge ?? "TIME_LIMIT", passedAt };
+  }
+
+  // The challenge starts with the first trade; the target only counts once the minimum
+  // trading days are in
+  private checkChallenge(
+    equity: number,
+    peak: number,
+    dayStart: number,
+    tradingDays: number,
+    time: number,
+    limits: ChallengeLimits
+  ): ChallengeOutcome | null {
+    if (time >= limits.endsAt) return "TIME_LIMIT";
+
+    const dailyBase = limits.dailyLossFromDayStart ? dayStart : limits.initialBalance;
+    if (dayStart - equity >= dailyBase * limits.dailyLossPercent / 100) return "DAILY_LOSS";
+
+    const drawdownBase = limits.trailing ? peak : limits.initialBalance;
+    if (equity <= drawdownBase * (1 - limits.maxDrawdownPercent / 100)) return "MAX_DRAWDOWN";
+
+    if (equity >= limits.target && tradingDays >= limits.minTradingDays) return "PASSED";
+    return null;
+  }
+
+  // Evenly spaced steps from 0 to the last trade
+  private getFanSteps(trades: number): number[] {
+    const stride = Math.max(1, Math.ceil(trades / FAN_POINTS));
+    const steps: number[] = [];
+    for (let step = 0; step < trades; step += stride) steps.push(step);
+    steps.push(trades);
+    return steps;
+  }
+
+  // Fisher-Yates
+  private shuffle(length: number, random: () => number): number[] {
+    const order = Array.from({ length }, (_, i) => i);
+    for (let i = length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+  }
+
+  private toFanPoint(step: number, time: number, values: Float64Array, actual: number): FanPoint {
+    const sorted = Float64Array.from(values).sort();
+    return {
+      step,
+      timestamp: new Date(time).toISOString(),
+      p5: this.percentile(sorted, 5),
+      p25: this.percentile(sorted, 25),
+      p50: this.percentile(sorted, 50),
+      p75: this.percentile(sorted, 75),
+      p95: this.percentile(sorted, 95),
+      actual,
+    };
+  }
+
+  private getDistribution(values: number[]): Distribution {
+    const sorted = Float64Array.from(values).sort();
+    return {
+      mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      p5: this.percentile(sorted, 5),
+      p25: this.percentile(sorted, 25),
+      p50: this.percentile(sorted, 50),
+      p75: this.percentile(sorted, 75),
+      p95: this.percentile(sorted, 95),
+    };
+  }
+
+  // Linear interpolation between the closest ranks; `sorted` is ascending
+  private percentile(sorted: Float64Array, percent: number): number {
+    const rank = (percent / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+  }
+}
+
+const job = workerData as MonteCarloJob;
+try {
+  parentPort!.postMessage({ result: new MonteCarloPaths().simulate(job) });
+} catch (error) {
+  parentPort!.postMessage({ error: (error as Error).message });
+}
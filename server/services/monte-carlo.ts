@@ -0,0 +1,205 @@
+import { z } from "zod";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Worker } from "worker_threads";
+import { pricingService } from "./pricing";
+import { propRulesService, PROP_FIRMS, PropRules } from "./prop-rules";
+import type { BacktestArtifact, ArtifactTrade } from "./backtest-artifacts";
+
+// Robustness check on a finished backtest. Its stored trades are replayed in random orders,
+// with some trades dropped and extra slippage charged, to show how much of the result
+// depended on the one sequence the backtest happened to see.
+//
+// Each trade is replayed as a return on the balance it was sized from, so the strategy's
+// percent-risk sizing compounds the same way on every path. Paths keep the backtest's exit
+// times, in order, so daily loss limits and time-to-ruin are measured on real dates.
+// Equity and drawdown are on closed trades only. Returns and limits are priced here; the
+// paths themselves are replayed on a worker thread (monte-carlo-worker.ts).
+
+export const MONTE_CARLO_METHODS = ["RESAMPLE", "SHUFFLE"] as const;
+
+// Query parameters of GET /api/backtests/:id/monte-carlo
+export const monteCarloOptionsSchema = z.object({
+  simulations: z.coerce.number().int().min(100).max(10000).default(1000),
+  method: z.enum(MONTE_CARLO_METHODS).default("RESAMPLE"), // RESAMPLE draws with replacement; SHUFFLE reorders
+  skipProbability: z.coerce.number().min(0).max(0.9).default(0.1), // Chance each trade is not taken
+  slippagePips: z.coerce.number().min(0).max(20).default(0.5), // Most extra slippage per side
+  ruinPercent: z.coerce.number().positive().max(100).default(50), // Loss from the starting balance that ends a path
+  propFirm: z.enum(PROP_FIRMS).default("FTMO"),
+  challengeDays: z.coerce.number().int().positive().default(30),
+  seed: z.coerce.number().int().default(1),
+});
+
+type MonteCarloOptions = z.infer<typeof monteCarloOptionsSchema>;
+
+// Percentiles of one outcome across all paths
+interface Distribution {
+  mean: number;
+  min: number;
+  max: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+interface FanPoint {
+  step: number; // Trades replayed
+  timestamp: string;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  actual: number; // The backtest's own sequence
+}
+
+interface ChallengeSummary {
+  firm: MonteCarloOptions["propFirm"];
+  profitTargetPercent: number;
+  maxDrawdownPercent: number;
+  dailyLossPercent: number;
+  days: number;
+  passProbability: number; // Percent of paths
+  outcomes: Record<ChallengeOutcome, number>; // Percent of paths
+  daysToPass: Distribution | null;
+}
+
+interface MonteCarloResult {
+  backtestId: string;
+  options: MonteCarloOptions;
+  trades: number;
+  initialBalance: number;
+  actual: { finalEquity: number; maxDrawdown: number };
+  finalEquity: Distribution;
+  maxDrawdown: Distribution; // Percent below the running peak
+  ruin: {
+    threshold: number; // Equity that counts as ruin
+    probability: number; // Percent of paths
+    tradesToRuin: Distribution | null;
+    daysToRuin: Distribution | null;
+  };
+  challenge: ChallengeSummary;
+  equityFan: FanPoint[];
+  drawdownFan: FanPoint[];
+}
+
+type ChallengeOutcome = "PASSED" | "DAILY_LOSS" | "MAX_DRAWDOWN" | "TIME_LIMIT";
+
+// One trade as a fraction of the balance it was sized from
+interface TradeReturn {
+  return: number; // Net of commission and swap
+  slippagePerPip: number; // Cost of one pip of slippage on both sides
+}
+
+interface ChallengeLimits {
+  initialBalance: number;
+  target: number; // Equity to reach
+  dailyLossPercent: number;
+  dailyLossFromDayStart: boolean; // Otherwise a percent of the initial balance
+  maxDrawdownPercent: number;
+  trailing: boolean; // Otherwise measured from the initial balance
+  minTradingDays: number;
+  endsAt: number; // Epoch ms
+}
+
+// Everything the worker needs to replay the paths, priced on the main thread
+interface MonteCarloJob {
+  backtestId: string;
+  options: MonteCarloOptions;
+  returns: TradeReturn[];
+  times: number[]; // Exit time of each trade, epoch ms
+  start: number; // Backtest start, epoch ms
+  initialBalance: number;
+  limits: ChallengeLimits;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Compiled builds start the .js worker next to this file, tsx starts the .ts source
+const WORKER_URL = new URL(`./monte-carlo-worker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+// Worker threads don't inherit the tsx loader, so the .ts source is started through a bootstrap that registers it
+function createWorker(job: MonteCarloJob): Worker {
+  if (!WORKER_URL.pathname.endsWith(".ts")) return new Worker(WORKER_URL, { workerData: job });
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData: job });
+}
+
+class MonteCarloSimulator {
+  async run(backtestId: string, artifact: BacktestArtifact, options: MonteCarloOptions): Promise<MonteCarloResult> {
+    const { trades, config } = artifact;
+    if (trades.length === 0) {
+      throw new Error("The backtest has no trades to resample");
+    }
+
+    const initialBalance = config.initialBalance;
+    const times = trades.map(trade => new Date(trade.exitTime).getTime());
+    const rules = propRulesService.parse({ firm: options.propFirm, initialBalance });
+
+    return this.runWorker({
+      backtestId,
+      options,
+      returns: trades.map(trade => this.toReturn(trade, config.parameters?.accountCurrency || "USD")),
+      times,
+      start: new Date(config.startDate).getTime(),
+      initialBalance,
+      limits: this.getChallengeLimits(rules, initialBalance, times[0], options.challengeDays),
+    });
+  }
+
+  // One worker per analysis; it exits once the result is posted
+  private runWorker(job: MonteCarloJob): Promise<MonteCarloResult> {
+    return new Promise((resolve, reject) => {
+      const worker = createWorker(job);
+      worker.once("message", (reply: { result?: MonteCarloResult; error?: string }) => {
+        if (reply.result) resolve(reply.result); else reject(new Error(reply.error));
+      });
+      worker.once("error", reject);
+      worker.once("exit", code => reject(new Error(`Monte Carlo worker exited with code ${code}`)));
+    });
+  }
+
+  // The return comes from the balance before the trade. Slippage is priced from the trade's
+  // own P&L per pip, which avoids needing conversion rates from the backtest period.
+  private toReturn(trade: ArtifactTrade, accountCurrency: string): TradeReturn {
+    const net = trade.pnl - trade.commission + (trade.swap ?? 0);
+    const balanceBefore = trade.balance - net;
+    if (balanceBefore <= 0) return { return: 0, slippagePerPip: 0 };
+
+    const pips = pricingService.toPips(trade.symbol, Math.abs(trade.exit - trade.entry));
+    let pipValue = pips > 0 ? Math.abs(trade.pnl) / pips : 0;
+    if (pipValue === 0) {
+      try {
+        pipValue = pricingService.getPipValue(trade.symbol, trade.quantity, accountCurrency);
+      } catch (error) {
+        pipValue = 0; // No conversion rate: only the trade's own P&L prices its slippage
+      }
+    }
+
+    return { return: net / balanceBefore, slippagePerPip: pipValue / balanceBefore };
+  }
+
+  // Missing limits fall back to the usual two-step challenge: 10% target, 5% daily, 10% overall
+  private getChallengeLimits(rules: PropRules, initialBalance: number, firstTrade: number, days: number): ChallengeLimits {
+    const dailyLossPercent = rules.dailyLoss.limitPercent
+      ?? (rules.dailyLoss.limitAmount !== undefined ? (rules.dailyLoss.limitAmount / initialBalance) * 100 : 5);
+
+    return {
+      initialBalance,
+      target: initialBalance * (1 + (rules.profitTargetPercent ?? 10) / 100),
+      dailyLossPercent,
+      dailyLossFromDayStart: rules.dailyLoss.percentOf === "DAY_START",
+      maxDrawdownPercent: rules.maxDrawdown.limitPercent,
+      trailing: rules.maxDrawdown.type === "TRAILING",
+      minTradingDays: rules.minTradingDays ?? 0,
+      endsAt: firstTrade + days * MS_PER_DAY,
+    };
+  }
+
+}
+
+export const monteCarloSimulator = new MonteCarloSimulator();
+
+export type { MonteCarloOptions, Distribution, FanPoint, ChallengeSummary, ChallengeOutcome, ChallengeLimits, TradeReturn, MonteCarloJob, MonteCarloResult };
@@ -37,7 +37,7 @@ interface MT5Order {
 
 class MT5Integration {
   private pythonPath = 'python3';
-  private isConnected = false;
+  private connected = false;
   private isDemoAccount = true;
 
   async initialize(): Promise<boolean> {
@@ -47,10 +47,10 @@ class MT5Integration {
       
       // Test connection
       const result = await this.executePythonCommand('test_connection');
-      this.isConnected = result.success;
+      this.connected = result.success;
       
-      console.log(`MT5 Integration ${this.isConnected ? 'connected' : 'failed to connect'}`);
-      return this.isConnected;
+      console.log(`MT5 Integration ${this.connected ? 'connected' : 'failed to connect'}`);
+      return this.connected;
     } catch (error) {
       console.error('MT5 initialization error:', error);
       return false;
@@ -389,11 +389,8 @@ if __name__ == "__main__":
     comment?: string
   ): Promise<any> {
     const type = orderType === 'BUY' ? '0' : '1';
-    const args = [symbol, type, volume.toString()];
-    
-    if (price) args.push(price.toString());
-    if (stopLoss) args.push(stopLoss.toString());
-    if (takeProfit) args.push(takeProfit.toString());
+    // The bridge reads its arguments positionally, so unset levels are sent as 0 rather than dropped
+    const args = [symbol, type, volume.toString(), (price || 0).toString(), (stopLoss || 0).toString(), (takeProfit || 0).toString()];
     if (comment) args.push(comment);
     
     return await this.executePythonCommand('place_order', ...args);
@@ -408,7 +405,7 @@ if __name__ == "__main__":
   }
 
   isConnected(): boolean {
-    return this.isConnected;
+    return this.connected;
   }
 
   isDemoMode(): boolean {
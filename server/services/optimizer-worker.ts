@@ -0,0 +1,33 @@
+import { parentPort, workerData } from "worker_threads";
+import { backtestSimulator } from "./backtest-simulator";
+import type { OptimizerWorkerData, OptimizerTask, OptimizerTaskResult } from "./backtest-optimizer";
+
+// Worker thread for the backtest optimizer. The job's bars arrive once in workerData,
+// then each message is one parameter set to replay over one date window.
+
+const { strategy, bars, parameters, costs, initialBalance, challenge } = workerData as OptimizerWorkerData;
+
+parentPort!.on("message", (task: OptimizerTask) => {
+  let reply: OptimizerTaskResult;
+  try {
+    const result = backtestSimulator.run({
+      strategy: { name: strategy.name, parameters: { ...strategy.parameters, ...task.parameters } },
+      bars,
+      parameters,
+      costs,
+      initialBalance,
+      from: task.from,
+      to: task.to,
+    });
+
+    reply = {
+      id: task.id,
+      metrics: result.metrics,
+      finalBalance: result.finalBalance,
+      propPassRate: backtestSimulator.getPropPassRate(result.equityCurve, challenge).passRate,
+    };
+  } catch (error) {
+    reply = { id: task.id, error: (error as Error).message };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -1,112 +1,676 @@
-import { Order, InsertOrder, Position, InsertPosition } from "@shared/schema";
-import { storage } from "../storage";
+import { z } from "zod";
+import { storage, Account, Order, Position } from "../storage";
+import { brokerManager } from "./broker-manager";
+import { mt5Integration } from "./mt5-integration";
+import { marketDataService, MarketData } from "./market-data";
+import { pricingService } from "./pricing";
+import { logger } from "./logger";
+import { historicalDataService } from "./historical-data";
+import { ATR, latestValue } from "./indicators";
+import { executionCostService } from "./execution-costs";
+import { ExecutionCostModel } from "./execution-cost-model";
+
+type NewOrder = Omit<Order, "id" | "createdAt">;
+
+// Manual order tickets from the API; strategy orders are built by the StrategyEngine
+export const orderRequestSchema = z.object({
+  accountId: z.string().min(1),
+  symbol: z.string().min(1).transform(s => s.toUpperCase()),
+  side: z.enum(["BUY", "SELL"]),
+  type: z.enum(["MARKET", "LIMIT", "STOP", "STOP_LIMIT"]).default("MARKET"),
+  quantity: z.coerce.number().positive(),
+  price: z.coerce.number().positive().optional(), // Limit price; trigger price for STOP
+  stopPrice: z.coerce.number().positive().optional(), // Trigger price for STOP_LIMIT
+  stopLoss: z.coerce.number().positive().optional(),
+  takeProfit: z.coerce.number().positive().optional(),
+  timeInForce: z.enum(["GTC", "GTD"]).default("GTC"),
+  expiresAt: z.coerce.date().optional(),
+  idempotencyKey: z.string().min(1).optional(),
+}).superRefine((order, ctx) => {
+  if ((order.type === "LIMIT" || order.type === "STOP_LIMIT") && order.price === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["price"], message: `${order.type} orders need a limit price` });
+  }
+  if (order.type === "STOP" && order.price === undefined && order.stopPrice === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["price"], message: "STOP orders need a trigger price" });
+  }
+  if (order.type === "STOP_LIMIT" && order.stopPrice === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stopPrice"], message: "STOP_LIMIT orders need a stop price" });
+  }
+  if (order.timeInForce === "GTD" && !order.expiresAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiresAt"], message: "GTD orders need an expiry" });
+  }
+});
+
+type OrderRequest = z.infer<typeof orderRequestSchema>;
+
+// What the broker did with a submitted order; OrderManager persists it back to the order.
+// Quantities, prices and costs are cumulative over all fills so far.
+interface BrokerExecution {
+  brokerOrderId?: string;
+  status: "FILLED" | "PARTIAL" | "PENDING" | "REJECTED" | "CANCELLED" | "EXPIRED";
+  filledQuantity?: number;
+  avgFillPrice?: number;
+  commission?: number;
+  slippage?: number;
+  rejectReason?: string;
+}
 
 interface BrokerAdapter {
-  submitOrder(order: Order): Promise<string>; // Returns broker order ID
+  submitOrder(order: Order): Promise<BrokerExecution>;
   cancelOrder(brokerOrderId: string): Promise<void>;
   getOrderStatus(brokerOrderId: string): Promise<string>;
 }
 
-// Paper trading broker adapter
+type ExecutionCallback = (order: Order, execution: BrokerExecution) => Promise<void>;
+type OrderUpdateCallback = (order: Order) => void;
+
+// An order working in the paper book
+interface RestingOrder {
+  order: Order;
+  brokerOrderId: string;
+  accountCurrency: string;
+  costs: ExecutionCostModel;
+  atr: number | null; // H1 average true range at submission, for ATR slippage
+  triggered: boolean; // Stop leg has fired; MARKET and LIMIT orders start out triggered
+  filledQuantity: number;
+  fillNotional: number;
+  slippageNotional: number;
+  commission: number;
+  expiresAt: number | null;
+}
+
+// Units of tick volume per lot; a tick can fill at most volume / LOT_UNITS lots
+const LOT_UNITS = 100000;
+
+// How often ticks check whether a swap rollover has passed
+const SWAP_CHECK_MS = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Paper trading broker adapter. Orders rest in an in-memory book and fill against
+// MarketDataService prices: buys at the ask, sells at the bid. Spread, slippage, commission
+// and swap come from the cost profile of the "paper" broker, the same model backtests use.
 class PaperBrokerAdapter implements BrokerAdapter {
-  async submitOrder(order: Order): Promise<string> {
+  private book = new Map<string, RestingOrder>();
+  private statuses = new Map<string, string>();
+  private executionCallbacks: ExecutionCallback[] = [];
+  private swapAccruedTo = new Date();
+
+  constructor() {
+    marketDataService.onPriceUpdate(tick => {
+      this.processTick(tick).catch(error => console.error("Paper order book error:", error));
+    });
+  }
+
+  // Fills, expiries and partial fills that happen after submitOrder has returned
+  onExecution(callback: ExecutionCallback): void {
+    this.executionCallbacks.push(callback);
+  }
+
+  async submitOrder(order: Order): Promise<BrokerExecution> {
     // Simulate order processing delay
     await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
 
+    const type = order.type || "MARKET";
+    if (!["MARKET", "LIMIT", "STOP", "STOP_LIMIT"].includes(type)) {
+      return { status: "REJECTED", rejectReason: `Unsupported order type ${type}` };
+    }
+
+    const expiresAt = order.timeInForce === "GTD" && order.expiresAt ? new Date(order.expiresAt).getTime() : null;
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      return { status: "REJECTED", rejectReason: "Order expiry is in the past" };
+    }
+
+    const quote = marketDataService.getLatestPrice(order.symbol);
+    if (!quote) {
+      return { status: "REJECTED", rejectReason: `No price data available for ${order.symbol}` };
+    }
+
     // Generate mock broker order ID
     const brokerOrderId = `PAPER_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const resting = await this.createResting(order, brokerOrderId);
+    this.book.set(brokerOrderId, resting);
 
-    // Simulate fill (simplified)
-    const fillPrice = await this.simulateFill(order);
+    // Marketable orders fill against the current quote straight away
+    this.match(resting, quote);
+    return this.toExecution(resting);
+  }
 
-    // Update order as filled
-    await storage.updateOrder(order.id, {
-      status: "FILLED",
+  // Puts a stored working order back in the book after a restart, keeping its earlier fills.
+  // Expired GTD orders are expired by the next tick.
+  async restore(order: Order): Promise<void> {
+    if (!order.brokerOrderId || this.book.has(order.brokerOrderId)) return;
+
+    const resting = await this.createResting(order, order.brokerOrderId);
+    const filledQuantity = parseFloat(order.filledQuantity || "0");
+    if (filledQuantity > 0) {
+      resting.triggered = true;
+      resting.filledQuantity = filledQuantity;
+      resting.fillNotional = filledQuantity * parseFloat(order.avgFillPrice || "0");
+      resting.slippageNotional = filledQuantity * parseFloat(order.slippage || "0");
+      resting.commission = parseFloat(order.commission || "0");
+    }
+    this.book.set(order.brokerOrderId, resting);
+    this.statuses.set(order.brokerOrderId, order.status);
+  }
+
+  async cancelOrder(brokerOrderId: string): Promise<void> {
+    if (!this.book.delete(brokerOrderId)) {
+      throw new Error(`Order ${brokerOrderId} is not working`);
+    }
+    this.statuses.set(brokerOrderId, "CANCELLED");
+  }
+
+  async getOrderStatus(brokerOrderId: string): Promise<string> {
+    return this.statuses.get(brokerOrderId) || "UNKNOWN";
+  }
+
+  private async processTick(tick: MarketData): Promise<void> {
+    const now = Date.now();
+    const executions: [Order, BrokerExecution][] = [];
+
+    // Match synchronously so overlapping ticks never see the same order twice
+    for (const resting of Array.from(this.book.values())) {
+      if (resting.expiresAt !== null && resting.expiresAt <= now) {
+        this.book.delete(resting.brokerOrderId);
+        executions.push([resting.order, { ...this.toExecution(resting), status: "EXPIRED" }]);
+        this.statuses.set(resting.brokerOrderId, "EXPIRED");
+        continue;
+      }
+
+      if (resting.order.symbol === tick.symbol && this.match(resting, tick)) {
+        executions.push([resting.order, this.toExecution(resting)]);
+      }
+    }
+
+    for (const [order, execution] of executions) {
+      await this.notifyExecution(order, execution);
+    }
+
+    if (now - this.swapAccruedTo.getTime() >= SWAP_CHECK_MS) {
+      await this.accrueSwap(new Date(now));
+    }
+  }
+
+  // Open paper positions are charged or paid swap for every rollover they are held through
+  private async accrueSwap(to: Date): Promise<void> {
+    const from = this.swapAccruedTo;
+    this.swapAccruedTo = to;
+
+    const costs = new ExecutionCostModel(await executionCostService.getForBroker("paper"));
+    const rollovers = costs.getRollovers(from, to);
+    if (rollovers.length === 0) return;
+
+    const accounts = (await storage.getAccounts()).filter(account => (account.brokerId || "paper") === "paper");
+    for (const account of accounts) {
+      for (const position of await storage.getOpenPositions(account.id)) {
+        // Positions opened after `from` only pay for the rollovers since they were opened
+        const heldFrom = new Date(Math.max(from.getTime(), new Date(position.createdAt).getTime()));
+        const swap = costs.getSwap(position.symbol, position.side, parseFloat(position.quantity), heldFrom, to, account.baseCurrency || "USD");
+        if (swap === 0) continue;
+
+        await storage.updatePosition(position.id, { swap: (parseFloat(position.swap || "0") + swap).toFixed(2) });
+      }
+    }
+    logger.info('order', `Swap accrued for the ${rollovers.map(r => r.toISOString()).join(", ")} rollover`);
+  }
+
+  private async createResting(order: Order, brokerOrderId: string): Promise<RestingOrder> {
+    const type = order.type || "MARKET";
+    const account = await storage.getAccount(order.accountId);
+    const costs = new ExecutionCostModel(await executionCostService.getForBroker("paper"));
+    return {
+      order,
       brokerOrderId,
-      filledQuantity: order.quantity,
-      avgFillPrice: fillPrice.toString(),
-      // filledAt: new Date(), // Auto-generated by database
-      commission: this.calculateCommission(order, fillPrice),
-      slippage: this.calculateSlippage(order, fillPrice),
+      accountCurrency: account?.baseCurrency || "USD",
+      costs,
+      atr: costs.profile.slippage.model === "ATR" ? await this.getAtr(order.symbol, costs.profile.slippage.atrPeriod) : null,
+      triggered: type === "MARKET" || type === "LIMIT",
+      filledQuantity: 0,
+      fillNotional: 0,
+      slippageNotional: 0,
+      commission: 0,
+      expiresAt: order.timeInForce === "GTD" && order.expiresAt ? new Date(order.expiresAt).getTime() : null,
+    };
+  }
+
+  private async getAtr(symbol: string, period: number): Promise<number | null> {
+    try {
+      const bars = await historicalDataService.getBars(symbol, "H1", { from: new Date(Date.now() - 7 * MS_PER_DAY) });
+      return latestValue(new ATR(period), bars);
+    } catch (error) {
+      logger.warning('order', `No ATR for paper slippage: ${(error as Error).message}`, symbol);
+      return null;
+    }
+  }
+
+  // Returns true when the order received a fill
+  private match(resting: RestingOrder, quote: MarketData): boolean {
+    const { order, costs } = resting;
+    const type = order.type || "MARKET";
+    const isBuy = order.side === "BUY";
+    // MODEL profiles quote their own spread around the mid; DATA profiles keep the live bid/ask
+    const spread = costs.getSpread(order.symbol, new Date(), quote.ask - quote.bid);
+    const touch = isBuy ? quote.price + spread / 2 : quote.price - spread / 2;
+
+    if (!resting.triggered) {
+      // Buy stops trigger when the ask trades up to the stop, sell stops when the bid trades down to it
+      const stopPrice = parseFloat(order.stopPrice || order.price || "0");
+      if (isBuy ? touch < stopPrice : touch > stopPrice) return false;
+      resting.triggered = true;
+    }
+
+    let fillPrice: number;
+    if (type === "LIMIT" || type === "STOP_LIMIT") {
+      // Limit orders fill at the touch only when it is at or better than the limit
+      const limitPrice = parseFloat(order.price || "0");
+      if (isBuy ? touch > limitPrice : touch < limitPrice) return false;
+      fillPrice = touch;
+    } else {
+      const slippage = costs.getSlippage(order.symbol, resting.atr);
+      fillPrice = isBuy ? touch + slippage : touch - slippage;
+    }
+
+    const remaining = parseFloat(order.quantity) - resting.filledQuantity;
+    const liquidity = Math.floor((quote.volume / LOT_UNITS) * 100) / 100;
+    const fillQuantity = Math.min(remaining, Math.max(liquidity, 0.01));
+
+    resting.filledQuantity = parseFloat((resting.filledQuantity + fillQuantity).toFixed(8));
+    resting.fillNotional += fillQuantity * fillPrice;
+    resting.slippageNotional += fillQuantity * Math.abs(fillPrice - touch);
+    resting.commission += costs.getCommission(order.symbol, fillQuantity, resting.accountCurrency);
+
+    if (resting.filledQuantity >= parseFloat(order.quantity) - 1e-9) {
+      this.book.delete(resting.brokerOrderId);
+    }
+    return true;
+  }
+
+  private toExecution(resting: RestingOrder): BrokerExecution {
+    const quantity = parseFloat(resting.order.quantity);
+    const filled = resting.filledQuantity;
+    const status = filled >= quantity - 1e-9 ? "FILLED" : filled > 0 ? "PARTIAL" : "PENDING";
+    this.statuses.set(resting.brokerOrderId, status);
+
+    return {
+      brokerOrderId: resting.brokerOrderId,
+      status,
+      filledQuantity: filled,
+      avgFillPrice: filled > 0 ? resting.fillNotional / filled : undefined,
+      commission: parseFloat(resting.commission.toFixed(2)),
+      slippage: filled > 0 ? parseFloat((resting.slippageNotional / filled).toFixed(5)) : undefined,
+    };
+  }
+
+  private async notifyExecution(order: Order, execution: BrokerExecution): Promise<void> {
+    for (const callback of this.executionCallbacks) {
+      try {
+        await callback(order, execution);
+      } catch (error) {
+        console.error("Execution callback error:", error);
+      }
+    }
+  }
+
+}
+
+// Brokers driven through BrokerManager (OANDA, IBKR, cTrader)
+class BrokerManagerAdapter implements BrokerAdapter {
+  private orderStatuses = new Map<string, string>();
+
+  constructor(private brokerId: string) {}
+
+  async submitOrder(order: Order): Promise<BrokerExecution> {
+    const result = await brokerManager.executeOrder(this.brokerId, {
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type || "MARKET",
+      quantity: parseFloat(order.quantity),
+      price: order.price ? parseFloat(order.price) : referencePrice(order),
+      stopLoss: order.stopLoss ? parseFloat(order.stopLoss) : undefined,
+      takeProfit: order.takeProfit ? parseFloat(order.takeProfit) : undefined,
+      clientOrderId: order.idempotencyKey || order.id,
     });
 
-    // Create or update position
-    await this.updatePosition(order, fillPrice);
+    this.orderStatuses.set(result.orderId, result.status);
+
+    if (result.status === "REJECTED") {
+      return {
+        brokerOrderId: result.orderId,
+        status: "REJECTED",
+        rejectReason: result.reason || `Rejected by ${this.brokerId}`,
+      };
+    }
 
-    return brokerOrderId;
+    return {
+      brokerOrderId: result.orderId,
+      status: result.status === "FILLED" || result.status === "PARTIAL" ? result.status : "PENDING",
+      filledQuantity: parseFloat(result.executedQuantity),
+      avgFillPrice: parseFloat(result.executedPrice),
+      commission: result.commission,
+    };
   }
 
   async cancelOrder(brokerOrderId: string): Promise<void> {
-    console.log(`Cancelling order: ${brokerOrderId}`);
+    throw new Error(`${this.brokerId} orders are filled on submission and cannot be cancelled`);
   }
 
   async getOrderStatus(brokerOrderId: string): Promise<string> {
-    return "FILLED"; // Simplified for paper trading
+    return this.orderStatuses.get(brokerOrderId) || "UNKNOWN";
   }
+}
+
+// MetaTrader 5 terminal through the Python bridge
+class MT5BrokerAdapter implements BrokerAdapter {
+  async submitOrder(order: Order): Promise<BrokerExecution> {
+    if (!mt5Integration.isConnected()) {
+      return { status: "REJECTED", rejectReason: "MT5 terminal is not connected" };
+    }
 
-  private async simulateFill(order: Order): Promise<number> {
-    const currentPrice = { price: 1.0500 + Math.random() * 0.01 }; // Mock price data
-    if (!currentPrice) {
-      throw new Error(`No price data available for ${order.symbol}`);
+    const result = await mt5Integration.placeOrder(
+      order.symbol,
+      order.side === "BUY" ? "BUY" : "SELL",
+      parseFloat(order.quantity),
+      order.type && order.type !== "MARKET" && order.price ? parseFloat(order.price) : undefined,
+      order.stopLoss ? parseFloat(order.stopLoss) : undefined,
+      order.takeProfit ? parseFloat(order.takeProfit) : undefined,
+      order.id.slice(0, 31) // MT5 truncates comments at 31 characters
+    );
+
+    if (!result?.success) {
+      return { status: "REJECTED", rejectReason: result?.error || "MT5 order failed" };
     }
 
-    // Simulate slippage
-    const slippageFactor = (Math.random() - 0.5) * 0.0002; // ±0.02% slippage
-    const side = order.side === "BUY" ? 1 : -1;
+    const expectedPrice = order.price ? parseFloat(order.price) : referencePrice(order);
+    return {
+      brokerOrderId: String(result.order.ticket),
+      status: "FILLED",
+      filledQuantity: result.order.volume,
+      avgFillPrice: result.order.price,
+      slippage: expectedPrice ? Math.abs(result.order.price - expectedPrice) : undefined,
+    };
+  }
 
-    return currentPrice.price * (1 + (slippageFactor * side));
+  async cancelOrder(brokerOrderId: string): Promise<void> {
+    throw new Error("MT5 market orders cannot be cancelled once sent");
   }
 
-  private calculateCommission(order: Order, fillPrice: number): string {
-    // Simplified commission calculation
-    const volume = parseFloat(order.quantity) * fillPrice;
-    const commission = volume * 0.00002; // 0.002% commission
-    return commission.toFixed(2);
+  async getOrderStatus(brokerOrderId: string): Promise<string> {
+    const positions = await mt5Integration.getPositions();
+    const open = positions?.success && positions.positions?.some((p: any) => String(p.ticket) === brokerOrderId);
+    return open ? "FILLED" : "UNKNOWN";
   }
+}
+
+// Price a market order would be expected to fill at: ask for buys, bid for sells
+function referencePrice(order: Order): number | undefined {
+  const quote = marketDataService.getLatestPrice(order.symbol);
+  if (!quote) return undefined;
+  return order.side === "BUY" ? quote.ask : quote.bid;
+}
 
-  private calculateSlippage(order: Order, fillPrice: number): string {
-    // This would be actual price - expected price
-    const expectedPrice = order.price ? parseFloat(order.price) : fillPrice;
-    const slippage = Math.abs(fillPrice - expectedPrice);
-    return slippage.toFixed(5);
+class OrderManager {
+  private brokerAdapters = new Map<string, BrokerAdapter>();
+  private paperBroker = new PaperBrokerAdapter();
+  private pendingOrders = new Set<string>();
+  private executionQueues = new Map<string, Promise<unknown>>();
+  private updateCallbacks: OrderUpdateCallback[] = [];
+
+  constructor() {
+    // Adapters keyed by the brokerId stored on each account
+    this.paperBroker.onExecution((order, execution) => this.handleExecution(order, execution));
+    this.brokerAdapters.set("paper", this.paperBroker);
+    this.brokerAdapters.set("mt5", new MT5BrokerAdapter());
+    for (const brokerId of ["oanda", "ibkr", "ctrader"]) {
+      this.brokerAdapters.set(brokerId, new BrokerManagerAdapter(brokerId));
+    }
   }
 
-  private async updatePosition(order: Order, fillPrice: number): Promise<void> {
+  async submitOrder(orderData: NewOrder): Promise<Order> {
+    // Create order in database; a repeated idempotency key returns the original order
+    const order = await storage.createOrder(orderData);
+    if (order.status !== "PENDING" || order.brokerOrderId || this.pendingOrders.has(order.id)) {
+      return order;
+    }
+
+    this.pendingOrders.add(order.id);
     try {
+      const account = await storage.getAccount(order.accountId);
+      if (!account) {
+        return await this.rejectOrder(order, `Account ${order.accountId} not found`);
+      }
+
+      const brokerId = this.getBrokerId(account);
+      const brokerAdapter = this.brokerAdapters.get(brokerId);
+      if (!brokerAdapter) {
+        return await this.rejectOrder(order, `No broker adapter available for ${brokerId}`);
+      }
+
+      // Fills are booked in the account currency; without a rate the order would fill with no position
+      try {
+        pricingService.getConversionRate(pricingService.getInstrument(order.symbol).quoteCurrency, account.baseCurrency || "USD");
+      } catch (error) {
+        return await this.rejectOrder(order, (error as Error).message);
+      }
+
+      // Submit to broker; transport failures are recorded as rejections
+      let execution: BrokerExecution;
+      try {
+        execution = await brokerAdapter.submitOrder(order);
+      } catch (error) {
+        return await this.rejectOrder(order, (error as Error).message);
+      }
+
+      const updated = await this.serialize(order.id, () => this.applyExecution(order, execution));
+      logger.info('order', `Order ${order.id} -> ${brokerId} ${execution.brokerOrderId || ""}: ${updated.status}`, order.symbol);
+      this.notifyOrderUpdate(updated);
+      return updated;
+    } catch (error) {
+      console.error("Order submission error:", error);
+      throw error;
+    } finally {
+      this.pendingOrders.delete(order.id);
+    }
+  }
+
+  // Paper orders that were working when the server stopped go back in the paper book, so they
+  // can still trigger, expire and be cancelled. Orders that never reached the broker are rejected.
+  async restoreWorkingOrders(): Promise<void> {
+    const working = [...await storage.getOrders(undefined, "PENDING"), ...await storage.getOrders(undefined, "PARTIAL")];
+    let restored = 0;
+    for (const order of working) {
+      const account = await storage.getAccount(order.accountId);
+      if (!account || this.getBrokerId(account) !== "paper") continue;
+
+      if (!order.brokerOrderId) {
+        await this.rejectOrder(order, "Interrupted before reaching the broker");
+        continue;
+      }
+      await this.paperBroker.restore(order);
+      restored++;
+    }
+    if (restored > 0) {
+      logger.info('order', `Restored ${restored} working paper orders`);
+    }
+  }
+
+  // Cancels a working order at its broker; fills received before the cancel are kept
+  async cancelOrder(orderId: string): Promise<Order> {
+    const order = await storage.getOrder(orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+    if (order.status !== "PENDING" && order.status !== "PARTIAL") {
+      throw new Error(`Order is ${order.status} and can no longer be cancelled`);
+    }
+
+    const account = await storage.getAccount(order.accountId);
+    const brokerAdapter = account ? this.brokerAdapters.get(this.getBrokerId(account)) : undefined;
+    if (!brokerAdapter || !order.brokerOrderId) {
+      throw new Error("Order has not reached a broker");
+    }
+
+    await brokerAdapter.cancelOrder(order.brokerOrderId);
+    const updated = await storage.updateOrder(order.id, { status: "CANCELLED" });
+    logger.info('order', `Order ${order.id} cancelled`, order.symbol);
+    this.notifyOrderUpdate(updated);
+    return updated;
+  }
+
+  onOrderUpdate(callback: OrderUpdateCallback): void {
+    this.updateCallbacks.push(callback);
+  }
+
+  private notifyOrderUpdate(order: Order): void {
+    this.updateCallbacks.forEach(callback => {
+      try {
+        callback(order);
+      } catch (error) {
+        console.error("Order update callback error:", error);
+      }
+    });
+  }
+
+  // Executions the broker reports after submission (resting orders filling or expiring)
+  private async handleExecution(order: Order, execution: BrokerExecution): Promise<void> {
+    const updated = await this.serialize(order.id, () => this.applyExecution(order, execution));
+    logger.info('order', `Order ${order.id} ${updated.status}: ${updated.filledQuantity || 0}/${order.quantity} filled`, order.symbol);
+    this.notifyOrderUpdate(updated);
+  }
+
+  // Executions for an order are applied one at a time in the order they were reported, so a
+  // tick fill never reads the order's fills while submitOrder is still applying earlier ones
+  private serialize<T>(orderId: string, apply: () => Promise<T>): Promise<T> {
+    const next = (this.executionQueues.get(orderId) || Promise.resolve()).catch(() => {}).then(apply);
+    this.executionQueues.set(orderId, next);
+    next.catch(() => {}).finally(() => {
+      if (this.executionQueues.get(orderId) === next) this.executionQueues.delete(orderId);
+    });
+    return next;
+  }
+
+  // Accounts without a broker are traded on the internal paper broker
+  private getBrokerId(account: Account): string {
+    return account.brokerId || "paper";
+  }
+
+  private async applyExecution(order: Order, execution: BrokerExecution): Promise<Order> {
+    if (execution.status === "REJECTED") {
+      return this.rejectOrder(order, execution.rejectReason || "Rejected by broker", execution.brokerOrderId);
+    }
+
+    // Executions are cumulative; the position only takes the quantity filled since the last report
+    const current = (await storage.getOrder(order.id)) || order;
+    const previousQuantity = parseFloat(current.filledQuantity || "0");
+    const previousNotional = previousQuantity * parseFloat(current.avgFillPrice || "0");
+    const filledQuantity = execution.filledQuantity ?? (execution.status === "FILLED" ? parseFloat(order.quantity) : previousQuantity);
+    const avgFillPrice = execution.avgFillPrice ?? 0;
+    const fillQuantity = filledQuantity - previousQuantity;
+
+    const updated = await storage.updateOrder(order.id, {
+      status: execution.status,
+      brokerOrderId: execution.brokerOrderId,
+      ...(filledQuantity > 0 && {
+        filledQuantity: filledQuantity.toString(),
+        avgFillPrice: avgFillPrice.toString(),
+        commission: execution.commission?.toFixed(2),
+        slippage: execution.slippage?.toFixed(5),
+      }),
+      ...(execution.status === "FILLED" && { filledAt: new Date().toISOString() }),
+    });
+
+    // Commission is charged to the balance as it is incurred
+    const commissionCharged = (execution.commission ?? 0) - parseFloat(current.commission || "0");
+    if (filledQuantity > 0 && commissionCharged > 0) {
+      await this.adjustBalance(order.accountId, -commissionCharged);
+    }
+
+    // Create or update position; P&L the fill realizes is kept on the order for the daily P&L
+    if (fillQuantity > 1e-9) {
+      const fillPrice = (filledQuantity * avgFillPrice - previousNotional) / fillQuantity;
+      const fillPnL = await this.updatePosition(order, fillPrice, fillQuantity);
+      if (fillPnL !== 0) {
+        return storage.updateOrder(order.id, { realizedPnL: (parseFloat(current.realizedPnL || "0") + fillPnL).toString() });
+      }
+    }
+    return updated;
+  }
+
+  private async rejectOrder(order: Order, reason: string, brokerOrderId?: string): Promise<Order> {
+    logger.warning('order', `Order ${order.id} rejected: ${reason}`, order.symbol);
+
+    const updated = await storage.updateOrder(order.id, {
+      status: "REJECTED",
+      brokerOrderId,
+      rejectReason: reason,
+    });
+
+    await storage.createAlert({
+      level: "WARNING",
+      title: "Order Rejected",
+      message: `${order.side} ${order.quantity} ${order.symbol}: ${reason}`,
+      source: "ORDER_MANAGER",
+    });
+
+    return updated;
+  }
+
+  // Returns the P&L the fill realized on an existing position
+  private async updatePosition(order: Order, fillPrice: number, fillQuantity: number): Promise<number> {
+    try {
+      const account = await storage.getAccount(order.accountId);
+      const accountCurrency = account?.baseCurrency || "USD";
+
       // Check if position already exists for this symbol
       const openPositions = await storage.getOpenPositions(order.accountId);
       const existingPosition = openPositions.find(p => p.symbol === order.symbol);
 
       if (existingPosition) {
         // Update existing position
-        const currentQty = parseFloat(existingPosition.quantity);
-        const orderQty = parseFloat(order.quantity);
+        // Signed so that opposite-side fills reduce a short as well as a long
+        const currentQty = parseFloat(existingPosition.quantity) * (existingPosition.side === "SELL" ? -1 : 1);
+        const orderQty = fillQuantity;
         const newQty = order.side === "BUY" ? currentQty + orderQty : currentQty - orderQty;
 
-        if (Math.abs(newQty) < 0.001) {
-          // Position closed - calculate realized P&L
-          const realizedPnL = this.calculateRealizedPnL(existingPosition, fillPrice, orderQty);
+        // Fills against the position's side realize P&L on the quantity they close
+        const closedQty = Math.sign(newQty) === Math.sign(currentQty) && Math.abs(newQty) > Math.abs(currentQty) ?
+          0 : Math.min(Math.abs(currentQty), orderQty);
+        const fillPnL = pricingService.calculatePnL(order.symbol, existingPosition.side, closedQty, parseFloat(existingPosition.avgPrice), fillPrice, accountCurrency);
+        const realizedPnL = parseFloat(existingPosition.realizedPnL || "0") + fillPnL;
+        if (closedQty > 0) {
+          await this.adjustBalance(order.accountId, fillPnL);
+        }
 
+        if (Math.abs(newQty) < 0.001) {
+          // Position closed; its accrued swap is settled to the balance with it
+          const swap = parseFloat(existingPosition.swap || "0");
+          if (swap !== 0) {
+            await this.adjustBalance(order.accountId, swap);
+          }
           await storage.updatePosition(existingPosition.id, {
             quantity: "0",
             isOpen: false,
             realizedPnL: realizedPnL.toString(),
+            closedAt: new Date().toISOString(),
           });
 
           // Create position close alert
           await storage.createAlert({
             level: "INFO",
             title: "Position Closed",
-            message: `${order.symbol} position closed with P&L: $${realizedPnL.toFixed(2)}`,
+            message: `${order.symbol} position closed with P&L: ${realizedPnL.toFixed(2)} ${accountCurrency}`,
             source: "ORDER_MANAGER",
           });
         } else {
-          // Position size changed
+          // Position size changed: adding averages in, reducing keeps the entry, flipping starts at the fill
           const currentAvgPrice = parseFloat(existingPosition.avgPrice);
-          const newAvgPrice = ((currentAvgPrice * Math.abs(currentQty)) + (fillPrice * orderQty)) / Math.abs(newQty);
+          const newAvgPrice = closedQty === 0 ?
+            ((currentAvgPrice * Math.abs(currentQty)) + (fillPrice * orderQty)) / Math.abs(newQty) :
+            Math.sign(newQty) === Math.sign(currentQty) ? currentAvgPrice : fillPrice;
 
           // Calculate unrealized P&L
-          const unrealizedPnL = this.calculateUnrealizedPnL(newQty, newAvgPrice, fillPrice);
+          const unrealizedPnL = pricingService.calculatePnL(
+            order.symbol, newQty > 0 ? "BUY" : "SELL", Math.abs(newQty), newAvgPrice, fillPrice, accountCurrency
+          );
 
           await storage.updatePosition(existingPosition.id, {
             quantity: Math.abs(newQty).toString(),
@@ -114,31 +678,32 @@ class PaperBrokerAdapter implements BrokerAdapter {
             avgPrice: newAvgPrice.toString(),
             currentPrice: fillPrice.toString(),
             unrealizedPnL: unrealizedPnL.toString(),
+            realizedPnL: realizedPnL.toString(),
           });
         }
+        return fillPnL;
       } else {
         // Create new position
-        const newPosition: InsertPosition = {
+        await storage.createPosition({
           accountId: order.accountId,
           strategyId: order.strategyId,
           symbol: order.symbol,
           side: order.side,
-          quantity: order.quantity,
+          quantity: fillQuantity.toString(),
+          initialQuantity: fillQuantity.toString(),
           avgPrice: fillPrice.toString(),
           currentPrice: fillPrice.toString(),
           stopLoss: order.stopLoss,
           takeProfit: order.takeProfit,
           unrealizedPnL: "0",
           realizedPnL: "0",
-        };
-
-        const position = await storage.createPosition(newPosition);
+        });
 
         // Create position open alert
         await storage.createAlert({
           level: "INFO",
           title: "Position Opened",
-          message: `${order.symbol} ${order.side} position opened: ${order.quantity} lots at ${fillPrice}`,
+          message: `${order.symbol} ${order.side} position opened: ${fillQuantity} lots at ${fillPrice}`,
           source: "ORDER_MANAGER",
         });
       }
@@ -149,69 +714,27 @@ class PaperBrokerAdapter implements BrokerAdapter {
       await storage.createAlert({
         level: "CRITICAL",
         title: "Position Update Failed",
-        message: `Failed to update position for order ${order.id}: ${error.message}`,
+        message: `Failed to update position for order ${order.id}: ${(error as Error).message}`,
         source: "ORDER_MANAGER",
       });
     }
+    return 0;
   }
 
-  private calculateRealizedPnL(position: any, fillPrice: number, quantity: number): number {
-    const avgPrice = parseFloat(position.avgPrice);
-    const side = position.side;
-
-    if (side === "BUY") {
-      return (fillPrice - avgPrice) * quantity * 100000; // Convert to USD for standard lot
-    } else {
-      return (avgPrice - fillPrice) * quantity * 100000;
-    }
-  }
-
-  private calculateUnrealizedPnL(quantity: number, avgPrice: number, currentPrice: number): number {
-    const pnlPerUnit = Math.abs(quantity) > 0 ?
-      (quantity > 0 ? currentPrice - avgPrice : avgPrice - currentPrice) : 0;
-    return pnlPerUnit * Math.abs(quantity) * 100000; // Convert to USD
-  }
-}
-
-class OrderManager {
-  private brokerAdapters = new Map<string, BrokerAdapter>();
-  private pendingOrders = new Set<string>();
-
-  constructor() {
-    // Initialize paper broker adapter
-    this.brokerAdapters.set("paper", new PaperBrokerAdapter());
-  }
-
-  async submitOrder(orderData: InsertOrder): Promise<Order> {
-    try {
-      // Create order in database
-      const order = await storage.createOrder(orderData);
-      this.pendingOrders.add(order.id);
-
-      // Get appropriate broker adapter
-      const brokerAdapter = this.brokerAdapters.get("paper"); // Simplified
-      if (!brokerAdapter) {
-        throw new Error("No broker adapter available");
-      }
-
-      // Submit to broker
-      const brokerOrderId = await brokerAdapter.submitOrder(order);
-
-      this.pendingOrders.delete(order.id);
+  private async adjustBalance(accountId: string, amount: number): Promise<void> {
+    const account = await storage.getAccount(accountId);
+    if (!account) return;
 
-      console.log(`Order submitted successfully: ${order.id} -> ${brokerOrderId}`);
-      return order;
-    } catch (error) {
-      console.error("Order submission error:", error);
-      throw error;
-    }
+    const balance = parseFloat(account.balance || "0") + amount;
+    await storage.updateAccount(accountId, { balance: balance.toFixed(2) });
   }
 
-  async createCloseOrder(position: Position): Promise<Order> {
-    const closeQuantity = parseFloat(position.quantity);
+  // Closes the whole position unless a smaller quantity is given (partial take-profit)
+  async createCloseOrder(position: Position, quantity?: number): Promise<Order> {
+    const closeQuantity = Math.min(quantity ?? parseFloat(position.quantity), parseFloat(position.quantity));
     const closeSide = position.side === "BUY" ? "SELL" : "BUY";
 
-    const closeOrder: InsertOrder = {
+    const closeOrder: NewOrder = {
       accountId: position.accountId,
       strategyId: position.strategyId,
       symbol: position.symbol,
@@ -241,8 +764,9 @@ class OrderManager {
   }
 
   async getPendingOrderCount(): Promise<number> {
-    return 0; // Mock pending orders count
+    return this.pendingOrders.size;
   }
 }
 
-export const orderManager = new OrderManager();
\ No newline at end of file
+export const orderManager = new OrderManager();
+export type { NewOrder, OrderRequest, BrokerExecution, BrokerAdapter };
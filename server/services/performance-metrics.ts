@@ -0,0 +1,282 @@
+// Performance statistics shared by analytics, the performance tracker and the backtester.
+// Everything is measured from an equity series plus the closed trades behind it, so live
+// accounts and backtests are scored the same way. No service imports: the backtest
+// simulator also runs on optimizer worker threads.
+
+interface EquitySample {
+  timestamp: Date;
+  equity: number;
+}
+
+interface TradeSample {
+  pnl: number; // Net of commission and swap
+  entryTime: Date;
+  exitTime: Date;
+}
+
+interface DrawdownPoint {
+  timestamp: Date;
+  drawdown: number; // Percent below the running peak
+}
+
+interface DrawdownStats {
+  maxDrawdown: number; // Percent below the running peak
+  maxDrawdownAmount: number; // Account currency
+  maxDrawdownDuration: number; // Days from the peak before the deepest drawdown until it was regained
+  longestDrawdownDuration: number; // Days, any drawdown
+  currentDrawdown: number; // Percent
+}
+
+interface TradeStats {
+  totalTrades: number;
+  winRate: number;
+  grossProfit: number;
+  grossLoss: number; // Positive
+  profitFactor: number; // Gross profit over gross loss
+  expectancy: number; // Average net P&L per trade
+  avgWin: number;
+  avgLoss: number; // Positive
+  largestWin: number;
+  largestLoss: number; // Negative
+  consecutiveWins: number;
+  consecutiveLosses: number;
+}
+
+interface PerformanceReport extends DrawdownStats, TradeStats {
+  totalReturn: number; // Percent
+  cagr: number; // Percent, compounded annual growth
+  volatility: number; // Annualized percent, from daily returns
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number; // CAGR over max drawdown, trailing 36 months
+  marRatio: number; // CAGR over max drawdown, whole period
+  recoveryFactor: number; // Net profit over the deepest drawdown amount
+  ulcerIndex: number; // Root mean square of daily drawdown percentages
+  exposure: number; // Percent of the period with at least one trade open
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+const TRADING_DAYS_PER_YEAR = 252;
+const CALMAR_MONTHS = 36;
+
+// Reported when there are winning trades but no losing ones; JSON has no Infinity
+const PROFIT_FACTOR_CAP = 100;
+
+class PerformanceMetricsCalculator {
+  // Equity must be oldest first; trades in the order they closed
+  calculate(equity: EquitySample[], trades: TradeSample[]): PerformanceReport {
+    const drawdowns = this.getDrawdownStats(equity);
+    const dailyReturns = this.getDailyReturns(equity);
+    const first = equity[0];
+    const last = equity[equity.length - 1];
+    const netProfit = first && last ? last.equity - first.equity : 0;
+    const cagr = this.getCagr(equity);
+    const calmarWindow = this.getTrailingWindow(equity, CALMAR_MONTHS);
+    const calmarDrawdown = this.getDrawdownStats(calmarWindow).maxDrawdown;
+
+    return {
+      totalReturn: first && first.equity > 0 ? (netProfit / first.equity) * 100 : 0,
+      cagr,
+      volatility: this.getStandardDeviation(dailyReturns) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100,
+      sharpeRatio: this.getSharpeRatio(dailyReturns),
+      sortinoRatio: this.getSortinoRatio(dailyReturns),
+      calmarRatio: calmarDrawdown > 0 ? this.getCagr(calmarWindow) / calmarDrawdown : 0,
+      marRatio: drawdowns.maxDrawdown > 0 ? cagr / drawdowns.maxDrawdown : 0,
+      recoveryFactor: drawdowns.maxDrawdownAmount > 0 ? netProfit / drawdowns.maxDrawdownAmount : 0,
+      ulcerIndex: this.getUlcerIndex(equity),
+      exposure: first && last ? this.getExposure(trades, first.timestamp, last.timestamp) : 0,
+      ...drawdowns,
+      ...this.getTradeStats(trades),
+    };
+  }
+
+  getTradeStats(trades: TradeSample[]): TradeStats {
+    const pnls = trades.map(trade => trade.pnl);
+    const wins = pnls.filter(pnl => pnl > 0);
+    const losses = pnls.filter(pnl => pnl < 0);
+    const grossProfit = wins.reduce((sum, pnl) => sum + pnl, 0);
+    const grossLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
+
+    return {
+      totalTrades: trades.length,
+      winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+      grossProfit,
+      grossLoss,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? PROFIT_FACTOR_CAP : 0,
+      expectancy: trades.length > 0 ? (grossProfit - grossLoss) / trades.length : 0,
+      avgWin: wins.length > 0 ? grossProfit / wins.length : 0,
+      avgLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+      largestWin: wins.length > 0 ? Math.max(...wins) : 0,
+      largestLoss: losses.length > 0 ? Math.min(...losses) : 0,
+      consecutiveWins: this.getLongestStreak(pnls, pnl => pnl > 0),
+      consecutiveLosses: this.getLongestStreak(pnls, pnl => pnl < 0),
+    };
+  }
+
+  getDrawdownSeries(equity: EquitySample[]): DrawdownPoint[] {
+    let peak = -Infinity;
+    return equity.map(point => {
+      peak = Math.max(peak, point.equity);
+      return { timestamp: point.timestamp, drawdown: peak > 0 ? ((peak - point.equity) / peak) * 100 : 0 };
+    });
+  }
+
+  getDrawdownStats(equity: EquitySample[]): DrawdownStats {
+    let peak = equity[0];
+    let maxDrawdown = 0;
+    let maxDrawdownAmount = 0;
+    let maxDrawdownPeak: EquitySample | null = null;
+    let maxDrawdownDuration = 0;
+    let longestDrawdownDuration = 0;
+    let currentDrawdown = 0;
+
+    for (const point of equity) {
+      if (point.equity >= peak.equity) {
+        // Back at or above the old high: that drawdown has recovered
+        if (maxDrawdownPeak === peak) {
+          maxDrawdownDuration = this.getDays(peak.timestamp, point.timestamp);
+        }
+        longestDrawdownDuration = Math.max(longestDrawdownDuration, this.getDays(peak.timestamp, point.timestamp));
+        peak = point;
+        currentDrawdown = 0;
+        continue;
+      }
+
+      currentDrawdown = peak.equity > 0 ? ((peak.equity - point.equity) / peak.equity) * 100 : 0;
+      if (currentDrawdown > maxDrawdown) {
+        maxDrawdown = currentDrawdown;
+        maxDrawdownAmount = peak.equity - point.equity;
+        maxDrawdownPeak = peak;
+      }
+    }
+
+    // A drawdown still open at the end of the series lasts until its last point
+    const last = equity[equity.length - 1];
+    if (peak && last && peak !== last) {
+      const openDays = this.getDays(peak.timestamp, last.timestamp);
+      longestDrawdownDuration = Math.max(longestDrawdownDuration, openDays);
+      if (maxDrawdownPeak === peak) maxDrawdownDuration = openDays;
+    }
+
+    return { maxDrawdown, maxDrawdownAmount, maxDrawdownDuration, longestDrawdownDuration, currentDrawdown };
+  }
+
+  // Last equity of each UTC day. Weekdays without a sample carry the previous close forward,
+  // so a curve sampled only at trade exits still yields one return per trading day.
+  getDailyCloses(equity: EquitySample[]): EquitySample[] {
+    const closes = new Map<string, EquitySample>();
+    for (const point of equity) {
+      closes.set(point.timestamp.toISOString().slice(0, 10), point);
+    }
+
+    const filled: EquitySample[] = [];
+    for (const close of Array.from(closes.values())) {
+      const previous = filled[filled.length - 1];
+      if (previous) {
+        const closeDay = Math.floor(close.timestamp.getTime() / MS_PER_DAY);
+        for (let day = Math.floor(previous.timestamp.getTime() / MS_PER_DAY) + 1; day < closeDay; day++) {
+          const weekday = new Date(day * MS_PER_DAY).getUTCDay();
+          if (weekday !== 0 && weekday !== 6) filled.push({ timestamp: new Date((day + 1) * MS_PER_DAY - 1), equity: previous.equity });
+        }
+      }
+      filled.push(close);
+    }
+    return filled;
+  }
+
+  getDailyReturns(equity: EquitySample[]): number[] {
+    const closes = this.getDailyCloses(equity);
+    return closes.slice(1).map((close, i) => closes[i].equity > 0 ? close.equity / closes[i].equity - 1 : 0);
+  }
+
+  getCagr(equity: EquitySample[]): number {
+    const first = equity[0];
+    const last = equity[equity.length - 1];
+    if (!first || !last || first.equity <= 0 || last.equity <= 0) return 0;
+
+    const years = this.getDays(first.timestamp, last.timestamp) / DAYS_PER_YEAR;
+    if (years <= 0) return 0;
+    return (Math.pow(last.equity / first.equity, 1 / years) - 1) * 100;
+  }
+
+  getSharpeRatio(dailyReturns: number[]): number {
+    if (dailyReturns.length < 2) return 0;
+    const deviation = this.getStandardDeviation(dailyReturns);
+    return deviation > 0 ? (this.getMean(dailyReturns) / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR) : 0;
+  }
+
+  // Downside deviation counts every day, with gains as zero
+  getSortinoRatio(dailyReturns: number[]): number {
+    if (dailyReturns.length < 2) return 0;
+    const downside = Math.sqrt(dailyReturns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / dailyReturns.length);
+    return downside > 0 ? (this.getMean(dailyReturns) / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR) : 0;
+  }
+
+  getUlcerIndex(equity: EquitySample[]): number {
+    const drawdowns = this.getDrawdownSeries(this.getDailyCloses(equity));
+    if (drawdowns.length === 0) return 0;
+    return Math.sqrt(drawdowns.reduce((sum, point) => sum + point.drawdown ** 2, 0) / drawdowns.length);
+  }
+
+  // Overlapping trades count once
+  getExposure(trades: TradeSample[], from: Date, to: Date): number {
+    const span = to.getTime() - from.getTime();
+    if (span <= 0) return 0;
+
+    const intervals = trades
+      .map(trade => [Math.max(trade.entryTime.getTime(), from.getTime()), Math.min(trade.exitTime.getTime(), to.getTime())])
+      .filter(([start, end]) => end > start)
+      .sort((a, b) => a[0] - b[0]);
+
+    let covered = 0;
+    let current: number[] | null = null;
+    for (const [start, end] of intervals) {
+      if (current && start <= current[1]) {
+        current[1] = Math.max(current[1], end);
+        continue;
+      }
+      if (current) covered += current[1] - current[0];
+      current = [start, end];
+    }
+    if (current) covered += current[1] - current[0];
+
+    return (covered / span) * 100;
+  }
+
+  private getTrailingWindow(equity: EquitySample[], months: number): EquitySample[] {
+    const last = equity[equity.length - 1];
+    if (!last) return equity;
+    const cutoff = new Date(last.timestamp);
+    cutoff.setUTCMonth(cutoff.getUTCMonth() - months);
+    return equity.filter(point => point.timestamp >= cutoff);
+  }
+
+  private getLongestStreak(pnls: number[], matches: (pnl: number) => boolean): number {
+    let longest = 0;
+    let current = 0;
+    for (const pnl of pnls) {
+      current = matches(pnl) ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    }
+    return longest;
+  }
+
+  private getMean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  // Sample standard deviation
+  private getStandardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = this.getMean(values);
+    return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+  }
+
+  private getDays(from: Date, to: Date): number {
+    return (to.getTime() - from.getTime()) / MS_PER_DAY;
+  }
+}
+
+export const performanceMetrics = new PerformanceMetricsCalculator();
+export type { EquitySample, TradeSample, DrawdownPoint, DrawdownStats, TradeStats, PerformanceReport };
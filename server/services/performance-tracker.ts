@@ -1,97 +1,81 @@
+import { storage } from "../storage";
+import { performanceMetrics, PerformanceReport, EquitySample } from "./performance-metrics";
 
-interface PerformanceMetrics {
-  totalTrades: number;
-  winRate: number;
-  avgWin: number;
-  avgLoss: number;
-  maxDrawdown: number;
-  sharpeRatio: number;
-  profitFactor: number;
+interface PerformanceMetrics extends PerformanceReport {
   dailyReturns: number[];
+  equityCurve: EquitySample[]; // Starting balance, then the balance after each closed position
+  calculatedAt: Date;
 }
 
+// Account performance from the realized P&L of closed positions
 class PerformanceTracker {
   private metrics: Map<string, PerformanceMetrics> = new Map();
+  private refreshInterval: NodeJS.Timeout | null = null;
 
-  async calculateMetrics(accountId: string): Promise<PerformanceMetrics> {
-    const trades = await storage.getRecentTrades(accountId);
-    const positions = await storage.getClosedPositions(accountId);
+  // Recomputes every account every five minutes so getMetrics stays current without a request
+  async start(): Promise<void> {
+    if (this.refreshInterval) return;
 
-    const totalTrades = trades.length;
-    const winningTrades = trades.filter(t => parseFloat(t.pnl || '0') > 0);
-    const losingTrades = trades.filter(t => parseFloat(t.pnl || '0') < 0);
+    this.refreshInterval = setInterval(() => {
+      this.refreshAll().catch(error => console.error("Performance metrics error:", error));
+    }, 5 * 60 * 1000);
+    await this.refreshAll().catch(error => console.error("Performance metrics error:", error));
+  }
 
-    const winRate = totalTrades > 0 ? (winningTrades.length / totalTrades) * 100 : 0;
-    const avgWin = winningTrades.length > 0 ? 
-      winningTrades.reduce((sum, t) => sum + parseFloat(t.pnl || '0'), 0) / winningTrades.length : 0;
-    const avgLoss = losingTrades.length > 0 ? 
-      Math.abs(losingTrades.reduce((sum, t) => sum + parseFloat(t.pnl || '0'), 0) / losingTrades.length) : 0;
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
 
-    const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
+  // Only the full history is cached; `since` limits the result to positions closed after it
+  async calculateMetrics(accountId: string, since?: Date): Promise<PerformanceMetrics> {
+    const account = await storage.getAccount(accountId);
+    const positions = (await storage.getClosedPositions())
+      .filter(p => p.accountId === accountId && p.closedAt && (!since || new Date(p.closedAt) >= since))
+      .sort((a, b) => new Date(a.closedAt!).getTime() - new Date(b.closedAt!).getTime());
 
-    // Calculate daily returns for Sharpe ratio
-    const dailyReturns = this.calculateDailyReturns(trades);
-    const sharpeRatio = this.calculateSharpeRatio(dailyReturns);
-    const maxDrawdown = this.calculateMaxDrawdown(trades);
+    const trades = positions.map(p => ({
+      pnl: parseFloat(p.realizedPnL || "0"),
+      entryTime: new Date(p.createdAt),
+      exitTime: new Date(p.closedAt!),
+    }));
+    const equityCurve = this.buildEquityCurve(trades, parseFloat(account?.balance || "0"));
 
     const metrics: PerformanceMetrics = {
-      totalTrades,
-      winRate,
-      avgWin,
-      avgLoss,
-      maxDrawdown,
-      sharpeRatio,
-      profitFactor,
-      dailyReturns
+      ...performanceMetrics.calculate(equityCurve, trades),
+      dailyReturns: performanceMetrics.getDailyReturns(equityCurve),
+      equityCurve,
+      calculatedAt: new Date(),
     };
 
-    this.metrics.set(accountId, metrics);
+    if (!since) this.metrics.set(accountId, metrics);
     return metrics;
   }
 
-  private calculateDailyReturns(trades: any[]): number[] {
-    const dailyPnL = new Map<string, number>();
-    
-    trades.forEach(trade => {
-      const date = new Date(trade.createdAt).toDateString();
-      const pnl = parseFloat(trade.pnl || '0');
-      dailyPnL.set(date, (dailyPnL.get(date) || 0) + pnl);
-    });
-
-    return Array.from(dailyPnL.values());
-  }
-
-  private calculateSharpeRatio(dailyReturns: number[]): number {
-    if (dailyReturns.length < 2) return 0;
-
-    const avgReturn = dailyReturns.reduce((sum, ret) => sum + ret, 0) / dailyReturns.length;
-    const variance = dailyReturns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / (dailyReturns.length - 1);
-    const stdDev = Math.sqrt(variance);
-
-    return stdDev > 0 ? (avgReturn / stdDev) * Math.sqrt(252) : 0; // Annualized
+  getMetrics(accountId: string): PerformanceMetrics | undefined {
+    return this.metrics.get(accountId);
   }
 
-  private calculateMaxDrawdown(trades: any[]): number {
-    let runningTotal = 0;
-    let peak = 0;
-    let maxDrawdown = 0;
-
-    trades.forEach(trade => {
-      runningTotal += parseFloat(trade.pnl || '0');
-      if (runningTotal > peak) {
-        peak = runningTotal;
-      }
-      const drawdown = (peak - runningTotal) / peak * 100;
-      if (drawdown > maxDrawdown) {
-        maxDrawdown = drawdown;
-      }
-    });
-
-    return maxDrawdown;
+  // The current balance with every realized P&L backed out gives the starting balance
+  private buildEquityCurve(trades: { pnl: number; entryTime: Date; exitTime: Date }[], balance: number): EquitySample[] {
+    if (trades.length === 0) return [];
+
+    let equity = balance - trades.reduce((sum, trade) => sum + trade.pnl, 0);
+    const start = new Date(Math.min(...trades.map(trade => trade.entryTime.getTime())));
+    const curve: EquitySample[] = [{ timestamp: start, equity }];
+    for (const trade of trades) {
+      equity += trade.pnl;
+      curve.push({ timestamp: trade.exitTime, equity });
+    }
+    return curve;
   }
 
-  getMetrics(accountId: string): PerformanceMetrics | undefined {
-    return this.metrics.get(accountId);
+  private async refreshAll(): Promise<void> {
+    for (const account of await storage.getAccounts()) {
+      await this.calculateMetrics(account.id);
+    }
   }
 }
 
@@ -0,0 +1,225 @@
+import { z } from "zod";
+import { storage, Position, Strategy } from "../storage";
+import { marketDataService, MarketData } from "./market-data";
+import { orderManager } from "./order-manager";
+import { pricingService } from "./pricing";
+import { logger } from "./logger";
+
+// Protection settings read from a strategy's riskProfile, e.g.
+// { "breakEven": { "triggerPips": 15, "offsetPips": 1 },
+//   "trailingStop": { "distancePips": 20, "activationPips": 10 },
+//   "takeProfitLadder": [{ "pips": 20, "closePercent": 50 }, { "pips": 40, "closePercent": 25 }] }
+export const protectionProfileSchema = z.object({
+  breakEven: z.object({
+    triggerPips: z.number().positive(),
+    offsetPips: z.number().min(0).default(0), // Locked-in profit beyond the entry
+  }).optional(),
+  trailingStop: z.object({
+    distancePips: z.number().positive(),
+    activationPips: z.number().min(0).default(0), // Profit needed before the stop starts trailing
+  }).optional(),
+  takeProfitLadder: z.array(z.object({
+    pips: z.number().positive(),
+    closePercent: z.number().positive().max(100), // Percent of the original position size
+  })).optional(),
+});
+
+type ProtectionProfile = z.infer<typeof protectionProfileSchema>;
+
+type ExitReason = "STOP_LOSS" | "TAKE_PROFIT" | "TAKE_PROFIT_LADDER";
+
+// Per-position bookkeeping kept between ticks; the ladder progress is also stored on the position
+interface ProtectionState {
+  initialQuantity: number;
+  laddersTaken: number;
+  closeOrderId?: string; // Close order still working at the broker
+  failedCloses: number; // Rejected or failed closes in a row
+  retryAt?: number; // No new close before this time after a failure
+}
+
+// Wait after a rejected close, doubling with each failure in a row
+const CLOSE_RETRY_BASE_MS = 5000;
+const CLOSE_RETRY_MAX_MS = 5 * 60000;
+
+class PositionProtectionService {
+  private isRunning = false;
+  private states = new Map<string, ProtectionState>();
+  private busySymbols = new Set<string>();
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    marketDataService.onPriceUpdate(tick => {
+      if (!this.isRunning || this.busySymbols.has(tick.symbol)) return;
+
+      // One pass per symbol at a time so a slow close cannot be sent twice
+      this.busySymbols.add(tick.symbol);
+      this.checkPositions(tick)
+        .catch(error => console.error("Position protection error:", error))
+        .finally(() => this.busySymbols.delete(tick.symbol));
+    });
+
+    console.log("Position protection service started");
+  }
+
+  stop(): void {
+    this.isRunning = false;
+  }
+
+  getProfile(strategy: Pick<Strategy, "riskProfile"> | null): ProtectionProfile {
+    if (!strategy?.riskProfile) return {};
+
+    try {
+      const raw = typeof strategy.riskProfile === "string" ? JSON.parse(strategy.riskProfile) : strategy.riskProfile;
+      const parsed = protectionProfileSchema.safeParse(raw);
+      return parsed.success ? parsed.data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async checkPositions(tick: MarketData): Promise<void> {
+    const openPositions = await storage.getOpenPositions();
+
+    // Forget positions that have been closed since the last pass
+    const openIds = new Set(openPositions.map(p => p.id));
+    Array.from(this.states.keys()).forEach(id => {
+      if (!openIds.has(id)) this.states.delete(id);
+    });
+
+    for (const position of openPositions.filter(p => p.symbol === tick.symbol)) {
+      if (await this.hasWorkingCloseOrder(position)) continue;
+      if ((this.states.get(position.id)?.retryAt ?? 0) > Date.now()) continue;
+
+      const strategy = position.strategyId ? await storage.getStrategy(position.strategyId) : null;
+      await this.protect(position, tick, this.getProfile(strategy));
+    }
+  }
+
+  private async protect(position: Position, tick: MarketData, profile: ProtectionProfile): Promise<void> {
+    const isLong = position.side === "BUY";
+    // Longs exit at the bid, shorts at the ask
+    const exitPrice = isLong ? tick.bid : tick.ask;
+    const entryPrice = parseFloat(position.avgPrice);
+    const stopLoss = position.stopLoss ? parseFloat(position.stopLoss) : null;
+    const takeProfit = position.takeProfit ? parseFloat(position.takeProfit) : null;
+    const { pipSize, digits } = pricingService.getInstrument(position.symbol);
+    const profitPips = (isLong ? exitPrice - entryPrice : entryPrice - exitPrice) / pipSize;
+    const state = this.getState(position);
+
+    if (stopLoss !== null && (isLong ? exitPrice <= stopLoss : exitPrice >= stopLoss)) {
+      await this.close(position, parseFloat(position.quantity), "STOP_LOSS", exitPrice);
+      return;
+    }
+
+    if (takeProfit !== null && (isLong ? exitPrice >= takeProfit : exitPrice <= takeProfit)) {
+      await this.close(position, parseFloat(position.quantity), "TAKE_PROFIT", exitPrice);
+      return;
+    }
+
+    // Scale out at each ladder rung in turn
+    const ladder = [...(profile.takeProfitLadder || [])].sort((a, b) => a.pips - b.pips);
+    const rung = ladder[state.laddersTaken];
+    if (rung && profitPips >= rung.pips) {
+      const quantity = Math.min(parseFloat(position.quantity), state.initialQuantity * rung.closePercent / 100);
+      // A rejected or failed close leaves the rung to be taken on a later tick
+      if (await this.close(position, quantity, "TAKE_PROFIT_LADDER", exitPrice)) {
+        state.laddersTaken++;
+        await storage.updatePosition(position.id, {
+          initialQuantity: state.initialQuantity.toString(),
+          laddersTaken: state.laddersTaken,
+        });
+      }
+      return;
+    }
+
+    // Stops only ever move in the position's favour
+    let newStop = stopLoss;
+    if (profile.breakEven && profitPips >= profile.breakEven.triggerPips) {
+      const offset = profile.breakEven.offsetPips * pipSize;
+      newStop = this.tighterStop(isLong, newStop, isLong ? entryPrice + offset : entryPrice - offset);
+    }
+    if (profile.trailingStop && profitPips >= profile.trailingStop.activationPips) {
+      const distance = profile.trailingStop.distancePips * pipSize;
+      newStop = this.tighterStop(isLong, newStop, isLong ? exitPrice - distance : exitPrice + distance);
+    }
+
+    if (newStop === null) return;
+    const stop = newStop.toFixed(digits);
+    if (stopLoss === null || parseFloat(stop) !== stopLoss) {
+      await storage.updatePosition(position.id, { stopLoss: stop });
+      logger.info('risk', `Stop moved to ${stop} on position ${position.id}`, position.symbol);
+    }
+  }
+
+  private tighterStop(isLong: boolean, current: number | null, candidate: number): number {
+    if (current === null) return candidate;
+    return isLong ? Math.max(current, candidate) : Math.min(current, candidate);
+  }
+
+  // Whether the broker accepted the close order
+  private async close(position: Position, quantity: number, reason: ExitReason, price: number): Promise<boolean> {
+    const state = this.getState(position);
+
+    try {
+      const order = await orderManager.createCloseOrder(position, quantity);
+      if (order.status === "REJECTED" || order.status === "CANCELLED") {
+        this.backOff(position, state, `${reason} close of position ${position.id} ${order.status.toLowerCase()}: ${order.rejectReason || "no reason given"}`);
+        return false;
+      }
+
+      state.failedCloses = 0;
+      state.retryAt = undefined;
+      if (order.status === "PENDING" || order.status === "PARTIAL") {
+        state.closeOrderId = order.id;
+      }
+
+      logger.info('risk', `${reason} closing ${quantity} of position ${position.id} at ${price}: order ${order.status}`, position.symbol);
+      await storage.createAlert({
+        level: reason === "STOP_LOSS" ? "WARNING" : "INFO",
+        title: reason === "STOP_LOSS" ? "Stop Loss Hit" : "Take Profit Hit",
+        message: `${position.symbol} ${position.side} ${reason === "TAKE_PROFIT_LADDER" ? "scaled out" : "closed"} ${quantity} at ${price}`,
+        source: "POSITION_PROTECTION",
+      });
+      return true;
+    } catch (error) {
+      this.backOff(position, state, `Failed to close position ${position.id} on ${reason}: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  private backOff(position: Position, state: ProtectionState, message: string): void {
+    state.failedCloses++;
+    const delay = Math.min(CLOSE_RETRY_BASE_MS * 2 ** (state.failedCloses - 1), CLOSE_RETRY_MAX_MS);
+    state.retryAt = Date.now() + delay;
+    logger.error('risk', `${message}; retrying in ${Math.round(delay / 1000)}s`, position.symbol);
+  }
+
+  private async hasWorkingCloseOrder(position: Position): Promise<boolean> {
+    const state = this.states.get(position.id);
+    if (!state?.closeOrderId) return false;
+
+    const order = await storage.getOrder(state.closeOrderId);
+    if (order && (order.status === "PENDING" || order.status === "PARTIAL")) return true;
+
+    state.closeOrderId = undefined;
+    return false;
+  }
+
+  private getState(position: Position): ProtectionState {
+    let state = this.states.get(position.id);
+    if (!state) {
+      state = {
+        initialQuantity: parseFloat(position.initialQuantity || position.quantity),
+        laddersTaken: position.laddersTaken ?? 0,
+        failedCloses: 0,
+      };
+      this.states.set(position.id, state);
+    }
+    return state;
+  }
+}
+
+export const positionProtectionService = new PositionProtectionService();
+export type { ProtectionProfile, ExitReason };
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { positionSizingService, SizingRequest } from "./position-sizing";
+import { pricingService } from "./pricing";
+import { storage, Position } from "../storage";
+
+const PRICES: Record<string, number> = { EURUSD: 1.1, USDJPY: 150 };
+
+// 1% of 10,000 USD on a 20 pip EURUSD stop: 100 / (20 pips * 10 USD per pip) = 0.5 lots
+const REQUEST: SizingRequest = {
+  equity: 10000,
+  accountCurrency: "USD",
+  brokerId: "paper",
+  symbol: "EURUSD",
+  stopDistance: 0.002,
+  riskPercent: 1,
+};
+
+function closedPositions(pnls: number[]): Position[] {
+  return pnls.map((pnl, i) => ({
+    id: `pos-${i}`,
+    accountId: "acc-1",
+    strategyId: "strat-kelly",
+    symbol: "EURUSD",
+    side: "BUY",
+    quantity: "0",
+    avgPrice: "1.1",
+    currentPrice: "1.1",
+    unrealizedPnL: "0",
+    realizedPnL: pnl.toString(),
+    isOpen: false,
+    createdAt: new Date(0).toISOString(),
+  }));
+}
+
+describe("PositionSizingService", () => {
+  beforeEach(() => {
+    pricingService.setLivePrices(symbol => PRICES[symbol] ?? null);
+  });
+
+  afterEach(() => {
+    pricingService.setLivePrices(() => null);
+    vi.restoreAllMocks();
+  });
+
+  it("risks the setup's percent of equity over the stop distance by default", async () => {
+    const result = await positionSizingService.calculate(REQUEST);
+
+    expect(result.method).toBe("FIXED_FRACTIONAL");
+    expect(result.quantity).toBe(0.5);
+    expect(result.riskAmount).toBeCloseTo(100, 6);
+    expect(result.riskPercent).toBeCloseTo(1, 6);
+  });
+
+  it("converts the pip value into the account currency", async () => {
+    // A JPY pip on one lot is 1,000 JPY, about 6.67 USD at 150
+    const result = await positionSizingService.calculate({ ...REQUEST, symbol: "USDJPY", stopDistance: 0.3 });
+
+    expect(result.quantity).toBe(0.5);
+    expect(result.riskAmount).toBeCloseTo(100, 6);
+  });
+
+  it("uses the profile's risk percent over the setup's", async () => {
+    const result = await positionSizingService.calculate({ ...REQUEST, riskProfile: { sizing: { method: "FIXED_FRACTIONAL", riskPercent: 2 } } });
+
+    expect(result.quantity).toBe(1);
+  });
+
+  it("caps every method at maxLots and at the risk limit", async () => {
+    const fixed = await positionSizingService.calculate({ ...REQUEST, riskProfile: { sizing: { method: "FIXED_LOT", lots: 3, maxLots: 2 } } });
+    expect(fixed.quantity).toBe(2);
+
+    const limited = await positionSizingService.calculate({ ...REQUEST, riskProfile: { sizing: { method: "FIXED_LOT", lots: 3 } }, maxRiskPercent: 0.5 });
+    expect(limited.quantity).toBe(0.25);
+    expect(limited.note).toBe("Capped at the 0.5% risk per trade limit");
+  });
+
+  it("sizes to the volatility target, falling back to the stop distance without an ATR", async () => {
+    // 0.5% of 10,000 over one 20 pip move
+    const result = await positionSizingService.calculate({ ...REQUEST, riskProfile: { sizing: { method: "VOLATILITY_TARGET", targetVolatilityPercent: 0.5 } } });
+
+    expect(result.quantity).toBe(0.25);
+    expect(result.note).toMatch(/No D1 ATR available/);
+  });
+
+  it("sizes by the fractional Kelly risk, capped at its maximum", async () => {
+    // 60% winners averaging twice the losers: Kelly 0.6 - 0.4 / 2 = 40%, half-Kelly 20%, capped at 2%
+    vi.spyOn(storage, "getClosedPositions").mockResolvedValue(closedPositions([...Array(18).fill(200), ...Array(12).fill(-100)]));
+    const capped = await positionSizingService.calculate({ ...REQUEST, strategyId: "strat-kelly", riskProfile: { sizing: { method: "KELLY" } } });
+    expect(capped.quantity).toBe(1);
+
+    const small = await positionSizingService.calculate({ ...REQUEST, strategyId: "strat-kelly", riskProfile: { sizing: { method: "KELLY", kellyFraction: 0.02 } } });
+    expect(small.quantity).toBe(0.4); // 0.8% risk
+  });
+
+  it("uses the setup's risk until the strategy has enough closed trades for Kelly", async () => {
+    vi.spyOn(storage, "getClosedPositions").mockResolvedValue(closedPositions([200, -100]));
+    const result = await positionSizingService.calculate({ ...REQUEST, strategyId: "strat-kelly", riskProfile: { sizing: { method: "KELLY" } } });
+
+    expect(result.quantity).toBe(0.5);
+    expect(result.note).toBe("Fewer than 30 closed trades, using setup risk");
+  });
+
+  it("rounds down to the broker's lot step and reports sizes below the minimum", async () => {
+    // IBKR trades in 25,000 unit steps, a quarter lot
+    const rounded = await positionSizingService.calculate({ ...REQUEST, brokerId: "ibkr", riskPercent: 1.9 });
+    expect(rounded.quantity).toBe(0.75);
+
+    const tooSmall = await positionSizingService.calculate({ ...REQUEST, brokerId: "ibkr", riskPercent: 0.4 });
+    expect(tooSmall.quantity).toBe(0);
+    expect(tooSmall.note).toBe("Size 0.2000 lots is below the broker minimum");
+  });
+});
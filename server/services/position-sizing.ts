@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import { brokerManager } from "./broker-manager";
+import { marketDataService } from "./market-data";
+import { pricingService } from "./pricing";
+import { ATR, latestValue } from "./indicators";
+import { TIMEFRAMES, Timeframe } from "./historical-data";
+
+// Sizing settings read from a strategy's riskProfile under "sizing", e.g.
+// { "sizing": { "method": "VOLATILITY_TARGET", "targetVolatilityPercent": 0.5, "maxLots": 2 } }
+export const sizingProfileSchema = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("FIXED_FRACTIONAL"),
+    riskPercent: z.number().positive().max(100).optional(), // Defaults to the setup's riskPercent
+    maxLots: z.number().positive().optional(),
+  }),
+  z.object({
+    method: z.literal("FIXED_LOT"),
+    lots: z.number().positive(),
+    maxLots: z.number().positive().optional(),
+  }),
+  z.object({
+    method: z.literal("VOLATILITY_TARGET"),
+    targetVolatilityPercent: z.number().positive().max(100), // Equity moved by one ATR
+    atrPeriod: z.number().int().positive().default(14),
+    atrTimeframe: z.enum(TIMEFRAMES).default("D1"),
+    maxLots: z.number().positive().optional(),
+  }),
+  z.object({
+    method: z.literal("KELLY"),
+    kellyFraction: z.number().positive().max(1).default(0.5), // Half-Kelly by default
+    maxRiskPercent: z.number().positive().max(100).default(2),
+    minTrades: z.number().int().positive().default(30), // History needed before Kelly is trusted
+    maxLots: z.number().positive().optional(),
+  }),
+]);
+
+type SizingProfile = z.infer<typeof sizingProfileSchema>;
+type SizingMethod = SizingProfile["method"];
+
+interface SizingRequest {
+  equity: number;
+  accountCurrency: string;
+  brokerId: string;
+  symbol: string;
+  stopDistance: number; // Entry to stop, in price units
+  riskPercent: number; // Risk suggested by the strategy setup
+  riskProfile?: unknown;
+  strategyId?: string;
+  maxRiskPercent?: number; // Risk limit on the account or strategy; caps every sizing method
+}
+
+interface SizingResult {
+  quantity: number; // Lots, rounded down to the broker's minimum size; 0 when below it
+  method: SizingMethod;
+  riskPercent: number; // Equity at risk if the stop is hit
+  riskAmount: number;
+  note?: string;
+}
+
+// Lot step for brokers without a BrokerConfig (internal paper broker)
+const DEFAULT_LOT_STEP = 0.01;
+
+class PositionSizingService {
+  getProfile(riskProfile: unknown): SizingProfile {
+    try {
+      const raw = typeof riskProfile === "string" ? JSON.parse(riskProfile) : riskProfile;
+      const parsed = sizingProfileSchema.safeParse((raw as any)?.sizing);
+      if (parsed.success) return parsed.data;
+    } catch {
+      // Fall through to the default
+    }
+    return { method: "FIXED_FRACTIONAL" };
+  }
+
+  async calculate(request: SizingRequest): Promise<SizingResult> {
+    const profile = this.getProfile(request.riskProfile);
+    const stopPips = pricingService.toPips(request.symbol, request.stopDistance);
+    const pipValuePerLot = pricingService.getPipValue(request.symbol, 1, request.accountCurrency);
+    let note: string | undefined;
+    let lots: number;
+
+    switch (profile.method) {
+      case "FIXED_LOT":
+        lots = profile.lots;
+        break;
+
+      case "VOLATILITY_TARGET": {
+        const atr = this.getATR(request.symbol, profile.atrTimeframe, profile.atrPeriod);
+        const volatility = atr ?? request.stopDistance;
+        if (atr === null) note = `No ${profile.atrTimeframe} ATR available, using stop distance as volatility`;
+        const budget = request.equity * (profile.targetVolatilityPercent / 100);
+        lots = budget / (pricingService.toPips(request.symbol, volatility) * pipValuePerLot);
+        break;
+      }
+
+      case "KELLY": {
+        const kelly = await this.getKellyRiskPercent(request.strategyId, profile);
+        const riskPercent = kelly ?? request.riskPercent;
+        if (kelly === null) note = `Fewer than ${profile.minTrades} closed trades, using setup risk`;
+        lots = (request.equity * Math.min(riskPercent, profile.maxRiskPercent) / 100) / (stopPips * pipValuePerLot);
+        break;
+      }
+
+      default: {
+        const riskPercent = profile.riskPercent ?? request.riskPercent;
+        lots = (request.equity * riskPercent / 100) / (stopPips * pipValuePerLot);
+      }
+    }
+
+    if (!Number.isFinite(lots) || lots < 0) lots = 0;
+    if (profile.maxLots !== undefined) lots = Math.min(lots, profile.maxLots);
+    if (request.maxRiskPercent !== undefined && stopPips > 0) {
+      const cappedLots = (request.equity * request.maxRiskPercent / 100) / (stopPips * pipValuePerLot);
+      if (cappedLots < lots) {
+        lots = cappedLots;
+        note = `Capped at the ${request.maxRiskPercent}% risk per trade limit`;
+      }
+    }
+
+    const quantity = this.roundToBrokerSize(request.brokerId, request.symbol, lots);
+    const riskAmount = quantity * stopPips * pipValuePerLot;
+
+    return {
+      quantity,
+      method: profile.method,
+      riskPercent: request.equity > 0 ? (riskAmount / request.equity) * 100 : 0,
+      riskAmount,
+      note: quantity === 0 && lots > 0 ? `Size ${lots.toFixed(4)} lots is below the broker minimum` : note,
+    };
+  }
+
+  // Smallest tradable increment in lots; BrokerConfig sizes are in base currency units
+  getLotStep(brokerId: string, symbol: string): number {
+    const minPositionSize = brokerManager.getBrokerConfig(brokerId)?.features.minPositionSize;
+    if (!minPositionSize) return DEFAULT_LOT_STEP;
+    return minPositionSize / pricingService.getInstrument(symbol).contractSize;
+  }
+
+  // Rounds down so the rounded size never risks more than requested
+  roundToBrokerSize(brokerId: string, symbol: string, lots: number): number {
+    const step = this.getLotStep(brokerId, symbol);
+    const rounded = Math.floor(lots / step + 1e-9) * step;
+    return parseFloat(rounded.toFixed(8));
+  }
+
+  private getATR(symbol: string, timeframe: Timeframe, period: number): number | null {
+    const candles = marketDataService.getCandles(symbol, timeframe, period * 3);
+    return candles.length > period ? latestValue(new ATR(period), candles) : null;
+  }
+
+  // Kelly fraction W - (1 - W) / R from the strategy's closed positions, as a percent of equity
+  private async getKellyRiskPercent(strategyId: string | undefined, profile: Extract<SizingProfile, { method: "KELLY" }>): Promise<number | null> {
+    if (!strategyId) return null;
+
+    const closed = await storage.getClosedPositions(strategyId);
+    const pnls = closed.map(p => parseFloat(p.realizedPnL || "0")).filter(pnl => pnl !== 0);
+    if (pnls.length < profile.minTrades) return null;
+
+    const wins = pnls.filter(pnl => pnl > 0);
+    const losses = pnls.filter(pnl => pnl < 0);
+    if (wins.length === 0) return 0;
+    if (losses.length === 0) return profile.maxRiskPercent;
+
+    const winRate = wins.length / pnls.length;
+    const avgWin = wins.reduce((sum, pnl) => sum + pnl, 0) / wins.length;
+    const avgLoss = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0) / losses.length);
+    const kelly = winRate - (1 - winRate) / (avgWin / avgLoss);
+
+    return Math.max(0, kelly * profile.kellyFraction * 100);
+  }
+}
+
+export const positionSizingService = new PositionSizingService();
+export type { SizingProfile, SizingMethod, SizingRequest, SizingResult };
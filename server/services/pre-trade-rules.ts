@@ -0,0 +1,334 @@
+import { z } from "zod";
+import { db } from "../db";
+import { riskDecisions, riskRuleSettings, RiskDecision } from "@shared/schema";
+import { desc, eq } from "drizzle-orm";
+import { storage, Account, Strategy } from "../storage";
+import { logger } from "./logger";
+
+// Pre-trade checks as registered rules, each with its own config, enable flag and severity.
+// Every evaluation runs all enabled rules and is stored as a decision trace, so the reason
+// an order was approved, resized or blocked can be looked up and replayed later.
+
+export const RULE_SEVERITIES = ["INFO", "WARNING", "CRITICAL"] as const;
+
+type RuleSeverity = typeof RULE_SEVERITIES[number];
+
+interface TradeSignal {
+  accountId?: string;
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: number; // Lots
+  stopLoss?: number;
+  takeProfit?: number;
+  reason?: string;
+}
+
+interface PreTradeContext {
+  signal: TradeSignal; // Quantity already reduced by earlier rules
+  strategy: Strategy;
+  account: Account;
+  requestedQuantity: number;
+}
+
+interface RuleResult {
+  passed: boolean;
+  reason?: string;
+  adjustedQuantity?: number; // Smaller size the rule approves instead of the one asked for
+  details?: Record<string, unknown>;
+}
+
+interface PreTradeRule<TConfig = any> {
+  name: string;
+  description: string;
+  configSchema: z.ZodType<TConfig, z.ZodTypeDef, any>;
+  severity: RuleSeverity; // Default; failed INFO rules are recorded but do not block
+  enabled?: boolean; // Default true
+  required?: boolean; // Cannot be disabled
+  evaluate(context: PreTradeContext, config: TConfig): Promise<RuleResult> | RuleResult;
+}
+
+interface RuleSettings {
+  enabled: boolean;
+  severity: RuleSeverity;
+  config: unknown;
+}
+
+interface RuleDescriptor extends RuleSettings {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface RuleTrace {
+  rule: string;
+  severity: RuleSeverity;
+  status: "PASS" | "ADJUSTED" | "FAILED" | "SKIPPED" | "ERROR";
+  blocking: boolean;
+  reason?: string;
+  quantityIn: number;
+  adjustedQuantity?: number;
+  config?: unknown;
+  details?: Record<string, unknown>;
+  durationMs: number;
+}
+
+interface DecisionInputs {
+  signal: TradeSignal;
+  strategy: { id: string; name: string };
+  account: { id: string; name: string; balance: string; equity: string; status?: string };
+}
+
+interface PreTradeDecision extends Omit<RiskDecision, "inputs" | "trace"> {
+  inputs: DecisionInputs;
+  trace: RuleTrace[];
+}
+
+interface DecisionReplay {
+  original: PreTradeDecision;
+  replay: PreTradeDecision; // Stored signal evaluated against today's rules and account state
+  changed: boolean;
+}
+
+export const ruleSettingsUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(RULE_SEVERITIES).optional(),
+  config: z.record(z.unknown()).optional(), // Merged over the current config
+});
+
+type RuleSettingsUpdate = z.infer<typeof ruleSettingsUpdateSchema>;
+
+class PreTradeRuleRegistry {
+  private rules: PreTradeRule[] = [];
+  private settings = new Map<string, RuleSettings>();
+  private settingsLoaded: Promise<void> | null = null;
+
+  // Rules run in registration order, so later rules see quantities reduced by earlier ones
+  register<TConfig>(rule: PreTradeRule<TConfig>): void {
+    if (this.has(rule.name)) {
+      throw new Error(`Pre-trade rule ${rule.name} is already registered`);
+    }
+    this.rules.push(rule);
+    this.settings.set(rule.name, {
+      enabled: rule.enabled ?? true,
+      severity: rule.severity,
+      config: rule.configSchema.parse({}),
+    });
+
+    // Pick up stored settings for rules registered after the first load
+    this.settingsLoaded = null;
+  }
+
+  has(name: string): boolean {
+    return this.rules.some(rule => rule.name === name);
+  }
+
+  async list(): Promise<RuleDescriptor[]> {
+    await this.loadSettings();
+    return this.rules.map(rule => this.describe(rule));
+  }
+
+  async configure(name: string, update: RuleSettingsUpdate): Promise<RuleDescriptor> {
+    await this.loadSettings();
+    const rule = this.rules.find(r => r.name === name);
+    if (!rule) {
+      throw new Error(`Unknown pre-trade rule: ${name}`);
+    }
+    if (rule.required && update.enabled === false) {
+      throw new Error(`${name} cannot be disabled`);
+    }
+
+    const current = this.settings.get(name)!;
+    const settings: RuleSettings = {
+      enabled: update.enabled ?? current.enabled,
+      severity: update.severity ?? current.severity,
+      config: update.config ? rule.configSchema.parse({ ...(current.config as object), ...update.config }) : current.config,
+    };
+    this.settings.set(name, settings);
+
+    try {
+      await db.insert(riskRuleSettings)
+        .values({ name, ...settings, updatedAt: new Date() })
+        .onConflictDoUpdate({ target: riskRuleSettings.name, set: { ...settings, updatedAt: new Date() } });
+    } catch (error) {
+      logger.error('risk', `Failed to persist settings for rule ${name}: ${(error as Error).message}`);
+    }
+
+    logger.info('risk', `Pre-trade rule ${name} updated: ${settings.enabled ? "enabled" : "disabled"}, ${settings.severity}`);
+    return this.describe(rule);
+  }
+
+  // Runs every enabled rule and records the decision unless `record` is false
+  async evaluate(context: Omit<PreTradeContext, "requestedQuantity">, record = true): Promise<PreTradeDecision> {
+    await this.loadSettings();
+
+    const requestedQuantity = context.signal.quantity;
+    const trace: RuleTrace[] = [];
+    let quantity = requestedQuantity;
+
+    for (const rule of this.rules) {
+      const settings = this.settings.get(rule.name)!;
+      const entry: RuleTrace = {
+        rule: rule.name,
+        severity: settings.severity,
+        status: "SKIPPED",
+        blocking: false,
+        quantityIn: quantity,
+        config: settings.config,
+        durationMs: 0,
+      };
+      trace.push(entry);
+      if (!settings.enabled) continue;
+
+      const startedAt = Date.now();
+      try {
+        const result = await rule.evaluate(
+          { ...context, signal: { ...context.signal, quantity }, requestedQuantity },
+          settings.config
+        );
+        entry.reason = result.reason;
+        entry.details = result.details;
+
+        if (!result.passed) {
+          entry.status = "FAILED";
+          entry.blocking = settings.severity !== "INFO";
+        } else if (result.adjustedQuantity !== undefined && result.adjustedQuantity < quantity) {
+          entry.status = "ADJUSTED";
+          entry.adjustedQuantity = result.adjustedQuantity;
+          quantity = result.adjustedQuantity;
+        } else {
+          entry.status = "PASS";
+        }
+      } catch (error) {
+        // A rule that cannot be evaluated fails closed
+        entry.status = "ERROR";
+        entry.blocking = true;
+        entry.reason = `Rule error: ${(error as Error).message}`;
+      }
+      entry.durationMs = Date.now() - startedAt;
+    }
+
+    const blockedBy = trace.find(entry => entry.blocking);
+    const adjustments = trace.filter(entry => entry.status === "ADJUSTED");
+    const decision: PreTradeDecision = {
+      id: `decision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      accountId: context.account.id,
+      strategyId: context.strategy.id || null,
+      symbol: context.signal.symbol,
+      side: context.signal.side,
+      requestedQuantity,
+      finalQuantity: blockedBy ? 0 : quantity,
+      approved: !blockedBy,
+      reason: blockedBy?.reason ?? (adjustments.length ? adjustments.map(entry => entry.reason).join("; ") : null),
+      inputs: {
+        signal: context.signal,
+        strategy: { id: context.strategy.id, name: context.strategy.name },
+        account: {
+          id: context.account.id,
+          name: context.account.name,
+          balance: context.account.balance,
+          equity: context.account.equity,
+          status: context.account.status,
+        },
+      },
+      trace,
+      createdAt: new Date(),
+    };
+
+    return record ? this.recordDecision(decision) : decision;
+  }
+
+  async getDecisions(filter: { accountId?: string; limit?: number } = {}): Promise<PreTradeDecision[]> {
+    const query = db.select().from(riskDecisions);
+    const rows = await (filter.accountId ? query.where(eq(riskDecisions.accountId, filter.accountId)) : query)
+      .orderBy(desc(riskDecisions.createdAt))
+      .limit(filter.limit ?? 50);
+    return rows as PreTradeDecision[];
+  }
+
+  async getDecision(id: string): Promise<PreTradeDecision | null> {
+    const [row] = await db.select().from(riskDecisions).where(eq(riskDecisions.id, id)).limit(1);
+    return (row as PreTradeDecision) || null;
+  }
+
+  // Re-runs a stored decision's signal through the current rules without recording it
+  async replay(id: string): Promise<DecisionReplay | null> {
+    const original = await this.getDecision(id);
+    if (!original) return null;
+
+    const account = await storage.getAccount(original.accountId);
+    if (!account) {
+      throw new Error(`Account ${original.accountId} no longer exists`);
+    }
+    const strategy = (original.strategyId && await storage.getStrategy(original.strategyId))
+      || ({ ...original.inputs.strategy } as Strategy);
+
+    const replay = await this.evaluate({ signal: original.inputs.signal, strategy, account }, false);
+    return {
+      original,
+      replay,
+      changed: replay.approved !== original.approved || replay.finalQuantity !== original.finalQuantity,
+    };
+  }
+
+  private async recordDecision(decision: PreTradeDecision): Promise<PreTradeDecision> {
+    try {
+      const { id, createdAt, ...values } = decision;
+      const [stored] = await db.insert(riskDecisions).values(values).returning();
+      if (stored) return stored as PreTradeDecision;
+    } catch (error) {
+      logger.error('risk', `Failed to record pre-trade decision: ${(error as Error).message}`, decision.symbol);
+    }
+    return decision;
+  }
+
+  private describe(rule: PreTradeRule): RuleDescriptor {
+    return {
+      name: rule.name,
+      description: rule.description,
+      required: !!rule.required,
+      ...this.settings.get(rule.name)!,
+    };
+  }
+
+  // Stored settings override the defaults; reloaded whenever another rule is registered
+  private loadSettings(): Promise<void> {
+    if (!this.settingsLoaded) {
+      this.settingsLoaded = (async () => {
+        try {
+          const rows = await db.select().from(riskRuleSettings);
+          for (const row of rows) {
+            const rule = this.rules.find(r => r.name === row.name);
+            if (!rule) continue;
+
+            const parsed = rule.configSchema.safeParse(row.config ?? {});
+            if (!parsed.success) {
+              logger.error('risk', `Stored config for rule ${row.name} is invalid, using defaults`);
+            }
+            this.settings.set(row.name, {
+              enabled: rule.required ? true : row.enabled,
+              severity: (RULE_SEVERITIES as readonly string[]).includes(row.severity) ? row.severity as RuleSeverity : rule.severity,
+              config: parsed.success ? parsed.data : this.settings.get(row.name)!.config,
+            });
+          }
+        } catch (error) {
+          logger.error('risk', `Failed to load pre-trade rule settings: ${(error as Error).message}`);
+        }
+      })();
+    }
+    return this.settingsLoaded;
+  }
+}
+
+export const preTradeRules = new PreTradeRuleRegistry();
+export type {
+  RuleSeverity,
+  TradeSignal,
+  PreTradeContext,
+  RuleResult,
+  PreTradeRule,
+  RuleDescriptor,
+  RuleTrace,
+  PreTradeDecision,
+  DecisionReplay,
+  RuleSettingsUpdate,
+};
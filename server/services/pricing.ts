@@ -0,0 +1,126 @@
+// Contract sizes, pip sizes and currency conversion for every P&L and sizing path.
+// Quantities are in lots; money comes back in the requested account currency.
+
+interface InstrumentSpec {
+  symbol: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  contractSize: number; // Base units per lot
+  pipSize: number;
+  digits: number; // Quote precision
+}
+
+// Returns the mid price of a symbol, or null when it is not quoted
+type PriceLookup = (symbol: string) => number | null;
+
+const STANDARD_LOT = 100000;
+
+// Instruments that do not follow the FX defaults
+const INSTRUMENT_OVERRIDES: Record<string, Partial<InstrumentSpec>> = {
+  XAUUSD: { contractSize: 100, pipSize: 0.1, digits: 2 },
+  XAGUSD: { contractSize: 5000, pipSize: 0.01, digits: 3 },
+};
+
+// Crosses are resolved through the most liquid currency
+const PIVOT_CURRENCY = "USD";
+
+class PricingService {
+  getInstrument(symbol: string): InstrumentSpec {
+    const normalized = symbol.toUpperCase();
+    const quoteCurrency = normalized.slice(3, 6);
+    const isJpyQuote = quoteCurrency === "JPY";
+
+    return {
+      symbol: normalized,
+      baseCurrency: normalized.slice(0, 3),
+      quoteCurrency,
+      contractSize: STANDARD_LOT,
+      pipSize: isJpyQuote ? 0.01 : 0.0001,
+      digits: isJpyQuote ? 3 : 5,
+      ...INSTRUMENT_OVERRIDES[normalized],
+    };
+  }
+
+  getPipSize(symbol: string): number {
+    return this.getInstrument(symbol).pipSize;
+  }
+
+  // Price difference expressed in pips
+  toPips(symbol: string, priceDistance: number): number {
+    return priceDistance / this.getPipSize(symbol);
+  }
+
+  // Units of `to` per unit of `from`, from a direct quote, its inverse or a cross through USD
+  getConversionRate(from: string, to: string, lookup: PriceLookup = this.liveMid): number {
+    const rate = this.findRate(from, to, lookup);
+    if (rate !== null) return rate;
+
+    if (from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY) {
+      const toPivot = this.findRate(from, PIVOT_CURRENCY, lookup);
+      const fromPivot = this.findRate(PIVOT_CURRENCY, to, lookup);
+      if (toPivot !== null && fromPivot !== null) return toPivot * fromPivot;
+    }
+
+    throw new Error(`No conversion rate available for ${from}/${to}`);
+  }
+
+  convert(amount: number, from: string, to: string, lookup?: PriceLookup): number {
+    return amount * this.getConversionRate(from, to, lookup);
+  }
+
+  // P&L of `lots` moved from entry to exit, in the account currency
+  calculatePnL(
+    symbol: string,
+    side: string,
+    lots: number,
+    entryPrice: number,
+    exitPrice: number,
+    accountCurrency = "USD",
+    lookup?: PriceLookup
+  ): number {
+    const spec = this.getInstrument(symbol);
+    const priceChange = side === "BUY" ? exitPrice - entryPrice : entryPrice - exitPrice;
+    const quotePnL = priceChange * lots * spec.contractSize;
+    return this.convert(quotePnL, spec.quoteCurrency, accountCurrency, lookup);
+  }
+
+  // Value of a one-pip move on `lots`, in the account currency
+  getPipValue(symbol: string, lots: number, accountCurrency = "USD", lookup?: PriceLookup): number {
+    const spec = this.getInstrument(symbol);
+    return this.convert(spec.pipSize * lots * spec.contractSize, spec.quoteCurrency, accountCurrency, lookup);
+  }
+
+  // Face value of `lots`, in the account currency
+  getNotional(symbol: string, lots: number, accountCurrency = "USD", lookup?: PriceLookup): number {
+    const spec = this.getInstrument(symbol);
+    return this.convert(lots * spec.contractSize, spec.baseCurrency, accountCurrency, lookup);
+  }
+
+  private findRate(from: string, to: string, lookup: PriceLookup): number | null {
+    if (from === to) return 1;
+
+    const direct = lookup(`${from}${to}`);
+    if (direct) return direct;
+
+    const inverse = lookup(`${to}${from}`);
+    if (inverse) return 1 / inverse;
+
+    return null;
+  }
+
+  // Latest live mid price; null until the market data service has attached its quotes
+  getMidPrice(symbol: string): number | null {
+    return this.liveMid(symbol);
+  }
+
+  // Set by the market data service, so this module imports no services and loads on the
+  // backtest worker threads without opening the database
+  setLivePrices(lookup: PriceLookup): void {
+    this.liveMid = lookup;
+  }
+
+  private liveMid: PriceLookup = () => null;
+}
+
+export const pricingService = new PricingService();
+export type { InstrumentSpec, PriceLookup };
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "../db";
+import { equityPeaks, equitySnapshots } from "@shared/schema";
+import { Account } from "../storage";
+import { propRulesService } from "./prop-rules";
+import { startupService } from "./startup";
+
+function account(id: string, equity: number): Account {
+  return {
+    id,
+    userId: "user-1",
+    name: id,
+    balance: "10000",
+    equity: equity.toString(),
+    broker: "Paper",
+    brokerId: "paper",
+    status: "ACTIVE",
+    createdAt: new Date(0).toISOString(),
+  };
+}
+
+// 10% of a 10,000 starting balance: the floor sits 1,000 below the high-water mark
+const TRAILING = propRulesService.parse({ initialBalance: 10000, maxDrawdown: { limitPercent: 10, type: "TRAILING" } });
+
+describe("PropRulesService drawdown floor", () => {
+  beforeAll(async () => {
+    await startupService.initialize();
+
+    // Left by an earlier run; peaks are read once, before the first floor is checked
+    await db.insert(equityPeaks).values({ accountId: "acc-restarted", peak: 12000 });
+    await db.insert(equitySnapshots).values({ accountId: "acc-snapshots", tradingDay: "2026-07-14", rolloverAt: new Date("2026-07-13T21:00:00Z"), balance: 11500, equity: 11200 });
+  });
+
+  it("keeps a static floor at the initial balance less the allowance", async () => {
+    const rules = propRulesService.parse({ initialBalance: 10000, maxDrawdown: { limitPercent: 10 } });
+
+    expect(await propRulesService.getDrawdownFloor(account("acc-static", 12000), rules)).toBe(9000);
+  });
+
+  it("trails the equity high-water mark and never moves back down", async () => {
+    expect(await propRulesService.getDrawdownFloor(account("acc-trailing", 10000), TRAILING)).toBe(9000);
+    expect(await propRulesService.getDrawdownFloor(account("acc-trailing", 12000), TRAILING)).toBe(11000);
+    expect(await propRulesService.getDrawdownFloor(account("acc-trailing", 10500), TRAILING)).toBe(11000);
+  });
+
+  it("starts trailing from the initial balance while equity is below it", async () => {
+    expect(await propRulesService.getDrawdownFloor(account("acc-losing", 9500), TRAILING)).toBe(9000);
+  });
+
+  it("stops raising the floor at the initial balance when locked", async () => {
+    const locked = propRulesService.parse({ initialBalance: 10000, maxDrawdown: { limitPercent: 10, type: "TRAILING", lockAtInitialBalance: true } });
+
+    expect(await propRulesService.getDrawdownFloor(account("acc-locked", 10500), locked)).toBe(9500);
+    expect(await propRulesService.getDrawdownFloor(account("acc-locked", 12000), locked)).toBe(10000);
+  });
+
+  it("stores each new peak", async () => {
+    await propRulesService.getDrawdownFloor(account("acc-stored", 13000), TRAILING);
+
+    const rows = await db.select().from(equityPeaks);
+    expect(rows.find(row => row.accountId === "acc-stored")?.peak).toBe(13000);
+  });
+
+  it("trails from the stored peak after a restart", async () => {
+    expect(await propRulesService.getDrawdownFloor(account("acc-restarted", 10500), TRAILING)).toBe(11000);
+  });
+
+  it("trails from the highest daily snapshot when no peak was stored", async () => {
+    expect(await propRulesService.getDrawdownFloor(account("acc-snapshots", 10500), TRAILING)).toBe(10500);
+  });
+});
@@ -0,0 +1,510 @@
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { equityPeaks, equitySnapshots } from "@shared/schema";
+import { storage, Account, Position } from "../storage";
+import { dailyPnLService } from "./daily-pnl";
+import { logger } from "./logger";
+import { TIMEFRAMES } from "./historical-data";
+import { sessionManager } from "./session-manager";
+
+// Prop-firm challenge rules stored as JSON on accounts.propRules. A "firm" key pulls in
+// that firm's preset, and any other keys override it, e.g.
+// { "firm": "FTMO", "initialBalance": 100000, "maxLotSize": 5 }
+export const PROP_FIRMS = ["FTMO", "MYFOREXFUNDS", "THE5ERS", "CUSTOM"] as const;
+
+export const BREACH_ACTIONS = [
+  "WARN", // Alert only
+  "BLOCK", // Reject new orders while the rule is breached
+  "CLOSE_LOSERS", // Close positions that are losing
+  "FLATTEN", // Close every position and cancel working orders
+  "PAUSE_STRATEGIES", // Pause the strategies bound to the account
+  "LOCK_ACCOUNT", // No trading until the next trading day
+] as const;
+
+const breachActionsSchema = z.array(z.enum(BREACH_ACTIONS)).min(1);
+
+const propRulesObjectSchema = z.object({
+  firm: z.enum(PROP_FIRMS).default("CUSTOM"),
+  initialBalance: z.number().positive().optional(), // Defaults to the balance at the account's first daily snapshot
+  dailyLoss: z.object({
+    limitPercent: z.number().positive().max(100).optional(),
+    limitAmount: z.number().positive().optional(),
+    // Start-of-day value the loss is measured from
+    basis: z.enum(["BALANCE", "EQUITY", "HIGHER_OF"]).default("BALANCE"),
+    // What limitPercent is a percentage of
+    percentOf: z.enum(["INITIAL_BALANCE", "DAY_START"]).default("INITIAL_BALANCE"),
+  }).refine(rule => rule.limitPercent !== undefined || rule.limitAmount !== undefined, {
+    message: "dailyLoss needs limitPercent or limitAmount",
+  }).default({ limitAmount: 5000 }),
+  maxDrawdown: z.object({
+    limitPercent: z.number().positive().max(100),
+    // STATIC measures from the initial balance, TRAILING from the equity high-water mark
+    type: z.enum(["STATIC", "TRAILING"]).default("STATIC"),
+    lockAtInitialBalance: z.boolean().default(false), // Trailing floor stops rising at the initial balance
+  }).default({ limitPercent: 15 }),
+  profitTargetPercent: z.number().positive().optional(),
+  minTradingDays: z.number().int().positive().optional(),
+  maxLotSize: z.number().positive().optional(),
+  maxPositions: z.number().int().positive().default(10),
+  maxExposure: z.number().positive().default(75000), // Notional, in the account currency
+  // Net exposure allowed per currency, in the account currency, e.g. { "EUR": 50000, "JPY": 25000 }
+  currencyLimits: z.record(z.string().regex(/^[A-Z]{3}$/, "Currency codes are three capital letters"), z.number().positive()).default({}),
+  defaultCurrencyLimit: z.number().positive().optional(), // Currencies without their own limit
+  correlation: z.object({
+    threshold: z.number().min(0).max(1).default(0.7), // |correlation| at which two symbols share a cluster
+    maxClusterExposure: z.number().positive().default(50000), // Direction-adjusted notional per cluster
+    timeframe: z.enum(TIMEFRAMES).default("H1"),
+    lookback: z.number().int().min(10).default(100), // Bar returns the correlation is measured over
+  }).default({}),
+  weekendHolding: z.boolean().default(true),
+  newsTrading: z.object({
+    allowed: z.boolean().default(true),
+    windowMinutes: z.number().int().min(0).default(2), // Minutes either side of a high-impact release
+  }).default({}),
+  // Changes to the account's own risk limits (see risk-limits.ts)
+  limitChanges: z.object({
+    allowIntradayLoosening: z.boolean().default(true), // false: raised or removed limits wait for the next rollover
+  }).default({}),
+  consistency: z.object({
+    maxDayProfitPercent: z.number().positive().max(100), // Best day's share of total profit
+  }).optional(),
+  // What the breach monitor does when a rule is breached
+  breachActions: z.object({
+    DAILY_LOSS: breachActionsSchema.default(["BLOCK"]),
+    MAX_DRAWDOWN: breachActionsSchema.default(["BLOCK"]),
+    MAX_LOT_SIZE: breachActionsSchema.default(["WARN"]),
+    WEEKEND_HOLDING: breachActionsSchema.default(["WARN"]),
+    NEWS_TRADING: breachActionsSchema.default(["WARN"]),
+    CONSISTENCY: breachActionsSchema.default(["WARN"]),
+  }).default({}),
+});
+
+// Firm targets and floors are percentages of the starting balance, which must not drift with P&L
+export const propRulesSchema = propRulesObjectSchema.superRefine((rules, ctx) => {
+  if (rules.firm !== "CUSTOM" && rules.initialBalance === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["initialBalance"], message: "initialBalance is required when a firm preset is applied" });
+  }
+});
+
+type PropRules = z.infer<typeof propRulesSchema>;
+type PropRulesInput = z.input<typeof propRulesSchema>;
+type PropFirm = typeof PROP_FIRMS[number];
+type BreachAction = typeof BREACH_ACTIONS[number];
+
+export const PROP_FIRM_PRESETS: Record<Exclude<PropFirm, "CUSTOM">, PropRulesInput> = {
+  FTMO: {
+    firm: "FTMO",
+    dailyLoss: { limitPercent: 5, basis: "BALANCE", percentOf: "INITIAL_BALANCE" },
+    maxDrawdown: { limitPercent: 10, type: "STATIC" },
+    profitTargetPercent: 10,
+    minTradingDays: 4,
+    weekendHolding: false,
+    newsTrading: { allowed: false, windowMinutes: 2 },
+    limitChanges: { allowIntradayLoosening: false },
+    breachActions: {
+      DAILY_LOSS: ["FLATTEN", "LOCK_ACCOUNT"],
+      MAX_DRAWDOWN: ["FLATTEN", "PAUSE_STRATEGIES", "LOCK_ACCOUNT"],
+      WEEKEND_HOLDING: ["FLATTEN"],
+    },
+  },
+  MYFOREXFUNDS: {
+    firm: "MYFOREXFUNDS",
+    dailyLoss: { limitPercent: 5, basis: "HIGHER_OF", percentOf: "DAY_START" },
+    maxDrawdown: { limitPercent: 12, type: "STATIC" },
+    profitTargetPercent: 8,
+    minTradingDays: 5,
+    weekendHolding: true,
+    newsTrading: { allowed: true },
+    limitChanges: { allowIntradayLoosening: false },
+    breachActions: {
+      DAILY_LOSS: ["FLATTEN", "LOCK_ACCOUNT"],
+      MAX_DRAWDOWN: ["FLATTEN", "PAUSE_STRATEGIES", "LOCK_ACCOUNT"],
+    },
+  },
+  THE5ERS: {
+    firm: "THE5ERS",
+    dailyLoss: { limitPercent: 5, basis: "HIGHER_OF", percentOf: "DAY_START" },
+    maxDrawdown: { limitPercent: 10, type: "STATIC" },
+    profitTargetPercent: 8,
+    minTradingDays: 3,
+    weekendHolding: true,
+    newsTrading: { allowed: false, windowMinutes: 2 },
+    limitChanges: { allowIntradayLoosening: false },
+    consistency: { maxDayProfitPercent: 50 },
+    breachActions: {
+      DAILY_LOSS: ["FLATTEN", "LOCK_ACCOUNT"],
+      MAX_DRAWDOWN: ["FLATTEN", "PAUSE_STRATEGIES", "LOCK_ACCOUNT"],
+    },
+  },
+};
+
+type RuleName =
+  | "DAILY_LOSS"
+  | "MAX_DRAWDOWN"
+  | "PROFIT_TARGET"
+  | "MIN_TRADING_DAYS"
+  | "MAX_LOT_SIZE"
+  | "WEEKEND_HOLDING"
+  | "NEWS_TRADING"
+  | "CONSISTENCY";
+
+interface RuleCheck {
+  rule: RuleName;
+  status: "PASS" | "WARNING" | "BREACH" | "PENDING"; // PENDING: objective not reached yet
+  value: number;
+  limit: number;
+  message: string;
+}
+
+interface ComplianceReport {
+  accountId: string;
+  accountName: string;
+  firm: PropFirm;
+  compliant: boolean;
+  checks: RuleCheck[];
+  evaluatedAt: string;
+}
+
+interface DailyLoss {
+  loss: number; // Drop from the start-of-day reference, in the account currency
+  limit: number;
+  reference: number;
+  equity: number;
+}
+
+// Share of a limit used before a check reports WARNING
+const WARNING_THRESHOLD = 0.8;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+class PropRulesService {
+  private equityPeaks = new Map<string, number>();
+  private peaksLoaded: Promise<void> | null = null;
+
+  // Validates raw rules, expanding a firm preset and mapping the legacy flat keys
+  parse(raw: unknown): PropRules {
+    const input = typeof raw === "string" ? JSON.parse(raw) : (raw || {});
+    const { dailyLossLimit, maxDrawdownLimit, ...rest } = input as Record<string, any>;
+
+    const legacy: Record<string, any> = {};
+    if (dailyLossLimit !== undefined && !rest.dailyLoss) legacy.dailyLoss = { limitAmount: dailyLossLimit };
+    if (maxDrawdownLimit !== undefined && !rest.maxDrawdown) legacy.maxDrawdown = { limitPercent: maxDrawdownLimit };
+
+    const preset: Record<string, any> = rest.firm && rest.firm !== "CUSTOM" ? PROP_FIRM_PRESETS[rest.firm as keyof typeof PROP_FIRM_PRESETS] : {};
+    const merged: Record<string, any> = { ...preset, ...legacy, ...rest };
+
+    // Overriding one field of a nested preset rule keeps the rest of it
+    for (const [key, value] of Object.entries(rest)) {
+      if (isPlainObject(value) && isPlainObject(preset[key])) {
+        merged[key] = { ...preset[key], ...value };
+      }
+    }
+    return propRulesSchema.parse(merged);
+  }
+
+  // Preset rules with defaults filled in, before an account's initial balance is known
+  getPresets(): PropRules[] {
+    return Object.values(PROP_FIRM_PRESETS).map(preset => propRulesObjectSchema.parse(preset));
+  }
+
+  // Rules for an account. Invalid stored rules throw rather than fall back to looser defaults,
+  // so the checks that use them fail closed.
+  getRules(account: Account): PropRules {
+    try {
+      return this.parse(account.propRules);
+    } catch (error) {
+      logger.error('risk', `Invalid prop rules on account ${account.name}: ${(error as Error).message}`);
+      throw new Error(`Invalid prop rules on account ${account.name}`);
+    }
+  }
+
+  // Without a configured balance, the first snapshot keeps the target and static floor from moving with realized P&L
+  async getInitialBalance(account: Account, rules: PropRules): Promise<number> {
+    if (rules.initialBalance !== undefined) return rules.initialBalance;
+    return (await dailyPnLService.getFirstSnapshot(account)).balance;
+  }
+
+  // Loss allowed today, in the account currency
+  async getDailyLossLimit(account: Account, rules: PropRules = this.getRules(account)): Promise<number> {
+    const { limitPercent, limitAmount, percentOf } = rules.dailyLoss;
+    if (limitPercent === undefined) return limitAmount!;
+
+    const reference = percentOf === "INITIAL_BALANCE"
+      ? await this.getInitialBalance(account, rules)
+      : await this.getDayStartValue(account, rules);
+    const percentLimit = reference * limitPercent / 100;
+    return limitAmount !== undefined ? Math.min(limitAmount, percentLimit) : percentLimit;
+  }
+
+  // Today's loss measured from the start-of-day balance or equity the rules call for
+  async getDailyLoss(account: Account, rules: PropRules = this.getRules(account)): Promise<DailyLoss> {
+    const dailyPnL = await dailyPnLService.getDailyPnL(account);
+    const reference = await this.getDayStartValue(account, rules);
+    return {
+      loss: Math.max(0, reference - dailyPnL.equity),
+      limit: await this.getDailyLossLimit(account, rules),
+      reference,
+      equity: dailyPnL.equity,
+    };
+  }
+
+  // Equity level below which the max drawdown rule is breached
+  async getDrawdownFloor(account: Account, rules: PropRules = this.getRules(account)): Promise<number> {
+    const initialBalance = await this.getInitialBalance(account, rules);
+    const allowance = initialBalance * rules.maxDrawdown.limitPercent / 100;
+    if (rules.maxDrawdown.type === "STATIC") return initialBalance - allowance;
+
+    const floor = await this.getEquityPeak(account, initialBalance) - allowance;
+    return rules.maxDrawdown.lockAtInitialBalance ? Math.min(floor, initialBalance) : floor;
+  }
+
+  // Rules that `next` raises, removes or otherwise relaxes compared with `current`
+  getLoosened(current: PropRules, next: PropRules): string[] {
+    const loosened: string[] = [];
+    const raised = (name: string, from: number | undefined, to: number | undefined) => {
+      if (from !== undefined && (to === undefined || to > from)) loosened.push(name);
+    };
+    const enabled = (name: string, from: boolean, to: boolean) => {
+      if (!from && to) loosened.push(name);
+    };
+    const changed = (name: string, from: unknown, to: unknown) => {
+      if (JSON.stringify(from) !== JSON.stringify(to)) loosened.push(name);
+    };
+
+    // Moving what the limits are measured from can loosen them either way
+    changed("initialBalance", current.initialBalance, next.initialBalance);
+    changed("dailyLoss.basis", current.dailyLoss.basis, next.dailyLoss.basis);
+    changed("dailyLoss.percentOf", current.dailyLoss.percentOf, next.dailyLoss.percentOf);
+    raised("dailyLoss.limitPercent", current.dailyLoss.limitPercent, next.dailyLoss.limitPercent);
+    raised("dailyLoss.limitAmount", current.dailyLoss.limitAmount, next.dailyLoss.limitAmount);
+    raised("maxDrawdown.limitPercent", current.maxDrawdown.limitPercent, next.maxDrawdown.limitPercent);
+    if (current.maxDrawdown.type === "TRAILING" && next.maxDrawdown.type === "STATIC") loosened.push("maxDrawdown.type");
+    enabled("maxDrawdown.lockAtInitialBalance", current.maxDrawdown.lockAtInitialBalance, next.maxDrawdown.lockAtInitialBalance);
+    raised("maxLotSize", current.maxLotSize, next.maxLotSize);
+    raised("maxPositions", current.maxPositions, next.maxPositions);
+    raised("maxExposure", current.maxExposure, next.maxExposure);
+    for (const [currency, limit] of Object.entries(current.currencyLimits)) {
+      raised(`currencyLimits.${currency}`, limit, next.currencyLimits[currency]);
+    }
+    raised("defaultCurrencyLimit", current.defaultCurrencyLimit, next.defaultCurrencyLimit);
+    raised("correlation.threshold", current.correlation.threshold, next.correlation.threshold);
+    raised("correlation.maxClusterExposure", current.correlation.maxClusterExposure, next.correlation.maxClusterExposure);
+    enabled("weekendHolding", current.weekendHolding, next.weekendHolding);
+    enabled("newsTrading.allowed", current.newsTrading.allowed, next.newsTrading.allowed);
+    if (next.newsTrading.windowMinutes < current.newsTrading.windowMinutes) loosened.push("newsTrading.windowMinutes");
+    enabled("limitChanges.allowIntradayLoosening", current.limitChanges.allowIntradayLoosening, next.limitChanges.allowIntradayLoosening);
+    raised("consistency.maxDayProfitPercent", current.consistency?.maxDayProfitPercent, next.consistency?.maxDayProfitPercent);
+    changed("breachActions", current.breachActions, next.breachActions);
+    return loosened;
+  }
+
+  // Pass the rules in force when the account's own risk limits tighten them (riskLimitsService.getRules)
+  async evaluate(account: Account, rules: PropRules = this.getRules(account)): Promise<ComplianceReport> {
+    const equity = parseFloat(account.equity || account.balance || "0");
+    const initialBalance = await this.getInitialBalance(account, rules);
+    const checks: RuleCheck[] = [];
+
+    // Daily loss from the start-of-day reference
+    const daily = await this.getDailyLoss(account, rules);
+    checks.push(this.limitCheck("DAILY_LOSS", daily.loss, daily.limit,
+      `Daily loss ${daily.loss.toFixed(2)} of ${daily.limit.toFixed(2)} from ${daily.reference.toFixed(2)}`));
+
+    // Max drawdown against the static or trailing floor
+    const floor = await this.getDrawdownFloor(account, rules);
+    const allowance = initialBalance * rules.maxDrawdown.limitPercent / 100;
+    const drawdownUsed = Math.max(0, allowance - (equity - floor));
+    checks.push(this.limitCheck("MAX_DRAWDOWN", drawdownUsed, allowance,
+      `${rules.maxDrawdown.type === "TRAILING" ? "Trailing" : "Static"} drawdown floor ${floor.toFixed(2)}, equity ${equity.toFixed(2)}`));
+
+    if (rules.profitTargetPercent !== undefined) {
+      const target = initialBalance * rules.profitTargetPercent / 100;
+      const profit = equity - initialBalance;
+      checks.push({
+        rule: "PROFIT_TARGET",
+        status: profit >= target ? "PASS" : "PENDING",
+        value: profit,
+        limit: target,
+        message: `Profit ${profit.toFixed(2)} of ${target.toFixed(2)} target`,
+      });
+    }
+
+    if (rules.minTradingDays !== undefined) {
+      const tradingDays = await this.countTradingDays(account.id);
+      checks.push({
+        rule: "MIN_TRADING_DAYS",
+        status: tradingDays >= rules.minTradingDays ? "PASS" : "PENDING",
+        value: tradingDays,
+        limit: rules.minTradingDays,
+        message: `${tradingDays} of ${rules.minTradingDays} trading days`,
+      });
+    }
+
+    const openPositions = await storage.getOpenPositions(account.id);
+
+    if (rules.maxLotSize !== undefined) {
+      const largest = Math.max(0, ...openPositions.map(p => parseFloat(p.quantity || "0")));
+      checks.push({
+        rule: "MAX_LOT_SIZE",
+        status: largest > rules.maxLotSize ? "BREACH" : "PASS",
+        value: largest,
+        limit: rules.maxLotSize,
+        message: `Largest open position ${largest} lots, limit ${rules.maxLotSize}`,
+      });
+    }
+
+    if (!rules.weekendHolding) {
+      checks.push(this.weekendCheck(openPositions));
+    }
+
+    if (!rules.newsTrading.allowed) {
+      checks.push(await this.newsTradingCheck(account.id, rules.newsTrading.windowMinutes));
+    }
+
+    if (rules.consistency) {
+      checks.push(await this.consistencyCheck(account.id, rules.consistency.maxDayProfitPercent));
+    }
+
+    return {
+      accountId: account.id,
+      accountName: account.name,
+      firm: rules.firm,
+      compliant: checks.every(check => check.status !== "BREACH"),
+      checks,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  private async getDayStartValue(account: Account, rules: PropRules): Promise<number> {
+    const snapshot = await dailyPnLService.getSnapshot(account);
+    switch (rules.dailyLoss.basis) {
+      case "EQUITY": return snapshot.equity;
+      case "HIGHER_OF": return Math.max(snapshot.balance, snapshot.equity);
+      default: return snapshot.balance;
+    }
+  }
+
+  // High-water mark since the challenge started; stored whenever it rises
+  private async getEquityPeak(account: Account, initialBalance: number): Promise<number> {
+    await this.loadEquityPeaks();
+    const equity = parseFloat(account.equity || account.balance || "0");
+    const stored = this.equityPeaks.get(account.id);
+    const peak = Math.max(stored ?? initialBalance, initialBalance, equity);
+    if (peak === stored) return peak;
+
+    this.equityPeaks.set(account.id, peak);
+    try {
+      await db.insert(equityPeaks)
+        .values({ accountId: account.id, peak })
+        .onConflictDoUpdate({ target: equityPeaks.accountId, set: { peak, updatedAt: new Date() } });
+    } catch (error) {
+      logger.error('risk', `Failed to persist equity peak for ${account.name}: ${(error as Error).message}`);
+    }
+    return peak;
+  }
+
+  // Stored peaks are read once; accounts without one start from their highest daily snapshot
+  private loadEquityPeaks(): Promise<void> {
+    if (!this.peaksLoaded) {
+      this.peaksLoaded = (async () => {
+        try {
+          const snapshotHighs = await db.select({
+            accountId: equitySnapshots.accountId,
+            peak: sql<number>`max(max(${equitySnapshots.equity}), max(${equitySnapshots.balance}))`,
+          }).from(equitySnapshots).groupBy(equitySnapshots.accountId);
+          for (const row of [...snapshotHighs, ...await db.select().from(equityPeaks)]) {
+            this.equityPeaks.set(row.accountId, Math.max(this.equityPeaks.get(row.accountId) ?? 0, row.peak));
+          }
+        } catch (error) {
+          logger.error('risk', `Failed to load equity peaks: ${(error as Error).message}`);
+          this.peaksLoaded = null; // Retried on the next check rather than trailing from the initial balance for good
+        }
+      })();
+    }
+    return this.peaksLoaded;
+  }
+
+  private limitCheck(rule: RuleName, value: number, limit: number, message: string): RuleCheck {
+    const status = value >= limit ? "BREACH" : value >= limit * WARNING_THRESHOLD ? "WARNING" : "PASS";
+    return { rule, status, value, limit, message };
+  }
+
+  // Positions may not be held from the Friday close until the Sunday open (17:00 New York time)
+  private weekendCheck(openPositions: Position[]): RuleCheck {
+    const market = sessionManager.getMarketStatus();
+    const isWeekend = !market.open;
+    const closingSoon = market.open && market.minutesToClose! <= 120;
+    const count = openPositions.length;
+
+    return {
+      rule: "WEEKEND_HOLDING",
+      status: count === 0 ? "PASS" : isWeekend ? "BREACH" : closingSoon ? "WARNING" : "PASS",
+      value: count,
+      limit: 0,
+      message: count === 0 ? "No positions open" : isWeekend
+        ? `${count} positions held over the weekend`
+        : `${count} positions open${closingSoon ? ", close before the Friday close" : ""}`,
+    };
+  }
+
+  // Fills in the last day that landed within the window around a high-impact release for their symbol
+  private async newsTradingCheck(accountId: string, windowMinutes: number): Promise<RuleCheck> {
+    const since = Date.now() - 24 * 60 * 60000;
+    const newsFills = (await storage.getOrders(accountId)).filter(order =>
+      (order.status === "FILLED" || order.status === "PARTIAL") &&
+      order.filledAt && new Date(order.filledAt).getTime() >= since &&
+      sessionManager.findNewsEvent(order.symbol, windowMinutes, new Date(order.filledAt)) !== null
+    );
+
+    return {
+      rule: "NEWS_TRADING",
+      status: newsFills.length > 0 ? "BREACH" : "PASS",
+      value: newsFills.length,
+      limit: 0,
+      message: newsFills.length > 0
+        ? `${newsFills.length} fills within ${windowMinutes} minutes of high-impact news`
+        : `No fills within ${windowMinutes} minutes of high-impact news`,
+    };
+  }
+
+  private async consistencyCheck(accountId: string, maxDayProfitPercent: number): Promise<RuleCheck> {
+    const closed = (await storage.getClosedPositions()).filter(p => p.accountId === accountId && p.closedAt);
+
+    const dailyProfits = new Map<string, number>();
+    for (const position of closed) {
+      const date = position.closedAt!.slice(0, 10);
+      dailyProfits.set(date, (dailyProfits.get(date) || 0) + parseFloat(position.realizedPnL || "0"));
+    }
+
+    const totalProfit = Array.from(dailyProfits.values()).reduce((sum, pnl) => sum + pnl, 0);
+    const bestDay = Math.max(0, ...Array.from(dailyProfits.values()));
+    if (totalProfit <= 0) {
+      return { rule: "CONSISTENCY", status: "PENDING", value: 0, limit: maxDayProfitPercent, message: "No net profit yet" };
+    }
+
+    const share = (bestDay / totalProfit) * 100;
+    return {
+      rule: "CONSISTENCY",
+      status: share > maxDayProfitPercent ? "BREACH" : "PASS",
+      value: share,
+      limit: maxDayProfitPercent,
+      message: `Best day is ${share.toFixed(1)}% of total profit`,
+    };
+  }
+
+  // Days with at least one fill
+  private async countTradingDays(accountId: string): Promise<number> {
+    const orders = await storage.getOrders(accountId);
+    const days = new Set(
+      orders
+        .filter(order => order.status === "FILLED" || order.status === "PARTIAL")
+        .map(order => (order.filledAt || order.createdAt).slice(0, 10))
+    );
+    return days.size;
+  }
+}
+
+export const propRulesService = new PropRulesService();
+export type { PropRules, PropRulesInput, PropFirm, BreachAction, RuleName, RuleCheck, ComplianceReport, DailyLoss };
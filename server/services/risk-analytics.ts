@@ -0,0 +1,363 @@
+import { z } from "zod";
+import { storage, Account, Position } from "../storage";
+import { historicalDataService, Timeframe } from "./historical-data";
+import { pricingService } from "./pricing";
+
+// Value-at-Risk, Expected Shortfall and stress tests for an account's open positions.
+// Each position is reduced to its P&L per unit return of its symbol (its delta), and the
+// portfolio is revalued against daily returns from stored bar history.
+
+export const VAR_METHODS = ["HISTORICAL", "PARAMETRIC", "MONTE_CARLO"] as const;
+
+export const varOptionsSchema = z.object({
+  confidence: z.coerce.number().gt(0.5).lt(1).default(0.95),
+  horizonDays: z.coerce.number().int().positive().max(30).default(1),
+  lookbackDays: z.coerce.number().int().min(30).max(2000).default(250),
+  simulations: z.coerce.number().int().min(1000).max(100000).default(10000),
+});
+
+type VaROptions = z.infer<typeof varOptionsSchema>;
+type VaRMethod = typeof VAR_METHODS[number];
+
+interface VaRResult {
+  method: VaRMethod;
+  valueAtRisk: number; // Loss not exceeded at the confidence level, as a positive amount
+  expectedShortfall: number; // Average loss beyond the VaR
+  percentOfEquity: number;
+}
+
+// Currency shocks move a currency against every other, e.g. { USD: 0.03 } is USD +3%;
+// symbol shocks set a symbol's return directly and win over currency shocks
+interface StressScenario {
+  name: string;
+  description: string;
+  currencyShocks?: Record<string, number>;
+  symbolShocks?: Record<string, number>;
+}
+
+interface StressPositionImpact {
+  positionId: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  priceChangePercent: number;
+  pnl: number;
+}
+
+interface StressResult {
+  scenario: string;
+  description: string;
+  pnl: number;
+  percentOfEquity: number;
+  positions: StressPositionImpact[];
+}
+
+interface RiskAnalyticsReport {
+  accountId: string;
+  accountName: string;
+  accountCurrency: string;
+  equity: number;
+  options: VaROptions;
+  observations: number; // Aligned daily returns the estimates use
+  results: VaRResult[];
+  stress: StressResult[];
+  warnings: string[];
+  evaluatedAt: string;
+}
+
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    name: "SNB 2015 CHF shock",
+    description: "Swiss franc floor removed on 15 Jan 2015; CHF gained about 20% within minutes",
+    currencyShocks: { CHF: 0.2 },
+  },
+  {
+    name: "USD +3%",
+    description: "Broad US dollar rally",
+    currencyShocks: { USD: 0.03 },
+  },
+  {
+    name: "USD -3%",
+    description: "Broad US dollar sell-off",
+    currencyShocks: { USD: -0.03 },
+  },
+  {
+    name: "Brexit vote 2016",
+    description: "GBP fell about 8% overnight after the EU referendum",
+    currencyShocks: { GBP: -0.08 },
+  },
+  {
+    name: "JPY flash crash 2019",
+    description: "Yen spiked during thin liquidity on 3 Jan 2019",
+    currencyShocks: { JPY: 0.04, AUD: -0.02 },
+  },
+  {
+    name: "Risk-off",
+    description: "Flight to safe havens: JPY and CHF up, commodity currencies down",
+    currencyShocks: { JPY: 0.03, CHF: 0.02, AUD: -0.03, NZD: -0.03, CAD: -0.015 },
+  },
+];
+
+// Daily bars are reused across requests until they are this old
+const RETURNS_CACHE_TTL_MS = 15 * 60 * 1000;
+const RETURNS_TIMEFRAME: Timeframe = "D1";
+const MIN_OBSERVATIONS = 20;
+
+// Inverse of the standard normal CDF (Acklam's rational approximation)
+function inverseNormal(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -inverseNormal(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function normalDensity(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// Standard normal sample (Box-Muller)
+function randomNormal(): number {
+  let u = 0;
+  while (u === 0) u = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
+
+// Lower-triangular L with L * L' = matrix; a small ridge keeps near-singular matrices factorable
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array(n).fill(0));
+  const ridge = 1e-12;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, ridge)) : sum / lower[j][j];
+    }
+  }
+  return lower;
+}
+
+// VaR and ES from simulated or historical P&L outcomes
+function tailMeasures(pnls: number[], confidence: number): { valueAtRisk: number; expectedShortfall: number } {
+  const sorted = [...pnls].sort((a, b) => a - b);
+  const cutoff = Math.max(0, Math.floor((1 - confidence) * sorted.length) - 1);
+  const tail = sorted.slice(0, cutoff + 1);
+  return {
+    valueAtRisk: Math.max(0, -sorted[cutoff]),
+    expectedShortfall: Math.max(0, -tail.reduce((sum, pnl) => sum + pnl, 0) / tail.length),
+  };
+}
+
+class RiskAnalyticsService {
+  private returnsCache = new Map<string, { loadedAt: number; returns: Map<number, number> }>();
+
+  getScenarios(): StressScenario[] {
+    return STRESS_SCENARIOS;
+  }
+
+  async getReport(account: Account, options: Partial<VaROptions> = {}, scenarios: StressScenario[] = STRESS_SCENARIOS): Promise<RiskAnalyticsReport> {
+    const settings = varOptionsSchema.parse(options);
+    const accountCurrency = account.baseCurrency || "USD";
+    const equity = parseFloat(account.equity || "0");
+    const positions = await storage.getOpenPositions(account.id);
+    const warnings: string[] = [];
+
+    // P&L per unit return, summed per symbol so offsetting positions net out
+    const deltas = new Map<string, number>();
+    for (const position of positions) {
+      const delta = this.getDelta(position, accountCurrency);
+      if (delta === null) {
+        warnings.push(`No price for ${position.symbol}; position ${position.id} left out`);
+        continue;
+      }
+      deltas.set(position.symbol, (deltas.get(position.symbol) || 0) + delta);
+    }
+
+    const symbols = Array.from(deltas.keys());
+    const returns = await this.getAlignedReturns(symbols, settings.lookbackDays);
+    const results: VaRResult[] = [];
+
+    if (symbols.length > 0 && returns.length < MIN_OBSERVATIONS) {
+      warnings.push(`Only ${returns.length} aligned daily returns in stored history; at least ${MIN_OBSERVATIONS} are needed for VaR`);
+    } else if (symbols.length > 0) {
+      const exposure = symbols.map(symbol => deltas.get(symbol)!);
+      const toResult = (method: VaRMethod, measures: { valueAtRisk: number; expectedShortfall: number }): VaRResult => ({
+        method,
+        ...measures,
+        percentOfEquity: equity > 0 ? (measures.valueAtRisk / equity) * 100 : 0,
+      });
+
+      results.push(toResult("HISTORICAL", this.historical(exposure, returns, settings)));
+      results.push(toResult("PARAMETRIC", this.parametric(exposure, returns, settings)));
+      results.push(toResult("MONTE_CARLO", this.monteCarlo(exposure, returns, settings)));
+    }
+
+    return {
+      accountId: account.id,
+      accountName: account.name,
+      accountCurrency,
+      equity,
+      options: settings,
+      observations: returns.length,
+      results,
+      stress: scenarios.map(scenario => this.runScenario(scenario, positions, accountCurrency, equity)),
+      warnings,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Full revaluation of every position at the shocked prices
+  runScenario(scenario: StressScenario, positions: Position[], accountCurrency: string, equity: number): StressResult {
+    const impacts: StressPositionImpact[] = [];
+
+    for (const position of positions) {
+      const price = this.getPrice(position);
+      if (price === null) continue;
+
+      const change = this.getScenarioReturn(scenario, position.symbol);
+      const quantity = parseFloat(position.quantity || "0");
+      const pnl = pricingService.calculatePnL(position.symbol, position.side, quantity, price, price * (1 + change), accountCurrency);
+      impacts.push({
+        positionId: position.id,
+        symbol: position.symbol,
+        side: position.side,
+        quantity,
+        priceChangePercent: change * 100,
+        pnl,
+      });
+    }
+
+    const pnl = impacts.reduce((sum, impact) => sum + impact.pnl, 0);
+    return {
+      scenario: scenario.name,
+      description: scenario.description,
+      pnl,
+      percentOfEquity: equity > 0 ? (pnl / equity) * 100 : 0,
+      positions: impacts,
+    };
+  }
+
+  // A BASE/QUOTE pair moves by how much the base gains on the quote
+  private getScenarioReturn(scenario: StressScenario, symbol: string): number {
+    const direct = scenario.symbolShocks?.[symbol];
+    if (direct !== undefined) return direct;
+
+    const spec = pricingService.getInstrument(symbol);
+    const base = scenario.currencyShocks?.[spec.baseCurrency] || 0;
+    const quote = scenario.currencyShocks?.[spec.quoteCurrency] || 0;
+    return (1 + base) / (1 + quote) - 1;
+  }
+
+  // Revalue the portfolio on each historical day's returns, scaled to the horizon
+  private historical(exposure: number[], returns: number[][], options: VaROptions) {
+    const scale = Math.sqrt(options.horizonDays);
+    const pnls = returns.map(day => day.reduce((sum, r, i) => sum + exposure[i] * r, 0) * scale);
+    return tailMeasures(pnls, options.confidence);
+  }
+
+  // Normal portfolio P&L with mean and variance from the return covariance
+  private parametric(exposure: number[], returns: number[][], options: VaROptions) {
+    const { means, covariance } = this.getMoments(returns);
+    const mean = exposure.reduce((sum, delta, i) => sum + delta * means[i], 0) * options.horizonDays;
+    let variance = 0;
+    for (let i = 0; i < exposure.length; i++) {
+      for (let j = 0; j < exposure.length; j++) {
+        variance += exposure[i] * exposure[j] * covariance[i][j];
+      }
+    }
+    const sigma = Math.sqrt(Math.max(variance, 0) * options.horizonDays);
+    const z = inverseNormal(1 - options.confidence);
+
+    return {
+      valueAtRisk: Math.max(0, -(mean + z * sigma)),
+      expectedShortfall: Math.max(0, -(mean - sigma * normalDensity(z) / (1 - options.confidence))),
+    };
+  }
+
+  // Correlated normal returns drawn through the Cholesky factor of the covariance
+  private monteCarlo(exposure: number[], returns: number[][], options: VaROptions) {
+    const { means, covariance } = this.getMoments(returns);
+    const lower = cholesky(covariance);
+    const scale = Math.sqrt(options.horizonDays);
+    const pnls: number[] = [];
+
+    for (let n = 0; n < options.simulations; n++) {
+      const shocks = exposure.map(() => randomNormal());
+      let pnl = 0;
+      for (let i = 0; i < exposure.length; i++) {
+        let correlated = 0;
+        for (let k = 0; k <= i; k++) correlated += lower[i][k] * shocks[k];
+        pnl += exposure[i] * (means[i] * options.horizonDays + correlated * scale);
+      }
+      pnls.push(pnl);
+    }
+
+    return tailMeasures(pnls, options.confidence);
+  }
+
+  private getMoments(returns: number[][]): { means: number[]; covariance: number[][] } {
+    const n = returns.length;
+    const width = returns[0]?.length || 0;
+    const means = Array.from({ length: width }, (_, i) => returns.reduce((sum, day) => sum + day[i], 0) / n);
+    const covariance = means.map((_, i) => means.map((__, j) =>
+      returns.reduce((sum, day) => sum + (day[i] - means[i]) * (day[j] - means[j]), 0) / Math.max(1, n - 1)
+    ));
+    return { means, covariance };
+  }
+
+  private getDelta(position: Position, accountCurrency: string): number | null {
+    const price = this.getPrice(position);
+    if (price === null) return null;
+
+    // P&L of a 1% move, scaled to a unit return
+    const quantity = parseFloat(position.quantity || "0");
+    return pricingService.calculatePnL(position.symbol, position.side, quantity, price, price * 1.01, accountCurrency) / 0.01;
+  }
+
+  private getPrice(position: Position): number | null {
+    const price = pricingService.getMidPrice(position.symbol) ?? parseFloat(position.currentPrice || position.avgPrice || "0");
+    return price > 0 ? price : null;
+  }
+
+  // Daily returns on the dates every symbol has a bar, one row per date in symbol order
+  private async getAlignedReturns(symbols: string[], lookbackDays: number): Promise<number[][]> {
+    if (symbols.length === 0) return [];
+
+    const series = await Promise.all(symbols.map(symbol => this.getReturns(symbol, lookbackDays)));
+    const dates = Array.from(series[0].keys()).filter(date => series.every(returns => returns.has(date)));
+    return dates.sort((a, b) => a - b).map(date => series.map(returns => returns.get(date)!));
+  }
+
+  private async getReturns(symbol: string, lookbackDays: number): Promise<Map<number, number>> {
+    const key = `${symbol}:${lookbackDays}`;
+    const cached = this.returnsCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < RETURNS_CACHE_TTL_MS) return cached.returns;
+
+    const bars = await historicalDataService.getRecentBars(symbol, RETURNS_TIMEFRAME, lookbackDays + 1);
+    const returns = new Map<number, number>();
+    for (let i = 1; i < bars.length; i++) {
+      if (bars[i - 1].close > 0) {
+        returns.set(bars[i].timestamp.getTime(), bars[i].close / bars[i - 1].close - 1);
+      }
+    }
+
+    this.returnsCache.set(key, { loadedAt: Date.now(), returns });
+    return returns;
+  }
+}
+
+export const riskAnalyticsService = new RiskAnalyticsService();
+export type { VaROptions, VaRMethod, VaRResult, StressScenario, StressResult, StressPositionImpact, RiskAnalyticsReport };
@@ -0,0 +1,410 @@
+import { z } from "zod";
+import { db } from "../db";
+import { riskLimitVersions, RiskLimitVersion } from "@shared/schema";
+import { storage, Account } from "../storage";
+import { logger } from "./logger";
+import { dailyPnLService } from "./daily-pnl";
+import { propRulesService, PropRules } from "./prop-rules";
+
+// Risk limits set per account or per strategy on top of the prop rules. They can only make
+// the prop rules stricter. Every change is stored as a new version with the time it takes
+// effect, so the limits in force at any moment, and who set them, can be traced afterwards.
+// Changes to an account's prop rules are versioned the same way, under the PROP_RULES scope.
+
+export const RISK_LIMIT_SCOPES = ["ACCOUNT", "STRATEGY"] as const;
+
+export const riskLimitsSchema = z.object({
+  dailyLossLimit: z.number().positive().optional(), // Account currency
+  maxDrawdownPercent: z.number().positive().max(100).optional(),
+  maxExposure: z.number().positive().optional(), // Notional, in the account currency
+  maxPositions: z.number().int().positive().optional(),
+  maxLotSize: z.number().positive().optional(),
+  riskPerTradePercent: z.number().positive().max(100).optional(), // Caps position sizing
+}).strict();
+
+export const riskLimitsUpdateSchema = z.object({
+  limits: riskLimitsSchema, // The full set; limits left out are removed
+  reason: z.string().trim().min(1, "A reason is required"),
+  effectiveFrom: z.coerce.date().optional(), // Defaults to now, or the next rollover for held loosening
+});
+
+// Raw prop rules as stored on the account, e.g. { "firm": "FTMO", "initialBalance": 100000 }
+export const propRulesUpdateSchema = z.object({
+  rules: z.record(z.unknown()),
+  reason: z.string().trim().min(1, "A reason is required"),
+  effectiveFrom: z.coerce.date().optional(), // Defaults to now, or the next rollover for held loosening
+});
+
+type RiskLimitScope = typeof RISK_LIMIT_SCOPES[number];
+type VersionScope = RiskLimitScope | "PROP_RULES";
+type RiskLimits = z.infer<typeof riskLimitsSchema>;
+type RiskLimitsUpdate = z.infer<typeof riskLimitsUpdateSchema>;
+type PropRulesUpdate = z.infer<typeof propRulesUpdateSchema>;
+type RiskLimitName = keyof RiskLimits;
+
+// Strategies share their accounts' loss and drawdown budget, so only these apply to them
+const STRATEGY_LIMITS: RiskLimitName[] = ["maxExposure", "maxPositions", "maxLotSize", "riskPerTradePercent"];
+
+interface RiskLimitVersionView extends Omit<RiskLimitVersion, "limits"> {
+  limits: RiskLimits;
+  status: "ACTIVE" | "PENDING" | "SUPERSEDED";
+}
+
+interface EffectiveLimit {
+  value: number | null; // The stricter of the prop rule and the account limit
+  propRule: number | null;
+  limit: number | null;
+  source: "PROP_RULES" | "RISK_LIMIT" | null;
+}
+
+interface RiskLimitsView {
+  scope: RiskLimitScope;
+  scopeId: string;
+  current: RiskLimitVersionView | null;
+  pending: RiskLimitVersionView[];
+  effective?: Record<RiskLimitName, EffectiveLimit>; // Accounts only
+  intradayLoosening: boolean;
+}
+
+interface RiskLimitChange {
+  versions: RiskLimitVersionView[]; // Two when a mixed change tightens now and loosens at the rollover
+  loosened: RiskLimitName[];
+  deferredUntil: string | null;
+}
+
+interface PropRulesVersionView extends Omit<RiskLimitVersion, "limits"> {
+  rules: Record<string, unknown>;
+  status: "ACTIVE" | "PENDING" | "SUPERSEDED";
+}
+
+interface PropRulesChange {
+  version: PropRulesVersionView;
+  loosened: string[];
+  deferredUntil: string | null;
+}
+
+interface ChangePlan<Name extends string = RiskLimitName> {
+  loosened: Name[];
+  restricted: boolean; // Prop rules hold loosening until the next rollover
+  effectiveFrom: Date;
+  deferredUntil: Date | null;
+  conflict?: string;
+}
+
+class RiskLimitsService {
+  private versions = new Map<string, RiskLimitVersion[]>(); // scope:scopeId, oldest first
+  private loaded: Promise<void> | null = null;
+
+  // Limits in force now; an empty object when none have been set
+  async getLimits(scope: RiskLimitScope, scopeId: string, at: Date = new Date()): Promise<RiskLimits> {
+    return (await this.getCurrentVersion(scope, scopeId, at))?.limits as RiskLimits ?? {};
+  }
+
+  // The account's prop rules tightened by its own limits
+  async getRules(account: Account, rules?: PropRules): Promise<PropRules> {
+    rules = rules ?? await this.getPropRules(account);
+    const limits = await this.getLimits("ACCOUNT", account.id);
+    return {
+      ...rules,
+      dailyLoss: limits.dailyLossLimit !== undefined
+        ? { ...rules.dailyLoss, limitAmount: Math.min(rules.dailyLoss.limitAmount ?? Infinity, limits.dailyLossLimit) }
+        : rules.dailyLoss,
+      maxDrawdown: limits.maxDrawdownPercent !== undefined
+        ? { ...rules.maxDrawdown, limitPercent: Math.min(rules.maxDrawdown.limitPercent, limits.maxDrawdownPercent) }
+        : rules.maxDrawdown,
+      maxPositions: Math.min(rules.maxPositions, limits.maxPositions ?? Infinity),
+      maxExposure: Math.min(rules.maxExposure, limits.maxExposure ?? Infinity),
+      maxLotSize: limits.maxLotSize !== undefined ? Math.min(rules.maxLotSize ?? Infinity, limits.maxLotSize) : rules.maxLotSize,
+    };
+  }
+
+  // Highest risk per trade allowed by the account and strategy limits, if either sets one
+  async getRiskPerTradeCap(accountId: string, strategyId?: string): Promise<number | undefined> {
+    const caps = [
+      (await this.getLimits("ACCOUNT", accountId)).riskPerTradePercent,
+      strategyId ? (await this.getLimits("STRATEGY", strategyId)).riskPerTradePercent : undefined,
+    ].filter((cap): cap is number => cap !== undefined);
+    return caps.length ? Math.min(...caps) : undefined;
+  }
+
+  async getView(scope: RiskLimitScope, scopeId: string): Promise<RiskLimitsView> {
+    const history = await this.getHistory(scope, scopeId);
+    const view: RiskLimitsView = {
+      scope,
+      scopeId,
+      current: history.find(version => version.status === "ACTIVE") ?? null,
+      pending: history.filter(version => version.status === "PENDING"),
+      intradayLoosening: !(await this.isLooseningRestricted(scope, scopeId)),
+    };
+
+    if (scope === "ACCOUNT") {
+      const account = await storage.getAccount(scopeId);
+      if (account) view.effective = await this.getEffectiveLimits(account, view.current?.limits ?? {});
+    }
+    return view;
+  }
+
+  // Every version, newest first
+  async getHistory(scope: RiskLimitScope, scopeId: string): Promise<RiskLimitVersionView[]> {
+    const versions = await this.getVersions(scope, scopeId);
+    const now = new Date();
+    const current = await this.getCurrentVersion(scope, scopeId, now);
+
+    return versions.slice().reverse().map(version => ({
+      ...version,
+      limits: version.limits as RiskLimits,
+      status: version.id === current?.id
+        ? "ACTIVE"
+        : version.effectiveFrom > now && version.version > (current?.version ?? 0) ? "PENDING" : "SUPERSEDED",
+    }));
+  }
+
+  // Limits that only apply to accounts
+  getUnsupportedLimits(scope: RiskLimitScope, limits: RiskLimits): RiskLimitName[] {
+    if (scope === "ACCOUNT") return [];
+    return (Object.keys(limits) as RiskLimitName[]).filter(name => !STRATEGY_LIMITS.includes(name));
+  }
+
+  // Prop rules in force now. A versioned change is copied onto the account row the first
+  // time it is read after taking effect, so a held loosening lands at the rollover.
+  async getPropRules(account: Account): Promise<PropRules> {
+    const version = await this.getCurrentVersion("PROP_RULES", account.id, new Date());
+    if (version && JSON.stringify(version.limits) !== JSON.stringify(account.propRules)) {
+      account = await storage.updateAccount(account.id, { propRules: version.limits });
+    }
+    return propRulesService.getRules(account);
+  }
+
+  // Prop rule versions, newest first
+  async getPropRulesHistory(accountId: string): Promise<PropRulesVersionView[]> {
+    const versions = await this.getVersions("PROP_RULES", accountId);
+    const now = new Date();
+    const current = await this.getCurrentVersion("PROP_RULES", accountId, now);
+
+    return versions.slice().reverse().map(({ limits, ...version }) => ({
+      ...version,
+      rules: limits as Record<string, unknown>,
+      status: version.id === current?.id
+        ? "ACTIVE"
+        : version.effectiveFrom > now && version.version > (current?.version ?? 0) ? "PENDING" : "SUPERSEDED",
+    }));
+  }
+
+  // Works out when a change can take effect; `conflict` is set when it asks for a loosening too early
+  async planChange(scope: RiskLimitScope, scopeId: string, update: RiskLimitsUpdate): Promise<ChangePlan> {
+    const current = await this.getLimits(scope, scopeId);
+    const loosened = this.getLoosened(current, update.limits);
+    const restricted = loosened.length > 0 && await this.isLooseningRestricted(scope, scopeId);
+    return this.schedule(loosened, restricted, update.effectiveFrom);
+  }
+
+  // Prop rule changes that loosen anything are held whole, the same way as loosened limits
+  async planPropRulesChange(account: Account, update: PropRulesUpdate): Promise<ChangePlan<string>> {
+    const current = await this.getPropRules(account);
+    const loosened = propRulesService.getLoosened(current, propRulesService.parse(update.rules));
+    const restricted = loosened.length > 0 && !current.limitChanges.allowIntradayLoosening;
+    return this.schedule(loosened, restricted, update.effectiveFrom);
+  }
+
+  async setPropRules(account: Account, update: PropRulesUpdate, createdBy: string): Promise<PropRulesChange> {
+    const plan = await this.planPropRulesChange(account, update);
+    if (plan.conflict) {
+      throw new Error(plan.conflict);
+    }
+
+    const version = await this.saveVersion("PROP_RULES", account.id, update.rules, plan.effectiveFrom, createdBy, update.reason);
+    await this.getPropRules(account);
+
+    logger.info('risk', `Account ${account.name} prop rules set to version ${version.version} by ${createdBy}${plan.deferredUntil ? `, loosening held until ${plan.deferredUntil.toISOString()}` : ""}`, undefined, {
+      rules: update.rules,
+      reason: update.reason,
+      loosened: plan.loosened,
+    });
+
+    const history = await this.getPropRulesHistory(account.id);
+    return {
+      version: history.find(entry => entry.id === version.id)!,
+      loosened: plan.loosened,
+      deferredUntil: plan.deferredUntil?.toISOString() ?? null,
+    };
+  }
+
+  private schedule<Name extends string>(loosened: Name[], restricted: boolean, effectiveFrom?: Date): ChangePlan<Name> {
+    const now = new Date();
+    const requested = effectiveFrom && effectiveFrom > now ? effectiveFrom : now;
+
+    if (!restricted) {
+      return { loosened, restricted, effectiveFrom: requested, deferredUntil: null };
+    }
+
+    const nextRollover = dailyPnLService.getNextRollover(now);
+    if (effectiveFrom && effectiveFrom < nextRollover) {
+      return {
+        loosened,
+        restricted,
+        effectiveFrom: requested,
+        deferredUntil: nextRollover,
+        conflict: `The prop rules do not allow loosening ${loosened.join(", ")} before the next rollover at ${nextRollover.toISOString()}`,
+      };
+    }
+    return { loosened, restricted, effectiveFrom: effectiveFrom ?? nextRollover, deferredUntil: nextRollover };
+  }
+
+  async setLimits(scope: RiskLimitScope, scopeId: string, update: RiskLimitsUpdate, createdBy: string): Promise<RiskLimitChange> {
+    const plan = await this.planChange(scope, scopeId, update);
+    if (plan.conflict) {
+      throw new Error(plan.conflict);
+    }
+
+    const created: RiskLimitVersion[] = [];
+    if (plan.restricted && !update.effectiveFrom) {
+      // Tighter limits in a held change still apply straight away
+      const current = await this.getLimits(scope, scopeId);
+      const tightened = { ...current };
+      for (const name of Object.keys(update.limits) as RiskLimitName[]) {
+        if (!plan.loosened.includes(name)) tightened[name] = update.limits[name];
+      }
+      // Only worth a version of its own when something actually got stricter
+      if (this.getLoosened(tightened, current).length > 0) {
+        created.push(await this.saveVersion(scope, scopeId, tightened, new Date(), createdBy, update.reason));
+      }
+    }
+    created.push(await this.saveVersion(scope, scopeId, update.limits, plan.effectiveFrom, createdBy, update.reason));
+
+    const history = await this.getHistory(scope, scopeId);
+    logger.info('risk', `${scope} ${scopeId} risk limits set to version ${created[created.length - 1].version} by ${createdBy}${plan.deferredUntil ? `, loosening held until ${plan.deferredUntil.toISOString()}` : ""}`, undefined, {
+      limits: update.limits,
+      reason: update.reason,
+      loosened: plan.loosened,
+    });
+
+    return {
+      versions: created.map(version => history.find(entry => entry.id === version.id)!),
+      loosened: plan.loosened,
+      deferredUntil: plan.deferredUntil?.toISOString() ?? null,
+    };
+  }
+
+  private async getEffectiveLimits(account: Account, limits: RiskLimits): Promise<Record<RiskLimitName, EffectiveLimit>> {
+    const rules = await this.getPropRules(account);
+    const propRules: Record<RiskLimitName, number | null> = {
+      dailyLossLimit: await propRulesService.getDailyLossLimit(account, rules),
+      maxDrawdownPercent: rules.maxDrawdown.limitPercent,
+      maxExposure: rules.maxExposure,
+      maxPositions: rules.maxPositions,
+      maxLotSize: rules.maxLotSize ?? null,
+      riskPerTradePercent: null,
+    };
+
+    const effective = {} as Record<RiskLimitName, EffectiveLimit>;
+    for (const name of Object.keys(propRules) as RiskLimitName[]) {
+      const propRule = propRules[name];
+      const limit = limits[name] ?? null;
+      const useLimit = limit !== null && (propRule === null || limit < propRule);
+      effective[name] = {
+        value: useLimit ? limit : propRule,
+        propRule,
+        limit,
+        source: useLimit ? "RISK_LIMIT" : propRule !== null ? "PROP_RULES" : null,
+      };
+    }
+    return effective;
+  }
+
+  // Limits raised or removed by `next`
+  private getLoosened(current: RiskLimits, next: RiskLimits): RiskLimitName[] {
+    return (Object.keys(current) as RiskLimitName[]).filter(name => {
+      const value = next[name];
+      return value === undefined || value > current[name]!;
+    });
+  }
+
+  // A strategy is held to the strictest of the accounts it trades
+  private async isLooseningRestricted(scope: RiskLimitScope, scopeId: string): Promise<boolean> {
+    let accounts: Account[] = [];
+    if (scope === "ACCOUNT") {
+      const account = await storage.getAccount(scopeId);
+      if (account) accounts = [account];
+    } else {
+      const strategy = await storage.getStrategy(scopeId);
+      for (const accountId of strategy?.accountIds || []) {
+        const account = await storage.getAccount(accountId);
+        if (account) accounts.push(account);
+      }
+    }
+    for (const account of accounts) {
+      if (!(await this.getPropRules(account)).limitChanges.allowIntradayLoosening) return true;
+    }
+    return false;
+  }
+
+  // The newest version that has taken effect; a later version supersedes an older one still pending
+  private async getCurrentVersion(scope: VersionScope, scopeId: string, at: Date): Promise<RiskLimitVersion | null> {
+    const versions = await this.getVersions(scope, scopeId);
+    for (let i = versions.length - 1; i >= 0; i--) {
+      if (versions[i].effectiveFrom <= at) return versions[i];
+    }
+    return null;
+  }
+
+  private async getVersions(scope: VersionScope, scopeId: string): Promise<RiskLimitVersion[]> {
+    await this.load();
+    return this.versions.get(`${scope}:${scopeId}`) || [];
+  }
+
+  private async saveVersion(
+    scope: VersionScope,
+    scopeId: string,
+    limits: RiskLimits | Record<string, unknown>,
+    effectiveFrom: Date,
+    createdBy: string,
+    reason: string
+  ): Promise<RiskLimitVersion> {
+    const versions = await this.getVersions(scope, scopeId);
+    const values = {
+      scope,
+      scopeId,
+      version: (versions[versions.length - 1]?.version ?? 0) + 1,
+      limits,
+      effectiveFrom,
+      createdBy,
+      reason,
+    };
+
+    let version: RiskLimitVersion = {
+      id: `limits_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...values,
+      createdAt: new Date(),
+    };
+    try {
+      const [stored] = await db.insert(riskLimitVersions).values(values).returning();
+      if (stored) version = stored;
+    } catch (error) {
+      logger.error('risk', `Failed to persist ${scope} ${scopeId} risk limits: ${(error as Error).message}`);
+    }
+
+    this.versions.set(`${scope}:${scopeId}`, [...versions, version]);
+    return version;
+  }
+
+  // Stored versions are read once; later changes go through saveVersion
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const rows = await db.select().from(riskLimitVersions);
+          for (const row of rows.sort((a, b) => a.version - b.version)) {
+            const key = `${row.scope}:${row.scopeId}`;
+            this.versions.set(key, [...(this.versions.get(key) || []), row]);
+          }
+        } catch (error) {
+          logger.error('risk', `Failed to load risk limits: ${(error as Error).message}`);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+export const riskLimitsService = new RiskLimitsService();
+export type { RiskLimitScope, RiskLimits, RiskLimitsUpdate, PropRulesUpdate, PropRulesVersionView, PropRulesChange, RiskLimitName, RiskLimitVersionView, RiskLimitsView, RiskLimitChange, EffectiveLimit };
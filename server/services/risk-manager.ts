@@ -1,11 +1,25 @@
-import { Account, Strategy, RiskEvent, InsertRiskEvent } from "@shared/schema";
-import { storage } from "../storage";
+import { z } from "zod";
+import { db } from "../db";
+import { tradingHalts, TradingHalt } from "@shared/schema";
+import { desc, eq, isNull } from "drizzle-orm";
+import { storage, Account, Order, Position, Strategy } from "../storage";
 import { notificationManager } from "./notification-manager";
+import { orderManager } from "./order-manager";
+import { logger } from "./logger";
+import { pricingService } from "./pricing";
+import { positionSizingService } from "./position-sizing";
+import { propRulesService } from "./prop-rules";
+import { riskLimitsService } from "./risk-limits";
+import { breachMonitor } from "./breach-monitor";
+import { currencyExposureService } from "./currency-exposure";
+import { sessionManager } from "./session-manager";
+import { preTradeRules, RuleResult, RuleTrace, TradeSignal } from "./pre-trade-rules";
 
 interface RiskCheckResult {
   approved: boolean;
   reason?: string;
   adjustedQuantity?: number;
+  decisionId?: string; // Recorded pre-trade decision with the full rule trace
 }
 
 interface RiskStatus {
@@ -19,158 +33,330 @@ interface RiskStatus {
   maxPositions: number;
 }
 
-class RiskManager {
-  private isHealthy_ = true;
-  private checksPerMinute = 0;
-  private blockCount = 0;
-  private emergencyStopActive = false;
-  private isEmergencyStop = false; // Added this property
+type HaltSource = "API" | "TELEGRAM" | "SYSTEM";
+
+interface PositionLiquidation {
+  positionId: string;
+  accountId: string;
+  symbol: string;
+  quantity: number;
+  status: "CLOSED" | "FAILED";
+  orderId?: string;
+  attempts: number;
+  error?: string;
+}
 
-  async validateTrade(signal: any, strategy: Strategy): Promise<RiskCheckResult> {
-    this.checksPerMinute++;
+interface LiquidationReport {
+  cancelledOrders: number;
+  closed: number;
+  failed: number;
+  positions: PositionLiquidation[];
+  completedAt: string;
+}
 
-    try {
-      if (this.emergencyStopActive) {
-        return { approved: false, reason: "Emergency stop is active" };
-      }
+interface EmergencyStopStatus {
+  active: boolean;
+  halt: TradingHalt | null;
+}
 
-      // Get account information (simplified - would get from signal/strategy context)
-      const accounts = await storage.getAccounts();
-      const account = accounts[0]; // Demo account
+// How long a close order may stay working before it is cancelled and resent
+const CLOSE_FILL_TIMEOUT_MS = 10000;
+const CLOSE_POLL_INTERVAL_MS = 250;
+const MAX_CLOSE_ATTEMPTS = 3;
 
-      if (!account) {
-        return { approved: false, reason: "No active account found" };
-      }
+// Window behind the checks-per-minute rate
+const CHECK_RATE_WINDOW_MS = 60000;
 
-      // Check daily loss limit
-      const dailyLossCheck = await this.checkDailyLoss(account, signal);
-      if (!dailyLossCheck.approved) {
-        await this.logRiskEvent(account.id, strategy.id, "CRITICAL", "DAILY_LOSS_LIMIT", "Trade blocked");
-        this.blockCount++;
-        return dailyLossCheck;
-      }
+class RiskManager {
+  private checkTimes: number[] = []; // Pre-trade checks within the rate window, oldest first
+  private blockCount = 0; // Trades blocked since startup
+  private activeHalt: TradingHalt | null = null; // Persisted kill switch; null while trading is allowed
 
-      // Check max drawdown
-      const drawdownCheck = await this.checkMaxDrawdown(account, signal);
-      if (!drawdownCheck.approved) {
-        await this.logRiskEvent(account.id, strategy.id, "CRITICAL", "MAX_DRAWDOWN", "Trade blocked");
-        this.blockCount++;
-        return drawdownCheck;
-      }
+  constructor() {
+    this.registerCoreRules();
+  }
+
+  // Runs the trade through every registered pre-trade rule for the account it will be placed on
+  async validateTrade(signal: TradeSignal, strategy: Strategy, account: Account): Promise<RiskCheckResult> {
+    this.checkTimes.push(Date.now());
+    this.pruneCheckTimes();
+
+    if (!account) {
+      return { approved: false, reason: "No account bound to this trade" };
+    }
+
+    try {
+      const decision = await preTradeRules.evaluate({ signal, strategy, account });
 
-      // Check position limits
-      const positionCheck = await this.checkPositionLimits(account, signal);
-      if (!positionCheck.approved) {
-        await this.logRiskEvent(account.id, strategy.id, "WARNING", "POSITION_LIMIT", "Trade blocked");
+      if (!decision.approved) {
         this.blockCount++;
-        return positionCheck;
+        for (const entry of decision.trace.filter(entry => entry.blocking)) {
+          await this.logRiskEvent(account.id, strategy.id, entry.severity, entry.rule, "Trade blocked", decision.id, entry);
+        }
+        await notificationManager.sendRiskWarning(`${signal.side} ${signal.quantity} ${signal.symbol} blocked on ${account.name}: ${decision.reason}`);
+        return { approved: false, reason: decision.reason ?? undefined, decisionId: decision.id };
       }
 
-      // Check exposure limits
-      const exposureCheck = await this.checkExposureLimits(account, signal);
-      if (!exposureCheck.approved) {
-        await this.logRiskEvent(account.id, strategy.id, "WARNING", "EXPOSURE_LIMIT", "Trade blocked");
-        this.blockCount++;
-        return exposureCheck;
+      for (const entry of decision.trace.filter(entry => entry.status === "ADJUSTED" || (entry.status === "FAILED" && !entry.blocking))) {
+        const action = entry.status === "ADJUSTED" ? `Trade reduced to ${entry.adjustedQuantity} lots` : "Rule failed (advisory)";
+        await this.logRiskEvent(account.id, strategy.id, "INFO", entry.rule, action, decision.id, entry);
       }
 
-      return { approved: true };
+      return {
+        approved: true,
+        reason: decision.reason ?? undefined,
+        adjustedQuantity: decision.finalQuantity !== decision.requestedQuantity ? decision.finalQuantity : undefined,
+        decisionId: decision.id,
+      };
     } catch (error) {
       console.error("Risk validation error:", error);
       return { approved: false, reason: "Risk validation system error" };
     }
   }
 
-  private async checkDailyLoss(account: Account, signal: any): Promise<RiskCheckResult> {
-    // Get today's orders for this account
-    const orders = await storage.getOrdersByAccount(account.id, 100);
-    const today = new Date();
+  // The built-in checks, in the order they run; limits come from the account's prop rules,
+  // tightened by its own and the strategy's risk limits
+  private registerCoreRules(): void {
+    const noConfig = z.object({});
+
+    preTradeRules.register({
+      name: "EMERGENCY_STOP",
+      description: "No new trades while the emergency stop is active",
+      configSchema: noConfig,
+      severity: "CRITICAL",
+      required: true,
+      evaluate: () => this.activeHalt
+        ? { passed: false, reason: `Emergency stop is active: ${this.activeHalt.reason}` }
+        : { passed: true },
+    });
 
-    const todayOrders = orders.filter(order => {
-      const orderDate = new Date(order.createdAt || "");
-      return orderDate.toDateString() === today.toDateString();
+    preTradeRules.register({
+      name: "TRADING_BLOCK",
+      description: "Accounts locked or blocked by a rule breach take no new trades",
+      configSchema: noConfig,
+      severity: "CRITICAL",
+      required: true,
+      evaluate: ({ account }) => {
+        const block = breachMonitor.getTradingBlock(account);
+        return { passed: !block.blocked, reason: block.reason };
+      },
     });
 
-    // Calculate daily P&L (simplified)
-    let dailyPnL = 0;
-    for (const order of todayOrders) {
-      if (order.status === "FILLED") {
-        // This would calculate actual P&L from fills
-        dailyPnL += (Math.random() - 0.6) * 500; // Mock calculation with slight negative bias
-      }
-    }
+    preTradeRules.register({
+      name: "MARKET_HOURS",
+      description: "No new trades while the FX market is closed for the weekend",
+      configSchema: z.object({
+        closeBufferMinutes: z.number().int().min(0).default(0), // Stop opening trades this long before the Friday close
+      }),
+      severity: "CRITICAL",
+      evaluate: (_context, config) => {
+        const market = sessionManager.getMarketStatus(new Date(), config.closeBufferMinutes);
+        return { passed: market.open, reason: market.reason, details: { ...market } };
+      },
+    });
 
-    const dailyLossLimit = account.propRules ?
-      (account.propRules as any).dailyLossLimit || 5000 : 5000;
+    preTradeRules.register({
+      name: "NEWS_BLACKOUT",
+      description: "No new trades in symbols affected by an upcoming news release",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: ({ account, signal }) => {
+        const blackout = sessionManager.getBlackout(signal.symbol);
+        if (blackout) {
+          return { passed: false, reason: sessionManager.describeBlackout(blackout), details: { event: blackout.event } };
+        }
+
+        // Prop firms that ban news trading set their own window around high-impact releases
+        const { newsTrading } = propRulesService.getRules(account);
+        const event = newsTrading.allowed ? null : sessionManager.findNewsEvent(signal.symbol, newsTrading.windowMinutes);
+        return event
+          ? { passed: false, reason: `No trading within ${newsTrading.windowMinutes} minutes of ${event.currency} ${event.title}`, details: { event } }
+          : { passed: true };
+      },
+    });
 
-    if (Math.abs(dailyPnL) >= dailyLossLimit && dailyPnL < 0) {
-      await notificationManager.sendRiskWarning(
-        `Daily loss limit exceeded: $${Math.abs(dailyPnL).toFixed(2)} > $${dailyLossLimit.toFixed(2)}`
-      );
-      return { approved: false, reason: `Daily loss limit of $${dailyLossLimit} reached` };
+    preTradeRules.register({
+      name: "TRADING_SESSION",
+      description: "Trades only inside a session that lists the symbol, in the session's own timezone",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: ({ signal }) => {
+        const check = sessionManager.checkSession(signal.symbol);
+        return { passed: check.allowed, reason: check.reason, details: { sessions: check.sessions } };
+      },
+    });
+
+    preTradeRules.register({
+      name: "DAILY_LOSS_LIMIT",
+      description: "Loss since the broker rollover stays below the daily limit",
+      configSchema: noConfig,
+      severity: "CRITICAL",
+      evaluate: ({ account }) => this.checkDailyLoss(account),
+    });
+
+    preTradeRules.register({
+      name: "MAX_DRAWDOWN",
+      description: "Equity stays above the static or trailing drawdown floor",
+      configSchema: noConfig,
+      severity: "CRITICAL",
+      evaluate: ({ account }) => this.checkMaxDrawdown(account),
+    });
+
+    preTradeRules.register({
+      name: "POSITION_LIMIT",
+      description: "Open positions stay below the account maximum",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: ({ account, strategy }) => this.checkPositionLimits(account, strategy),
+    });
+
+    preTradeRules.register({
+      name: "MAX_LOT_SIZE",
+      description: "Trades are capped at the maximum lot size for the account and strategy",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: ({ account, strategy, signal }) => this.checkLotSize(account, strategy, signal),
+    });
+
+    preTradeRules.register({
+      name: "EXPOSURE_LIMIT",
+      description: "Total notional stays within the account maximum, downsizing when possible",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: ({ account, strategy, signal }) => this.checkExposureLimits(account, strategy, signal),
+    });
+
+    preTradeRules.register({
+      name: "CURRENCY_EXPOSURE",
+      description: "Net exposure per currency stays within its limit",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: async ({ account, signal }) => {
+        const check = await currencyExposureService.checkCurrencyLimits(account, signal);
+        return { passed: check.approved, reason: check.reason };
+      },
+    });
+
+    preTradeRules.register({
+      name: "CORRELATION",
+      description: "Correlated positions do not stack past the cluster limit",
+      configSchema: noConfig,
+      severity: "WARNING",
+      evaluate: async ({ account, signal }) => {
+        const check = await currencyExposureService.checkCorrelation(account, signal);
+        return { passed: check.approved, reason: check.reason };
+      },
+    });
+  }
+
+  private async checkDailyLoss(account: Account): Promise<RuleResult> {
+    // Realized, unrealized, commission and swap since the broker rollover
+    const { loss, limit } = await propRulesService.getDailyLoss(account, await riskLimitsService.getRules(account));
+    const details = { loss, limit };
+
+    if (loss >= limit) {
+      return { passed: false, reason: `Daily loss limit of $${limit.toFixed(2)} reached ($${loss.toFixed(2)} lost)`, details };
     }
 
-    return { approved: true };
+    return { passed: true, details };
   }
 
-  private async checkMaxDrawdown(account: Account, signal: any): Promise<RiskCheckResult> {
+  private async checkMaxDrawdown(account: Account): Promise<RuleResult> {
+    const rules = await riskLimitsService.getRules(account);
     const currentEquity = parseFloat(account.equity || "0");
-    const balance = parseFloat(account.balance || "0");
-    const drawdownPercent = ((balance - currentEquity) / balance) * 100;
-
-    const maxDrawdownLimit = account.propRules ?
-      (account.propRules as any).maxDrawdownLimit || 15 : 15;
+    const floor = await propRulesService.getDrawdownFloor(account, rules);
+    const initialBalance = await propRulesService.getInitialBalance(account, rules);
+    const drawdownPercent = ((initialBalance - currentEquity) / initialBalance) * 100;
+    const details = { equity: currentEquity, floor, drawdownPercent, type: rules.maxDrawdown.type };
 
-    if (drawdownPercent >= maxDrawdownLimit) {
-      await notificationManager.sendRiskWarning(
-        `Max drawdown limit reached: ${drawdownPercent.toFixed(2)}% > ${maxDrawdownLimit}%`
-      );
-      return { approved: false, reason: `Max drawdown limit of ${maxDrawdownLimit}% reached` };
+    if (currentEquity <= floor) {
+      return { passed: false, reason: `Max drawdown limit of ${rules.maxDrawdown.limitPercent}% reached (${drawdownPercent.toFixed(2)}%)`, details };
     }
 
-    return { approved: true };
+    return { passed: true, details };
   }
 
-  private async checkPositionLimits(account: Account, signal: any): Promise<RiskCheckResult> {
+  private async checkPositionLimits(account: Account, strategy: Strategy): Promise<RuleResult> {
     const openPositions = await storage.getOpenPositions(account.id);
-    const maxPositions = account.propRules ?
-      (account.propRules as any).maxPositions || 10 : 10;
+    const { maxPositions } = await riskLimitsService.getRules(account);
+    const strategyLimit = strategy.id ? (await riskLimitsService.getLimits("STRATEGY", strategy.id)).maxPositions : undefined;
+    const strategyPositions = openPositions.filter(p => p.strategyId === strategy.id).length;
+    const details = { openPositions: openPositions.length, maxPositions, strategyPositions, strategyMaxPositions: strategyLimit };
 
     if (openPositions.length >= maxPositions) {
-      await notificationManager.sendRiskWarning(
-        `Maximum position limit reached: ${openPositions.length} >= ${maxPositions}`
-      );
-      return { approved: false, reason: `Maximum position limit of ${maxPositions} reached` };
+      return { passed: false, reason: `Maximum position limit of ${maxPositions} reached`, details };
+    }
+    if (strategyLimit !== undefined && strategyPositions >= strategyLimit) {
+      return { passed: false, reason: `Strategy position limit of ${strategyLimit} reached`, details };
+    }
+
+    return { passed: true, details };
+  }
+
+  private async checkLotSize(account: Account, strategy: Strategy, signal: TradeSignal): Promise<RuleResult> {
+    const accountMax = (await riskLimitsService.getRules(account)).maxLotSize;
+    const strategyMax = strategy.id ? (await riskLimitsService.getLimits("STRATEGY", strategy.id)).maxLotSize : undefined;
+    const limits = [accountMax, strategyMax].filter((limit): limit is number => limit !== undefined);
+    const maxLotSize = limits.length ? Math.min(...limits) : undefined;
+    if (maxLotSize === undefined || signal.quantity <= maxLotSize) {
+      return { passed: true, details: { maxLotSize } };
     }
 
-    return { approved: true };
+    return {
+      passed: true,
+      adjustedQuantity: positionSizingService.roundToBrokerSize(account.brokerId || "paper", signal.symbol, maxLotSize),
+      reason: `Reduced from ${signal.quantity} to the ${maxLotSize} lot maximum`,
+      details: { maxLotSize },
+    };
   }
 
-  private async checkExposureLimits(account: Account, signal: any): Promise<RiskCheckResult> {
+  private async checkExposureLimits(account: Account, strategy: Strategy, signal: TradeSignal): Promise<RuleResult> {
     const openPositions = await storage.getOpenPositions(account.id);
+    const accountCurrency = account.baseCurrency || "USD";
 
-    // Calculate total exposure
+    // Calculate total exposure as notional in the account currency
     let totalExposure = 0;
+    let strategyExposure = 0;
     for (const position of openPositions) {
-      const positionValue = parseFloat(position.quantity || "0") * parseFloat(position.currentPrice || "0");
-      totalExposure += positionValue;
+      const notional = pricingService.getNotional(position.symbol, parseFloat(position.quantity || "0"), accountCurrency);
+      totalExposure += notional;
+      if (position.strategyId === strategy.id) strategyExposure += notional;
     }
 
     // Add proposed trade exposure
-    const proposedExposure = signal.quantity * (signal.price || 1.0);
-    const newTotalExposure = totalExposure + proposedExposure;
-
-    const maxExposure = account.propRules ?
-      (account.propRules as any).maxExposure || 75000 : 75000;
-
-    if (newTotalExposure > maxExposure) {
-      await notificationManager.sendRiskWarning(
-        `Total exposure limit would be exceeded: $${newTotalExposure.toFixed(2)} > $${maxExposure.toFixed(2)}`
+    const proposedExposure = pricingService.getNotional(signal.symbol, signal.quantity, accountCurrency);
+
+    const { maxExposure } = await riskLimitsService.getRules(account);
+    const strategyMaxExposure = strategy.id ? (await riskLimitsService.getLimits("STRATEGY", strategy.id)).maxExposure : undefined;
+    const details = { totalExposure, proposedExposure, maxExposure, strategyExposure, strategyMaxExposure };
+
+    // The strategy limit covers its positions on this account; whichever leaves less room applies
+    const strategyBound = strategyMaxExposure !== undefined && strategyMaxExposure - strategyExposure < maxExposure - totalExposure;
+    const limit = strategyBound ? strategyMaxExposure! : maxExposure;
+    const headroom = strategyBound ? strategyMaxExposure! - strategyExposure : maxExposure - totalExposure;
+    const label = strategyBound ? "Strategy exposure" : "Total exposure";
+
+    if (proposedExposure > headroom) {
+      // Downsize to the remaining headroom when the broker can still fill that size
+      const notionalPerLot = pricingService.getNotional(signal.symbol, 1, accountCurrency);
+      const adjustedQuantity = positionSizingService.roundToBrokerSize(
+        account.brokerId || "paper",
+        signal.symbol,
+        headroom / notionalPerLot
       );
-      return { approved: false, reason: `Total exposure limit of $${maxExposure} would be exceeded` };
+      if (adjustedQuantity > 0) {
+        return {
+          passed: true,
+          adjustedQuantity,
+          reason: `Reduced from ${signal.quantity} to ${adjustedQuantity} lots to stay within the $${limit} ${label.toLowerCase()} limit`,
+          details,
+        };
+      }
+
+      return { passed: false, reason: `${label} limit of $${limit} would be exceeded`, details };
     }
 
-    return { approved: true };
+    return { passed: true, details };
   }
 
   private async logRiskEvent(
@@ -178,23 +364,29 @@ class RiskManager {
     strategyId: string | null,
     level: "INFO" | "WARNING" | "CRITICAL",
     rule: string,
-    action: string
+    action: string,
+    decisionId?: string,
+    trace?: RuleTrace
   ): Promise<void> {
-    const riskEvent: InsertRiskEvent = {
+    await storage.createRiskEvent({
       accountId,
       strategyId,
       level,
       rule,
       action,
-      details: { timestamp: new Date().toISOString() }
-    };
-
-    await storage.createRiskEvent(riskEvent);
+      details: {
+        decisionId,
+        reason: trace?.reason,
+        adjustedQuantity: trace?.adjustedQuantity,
+        ruleDetails: trace?.details,
+        timestamp: new Date().toISOString(),
+      }
+    });
   }
 
-  async getCurrentRiskStatus(): Promise<RiskStatus> {
+  async getCurrentRiskStatus(accountId?: string): Promise<RiskStatus> {
     const accounts = await storage.getAccounts();
-    const account = accounts[0]; // Demo account
+    const account = accountId ? accounts.find(a => a.id === accountId) : accounts[0];
     const openPositions = await storage.getOpenPositions(account?.id);
 
     if (!account) {
@@ -204,68 +396,283 @@ class RiskManager {
     // Calculate current risk metrics
     let totalExposure = 0;
     for (const position of openPositions) {
-      const positionValue = parseFloat(position.quantity || "0") * parseFloat(position.currentPrice || "0");
-      totalExposure += positionValue;
+      totalExposure += pricingService.getNotional(position.symbol, parseFloat(position.quantity || "0"), account.baseCurrency || "USD");
     }
 
-    const balance = parseFloat(account.balance || "0");
+    const rules = await riskLimitsService.getRules(account);
     const equity = parseFloat(account.equity || "0");
-    const drawdownPercent = ((balance - equity) / balance) * 100;
+    const initialBalance = await propRulesService.getInitialBalance(account, rules);
+    const drawdownPercent = ((initialBalance - equity) / initialBalance) * 100;
 
-    // Mock daily loss calculation
-    const dailyLossUsed = Math.max(0, balance - equity) * 0.25;
+    const dailyLoss = await propRulesService.getDailyLoss(account, rules);
 
     return {
-      dailyLossUsed: Math.floor(dailyLossUsed),
-      dailyLossLimit: 5000,
+      dailyLossUsed: Math.floor(dailyLoss.loss),
+      dailyLossLimit: Math.floor(dailyLoss.limit),
       maxDrawdown: Math.max(0, drawdownPercent),
-      maxDrawdownLimit: 15,
+      maxDrawdownLimit: rules.maxDrawdown.limitPercent,
       totalExposure: Math.floor(totalExposure),
-      maxExposure: 75000,
+      maxExposure: rules.maxExposure,
       positionCount: openPositions.length,
-      maxPositions: 10,
+      maxPositions: rules.maxPositions,
     };
   }
 
-  async emergencyStop(): Promise<void> {
+  // Reloads an unresolved halt so the kill switch survives restarts
+  async restoreEmergencyStop(): Promise<EmergencyStopStatus> {
+    try {
+      const [halt] = await db.select()
+        .from(tradingHalts)
+        .where(isNull(tradingHalts.resumedAt))
+        .orderBy(desc(tradingHalts.triggeredAt))
+        .limit(1);
+      this.activeHalt = halt || null;
+
+      if (halt) {
+        logger.warning('risk', `Emergency stop triggered by ${halt.triggeredBy} at ${halt.triggeredAt.toISOString()} is still active: ${halt.reason}`);
+      }
+    } catch (error) {
+      logger.error('risk', `Failed to load emergency stop state: ${(error as Error).message}`);
+    }
+    return this.getEmergencyStopStatus();
+  }
+
+  // Halts trading, stops both trading engines and liquidates every open position through
+  // the order manager. Triggering again while halted retries positions that failed to close.
+  async emergencyStop(triggeredBy: string, source: HaltSource, reason = "Emergency stop"): Promise<EmergencyStopStatus> {
     console.log("🚨 EMERGENCY STOP TRIGGERED");
-    this.emergencyStopActive = true;
 
-    // Send immediate notification
+    // Halt first so nothing new is approved while positions are being closed
+    if (!this.activeHalt) {
+      this.activeHalt = await this.persistHalt({ reason, triggeredBy, source, triggeredAt: new Date() });
+    }
+
     await notificationManager.sendAlert("CRITICAL",
-      "Emergency stop triggered - all trading halted immediately"
+      `Emergency stop triggered by ${triggeredBy} - all trading halted immediately`
     );
 
-    // Close all open positions
-    const openPositions = await storage.getOpenPositions();
-    for (const position of openPositions) {
-      await storage.updatePosition(position.id, { isOpen: false });
-    }
+    await this.stopTradingEngines();
+    const liquidation = await this.liquidateAll();
+    this.activeHalt = await this.updateHalt(this.activeHalt, { liquidation });
 
-    // Log emergency stop
+    logger.error('risk', `Emergency stop by ${triggeredBy} (${source}): ${liquidation.closed} positions closed, ${liquidation.failed} failed`);
     await storage.createAlert({
       level: "CRITICAL",
       title: "Emergency Stop",
-      message: "Emergency stop triggered - all trading halted",
+      message: `Emergency stop triggered by ${triggeredBy} - all trading halted. ${liquidation.closed} positions closed, ${liquidation.failed} failed to close`,
       source: "RISK_MANAGER",
     });
+
+    if (liquidation.failed > 0) {
+      await notificationManager.sendRiskWarning(
+        `Emergency stop could not close ${liquidation.failed} positions: ${liquidation.positions.filter(p => p.status === "FAILED").map(p => p.symbol).join(", ")}`
+      );
+    }
+
+    return this.getEmergencyStopStatus();
+  }
+
+  // Lifts the halt; strategies and the AI engine stay stopped until started again
+  async resumeTrading(resumedBy: string, source: HaltSource, reason: string): Promise<TradingHalt> {
+    if (!reason || !reason.trim()) {
+      throw new Error("A reason is required to resume trading");
+    }
+    if (!this.activeHalt) {
+      throw new Error("Emergency stop is not active");
+    }
+
+    const halt = await this.updateHalt(this.activeHalt, {
+      resumedBy,
+      resumeSource: source,
+      resumeReason: reason.trim(),
+      resumedAt: new Date(),
+    });
+    this.activeHalt = null;
+
+    logger.warning('risk', `Trading resumed by ${resumedBy} (${source}): ${halt.resumeReason}`);
+    await storage.createAlert({
+      level: "WARNING",
+      title: "Trading Resumed",
+      message: `Trading resumed by ${resumedBy} via ${source}: ${halt.resumeReason}`,
+      source: "RISK_MANAGER",
+    });
+    await notificationManager.sendAlert("WARNING", `Trading resumed by ${resumedBy}: ${halt.resumeReason}`);
+
+    return halt;
+  }
+
+  isEmergencyStopActive(): boolean {
+    return this.activeHalt !== null;
+  }
+
+  getEmergencyStopStatus(): EmergencyStopStatus {
+    return { active: this.activeHalt !== null, halt: this.activeHalt };
+  }
+
+  async getHaltHistory(limit = 20): Promise<TradingHalt[]> {
+    return db.select()
+      .from(tradingHalts)
+      .orderBy(desc(tradingHalts.triggeredAt))
+      .limit(limit);
+  }
+
+  private async persistHalt(values: Pick<TradingHalt, "reason" | "triggeredBy" | "source" | "triggeredAt">): Promise<TradingHalt> {
+    try {
+      const [halt] = await db.insert(tradingHalts).values(values).returning();
+      if (halt) return halt;
+    } catch (error) {
+      logger.error('risk', `Failed to persist emergency stop: ${(error as Error).message}`);
+    }
+
+    // The halt still applies in memory when the database is unavailable
+    return {
+      id: `halt_${values.triggeredAt.getTime()}`,
+      ...values,
+      liquidation: null,
+      resumedBy: null,
+      resumeSource: null,
+      resumeReason: null,
+      resumedAt: null,
+    };
+  }
+
+  private async updateHalt(halt: TradingHalt, changes: Partial<TradingHalt>): Promise<TradingHalt> {
+    try {
+      await db.update(tradingHalts).set(changes).where(eq(tradingHalts.id, halt.id));
+    } catch (error) {
+      logger.error('risk', `Failed to update emergency stop ${halt.id}: ${(error as Error).message}`);
+    }
+    return { ...halt, ...changes };
+  }
+
+  private async stopTradingEngines(): Promise<void> {
+    const { strategyEngine } = await import("./strategy-engine");
+    const { aiTradingEngine } = await import("./ai-trading-engine");
+
+    try {
+      // Running strategies are paused so a later engine start does not pick them up again
+      const running = (await storage.getStrategies()).filter(strategy => strategy.status === "RUNNING");
+      for (const strategy of running) {
+        await storage.updateStrategy(strategy.id, { status: "PAUSED" });
+      }
+      await strategyEngine.stop();
+    } catch (error) {
+      logger.error('risk', `Failed to stop strategy engine: ${(error as Error).message}`);
+    }
+
+    try {
+      await aiTradingEngine.stop();
+      // The AI engine trades on MT5 directly, outside the order manager
+      if (aiTradingEngine.getStatus().mt5Connected) {
+        await aiTradingEngine.emergencyCloseAll();
+      }
+    } catch (error) {
+      logger.error('risk', `Failed to stop AI trading engine: ${(error as Error).message}`);
+    }
+  }
+
+  private async liquidateAll(): Promise<LiquidationReport> {
+    let cancelledOrders = 0;
+    const working = (await storage.getOrders())
+      .filter(order => order.status === "PENDING" || order.status === "PARTIAL");
+    for (const order of working) {
+      try {
+        await orderManager.cancelOrder(order.id);
+        cancelledOrders++;
+      } catch (error) {
+        logger.warning('risk', `Could not cancel order ${order.id}: ${(error as Error).message}`, order.symbol);
+      }
+    }
+
+    const positions: PositionLiquidation[] = [];
+    for (const position of await storage.getOpenPositions()) {
+      positions.push(await this.liquidatePosition(position));
+    }
+
+    return {
+      cancelledOrders,
+      closed: positions.filter(p => p.status === "CLOSED").length,
+      failed: positions.filter(p => p.status === "FAILED").length,
+      positions,
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  // Sends close orders until the broker confirms the position is flat
+  private async liquidatePosition(position: Position): Promise<PositionLiquidation> {
+    const result: PositionLiquidation = {
+      positionId: position.id,
+      accountId: position.accountId,
+      symbol: position.symbol,
+      quantity: parseFloat(position.quantity),
+      status: "FAILED",
+      attempts: 0,
+    };
+
+    while (result.attempts < MAX_CLOSE_ATTEMPTS) {
+      const current = await storage.getPosition(position.id);
+      if (!current?.isOpen) break;
+
+      result.attempts++;
+      try {
+        const order = await this.waitForFill(await orderManager.createCloseOrder(current));
+        result.orderId = order.id;
+
+        if (order.status === "PENDING" || order.status === "PARTIAL") {
+          result.error = `Close order not filled within ${CLOSE_FILL_TIMEOUT_MS / 1000}s`;
+          await orderManager.cancelOrder(order.id).catch(() => undefined);
+        } else if (order.status !== "FILLED") {
+          result.error = `Close order ${order.status}${order.rejectReason ? `: ${order.rejectReason}` : ""}`;
+        }
+      } catch (error) {
+        result.error = (error as Error).message;
+      }
+    }
+
+    const remaining = await storage.getPosition(position.id);
+    if (!remaining?.isOpen) {
+      result.status = "CLOSED";
+      result.error = undefined;
+    } else {
+      logger.error('risk', `Emergency close of position ${position.id} failed after ${result.attempts} attempts: ${result.error}`, position.symbol);
+    }
+    return result;
+  }
+
+  private async waitForFill(order: Order): Promise<Order> {
+    const deadline = Date.now() + CLOSE_FILL_TIMEOUT_MS;
+    let current = order;
+
+    while ((current.status === "PENDING" || current.status === "PARTIAL") && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, CLOSE_POLL_INTERVAL_MS));
+      current = await storage.getOrder(order.id) || current;
+    }
+    return current;
   }
 
   isHealthy(): boolean {
-    return !this.isEmergencyStop;
+    return this.activeHalt === null;
   }
 
   async getLatency(): Promise<number> {
     return Math.floor(Math.random() * 10) + 2; // Mock latency between 2-12ms
   }
 
+  // Pre-trade checks in the last minute
   getChecksPerMinute(): number {
-    return 120; // Mock checks per minute
+    this.pruneCheckTimes();
+    return this.checkTimes.length;
   }
 
   getBlockCount(): number {
-    return 0; // Mock number of risk blocks
+    return this.blockCount;
+  }
+
+  private pruneCheckTimes(): void {
+    const cutoff = Date.now() - CHECK_RATE_WINDOW_MS;
+    while (this.checkTimes.length > 0 && this.checkTimes[0] <= cutoff) this.checkTimes.shift();
   }
 }
 
-export const riskManager = new RiskManager();
\ No newline at end of file
+export const riskManager = new RiskManager();
+export type { RiskCheckResult, RiskStatus, HaltSource, LiquidationReport, PositionLiquidation, EmergencyStopStatus };
\ No newline at end of file
@@ -1,6 +1,9 @@
 
 import { storage } from "../storage";
 import { logger } from "./logger";
+import { pricingService } from "./pricing";
+import { dailyPnLService } from "./daily-pnl";
+import { riskAnalyticsService } from "./risk-analytics";
 
 interface RiskMetrics {
   equityHighWaterMark: number;
@@ -22,6 +25,7 @@ class RiskMonitor {
   };
 
   private dailyReturns: number[] = [];
+  private lastTradingDay: string | null = null;
   private consecutiveLossCount = 0;
 
   async updateMetrics(): Promise<void> {
@@ -32,7 +36,6 @@ class RiskMonitor {
       if (!account) return;
 
       const currentEquity = parseFloat(account.equity || "0");
-      const balance = parseFloat(account.balance || "0");
 
       // Update high water mark
       if (currentEquity > this.metrics.equityHighWaterMark) {
@@ -42,36 +45,27 @@ class RiskMonitor {
       // Calculate current drawdown
       this.metrics.currentDrawdown = ((this.metrics.equityHighWaterMark - currentEquity) / this.metrics.equityHighWaterMark) * 100;
 
-      // Get recent orders to calculate daily returns
-      const orders = await storage.getOrdersByAccount(account.id, 100);
-      const today = new Date();
-      const todayOrders = orders.filter(order => {
-        const orderDate = new Date(order.createdAt || "");
-        return orderDate.toDateString() === today.toDateString();
-      });
+      // Today's return against the equity snapshot taken at the broker rollover
+      const dailyPnL = await dailyPnLService.getDailyPnL(account);
+      const dailyReturn = dailyPnL.startEquity > 0 ? (dailyPnL.netPnL / dailyPnL.startEquity) * 100 : 0;
 
-      // Calculate daily P&L
-      let dailyPnL = 0;
-      for (const order of todayOrders) {
-        if (order.status === "FILLED") {
-          // Mock P&L calculation - would be actual in real system
-          dailyPnL += (Math.random() - 0.55) * 300;
-        }
+      // One return per trading day; later updates on the same day replace it
+      if (this.lastTradingDay === dailyPnL.tradingDay) {
+        this.dailyReturns[this.dailyReturns.length - 1] = dailyReturn;
+      } else {
+        this.dailyReturns.push(dailyReturn);
+        this.lastTradingDay = dailyPnL.tradingDay;
       }
 
-      const dailyReturn = (dailyPnL / balance) * 100;
-      this.dailyReturns.push(dailyReturn);
-      
       // Keep only last 30 days
       if (this.dailyReturns.length > 30) {
         this.dailyReturns.shift();
       }
 
-      // Update consecutive losses
-      if (dailyReturn < 0) {
+      // Update consecutive losing days
+      this.consecutiveLossCount = 0;
+      for (let i = this.dailyReturns.length - 1; i >= 0 && this.dailyReturns[i] < 0; i--) {
         this.consecutiveLossCount++;
-      } else {
-        this.consecutiveLossCount = 0;
       }
       this.metrics.consecutiveLosses = this.consecutiveLossCount;
 
@@ -83,6 +77,10 @@ class RiskMonitor {
         this.metrics.sharpeRatio = this.metrics.volatility > 0 ? (avgReturn / this.metrics.volatility) : 0;
       }
 
+      // 1-day 95% historical VaR of the open positions
+      const varReport = await riskAnalyticsService.getReport(account);
+      this.metrics.dailyVaR = varReport.results.find(result => result.method === "HISTORICAL")?.valueAtRisk ?? 0;
+
       // Check for risk alerts
       await this.checkRiskAlerts();
 
@@ -140,7 +138,7 @@ class RiskMonitor {
       positionSummary: {
         totalPositions: openPositions.length,
         totalExposure: openPositions.reduce((sum, pos) => 
-          sum + parseFloat(pos.quantity || "0") * parseFloat(pos.currentPrice || "0"), 0
+          sum + pricingService.getNotional(pos.symbol, parseFloat(pos.quantity || "0"), account?.baseCurrency || "USD"), 0
         ),
         unrealizedPnL: openPositions.reduce((sum, pos) => 
           sum + parseFloat(pos.unrealizedPnL || "0"), 0
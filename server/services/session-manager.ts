@@ -1,21 +1,143 @@
-
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { tradingSessions, newsBlackoutSettings } from "@shared/schema";
+import { storage, Position } from "../storage";
+import { marketDataService } from "./market-data";
+import { orderManager } from "./order-manager";
+import { pricingService } from "./pricing";
+import { notificationManager } from "./notification-manager";
 import { logger } from "./logger";
 
+// Trading sessions, the weekly FX market hours and news blackouts. Session times are wall-clock
+// times in the session's own timezone, so London 08:00 follows BST/GMT and New York follows
+// EDT/EST without any server-side adjustment. The default sessions allow every symbol and run
+// back to back, so together they cover the whole market week; narrowing a session's symbols
+// keeps those symbols out of it.
+
 interface TradingSession {
   name: string;
-  startTime: string; // HH:MM format
+  startTime: string; // HH:MM in the session's timezone; a start after the end wraps past midnight
   endTime: string;
-  timezone: string;
-  allowedSymbols: string[];
+  timezone: string; // IANA name, e.g. "Europe/London"
+  allowedSymbols: string[]; // Empty allows every symbol
   isActive: boolean;
 }
 
 interface NewsEvent {
   time: string;
-  currency: string;
+  currency: string; // "ALL" affects every symbol
   impact: "LOW" | "MEDIUM" | "HIGH";
   title: string;
-  bufferMinutes: number;
+  bufferMinutes: number; // Blackout either side of the release
+}
+
+interface MarketStatus {
+  open: boolean;
+  reason?: string;
+  opensAt?: string; // Next weekly open, while closed
+  closesAt?: string; // Next weekly close, while open
+  minutesToClose?: number;
+}
+
+interface SessionCheck {
+  allowed: boolean;
+  reason?: string;
+  sessions?: string[]; // Open sessions that cover the symbol
+}
+
+interface Blackout {
+  event: NewsEvent;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+interface SessionStatus {
+  market: MarketStatus;
+  sessions: Array<TradingSession & { isOpen: boolean; localTime: string }>;
+  blackoutSettings: NewsBlackoutSettings;
+  activeBlackouts: Array<{ event: NewsEvent; startsAt: string; endsAt: string; symbols: string[] }>;
+  upcomingEvents: NewsEvent[];
+}
+
+export const NEWS_IMPACTS = ["LOW", "MEDIUM", "HIGH"] as const;
+
+export const NEWS_BLACKOUT_ACTIONS = [
+  "BLOCK", // Reject new trades in affected symbols
+  "FLATTEN", // Also close open positions in affected symbols when the blackout starts
+  "TIGHTEN_STOPS", // Also pull stops on open positions in to a fixed distance from the price
+] as const;
+
+export const newsBlackoutSettingsSchema = z.object({
+  minImpact: z.enum(NEWS_IMPACTS).default("HIGH"),
+  action: z.enum(NEWS_BLACKOUT_ACTIONS).default("BLOCK"),
+  tightenStopPips: z.number().positive().default(10),
+});
+
+export const newsEventSchema = z.object({
+  time: z.string().datetime(),
+  currency: z.string().regex(/^([A-Z]{3}|ALL)$/, "Currency codes are three capital letters or ALL"),
+  impact: z.enum(NEWS_IMPACTS),
+  title: z.string().min(1),
+  bufferMinutes: z.number().int().min(0).default(15),
+});
+
+const sessionTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times are HH:MM");
+
+export const sessionUpdateSchema = z.object({
+  startTime: sessionTimeSchema.optional(),
+  endTime: sessionTimeSchema.optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  allowedSymbols: z.array(z.string().toUpperCase()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+type NewsBlackoutSettings = z.infer<typeof newsBlackoutSettingsSchema>;
+type NewsBlackoutAction = typeof NEWS_BLACKOUT_ACTIONS[number];
+type SessionUpdate = z.infer<typeof sessionUpdateSchema>;
+
+// The FX week runs from Sunday 17:00 to Friday 17:00 New York time
+const MARKET_TIMEZONE = "America/New_York";
+const MARKET_OPEN_MINUTES = 17 * 60;
+const MARKET_CLOSE_MINUTES = 17 * 60;
+
+const BLACKOUT_CHECK_INTERVAL_MS = 30000;
+
+const IMPACT_RANK: Record<NewsEvent["impact"], number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Day of week (0 = Sunday) and minutes past midnight on the wall clock of a timezone
+function getZonedTime(date: Date, timezone: string): { weekday: number; minutes: number } {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  const weekday = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday);
+  return { weekday, minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10) };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
 }
 
 class SessionManager {
@@ -25,136 +147,399 @@ class SessionManager {
       startTime: "08:00",
       endTime: "17:00",
       timezone: "Europe/London",
-      allowedSymbols: ["EURUSD", "GBPUSD", "EURGBP"],
+      allowedSymbols: [],
       isActive: true,
     },
     {
       name: "New York Session",
-      startTime: "13:00",
-      endTime: "22:00",
+      startTime: "08:00",
+      endTime: "17:00",
       timezone: "America/New_York",
-      allowedSymbols: ["EURUSD", "GBPUSD", "USDJPY", "USDCAD"],
+      allowedSymbols: [],
       isActive: true,
     },
     {
       name: "Asian Session",
-      startTime: "00:00",
-      endTime: "09:00",
+      startTime: "09:00",
+      endTime: "18:00",
       timezone: "Asia/Tokyo",
-      allowedSymbols: ["USDJPY", "AUDUSD", "NZDUSD"],
+      allowedSymbols: [],
+      isActive: true,
+    },
+    {
+      name: "Sydney Session",
+      startTime: "07:00",
+      endTime: "16:00",
+      timezone: "Australia/Sydney",
+      allowedSymbols: [],
       isActive: true,
     },
   ];
 
   private newsEvents: NewsEvent[] = [];
-  private isNewsBlackout = false;
-
-  async isSymbolTradeable(symbol: string): Promise<{ allowed: boolean; reason?: string }> {
-    // Check if in news blackout
-    if (this.isNewsBlackout) {
-      return { allowed: false, reason: "News blackout period active" };
-    }
-
-    // Check session times
-    const currentTime = new Date();
-    const activeSession = this.sessions.find(session => {
-      if (!session.isActive) return false;
-      
-      const [startHour, startMin] = session.startTime.split(':').map(Number);
-      const [endHour, endMin] = session.endTime.split(':').map(Number);
-      
-      const sessionStart = new Date(currentTime);
-      sessionStart.setHours(startHour, startMin, 0, 0);
-      
-      const sessionEnd = new Date(currentTime);
-      sessionEnd.setHours(endHour, endMin, 0, 0);
-      
-      return currentTime >= sessionStart && currentTime <= sessionEnd && 
-             session.allowedSymbols.includes(symbol);
-    });
+  private blackoutSettings: NewsBlackoutSettings = newsBlackoutSettingsSchema.parse({});
+  private handledBlackouts = new Set<string>();
+  private monitorInterval: NodeJS.Timeout | null = null;
+  private settingsLoaded: Promise<void> | null = null;
+
+  // Loads stored session and blackout edits, then applies the blackout action to open positions as each blackout starts
+  async start(): Promise<void> {
+    await this.loadSettings();
+    if (this.monitorInterval) return;
+
+    this.monitorInterval = setInterval(() => {
+      this.checkBlackouts().catch(error => console.error("News blackout check error:", error));
+    }, BLACKOUT_CHECK_INTERVAL_MS);
+
+    console.log("Session manager started");
+  }
+
+  stop(): void {
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = null;
+    }
+  }
+
+  // Whether the weekly FX market is open; closeBufferMinutes treats the last minutes before the Friday close as closed
+  getMarketStatus(at: Date = new Date(), closeBufferMinutes = 0): MarketStatus {
+    const { weekday, minutes } = getZonedTime(at, MARKET_TIMEZONE);
+    const minutesIntoWeek = weekday * 1440 + minutes;
+    const openAt = MARKET_OPEN_MINUTES; // Sunday
+    const closeAt = 5 * 1440 + MARKET_CLOSE_MINUTES; // Friday
+
+    if (minutesIntoWeek < openAt || minutesIntoWeek >= closeAt) {
+      const untilOpen = (openAt - minutesIntoWeek + 7 * 1440) % (7 * 1440);
+      return {
+        open: false,
+        reason: "FX market is closed for the weekend",
+        opensAt: new Date(at.getTime() + untilOpen * 60000).toISOString(),
+      };
+    }
+
+    const minutesToClose = closeAt - minutesIntoWeek;
+    const closesAt = new Date(at.getTime() + minutesToClose * 60000).toISOString();
+    if (minutesToClose <= closeBufferMinutes) {
+      return { open: false, reason: `FX market closes for the weekend in ${minutesToClose} minutes`, closesAt, minutesToClose };
+    }
+    return { open: true, closesAt, minutesToClose };
+  }
+
+  isSessionOpen(session: TradingSession, at: Date = new Date()): boolean {
+    if (!session.isActive) return false;
+
+    const { minutes } = getZonedTime(at, session.timezone);
+    const start = toMinutes(session.startTime);
+    const end = toMinutes(session.endTime);
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  // Open sessions whose symbol list covers the symbol
+  checkSession(symbol: string, at: Date = new Date()): SessionCheck {
+    const normalized = symbol.toUpperCase();
+    const covering = this.sessions.filter(session =>
+      session.isActive && (session.allowedSymbols.length === 0 || session.allowedSymbols.includes(normalized))
+    );
+    if (covering.length === 0) {
+      return { allowed: false, reason: `No trading session is configured for ${normalized}` };
+    }
+
+    const open = covering.filter(session => this.isSessionOpen(session, at)).map(session => session.name);
+    if (open.length === 0) {
+      return { allowed: false, reason: `Outside the ${covering.map(s => s.name).join(" / ")} for ${normalized}` };
+    }
+    return { allowed: true, sessions: open };
+  }
+
+  // Market hours, news blackout and session window, in that order
+  isSymbolTradeable(symbol: string, at: Date = new Date()): SessionCheck {
+    const market = this.getMarketStatus(at);
+    if (!market.open) {
+      return { allowed: false, reason: market.reason };
+    }
 
-    if (!activeSession) {
-      return { allowed: false, reason: "Outside active trading session" };
+    const blackout = this.getBlackout(symbol, at);
+    if (blackout) {
+      return { allowed: false, reason: this.describeBlackout(blackout) };
     }
 
-    return { allowed: true };
+    return this.checkSession(symbol, at);
+  }
+
+  // The blackout covering a symbol at the given time, if any
+  getBlackout(symbol: string, at: Date = new Date()): Blackout | null {
+    return this.getActiveBlackouts(at).find(blackout => this.affects(blackout.event, symbol)) || null;
+  }
+
+  isNewsBlackoutActive(symbol?: string): boolean {
+    return symbol ? this.getBlackout(symbol) !== null : this.getActiveBlackouts().length > 0;
+  }
+
+  describeBlackout(blackout: Blackout): string {
+    return `News blackout for ${blackout.event.currency} ${blackout.event.title} until ${blackout.endsAt.toISOString()}`;
   }
 
   async addNewsEvent(event: NewsEvent): Promise<void> {
-    this.newsEvents.push(event);
-    
-    await logger.log({
-      type: "SYSTEM",
-      level: "INFO",
-      message: `News event added: ${event.title}`,
-      details: event
-    });
+    await this.addNewsEvents([event]);
+  }
+
+  // Re-imported releases replace the copy already held, so revised times move their blackout
+  async addNewsEvents(events: NewsEvent[]): Promise<void> {
+    const byKey = new Map(this.newsEvents.map(event => [this.eventKey(event), event]));
+    for (const event of events) {
+      byKey.set(this.eventKey(event), event);
+    }
+    this.newsEvents = Array.from(byKey.values())
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+    logger.info('system', events.length === 1
+      ? `News event added: ${events[0].currency} ${events[0].title} at ${events[0].time}`
+      : `${events.length} news events loaded`);
 
-    // Set up blackout period
-    this.scheduleNewsBlackout(event);
+    // A release that is already inside its blackout window is acted on straight away
+    await this.checkBlackouts();
   }
 
-  private scheduleNewsBlackout(event: NewsEvent): void {
-    const eventTime = new Date(event.time);
-    const blackoutStart = new Date(eventTime.getTime() - (event.bufferMinutes * 60000));
-    const blackoutEnd = new Date(eventTime.getTime() + (event.bufferMinutes * 60000));
-    
+  // High-impact release affecting the symbol within windowMinutes either side of the given time
+  findNewsEvent(symbol: string, windowMinutes: number, at: Date = new Date()): NewsEvent | null {
+    return this.newsEvents.find(event =>
+      event.impact === "HIGH" &&
+      Math.abs(new Date(event.time).getTime() - at.getTime()) <= windowMinutes * 60000 &&
+      this.affects(event, symbol)
+    ) || null;
+  }
+
+  // Upcoming and current blackout windows, per symbol
+  getBlackoutSchedule(symbols: string[] = marketDataService.getSymbols(), hours = 24): Record<string, Array<{ event: NewsEvent; startsAt: string; endsAt: string }>> {
     const now = new Date();
-    
-    if (now >= blackoutStart && now <= blackoutEnd) {
-      this.isNewsBlackout = true;
-      logger.log({
-        type: "SYSTEM",
-        level: "WARN",
-        message: `News blackout started: ${event.title}`,
-        details: { event, blackoutEnd }
-      });
-    }
-    
-    // Schedule blackout end
-    if (now < blackoutEnd) {
-      setTimeout(() => {
-        this.isNewsBlackout = false;
-        logger.log({
-          type: "SYSTEM",
-          level: "INFO",
-          message: `News blackout ended: ${event.title}`
-        });
-      }, blackoutEnd.getTime() - now.getTime());
+    const cutoff = now.getTime() + hours * 60 * 60000;
+    const windows = this.getBlackouts().filter(blackout => blackout.endsAt >= now && blackout.startsAt.getTime() <= cutoff);
+
+    const schedule: Record<string, Array<{ event: NewsEvent; startsAt: string; endsAt: string }>> = {};
+    for (const symbol of symbols) {
+      schedule[symbol] = windows
+        .filter(blackout => this.affects(blackout.event, symbol))
+        .map(blackout => ({ event: blackout.event, startsAt: blackout.startsAt.toISOString(), endsAt: blackout.endsAt.toISOString() }));
     }
+    return schedule;
   }
 
   getSessions(): TradingSession[] {
     return [...this.sessions];
   }
 
-  async updateSession(sessionName: string, updates: Partial<TradingSession>): Promise<void> {
+  async updateSession(sessionName: string, updates: SessionUpdate, updatedBy: string): Promise<TradingSession> {
+    await this.loadSettings();
     const sessionIndex = this.sessions.findIndex(s => s.name === sessionName);
-    if (sessionIndex >= 0) {
-      this.sessions[sessionIndex] = { ...this.sessions[sessionIndex], ...updates };
-      
-      await logger.log({
-        type: "SYSTEM",
-        level: "INFO",
-        message: `Trading session updated: ${sessionName}`,
-        details: updates
-      });
+    if (sessionIndex < 0) {
+      throw new Error(`Unknown trading session: ${sessionName}`);
+    }
+
+    const session = { ...this.sessions[sessionIndex], ...updates };
+    this.sessions[sessionIndex] = session;
+
+    const { name, ...config } = session;
+    try {
+      await db.insert(tradingSessions)
+        .values({ name, config, updatedBy, updatedAt: new Date() })
+        .onConflictDoUpdate({ target: tradingSessions.name, set: { config, updatedBy, updatedAt: new Date() } });
+    } catch (error) {
+      logger.error('system', `Failed to persist trading session ${name}: ${(error as Error).message}`);
     }
+
+    logger.info('system', `Trading session updated by ${updatedBy}: ${sessionName}`, undefined, updates);
+    return session;
   }
 
-  isNewsBlackoutActive(): boolean {
-    return this.isNewsBlackout;
+  getBlackoutSettings(): NewsBlackoutSettings {
+    return { ...this.blackoutSettings };
+  }
+
+  async updateBlackoutSettings(updates: Partial<NewsBlackoutSettings>, updatedBy: string): Promise<NewsBlackoutSettings> {
+    await this.loadSettings();
+    this.blackoutSettings = newsBlackoutSettingsSchema.parse({ ...this.blackoutSettings, ...updates });
+
+    const config = this.blackoutSettings;
+    try {
+      await db.insert(newsBlackoutSettings)
+        .values({ id: 1, config, updatedBy, updatedAt: new Date() })
+        .onConflictDoUpdate({ target: newsBlackoutSettings.id, set: { config, updatedBy, updatedAt: new Date() } });
+    } catch (error) {
+      logger.error('risk', `Failed to persist news blackout settings: ${(error as Error).message}`);
+    }
+
+    logger.info('risk', `News blackout set to ${config.action} for ${config.minImpact} impact events by ${updatedBy}`);
+    return this.getBlackoutSettings();
   }
 
   getUpcomingNewsEvents(hours: number = 24): NewsEvent[] {
     const now = new Date();
     const cutoff = new Date(now.getTime() + (hours * 60 * 60 * 1000));
-    
+
     return this.newsEvents.filter(event => {
       const eventTime = new Date(event.time);
       return eventTime > now && eventTime <= cutoff;
     });
   }
+
+  getStatus(at: Date = new Date()): SessionStatus {
+    const symbols = marketDataService.getSymbols();
+
+    return {
+      market: this.getMarketStatus(at),
+      sessions: this.sessions.map(session => {
+        const { minutes } = getZonedTime(at, session.timezone);
+        return {
+          ...session,
+          isOpen: this.isSessionOpen(session, at),
+          localTime: `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`,
+        };
+      }),
+      blackoutSettings: this.getBlackoutSettings(),
+      activeBlackouts: this.getActiveBlackouts(at).map(blackout => ({
+        event: blackout.event,
+        startsAt: blackout.startsAt.toISOString(),
+        endsAt: blackout.endsAt.toISOString(),
+        symbols: symbols.filter(symbol => this.affects(blackout.event, symbol)),
+      })),
+      upcomingEvents: this.getUpcomingNewsEvents(),
+    };
+  }
+
+  // Stored edits replace the default session of the same name and the default blackout settings
+  private loadSettings(): Promise<void> {
+    if (!this.settingsLoaded) {
+      this.settingsLoaded = (async () => {
+        try {
+          const rows = await db.select().from(tradingSessions);
+          for (const row of rows) {
+            const index = this.sessions.findIndex(session => session.name === row.name);
+            const parsed = sessionUpdateSchema.safeParse(row.config);
+            if (index < 0 || !parsed.success) {
+              logger.error('system', `Stored trading session ${row.name} is unknown or invalid, ignoring it`);
+              continue;
+            }
+            this.sessions[index] = { ...this.sessions[index], ...parsed.data };
+          }
+        } catch (error) {
+          logger.error('system', `Failed to load trading sessions: ${(error as Error).message}`);
+        }
+
+        try {
+          const [row] = await db.select().from(newsBlackoutSettings).where(eq(newsBlackoutSettings.id, 1));
+          if (row) {
+            const parsed = newsBlackoutSettingsSchema.safeParse(row.config);
+            if (parsed.success) {
+              this.blackoutSettings = parsed.data;
+            } else {
+              logger.error('risk', "Stored news blackout settings are invalid, using the defaults");
+            }
+          }
+        } catch (error) {
+          logger.error('risk', `Failed to load news blackout settings: ${(error as Error).message}`);
+        }
+      })();
+    }
+    return this.settingsLoaded;
+  }
+
+  private getActiveBlackouts(at: Date = new Date()): Blackout[] {
+    return this.getBlackouts().filter(blackout => at >= blackout.startsAt && at <= blackout.endsAt);
+  }
+
+  // Blackout windows for every event at or above the configured impact
+  private getBlackouts(): Blackout[] {
+    const minRank = IMPACT_RANK[this.blackoutSettings.minImpact];
+
+    return this.newsEvents
+      .filter(event => IMPACT_RANK[event.impact] >= minRank)
+      .map(event => {
+        const time = new Date(event.time).getTime();
+        return {
+          event,
+          startsAt: new Date(time - event.bufferMinutes * 60000),
+          endsAt: new Date(time + event.bufferMinutes * 60000),
+        };
+      });
+  }
+
+  private eventKey(event: NewsEvent): string {
+    return `${event.currency}_${event.title}_${new Date(event.time).toISOString().slice(0, 10)}`;
+  }
+
+  private affects(event: NewsEvent, symbol: string): boolean {
+    if (event.currency === "ALL") return true;
+    const spec = pricingService.getInstrument(symbol);
+    return spec.baseCurrency === event.currency || spec.quoteCurrency === event.currency;
+  }
+
+  // Runs the configured action once per blackout, on the positions open when it starts
+  private async checkBlackouts(): Promise<void> {
+    const now = new Date();
+
+    // Forget releases that are well in the past
+    this.newsEvents = this.newsEvents.filter(event => new Date(event.time).getTime() + 24 * 60 * 60000 > now.getTime());
+
+    for (const blackout of this.getActiveBlackouts(now)) {
+      const key = `${this.eventKey(blackout.event)}_${blackout.event.time}`;
+      if (this.handledBlackouts.has(key)) continue;
+      this.handledBlackouts.add(key);
+
+      const { action } = this.blackoutSettings;
+      logger.warning('risk', `${this.describeBlackout(blackout)}; action ${action}`);
+      if (action === "BLOCK") continue;
+
+      const positions = (await storage.getOpenPositions()).filter(position => this.affects(blackout.event, position.symbol));
+      for (const position of positions) {
+        try {
+          await this.applyBlackoutAction(position, action);
+        } catch (error) {
+          logger.error('risk', `News blackout ${action} failed on position ${position.id}: ${(error as Error).message}`, position.symbol);
+        }
+      }
+      if (positions.length > 0) {
+        await notificationManager.sendRiskWarning(
+          `${blackout.event.currency} ${blackout.event.title}: ${action === "FLATTEN" ? "closed" : "tightened stops on"} ${positions.length} positions`
+        );
+      }
+    }
+  }
+
+  private async applyBlackoutAction(position: Position, action: NewsBlackoutAction): Promise<void> {
+    if (action === "FLATTEN") {
+      const order = await orderManager.createCloseOrder(position);
+      logger.info('risk', `News blackout close of position ${position.id}: order ${order.status}`, position.symbol);
+      return;
+    }
+
+    // Stops only move closer to the price, never further away
+    const quote = marketDataService.getLatestPrice(position.symbol);
+    if (!quote) return;
+
+    const { pipSize, digits } = pricingService.getInstrument(position.symbol);
+    const isLong = position.side === "BUY";
+    const distance = this.blackoutSettings.tightenStopPips * pipSize;
+    const candidate = isLong ? quote.bid - distance : quote.ask + distance;
+    const current = position.stopLoss ? parseFloat(position.stopLoss) : null;
+
+    if (current === null || (isLong ? candidate > current : candidate < current)) {
+      const stop = candidate.toFixed(digits);
+      await storage.updatePosition(position.id, { stopLoss: stop });
+      logger.info('risk', `News blackout moved stop to ${stop} on position ${position.id}`, position.symbol);
+    }
+  }
 }
 
 export const sessionManager = new SessionManager();
+export type {
+  TradingSession,
+  NewsEvent,
+  MarketStatus,
+  SessionCheck,
+  Blackout,
+  SessionStatus,
+  NewsBlackoutSettings,
+  NewsBlackoutAction,
+  SessionUpdate,
+};
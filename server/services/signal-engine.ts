@@ -1,6 +1,8 @@
 
 import { Strategy } from "@shared/schema";
 import { marketDataService } from "./market-data";
+import { historicalDataService } from "./historical-data";
+import { BollingerBands, MACD, RSI, SMA, latestValue } from "./indicators";
 
 interface TradingSignal {
   id: string;
@@ -35,11 +37,13 @@ class TechnicalAnalysisProvider implements SignalProvider {
     if (historicalData.length < 50) return null;
 
     // Calculate indicators
-    const rsi = this.calculateRSI(historicalData, 14);
-    const macd = this.calculateMACD(historicalData);
-    const bollinger = this.calculateBollingerBands(historicalData, 20, 2);
-    const sma50 = this.calculateSMA(historicalData, 50);
-    const sma200 = this.calculateSMA(historicalData, 200);
+    const closes = historicalData.map(d => d.close);
+    const rsi = latestValue(new RSI(14), closes);
+    const macd = latestValue(new MACD(12, 26, 9), closes);
+    const bollinger = latestValue(new BollingerBands(20, 2), closes);
+    const sma50 = latestValue(new SMA(50), closes);
+    const sma200 = latestValue(new SMA(200), closes);
+    if (rsi === null || !macd || !bollinger || sma50 === null) return null;
 
     let signal: "BUY" | "SELL" | null = null;
     let strength = 0;
@@ -57,13 +61,13 @@ class TechnicalAnalysisProvider implements SignalProvider {
     }
 
     // MACD analysis
-    if (macd.signal > 0 && macd.histogram > 0) {
+    if (macd.macd > 0 && macd.histogram > 0) {
       if (signal === "BUY" || signal === null) {
         signal = "BUY";
         strength += 20;
         reasoning += "MACD bullish crossover. ";
       }
-    } else if (macd.signal < 0 && macd.histogram < 0) {
+    } else if (macd.macd < 0 && macd.histogram < 0) {
       if (signal === "SELL" || signal === null) {
         signal = "SELL";
         strength += 20;
@@ -87,8 +91,8 @@ class TechnicalAnalysisProvider implements SignalProvider {
       }
     }
 
-    // Trend analysis
-    if (sma50 > sma200) {
+    // Trend analysis (falls back to price vs SMA50 until 200 bars are stored)
+    if (sma200 !== null ? sma50 > sma200 : currentPrice > sma50) {
       if (signal === "BUY" || signal === null) {
         signal = "BUY";
         strength += 10;
@@ -118,73 +122,12 @@ class TechnicalAnalysisProvider implements SignalProvider {
       strength: Math.min(strength, 100),
       confidence: Math.min(strength * 0.8, 85),
       source: this.name,
-      indicators: { rsi, macd: macd.signal, bollinger: bollinger.middle },
+      indicators: { rsi, macd: macd.macd, macdSignal: macd.signal, macdHistogram: macd.histogram, bollinger: bollinger.middle },
       reasoning: reasoning.trim(),
       timestamp: new Date(),
       expiresAt: new Date(Date.now() + 15 * 60 * 1000) // 15 minutes
     };
   }
-
-  private calculateRSI(data: any[], period: number): number {
-    const prices = data.slice(-period - 1).map(d => d.close);
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) gains += change;
-      else losses += Math.abs(change);
-    }
-
-    const avgGain = gains / period;
-    const avgLoss = losses / period;
-    const rs = avgGain / avgLoss;
-
-    return 100 - (100 / (1 + rs));
-  }
-
-  private calculateMACD(data: any[]): { signal: number; histogram: number } {
-    const prices = data.map(d => d.close);
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    const macdLine = ema12 - ema26;
-    const signalLine = this.calculateEMA([macdLine], 9);
-    
-    return {
-      signal: macdLine - signalLine,
-      histogram: macdLine - signalLine
-    };
-  }
-
-  private calculateEMA(prices: number[], period: number): number {
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-
-    return ema;
-  }
-
-  private calculateBollingerBands(data: any[], period: number, stdDev: number): { upper: number; middle: number; lower: number } {
-    const prices = data.slice(-period).map(d => d.close);
-    const sma = prices.reduce((sum, price) => sum + price, 0) / period;
-    
-    const variance = prices.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period;
-    const standardDev = Math.sqrt(variance);
-
-    return {
-      upper: sma + (standardDev * stdDev),
-      middle: sma,
-      lower: sma - (standardDev * stdDev)
-    };
-  }
-
-  private calculateSMA(data: any[], period: number): number {
-    const prices = data.slice(-period).map(d => d.close);
-    return prices.reduce((sum, price) => sum + price, 0) / period;
-  }
 }
 
 class SentimentAnalysisProvider implements SignalProvider {
@@ -343,8 +286,8 @@ class SignalEngine {
         };
       }
 
-      // Mock historical data
-      const historicalData = this.generateMockHistoricalData(symbol, 200);
+      // Stored hourly history; providers skip symbols without enough bars
+      const historicalData = await historicalDataService.getRecentBars(symbol, "H1", 200);
 
       const symbolSignals: TradingSignal[] = [];
 
@@ -375,25 +318,6 @@ class SignalEngine {
     console.log(`Total active signals: ${this.getAllActiveSignals().length}`);
   }
 
-  private generateMockHistoricalData(symbol: string, bars: number): any[] {
-    const data = [];
-    let price = this.getBasePrice(symbol);
-
-    for (let i = 0; i < bars; i++) {
-      price += (Math.random() - 0.5) * price * 0.001; // Small random walk
-      data.push({
-        timestamp: new Date(Date.now() - (bars - i) * 3600000), // Hourly bars
-        open: price,
-        high: price * (1 + Math.random() * 0.002),
-        low: price * (1 - Math.random() * 0.002),
-        close: price,
-        volume: Math.floor(Math.random() * 1000000) + 100000
-      });
-    }
-
-    return data;
-  }
-
   private getBasePrice(symbol: string): number {
     const basePrices: { [key: string]: number } = {
       "EURUSD": 1.0850,
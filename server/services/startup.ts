@@ -2,13 +2,7 @@ import { db } from "../db";
 import { users } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { authService } from "./auth";
-import { sql } from "drizzle-orm";
-import { marketDataService } from "./market-data";
-import { strategyEngine } from "./strategy-engine";
-import { performanceTracker } from "./performance-tracker";
-import { telegramBot } from "./telegram-bot";
-import { mt5Integration } from "./mt5-integration";
-import { aiTradingEngine } from "./ai-trading-engine";
+import { sql, SQL } from "drizzle-orm";
 
 export class StartupService {
   async initialize(): Promise<void> {
@@ -74,6 +68,7 @@ export class StartupService {
           status TEXT NOT NULL DEFAULT 'STOPPED',
           risk_profile TEXT,
           symbols TEXT NOT NULL,
+          account_ids TEXT NOT NULL DEFAULT '[]',
           is_enabled INTEGER NOT NULL DEFAULT 0,
           created_at INTEGER DEFAULT (unixepoch()),
           updated_at INTEGER DEFAULT (unixepoch()),
@@ -91,8 +86,11 @@ export class StartupService {
           quantity REAL NOT NULL,
           type TEXT NOT NULL,
           price REAL,
+          stop_price REAL,
           stop_loss REAL,
           take_profit REAL,
+          time_in_force TEXT NOT NULL DEFAULT 'GTC',
+          expires_at INTEGER,
           status TEXT NOT NULL DEFAULT 'PENDING',
           broker_order_id TEXT,
           idempotency_key TEXT NOT NULL,
@@ -100,6 +98,9 @@ export class StartupService {
           avg_fill_price REAL,
           commission REAL,
           slippage REAL,
+          realized_pnl REAL DEFAULT 0,
+          reject_reason TEXT,
+          risk_decision_id TEXT,
           created_at INTEGER DEFAULT (unixepoch()),
           filled_at INTEGER,
           FOREIGN KEY (account_id) REFERENCES accounts (id),
@@ -119,8 +120,11 @@ export class StartupService {
           current_price REAL,
           unrealized_pnl REAL DEFAULT 0,
           realized_pnl REAL DEFAULT 0,
+          swap REAL DEFAULT 0,
           stop_loss REAL,
           take_profit REAL,
+          initial_quantity REAL,
+          ladders_taken INTEGER NOT NULL DEFAULT 0,
           is_open INTEGER NOT NULL DEFAULT 1,
           created_at INTEGER DEFAULT (unixepoch()),
           closed_at INTEGER,
@@ -129,6 +133,168 @@ export class StartupService {
         );
       `);
 
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS market_bars (
+          id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+          symbol TEXT NOT NULL,
+          timeframe TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          open REAL NOT NULL,
+          high REAL NOT NULL,
+          low REAL NOT NULL,
+          close REAL NOT NULL,
+          volume REAL NOT NULL DEFAULT 0,
+          spread REAL,
+          source TEXT NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS market_bars_symbol_timeframe_timestamp
+          ON market_bars (symbol, timeframe, timestamp);
+      `);
+
+      // Accounts live in storage, not in the accounts table, so this has no foreign key to it
+      const createEquitySnapshots = sql`
+        CREATE TABLE IF NOT EXISTS equity_snapshots (
+          id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+          account_id TEXT NOT NULL,
+          trading_day TEXT NOT NULL,
+          rollover_at INTEGER NOT NULL,
+          balance REAL NOT NULL,
+          equity REAL NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch())
+        );
+      `;
+      await db.run(createEquitySnapshots);
+      await this.dropForeignKeys("equity_snapshots", createEquitySnapshots);
+
+      await db.run(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS equity_snapshots_account_trading_day
+          ON equity_snapshots (account_id, trading_day);
+      `);
+
+      // No foreign key to accounts either: they live in storage
+      const createEquityPeaks = sql`
+        CREATE TABLE IF NOT EXISTS equity_peaks (
+          account_id TEXT PRIMARY KEY,
+          peak REAL NOT NULL,
+          updated_at INTEGER DEFAULT (unixepoch())
+        );
+      `;
+      await db.run(createEquityPeaks);
+      await this.dropForeignKeys("equity_peaks", createEquityPeaks);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS trading_halts (
+          id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+          reason TEXT NOT NULL,
+          triggered_by TEXT NOT NULL,
+          source TEXT NOT NULL,
+          triggered_at INTEGER NOT NULL,
+          liquidation TEXT,
+          resumed_by TEXT,
+          resume_source TEXT,
+          resume_reason TEXT,
+          resumed_at INTEGER
+        );
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS risk_rule_settings (
+          name TEXT PRIMARY KEY,
+          enabled INTEGER NOT NULL,
+          severity TEXT NOT NULL,
+          config TEXT,
+          updated_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS risk_decisions (
+          id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+          account_id TEXT NOT NULL,
+          strategy_id TEXT,
+          symbol TEXT NOT NULL,
+          side TEXT NOT NULL,
+          requested_quantity REAL NOT NULL,
+          final_quantity REAL NOT NULL,
+          approved INTEGER NOT NULL,
+          reason TEXT,
+          inputs TEXT NOT NULL,
+          trace TEXT NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS economic_events (
+          id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+          title TEXT NOT NULL,
+          currency TEXT NOT NULL,
+          impact TEXT NOT NULL,
+          event_time INTEGER NOT NULL,
+          symbols TEXT NOT NULL,
+          forecast TEXT,
+          previous TEXT,
+          actual TEXT,
+          source TEXT NOT NULL,
+          created_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS economic_events_currency_title_time
+          ON economic_events (currency, title, event_time);
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS risk_limit_versions (
+          id TEXT PRIMARY KEY DEFAULT (hex(randomblob(16))),
+          scope TEXT NOT NULL,
+          scope_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          limits TEXT NOT NULL,
+          effective_from INTEGER NOT NULL,
+          created_by TEXT NOT NULL,
+          reason TEXT,
+          created_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS risk_limit_versions_scope_version
+          ON risk_limit_versions (scope, scope_id, version);
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS execution_cost_profiles (
+          name TEXT PRIMARY KEY,
+          config TEXT NOT NULL,
+          updated_by TEXT NOT NULL,
+          updated_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS trading_sessions (
+          name TEXT PRIMARY KEY,
+          config TEXT NOT NULL,
+          updated_by TEXT NOT NULL,
+          updated_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
+      await db.run(sql`
+        CREATE TABLE IF NOT EXISTS news_blackout_settings (
+          id INTEGER PRIMARY KEY,
+          config TEXT NOT NULL,
+          updated_by TEXT NOT NULL,
+          updated_at INTEGER DEFAULT (unixepoch())
+        );
+      `);
+
       console.log("✅ Database initialized successfully");
     } catch (error) {
       console.error("Failed to initialize database:", error);
@@ -136,6 +302,18 @@ export class StartupService {
     }
   }
 
+  // Rebuilds a table created with foreign keys using its current definition, keeping the rows
+  private async dropForeignKeys(table: string, create: SQL): Promise<void> {
+    const foreignKeys = await db.all(sql.raw(`PRAGMA foreign_key_list(${table})`));
+    if (foreignKeys.length === 0) return;
+
+    await db.run(sql.raw(`ALTER TABLE ${table} RENAME TO ${table}_old`));
+    await db.run(create);
+    await db.run(sql.raw(`INSERT INTO ${table} SELECT * FROM ${table}_old`));
+    await db.run(sql.raw(`DROP TABLE ${table}_old`));
+    console.log(`✅ Removed foreign keys from ${table}`);
+  }
+
   private async createDefaultAdmin(): Promise<void> {
     try {
       console.log("👤 Creating default admin user...");
@@ -157,28 +335,6 @@ export class StartupService {
       console.error("❌ Failed to create default admin user:", error);
     }
   }
-
-  async startServices(): Promise<void> {
-    // Start all services
-    await marketDataService.start();
-    await strategyEngine.start();
-    await performanceTracker.start();
-    await telegramBot.start();
-
-    // Initialize MT5 integration
-    const mt5Connected = await mt5Integration.initialize();
-    if (mt5Connected) {
-      console.log("✅ MT5 integration initialized");
-
-      // Initialize AI trading engine
-      const aiInitialized = await aiTradingEngine.initialize();
-      if (aiInitialized) {
-        console.log("✅ AI Trading Engine ready");
-      }
-    } else {
-      console.log("⚠️ MT5 integration failed - using mock data");
-    }
-  }
 }
 
-export const startupService = new StartupService();
\ No newline at end of file
+export const startupService = new StartupService();
@@ -1,8 +1,12 @@
-import { Strategy, Position, InsertOrder, Backtest } from "@shared/schema";
-import { storage } from "../storage";
+import { storage, Account, Strategy, StoredBacktest } from "../storage";
 import { notificationManager } from "./notification-manager";
+import { marketDataService, Candle } from "./market-data";
+import { strategyLogic, StrategyBar, TradeSetup } from "./strategy-logic";
+import { positionSizingService } from "./position-sizing";
+import { riskLimitsService } from "./risk-limits";
 
 interface StrategySignal {
+  accountId: string;
   symbol: string;
   side: "BUY" | "SELL";
   quantity: number;
@@ -15,6 +19,7 @@ class StrategyEngine {
   private activeStrategies = new Map<string, Strategy>();
   private strategyStates = new Map<string, any>();
   private isRunning = false;
+  private subscribed = false;
 
   async loadStrategy(strategy: Strategy): Promise<void> {
     this.activeStrategies.set(strategy.id, strategy);
@@ -28,6 +33,8 @@ class StrategyEngine {
   }
 
   async startStrategy(strategy: Strategy): Promise<void> {
+    // Make sure the engine is subscribed to bar closes
+    if (!this.isRunning) await this.start();
     await this.loadStrategy(strategy);
 
     const { logger } = await import("./logger");
@@ -69,6 +76,11 @@ class StrategyEngine {
   async start(): Promise<void> {
     if (this.isRunning) return;
 
+    const { riskManager } = await import("./risk-manager");
+    if (riskManager.isEmergencyStopActive()) {
+      throw new Error("Emergency stop is active - cannot start strategy engine");
+    }
+
     this.isRunning = true;
     console.log("Strategy Engine started");
 
@@ -78,8 +90,11 @@ class StrategyEngine {
       await this.loadStrategy(strategy);
     }
 
-    // Start main processing loop
-    this.processLoop();
+    // Strategies act on closed candles from the market data feed
+    if (!this.subscribed) {
+      marketDataService.onBarClose(bar => this.onBarClose(bar));
+      this.subscribed = true;
+    }
   }
 
   async stop(): Promise<void> {
@@ -89,42 +104,37 @@ class StrategyEngine {
     console.log("Strategy Engine stopped");
   }
 
-  private async processLoop(): Promise<void> {
-    while (this.isRunning) {
-      try {
-        // Process each active strategy
-        for (const strategy of Array.from(this.activeStrategies.values())) {
-          if (strategy.status === "RUNNING") {
-            await this.processStrategy(strategy);
-          }
-        }
+  private onBarClose(bar: Candle): void {
+    if (!this.isRunning) return;
 
-        // Sleep for 1 second before next iteration
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error) {
-        console.error("Strategy processing error:", error);
-        await new Promise(resolve => setTimeout(resolve, 5000)); // Longer pause on error
+    for (const strategy of Array.from(this.activeStrategies.values())) {
+      if (strategy.status === "RUNNING") {
+        this.processStrategy(strategy, bar).catch(error => {
+          console.error("Strategy processing error:", error);
+        });
       }
     }
   }
 
-  private async processStrategy(strategy: Strategy): Promise<void> {
+  private async processStrategy(strategy: Strategy, bar: Candle): Promise<void> {
     try {
       const state = this.strategyStates.get(strategy.id);
       if (!state) return;
 
-      // Get latest market data for strategy symbols
-      for (const symbol of strategy.symbols) {
-        const marketData = { price: 1.0500 + Math.random() * 0.01, symbol }; // Mock data
-        if (!marketData) continue;
+      const params = strategyLogic.getParameters(strategy);
+      const timeframe = params.timeframe || "H1";
+      const symbols: string[] = Array.isArray(strategy.symbols) ? strategy.symbols : JSON.parse(strategy.symbols);
+      if (bar.timeframe !== timeframe || !symbols.includes(bar.symbol)) return;
 
-        // Run strategy logic based on type
-        const signals = await this.executeStrategyLogic(strategy, symbol, marketData, state);
+      // Closed candles up to and including the one that just closed
+      const bars = marketDataService.getCandles(bar.symbol, bar.timeframe, strategyLogic.lookbackBars);
+      const setups = await this.executeStrategyLogic(strategy, bar.symbol, bars, state);
 
-        // Process any generated signals
-        for (const signal of signals) {
-          await this.processSignal(strategy, signal);
-        }
+      // Each setup is sized, risk-checked and routed separately for every bound account
+      for (const setup of setups) {
+        await this.dispatchToAccounts(strategy, setup);
+        state.signalsGenerated = (state.signalsGenerated || 0) + 1;
+        state.lastSignalTime = new Date();
       }
     } catch (error) {
       console.error(`Strategy ${strategy.name} processing error:`, error);
@@ -135,132 +145,66 @@ class StrategyEngine {
   private async executeStrategyLogic(
     strategy: Strategy,
     symbol: string,
-    marketData: any,
+    bars: StrategyBar[],
     state: any
-  ): Promise<StrategySignal[]> {
-    const params = strategy.parameters as any;
-    const signals: StrategySignal[] = [];
-
-    // Breakout Volatility Strategy Implementation
-    if (strategy.name.includes("Breakout")) {
-      const signals = await this.breakoutStrategy(symbol, marketData, params, state);
-      return signals;
-    }
-
-    // Mean Reversion Strategy Implementation
-    if (strategy.name.includes("Mean Reversion")) {
-      const signals = await this.meanReversionStrategy(symbol, marketData, params, state);
-      return signals;
-    }
-
-    // Trend Follow Strategy Implementation
-    if (strategy.name.includes("Trend Follow")) {
-      const signals = await this.trendFollowStrategy(symbol, marketData, params, state);
-      return signals;
-    }
-
-    return signals;
+  ): Promise<TradeSetup[]> {
+    const setup = strategyLogic.evaluate(strategy, symbol, bars);
+    return setup ? [setup] : [];
   }
 
-  private async breakoutStrategy(
-    symbol: string,
-    marketData: any,
-    params: any,
-    state: any
-  ): Promise<StrategySignal[]> {
-    // Simplified breakout strategy logic
-    const { donchianPeriod = 20, atrPeriod = 14, riskPercent = 1 } = params;
-
-    // This would normally calculate Donchian channels and ATR
-    // For now, generate occasional signals based on simple conditions
-    const shouldSignal = Math.random() < 0.01; // 1% chance per tick
-
-    if (shouldSignal && !state.hasPosition) {
-      const side = Math.random() > 0.5 ? "BUY" : "SELL";
-      const atr = marketData.price * 0.001; // Mock ATR calculation
-
-      return [{
-        symbol,
-        side,
-        quantity: this.calculatePositionSize(marketData.price, atr, riskPercent),
-        stopLoss: side === "BUY" ? marketData.price - (atr * 2) : marketData.price + (atr * 2),
-        takeProfit: side === "BUY" ? marketData.price + (atr * 3) : marketData.price - (atr * 3),
-        reason: "Donchian breakout with ATR volatility filter"
-      }];
+  private async dispatchToAccounts(strategy: Strategy, setup: TradeSetup): Promise<void> {
+    const accountIds: string[] = strategy.accountIds || [];
+    if (accountIds.length === 0) {
+      console.log(`Strategy ${strategy.name} has no bound accounts, ignoring ${setup.side} ${setup.symbol} signal`);
+      return;
     }
 
-    return [];
-  }
-
-  private async meanReversionStrategy(
-    symbol: string,
-    marketData: any,
-    params: any,
-    state: any
-  ): Promise<StrategySignal[]> {
-    // Simplified mean reversion logic
-    const shouldSignal = Math.random() < 0.008; // 0.8% chance per tick
-
-    if (shouldSignal && !state.hasPosition) {
-      const side = Math.random() > 0.5 ? "SELL" : "BUY"; // Mean reversion typically goes against trend
-      const atr = marketData.price * 0.0008;
-
-      return [{
-        symbol,
-        side,
-        quantity: this.calculatePositionSize(marketData.price, atr, 0.8),
-        stopLoss: side === "BUY" ? marketData.price - (atr * 1.5) : marketData.price + (atr * 1.5),
-        takeProfit: side === "BUY" ? marketData.price + atr : marketData.price - atr,
-        reason: "RSI oversold/overbought with Bollinger Band mean reversion"
-      }];
-    }
+    for (const accountId of accountIds) {
+      const account = await storage.getAccount(accountId);
+      if (!account || account.status !== "ACTIVE") {
+        console.log(`Strategy ${strategy.name}: account ${accountId} is not active, skipping`);
+        continue;
+      }
 
-    return [];
-  }
+      // One position per strategy, symbol and account
+      const openPositions = await storage.getOpenPositions(account.id);
+      if (openPositions.some(p => p.strategyId === strategy.id && p.symbol === setup.symbol)) continue;
+
+      const sizing = await positionSizingService.calculate({
+        equity: parseFloat(account.equity || account.balance || "0"),
+        accountCurrency: account.baseCurrency || "USD",
+        brokerId: account.brokerId || "paper",
+        symbol: setup.symbol,
+        stopDistance: Math.abs(setup.entryPrice - setup.stopLoss),
+        riskPercent: setup.riskPercent,
+        riskProfile: strategy.riskProfile,
+        strategyId: strategy.id,
+        maxRiskPercent: await riskLimitsService.getRiskPerTradeCap(account.id, strategy.id),
+      });
+      if (sizing.quantity <= 0) {
+        console.log(`Strategy ${strategy.name}: no tradable size on ${account.name}${sizing.note ? ` (${sizing.note})` : ""}`);
+        continue;
+      }
 
-  private async trendFollowStrategy(
-    symbol: string,
-    marketData: any,
-    params: any,
-    state: any
-  ): Promise<StrategySignal[]> {
-    // Simplified trend follow logic
-    const shouldSignal = Math.random() < 0.006; // 0.6% chance per tick
-
-    if (shouldSignal && !state.hasPosition) {
-      const side = Math.random() > 0.4 ? "BUY" : "SELL"; // Slight bullish bias
-      const atr = marketData.price * 0.0012;
-
-      return [{
-        symbol,
-        side,
-        quantity: this.calculatePositionSize(marketData.price, atr, 1.2),
-        stopLoss: side === "BUY" ? marketData.price - (atr * 2.5) : marketData.price + (atr * 2.5),
-        takeProfit: side === "BUY" ? marketData.price + (atr * 4) : marketData.price - (atr * 4),
-        reason: "EMA stack trend confirmation with pullback entry"
-      }];
+      await this.processSignal(strategy, account, {
+        accountId: account.id,
+        symbol: setup.symbol,
+        side: setup.side,
+        quantity: sizing.quantity,
+        stopLoss: setup.stopLoss,
+        takeProfit: setup.takeProfit,
+        reason: setup.reason,
+      });
     }
-
-    return [];
-  }
-
-  private calculatePositionSize(price: number, atr: number, riskPercent: number): number {
-    // Simple position sizing based on ATR and risk percentage
-    const accountBalance = 100000; // Would get from account
-    const riskAmount = accountBalance * (riskPercent / 100);
-    const stopDistance = atr * 2;
-    const dollarPerPip = 10; // Simplified for major pairs
-
-    return Math.min(0.1, riskAmount / (stopDistance * dollarPerPip));
   }
 
-  private async processSignal(strategy: Strategy, signal: StrategySignal): Promise<void> {
+  private async processSignal(strategy: Strategy, account: Account, signal: StrategySignal): Promise<void> {
     try {
       // Import risk manager for proper validation
       const { riskManager } = await import("./risk-manager");
 
       // Check risk constraints before creating order
-      const riskCheck = await riskManager.validateTrade(signal, strategy);
+      const riskCheck = await riskManager.validateTrade(signal, strategy, account);
       if (!riskCheck.approved) {
         console.log(`Trade rejected by risk manager: ${riskCheck.reason}`);
 
@@ -268,28 +212,34 @@ class StrategyEngine {
         await storage.createAlert({
           level: "WARNING",
           title: "Trade Rejected",
-          message: `${strategy.name}: ${riskCheck.reason}`,
+          message: `${strategy.name} on ${account.name}: ${riskCheck.reason}`,
           source: "RISK_MANAGER",
         });
         return;
       }
 
-      // Create order
-      const order: InsertOrder = {
-        accountId: "demo-account", // Would get from strategy config
+      const quantity = riskCheck.adjustedQuantity ?? signal.quantity;
+      if (riskCheck.adjustedQuantity !== undefined) {
+        console.log(`Trade resized by risk manager: ${riskCheck.reason}`);
+      }
+
+      // Route the order to the account's broker
+      const { orderManager } = await import("./order-manager");
+      const order = await orderManager.submitOrder({
+        accountId: account.id,
         strategyId: strategy.id,
         symbol: signal.symbol,
         side: signal.side,
-        quantity: signal.quantity.toString(),
+        quantity: quantity.toString(),
         type: "MARKET",
         stopLoss: signal.stopLoss?.toString(),
         takeProfit: signal.takeProfit?.toString(),
         status: "PENDING",
-        idempotencyKey: `${strategy.id}-${signal.symbol}-${Date.now()}`,
-      };
+        idempotencyKey: `${strategy.id}-${account.id}-${signal.symbol}-${Date.now()}`,
+        riskDecisionId: riskCheck.decisionId,
+      });
 
-      await storage.createOrder(order);
-      console.log(`Order submitted: ${signal.side} ${signal.quantity} ${signal.symbol}`);
+      console.log(`Order ${order.status}: ${signal.side} ${quantity} ${signal.symbol} on ${account.name}`);
 
     } catch (error) {
       console.error("Signal processing error:", error);
@@ -298,18 +248,18 @@ class StrategyEngine {
 
   private initializeStrategyState(strategy: Strategy): any {
     return {
-      hasPosition: false,
       lastSignalTime: null,
-      indicators: {},
-      bars: [],
+      signalsGenerated: 0,
+      startTime: Date.now(),
     };
   }
 
-  async runBacktest(backtest: Backtest): Promise<void> {
+  async runBacktest(backtest: StoredBacktest): Promise<void> {
     try {
       console.log(`Running backtest: ${backtest.name}`);
       const { backtestingEngine } = await import("./backtesting-engine");
       const strategy = await storage.getStrategy(backtest.strategyId);
+      if (!strategy) throw new Error(`Strategy ${backtest.strategyId} not found`);
       await backtestingEngine.runBacktest(backtest, strategy);
     } catch (error) {
       console.error("Backtest execution error:", error);
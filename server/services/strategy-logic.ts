@@ -0,0 +1,234 @@
+import { ATR, BollingerBands, DonchianChannel, EMA, MACD, RSI, latestValue } from "./indicators";
+
+// Bar-driven entry rules shared by the live StrategyEngine and the BacktestingEngine,
+// so a backtest replays exactly the code that trades.
+
+interface StrategyBar {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface TradeSetup {
+  symbol: string;
+  side: "BUY" | "SELL";
+  entryPrice: number;
+  stopLoss: number;
+  takeProfit: number;
+  riskPercent: number;
+  reason: string;
+}
+
+type StrategyType = "BREAKOUT" | "MEAN_REVERSION" | "TREND_FOLLOW";
+
+// Parameters arrive as a JSON string from the database or as an object from the API
+interface StrategyDefinition {
+  name: string;
+  parameters?: unknown;
+}
+
+// Enough history to seed every indicator the rules use
+const LOOKBACK_BARS = 300;
+
+class StrategyLogic {
+  readonly lookbackBars = LOOKBACK_BARS;
+
+  getStrategyType(strategy: Pick<StrategyDefinition, "name">): StrategyType | null {
+    if (strategy.name.includes("Breakout")) return "BREAKOUT";
+    if (strategy.name.includes("Mean Reversion")) return "MEAN_REVERSION";
+    if (strategy.name.includes("Trend Follow")) return "TREND_FOLLOW";
+    return null;
+  }
+
+  getParameters(strategy: Pick<StrategyDefinition, "parameters">): Record<string, any> {
+    const parameters = strategy.parameters;
+    if (!parameters) return {};
+    return typeof parameters === "string" ? JSON.parse(parameters) : parameters;
+  }
+
+  // Evaluates the strategy on closed bars (oldest first); the last bar is the one that just closed
+  evaluate(strategy: StrategyDefinition, symbol: string, bars: StrategyBar[]): TradeSetup | null {
+    const params = this.getParameters(strategy);
+
+    switch (this.getStrategyType(strategy)) {
+      case "BREAKOUT":
+        return this.breakoutStrategy(symbol, bars, params);
+      case "MEAN_REVERSION":
+        return this.meanReversionStrategy(symbol, bars, params);
+      case "TREND_FOLLOW":
+        return this.trendFollowStrategy(symbol, bars, params);
+      default:
+        return null;
+    }
+  }
+
+  private breakoutStrategy(symbol: string, bars: StrategyBar[], params: any): TradeSetup | null {
+    const {
+      donchianPeriod = 20,
+      atrPeriod = 14,
+      riskPercent = 1,
+      stopLossMultiplier = 2,
+      takeProfitMultiplier = 3,
+    } = params;
+
+    if (bars.length < Math.max(donchianPeriod, atrPeriod) + 2) return null;
+
+    // Channel from the bars before the one that just closed
+    const current = bars[bars.length - 1];
+    const channel = latestValue(new DonchianChannel(donchianPeriod), bars.slice(0, -1));
+    const atrIndicator = new ATR(atrPeriod);
+    latestValue(atrIndicator, bars.slice(0, -1));
+    const previousAtr = atrIndicator.value;
+    const atr = atrIndicator.update(current);
+    if (!channel || !atr) return null;
+
+    // Only take breakouts that close outside the channel on expanding volatility
+    if (previousAtr && atr < previousAtr * 0.9) return null;
+
+    const { upper, lower } = channel;
+    if (current.close > upper) {
+      return {
+        symbol,
+        side: "BUY",
+        entryPrice: current.close,
+        stopLoss: current.close - atr * stopLossMultiplier,
+        takeProfit: current.close + atr * takeProfitMultiplier,
+        riskPercent,
+        reason: `Donchian(${donchianPeriod}) breakout above ${upper.toFixed(5)} with ATR volatility filter`,
+      };
+    }
+
+    if (current.close < lower) {
+      return {
+        symbol,
+        side: "SELL",
+        entryPrice: current.close,
+        stopLoss: current.close + atr * stopLossMultiplier,
+        takeProfit: current.close - atr * takeProfitMultiplier,
+        riskPercent,
+        reason: `Donchian(${donchianPeriod}) breakout below ${lower.toFixed(5)} with ATR volatility filter`,
+      };
+    }
+
+    return null;
+  }
+
+  private meanReversionStrategy(symbol: string, bars: StrategyBar[], params: any): TradeSetup | null {
+    const {
+      rsiPeriod = 14,
+      rsiOverbought = 70,
+      rsiOversold = 30,
+      bollingerPeriod = 20,
+      bollingerStdDev = 2,
+      atrPeriod = 14,
+      riskPercent = 0.8,
+      stopLossMultiplier = 1.5,
+    } = params;
+
+    if (bars.length < Math.max(rsiPeriod, bollingerPeriod, atrPeriod) + 2) return null;
+
+    const closes = bars.map(b => b.close);
+    const current = bars[bars.length - 1];
+    const rsi = latestValue(new RSI(rsiPeriod), closes);
+    const bands = latestValue(new BollingerBands(bollingerPeriod, bollingerStdDev), closes);
+    const atr = latestValue(new ATR(atrPeriod), bars);
+    if (!atr || rsi === null || !bands) return null;
+
+    const { upper: upperBand, middle, lower: lowerBand } = bands;
+
+    // Target the middle band; skip setups where it is not on the profitable side
+    if (rsi < rsiOversold && current.close < lowerBand && middle > current.close) {
+      return {
+        symbol,
+        side: "BUY",
+        entryPrice: current.close,
+        stopLoss: current.close - atr * stopLossMultiplier,
+        takeProfit: middle,
+        riskPercent,
+        reason: `RSI ${rsi.toFixed(1)} oversold below lower Bollinger Band`,
+      };
+    }
+
+    if (rsi > rsiOverbought && current.close > upperBand && middle < current.close) {
+      return {
+        symbol,
+        side: "SELL",
+        entryPrice: current.close,
+        stopLoss: current.close + atr * stopLossMultiplier,
+        takeProfit: middle,
+        riskPercent,
+        reason: `RSI ${rsi.toFixed(1)} overbought above upper Bollinger Band`,
+      };
+    }
+
+    return null;
+  }
+
+  private trendFollowStrategy(symbol: string, bars: StrategyBar[], params: any): TradeSetup | null {
+    const {
+      fastEma = 12,
+      slowEma = 26,
+      signalEma = 9,
+      atrPeriod = 14,
+      riskPercent = 1.2,
+      stopLossMultiplier = 2.5,
+      takeProfitMultiplier = 4,
+    } = params;
+
+    if (bars.length < slowEma + signalEma + 2) return null;
+
+    const fast = new EMA(fastEma);
+    const slow = new EMA(slowEma);
+    const macd = new MACD(fastEma, slowEma, signalEma);
+    let previousHistogram: number | null = null;
+
+    for (const bar of bars) {
+      previousHistogram = macd.value ? macd.value.histogram : null;
+      fast.update(bar.close);
+      slow.update(bar.close);
+      macd.update(bar.close);
+    }
+
+    const current = bars[bars.length - 1];
+    const atr = latestValue(new ATR(atrPeriod), bars);
+    if (!atr || !macd.value || previousHistogram === null || fast.value === null || slow.value === null) return null;
+
+    const { histogram } = macd.value;
+
+    // EMA stack gives the trend; the MACD histogram turning back in its direction is the pullback entry
+    const uptrend = fast.value > slow.value && current.close > fast.value;
+    const downtrend = fast.value < slow.value && current.close < fast.value;
+
+    if (uptrend && previousHistogram <= 0 && histogram > 0) {
+      return {
+        symbol,
+        side: "BUY",
+        entryPrice: current.close,
+        stopLoss: current.close - atr * stopLossMultiplier,
+        takeProfit: current.close + atr * takeProfitMultiplier,
+        riskPercent,
+        reason: "EMA stack trend confirmation with pullback entry",
+      };
+    }
+
+    if (downtrend && previousHistogram >= 0 && histogram < 0) {
+      return {
+        symbol,
+        side: "SELL",
+        entryPrice: current.close,
+        stopLoss: current.close + atr * stopLossMultiplier,
+        takeProfit: current.close - atr * takeProfitMultiplier,
+        riskPercent,
+        reason: "EMA stack trend confirmation with pullback entry",
+      };
+    }
+
+    return null;
+  }
+}
+
+export const strategyLogic = new StrategyLogic();
+export type { StrategyBar, TradeSetup, StrategyType, StrategyDefinition };
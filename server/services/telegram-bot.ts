@@ -1,7 +1,7 @@
 import TelegramBot from 'node-telegram-bot-api';
 import 'dotenv/config';
 import { storage } from '../storage';
-import { riskManager } from './risk-manager';
+import { riskManager, LiquidationReport } from './risk-manager';
 import { orderManager } from './order-manager';
 import { strategyEngine } from './strategy-engine';
 
@@ -50,6 +50,7 @@ class TelegramBotService {
       { command: 'positions', description: 'View open positions' },
       { command: 'risk', description: 'Get current risk metrics' },
       { command: 'stop', description: 'Emergency stop all trading' },
+      { command: 'resume', description: 'Resume trading after an emergency stop' },
       { command: 'strategies', description: 'View strategy status' },
       { command: 'alerts', description: 'Subscribe/unsubscribe to alerts' },
       { command: 'help', description: 'Show all available commands' },
@@ -97,8 +98,12 @@ class TelegramBotService {
       if (!this.isAuthorized(msg.from?.id)) return;
 
       try {
-        const positions = await storage.getOpenPositions('default-account');
-        const positionsMessage = this.formatPositionsMessage(positions);
+        const accounts = await storage.getAccounts();
+        const positionsByAccount = await Promise.all(accounts.map(async account => ({
+          account,
+          positions: await storage.getOpenPositions(account.id),
+        })));
+        const positionsMessage = this.formatPositionsMessage(positionsByAccount);
         this.sendMessage(msg.chat.id, positionsMessage, { parse_mode: 'Markdown' });
       } catch (error) {
         this.sendMessage(msg.chat.id, '❌ Failed to fetch positions');
@@ -118,24 +123,46 @@ class TelegramBotService {
       }
     });
 
-    // Emergency stop command
-    this.bot.onText(/\/stop/, async (msg) => {
+    // Emergency stop command; anything after /stop is recorded as the reason
+    this.bot.onText(/\/stop(?:\s+(.+))?/, async (msg, match) => {
       if (!this.isAuthorized(msg.from?.id, 'admin')) return;
 
       try {
-        await riskManager.emergencyStop();
-        await storage.createAlert({
-          level: "CRITICAL",
-          title: "Emergency Stop (Telegram)",
-          message: `Emergency stop triggered by ${msg.from?.first_name} via Telegram`,
-          source: "TELEGRAM_BOT",
-        });
-        this.sendMessage(msg.chat.id, '🛑 *EMERGENCY STOP EXECUTED*\n\nAll trading has been halted.', { parse_mode: 'Markdown' });
+        const triggeredBy = msg.from?.username || msg.from?.first_name || String(msg.from?.id);
+        const { halt } = await riskManager.emergencyStop(triggeredBy, 'TELEGRAM', match?.[1]?.trim() || undefined);
+        const liquidation = halt?.liquidation as LiquidationReport | null;
+        this.sendMessage(msg.chat.id,
+          `🛑 *EMERGENCY STOP EXECUTED*\n\nAll trading has been halted.\nClosed: ${liquidation?.closed ?? 0} positions\nFailed: ${liquidation?.failed ?? 0}\n\nUse /resume <reason> to resume trading.`,
+          { parse_mode: 'Markdown' }
+        );
       } catch (error) {
         this.sendMessage(msg.chat.id, '❌ Failed to execute emergency stop');
       }
     });
 
+    // Resume trading after an emergency stop; a reason is required for the audit trail
+    this.bot.onText(/\/resume(?:\s+(.+))?/, async (msg, match) => {
+      if (!this.isAuthorized(msg.from?.id, 'admin')) return;
+
+      const reason = match?.[1]?.trim();
+      if (!reason) {
+        this.sendMessage(msg.chat.id, '⚠️ Usage: /resume <reason>');
+        return;
+      }
+      if (!riskManager.isEmergencyStopActive()) {
+        this.sendMessage(msg.chat.id, 'ℹ️ Emergency stop is not active');
+        return;
+      }
+
+      try {
+        const resumedBy = msg.from?.username || msg.from?.first_name || String(msg.from?.id);
+        await riskManager.resumeTrading(resumedBy, 'TELEGRAM', reason);
+        this.sendMessage(msg.chat.id, '✅ *TRADING RESUMED*\n\nStrategies stay paused until they are started again.', { parse_mode: 'Markdown' });
+      } catch (error) {
+        this.sendMessage(msg.chat.id, '❌ Failed to resume trading');
+      }
+    });
+
     // Strategies command
     this.bot.onText(/\/strategies/, async (msg) => {
       if (!this.isAuthorized(msg.from?.id)) return;
@@ -178,7 +205,8 @@ class TelegramBotService {
 ❓ /help - Show this help
 
 *Admin Only:*
-🛑 /stop - Emergency stop all trading
+🛑 /stop [reason] - Emergency stop all trading
+▶️ /resume <reason> - Resume trading after an emergency stop
 
 Need help? Contact your administrator.`;
 
@@ -249,25 +277,29 @@ Need help? Contact your administrator.`;
 🕐 Last Updated: ${new Date().toLocaleTimeString()}`;
   }
 
-  private formatPositionsMessage(positions: any[]): string {
-    if (positions.length === 0) {
+  private formatPositionsMessage(positionsByAccount: { account: any; positions: any[] }[]): string {
+    const withPositions = positionsByAccount.filter(entry => entry.positions.length > 0);
+    if (withPositions.length === 0) {
       return '📊 *Open Positions*\n\nNo open positions';
     }
 
-    let message = '📊 *Open Positions*\n\n';
+    let message = '📊 *Open Positions*\n';
+
+    withPositions.forEach(({ account, positions }) => {
+      message += `\n🏦 *${account.name}*\n`;
 
-    positions.forEach((pos, index) => {
-      const pnl = parseFloat(pos.unrealizedPnL);
-      const pnlEmoji = pnl >= 0 ? '📈' : '📉';
+      positions.forEach(pos => {
+        const pnl = parseFloat(pos.unrealizedPnL);
+        const pnlEmoji = pnl >= 0 ? '📈' : '📉';
 
-      message += `${pnlEmoji} *${pos.symbol}*\n`;
-      message += `   Side: ${pos.side}\n`;
-      message += `   Size: ${parseFloat(pos.quantity).toFixed(2)}\n`;
-      message += `   P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}\n`;
-      if (index < positions.length - 1) message += '\n';
+        message += `${pnlEmoji} *${pos.symbol}*\n`;
+        message += `   Side: ${pos.side}\n`;
+        message += `   Size: ${parseFloat(pos.quantity).toFixed(2)}\n`;
+        message += `   P&L: ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}\n`;
+      });
     });
 
-    return message;
+    return message.trimEnd();
   }
 
   private formatRiskMessage(riskData: any): string {
@@ -5,7 +5,15 @@ interface Account {
   balance: string;
   equity: string;
   broker: string;
-  status: string;
+  brokerId?: string;
+  accountNumber?: string;
+  mode?: string; // paper, live
+  baseCurrency?: string;
+  leverage?: string;
+  propRules?: any;
+  isActive?: boolean;
+  status: string; // ACTIVE, LOCKED
+  lockedUntil?: string; // Set while a breach has locked the account
   createdAt: string;
 }
 
@@ -16,6 +24,9 @@ interface Strategy {
   status: string;
   isEnabled: boolean;
   symbols: string[];
+  accountIds: string[]; // Accounts the strategy trades on
+  parameters?: any;
+  riskProfile?: any;
   createdAt: string;
 }
 
@@ -30,8 +41,11 @@ interface Position {
   currentPrice: string;
   unrealizedPnL: string;
   realizedPnL?: string; // Added for completeness
+  swap?: string; // Accumulated rollover financing
   stopLoss?: string; // Added for completeness
   takeProfit?: string; // Added for completeness
+  initialQuantity?: string; // Size at open; take-profit ladder rungs are percentages of it
+  laddersTaken?: number; // Take-profit ladder rungs already closed
   isOpen: boolean;
   createdAt: string;
   closedAt?: string; // Added for completeness
@@ -40,12 +54,29 @@ interface Position {
 interface Order {
   id: string;
   accountId: string;
+  strategyId?: string;
   symbol: string;
   side: string;
   quantity: string;
-  price: string;
-  status: string;
+  type?: string; // MARKET, LIMIT, STOP, STOP_LIMIT
+  price?: string; // Limit price; trigger price for STOP
+  stopPrice?: string; // Trigger price for STOP_LIMIT
+  stopLoss?: string;
+  takeProfit?: string;
+  timeInForce?: string; // GTC, GTD
+  expiresAt?: string;
+  status: string; // PENDING, FILLED, CANCELLED, REJECTED, PARTIAL, EXPIRED
+  brokerOrderId?: string;
+  idempotencyKey?: string;
+  filledQuantity?: string;
+  avgFillPrice?: string;
+  commission?: string;
+  slippage?: string;
+  realizedPnL?: string; // Closed on the position by this order's fills
+  rejectReason?: string;
+  riskDecisionId?: string; // Pre-trade decision that approved the order
   createdAt: string;
+  filledAt?: string;
 }
 
 interface Alert {
@@ -59,14 +90,33 @@ interface Alert {
   timestamp?: string; // Added for consistency with the change
 }
 
+interface RiskEvent {
+  id: string;
+  accountId: string;
+  strategyId?: string | null;
+  level: string; // INFO, WARNING, CRITICAL
+  rule: string;
+  action: string;
+  details?: Record<string, any>;
+  createdAt: string;
+}
+
 interface Backtest {
   id: string;
   strategyId: string;
   name: string;
   startDate: string;
   endDate: string;
-  parameters: { initialBalance: number; commission: number };
+  parameters: {
+    initialBalance: number;
+    commission?: number;
+    costProfile?: string; // Execution cost profile the run was priced with
+    [key: string]: any;
+  };
   status: string;
+  kind?: "SINGLE" | "OPTIMIZATION";
+  parentId?: string | null; // Optimization job this run belongs to
+  artifactUri?: string | null; // Trades, equity series and config snapshot
   metrics: {
     totalReturn: number;
     sharpeRatio: number;
@@ -83,6 +133,7 @@ interface Backtest {
     consecutiveLosses?: number;
     annualizedReturn?: number;
   } | null;
+  finalEquity?: string;
   createdAt: string;
   completedAt: string | null;
 }
@@ -116,6 +167,23 @@ class MockStorage {
       balance: "100000.00",
       equity: "102450.75",
       broker: "OANDA",
+      brokerId: "oanda",
+      mode: "paper",
+      baseCurrency: "USD",
+      propRules: { firm: "FTMO", initialBalance: 100000 },
+      status: "ACTIVE",
+      createdAt: new Date().toISOString()
+    },
+    {
+      id: "acc-2",
+      userId: "user-1",
+      name: "Paper Trading Account",
+      balance: "50000.00",
+      equity: "50000.00",
+      broker: "Paper",
+      brokerId: "paper",
+      mode: "paper",
+      baseCurrency: "USD",
       status: "ACTIVE",
       createdAt: new Date().toISOString()
     }
@@ -129,6 +197,7 @@ class MockStorage {
       status: "RUNNING",
       isEnabled: true,
       symbols: ["EURUSD", "GBPUSD"],
+      accountIds: ["acc-1"],
       createdAt: new Date().toISOString()
     },
     {
@@ -138,6 +207,7 @@ class MockStorage {
       status: "STOPPED",
       isEnabled: false,
       symbols: ["USDJPY"],
+      accountIds: ["acc-2"],
       createdAt: new Date().toISOString()
     }
   ];
@@ -149,10 +219,10 @@ class MockStorage {
       strategyId: "strat-1", // Assuming association
       symbol: "EURUSD",
       side: "BUY",
-      quantity: "10000",
+      quantity: "0.1",
       avgPrice: "1.0850",
       currentPrice: "1.0865",
-      unrealizedPnL: "150.00",
+      unrealizedPnL: "15.00",
       isOpen: true,
       createdAt: new Date().toISOString()
     },
@@ -162,10 +232,10 @@ class MockStorage {
       strategyId: "strat-1", // Assuming association
       symbol: "GBPUSD",
       side: "SELL",
-      quantity: "5000",
+      quantity: "0.05",
       avgPrice: "1.2650",
       currentPrice: "1.2635",
-      unrealizedPnL: "75.00",
+      unrealizedPnL: "7.50",
       isOpen: true,
       createdAt: new Date().toISOString()
     }
@@ -177,7 +247,7 @@ class MockStorage {
       accountId: "acc-1",
       symbol: "EURUSD",
       side: "BUY",
-      quantity: "10000",
+      quantity: "0.1",
       price: "1.0850",
       status: "FILLED",
       createdAt: new Date(Date.now() - 3600000).toISOString()
@@ -187,7 +257,7 @@ class MockStorage {
       accountId: "acc-1",
       symbol: "GBPUSD",
       side: "SELL",
-      quantity: "5000",
+      quantity: "0.05",
       price: "1.2650",
       status: "FILLED",
       createdAt: new Date(Date.now() - 1800000).toISOString()
@@ -215,6 +285,8 @@ class MockStorage {
     }
   ];
 
+  private riskEvents: RiskEvent[] = [];
+
   // Mock backtests
   private mockBacktests: Backtest[] = [
     {
@@ -297,6 +369,10 @@ class MockStorage {
     return this.accounts;
   }
 
+  async getAccount(id: string): Promise<Account | null> {
+    return this.accounts.find(account => account.id === id) || null;
+  }
+
   async createAccount(data: any, userId: string): Promise<Account> { // Added userId parameter
     const account: Account = {
       id: `acc-${Date.now()}`,
@@ -305,6 +381,7 @@ class MockStorage {
       balance: data.balance || "0",
       equity: data.equity || "0",
       broker: data.broker,
+      propRules: data.propRules,
       status: "ACTIVE",
       createdAt: new Date().toISOString()
     };
@@ -312,6 +389,15 @@ class MockStorage {
     return account;
   }
 
+  async updateAccount(id: string, updates: Partial<Account>): Promise<Account> {
+    const index = this.accounts.findIndex(account => account.id === id);
+    if (index !== -1) {
+      this.accounts[index] = { ...this.accounts[index], ...updates };
+      return this.accounts[index];
+    }
+    throw new Error("Account not found");
+  }
+
   // Strategy methods
   async getStrategies(userId?: string): Promise<Strategy[]> {
     if (userId) {
@@ -328,12 +414,19 @@ class MockStorage {
       status: "STOPPED",
       isEnabled: false,
       symbols: data.symbols || [],
+      accountIds: data.accountIds || [],
+      parameters: data.parameters,
+      riskProfile: data.riskProfile,
       createdAt: new Date().toISOString()
     };
     this.strategies.push(strategy);
     return strategy;
   }
 
+  async getStrategy(id: string): Promise<Strategy | null> {
+    return this.strategies.find(s => s.id === id) || null;
+  }
+
   async updateStrategy(id: string, updates: Partial<Strategy>): Promise<Strategy> {
     const index = this.strategies.findIndex(s => s.id === id);
     if (index !== -1) {
@@ -361,6 +454,10 @@ class MockStorage {
     return positions;
   }
 
+  async getClosedPositions(strategyId?: string): Promise<Position[]> {
+    return this.positions.filter(p => !p.isOpen && (!strategyId || p.strategyId === strategyId));
+  }
+
   async getPosition(id: string): Promise<Position | null> {
     return this.positions.find(p => p.id === id) || null;
   }
@@ -374,12 +471,58 @@ class MockStorage {
     throw new Error("Position not found");
   }
 
+  async createPosition(positionData: Omit<Position, 'id' | 'createdAt' | 'isOpen'>): Promise<Position> {
+    const position: Position = {
+      ...positionData,
+      id: `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      isOpen: true,
+      createdAt: new Date().toISOString(),
+    };
+    this.positions.push(position);
+    return position;
+  }
+
   // Order methods
   async getOrdersByAccount(accountId: string, limit?: number): Promise<Order[]> {
     const orders = this.orders.filter(o => o.accountId === accountId);
     return limit ? orders.slice(0, limit) : orders;
   }
 
+  async getOrders(accountId?: string, status?: string): Promise<Order[]> {
+    return this.orders.filter(o =>
+      (!accountId || o.accountId === accountId) && (!status || o.status === status)
+    );
+  }
+
+  async getOrder(id: string): Promise<Order | null> {
+    return this.orders.find(o => o.id === id) || null;
+  }
+
+  async createOrder(orderData: Omit<Order, 'id' | 'createdAt'>): Promise<Order> {
+    // Retried submissions carry the same idempotency key and resolve to the original order
+    if (orderData.idempotencyKey) {
+      const existing = this.orders.find(o => o.idempotencyKey === orderData.idempotencyKey);
+      if (existing) return existing;
+    }
+
+    const order: Order = {
+      ...orderData,
+      id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+    this.orders.unshift(order);
+    return order;
+  }
+
+  async updateOrder(id: string, updates: Partial<Order>): Promise<Order> {
+    const index = this.orders.findIndex(o => o.id === id);
+    if (index !== -1) {
+      this.orders[index] = { ...this.orders[index], ...updates };
+      return this.orders[index];
+    }
+    throw new Error("Order not found");
+  }
+
   // Alert methods
   async createAlert(alertData: Omit<Alert, 'id' | 'createdAt' | 'isRead'>): Promise<Alert> {
     const alert: Alert = {
@@ -405,6 +548,25 @@ class MockStorage {
     return alert;
   }
 
+  // Risk event methods
+  async createRiskEvent(eventData: Omit<RiskEvent, 'id' | 'createdAt'>): Promise<RiskEvent> {
+    const event: RiskEvent = {
+      ...eventData,
+      id: `risk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.riskEvents.unshift(event);
+    if (this.riskEvents.length > 1000) {
+      this.riskEvents = this.riskEvents.slice(0, 1000);
+    }
+    return event;
+  }
+
+  async getRiskEvents(accountId?: string, limit = 50): Promise<RiskEvent[]> {
+    return this.riskEvents.filter(e => !accountId || e.accountId === accountId).slice(0, limit);
+  }
+
   async markAlertRead(id: string): Promise<Alert> {
     const index = this.alerts.findIndex(a => a.id === id);
     if (index !== -1) {
@@ -425,8 +587,9 @@ class MockStorage {
   }
 
   // Backtest methods
-  async getBacktests(strategyId?: string): Promise<Backtest[]> {
-    let backtests = this.mockBacktests;
+  // Top-level runs, or the runs of one optimization job when parentId is given
+  async getBacktests(strategyId?: string, parentId?: string): Promise<Backtest[]> {
+    let backtests = this.mockBacktests.filter(b => (b.parentId ?? null) === (parentId ?? null));
     if (strategyId) {
       backtests = backtests.filter(b => b.strategyId === strategyId);
     }
@@ -509,4 +672,5 @@ class MockStorage {
   }
 }
 
-export const storage = new MockStorage();
\ No newline at end of file
+export const storage = new MockStorage();
+export type { Account, Strategy, Position, Order, Alert, RiskEvent, Backtest as StoredBacktest };
\ No newline at end of file
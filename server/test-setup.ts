@@ -0,0 +1,8 @@
+import { vi } from "vitest";
+
+// Services open trading_bot.db in the working directory; tests get an empty in-memory database
+vi.mock("./db", async () => {
+  const { drizzle } = await import("drizzle-orm/better-sqlite3");
+  const { default: Database } = await import("better-sqlite3");
+  return { db: drizzle(new Database(":memory:")) };
+});
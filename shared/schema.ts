@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { sqliteTable, text, integer, real, blob } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, blob, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -50,6 +50,7 @@ export const strategies = sqliteTable("strategies", {
   status: text("status").notNull().default("STOPPED"), // RUNNING, PAUSED, STOPPED, ERROR
   riskProfile: text("risk_profile"), // JSON string for risk parameters
   symbols: text("symbols").notNull(), // JSON array as string
+  accountIds: text("account_ids", { mode: "json" }).$type<string[]>().notNull().default(sql`'[]'`), // Bound trading accounts
   isEnabled: integer("is_enabled", { mode: "boolean" }).notNull().default(false),
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
   updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
@@ -64,16 +65,22 @@ export const orders = sqliteTable("orders", {
   side: text("side").notNull(), // BUY, SELL
   quantity: real("quantity").notNull(),
   type: text("type").notNull(), // MARKET, LIMIT, STOP, STOP_LIMIT
-  price: real("price"),
+  price: real("price"), // Limit price; trigger price for STOP
+  stopPrice: real("stop_price"), // Trigger price for STOP_LIMIT
   stopLoss: real("stop_loss"),
   takeProfit: real("take_profit"),
-  status: text("status").notNull().default("PENDING"), // PENDING, FILLED, CANCELLED, REJECTED, PARTIAL
+  timeInForce: text("time_in_force").notNull().default("GTC"), // GTC, GTD
+  expiresAt: integer("expires_at", { mode: "timestamp" }),
+  status: text("status").notNull().default("PENDING"), // PENDING, FILLED, CANCELLED, REJECTED, PARTIAL, EXPIRED
   brokerOrderId: text("broker_order_id"),
   idempotencyKey: text("idempotency_key").notNull(),
   filledQuantity: real("filled_quantity").default(0),
   avgFillPrice: real("avg_fill_price"),
   commission: real("commission"),
   slippage: real("slippage"),
+  realizedPnL: real("realized_pnl").default(0), // Closed on the position by this order's fills
+  rejectReason: text("reject_reason"),
+  riskDecisionId: text("risk_decision_id"), // Pre-trade decision that approved the order
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
   filledAt: integer("filled_at", { mode: "timestamp" }),
 });
@@ -90,8 +97,11 @@ export const positions = sqliteTable("positions", {
   currentPrice: real("current_price"),
   unrealizedPnL: real("unrealized_pnl").default(0),
   realizedPnL: real("realized_pnl").default(0),
+  swap: real("swap").default(0), // Accumulated rollover financing
   stopLoss: real("stop_loss"),
   takeProfit: real("take_profit"),
+  initialQuantity: real("initial_quantity"), // Size at open; take-profit ladder rungs are percentages of it
+  laddersTaken: integer("ladders_taken").notNull().default(0),
   isOpen: integer("is_open", { mode: "boolean" }).notNull().default(true),
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
   closedAt: integer("closed_at", { mode: "timestamp" }),
@@ -119,6 +129,8 @@ export const backtests = sqliteTable("backtests", {
   parameters: text("parameters").notNull(), // JSON string
   metrics: text("metrics"), // JSON string for performance metrics
   status: text("status").notNull().default("PENDING"),
+  kind: text("kind").notNull().default("SINGLE"), // SINGLE, OPTIMIZATION
+  parentId: text("parent_id"), // Optimization job this run belongs to
   artifactUri: text("artifact_uri"),
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
   completedAt: integer("completed_at", { mode: "timestamp" }),
@@ -145,6 +157,140 @@ export const systemStatus = sqliteTable("system_status", {
   lastUpdate: integer("last_update", { mode: "timestamp" }).default(sql`(unixepoch())`),
 });
 
+// Historical OHLCV bars (one row per symbol/timeframe/bar open time, UTC)
+export const marketBars = sqliteTable("market_bars", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull(), // M1, M5, M15, H1, H4, D1
+  timestamp: integer("timestamp", { mode: "timestamp" }).notNull(),
+  open: real("open").notNull(),
+  high: real("high").notNull(),
+  low: real("low").notNull(),
+  close: real("close").notNull(),
+  volume: real("volume").notNull().default(0),
+  spread: real("spread"), // In price units, when the source provides it
+  source: text("source").notNull(), // HISTDATA, DUKASCOPY, MT5, LIVE
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+}, (table) => [
+  uniqueIndex("market_bars_symbol_timeframe_timestamp").on(table.symbol, table.timeframe, table.timestamp),
+]);
+
+// Equity Snapshots
+export const equitySnapshots = sqliteTable("equity_snapshots", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  accountId: text("account_id").notNull(), // Accounts live in storage, not in the accounts table
+  tradingDay: text("trading_day").notNull(), // YYYY-MM-DD broker trading day that starts at the rollover
+  rolloverAt: integer("rollover_at", { mode: "timestamp" }).notNull(),
+  balance: real("balance").notNull(),
+  equity: real("equity").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+}, (table) => [
+  uniqueIndex("equity_snapshots_account_trading_day").on(table.accountId, table.tradingDay),
+]);
+
+// Equity high-water mark per account, so trailing drawdown floors survive a restart
+export const equityPeaks = sqliteTable("equity_peaks", {
+  accountId: text("account_id").primaryKey(), // Accounts live in storage, not in the accounts table
+  peak: real("peak").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
+// Emergency stops (kill switch); the latest row without resumedAt is the active halt
+export const tradingHalts = sqliteTable("trading_halts", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  reason: text("reason").notNull(),
+  triggeredBy: text("triggered_by").notNull(),
+  source: text("source").notNull(), // API, TELEGRAM, SYSTEM
+  triggeredAt: integer("triggered_at", { mode: "timestamp" }).notNull(),
+  liquidation: text("liquidation", { mode: "json" }), // LiquidationReport from the stop
+  resumedBy: text("resumed_by"),
+  resumeSource: text("resume_source"),
+  resumeReason: text("resume_reason"),
+  resumedAt: integer("resumed_at", { mode: "timestamp" }),
+});
+
+// Enable flag, severity and config for each pre-trade rule; rules without a row use their defaults
+export const riskRuleSettings = sqliteTable("risk_rule_settings", {
+  name: text("name").primaryKey(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull(),
+  severity: text("severity").notNull(), // INFO, WARNING, CRITICAL
+  config: text("config", { mode: "json" }),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
+// Every pre-trade evaluation with its inputs and each rule's result
+export const riskDecisions = sqliteTable("risk_decisions", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  accountId: text("account_id").notNull(),
+  strategyId: text("strategy_id"),
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(),
+  requestedQuantity: real("requested_quantity").notNull(),
+  finalQuantity: real("final_quantity").notNull(), // 0 when blocked
+  approved: integer("approved", { mode: "boolean" }).notNull(),
+  reason: text("reason"),
+  inputs: text("inputs", { mode: "json" }).notNull(),
+  trace: text("trace", { mode: "json" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
+// Economic calendar releases; the blackout windows around them are scheduled per symbol
+export const economicEvents = sqliteTable("economic_events", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  title: text("title").notNull(),
+  currency: text("currency").notNull(), // ForexFactory "country", e.g. USD; ALL for global events
+  impact: text("impact").notNull(), // LOW, MEDIUM, HIGH
+  eventTime: integer("event_time", { mode: "timestamp" }).notNull(),
+  symbols: text("symbols", { mode: "json" }).notNull(), // Quoted symbols that trade the currency
+  forecast: text("forecast"),
+  previous: text("previous"),
+  actual: text("actual"),
+  source: text("source").notNull(), // XML, CSV, JSON, FEED
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+}, (table) => [
+  uniqueIndex("economic_events_currency_title_time").on(table.currency, table.title, table.eventTime),
+]);
+
+// Versioned risk limits per account or strategy; the newest version already in effect applies
+export const riskLimitVersions = sqliteTable("risk_limit_versions", {
+  id: text("id").primaryKey().default(sql`(hex(randomblob(16)))`),
+  scope: text("scope").notNull(), // ACCOUNT, STRATEGY
+  scopeId: text("scope_id").notNull(),
+  version: integer("version").notNull(),
+  limits: text("limits", { mode: "json" }).notNull(), // Only the limits that are set; missing ones fall back to the prop rules
+  effectiveFrom: integer("effective_from", { mode: "timestamp" }).notNull(),
+  createdBy: text("created_by").notNull(),
+  reason: text("reason"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+}, (table) => [
+  uniqueIndex("risk_limit_versions_scope_version").on(table.scope, table.scopeId, table.version),
+]);
+
+// Execution cost profiles (spread, slippage, commission, swap) edited from the API; built-in
+// profiles apply until a row with the same name replaces them
+export const executionCostProfiles = sqliteTable("execution_cost_profiles", {
+  name: text("name").primaryKey(),
+  config: text("config", { mode: "json" }).notNull(),
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
+// Edits to the trading sessions; sessions without a row keep their defaults
+export const tradingSessions = sqliteTable("trading_sessions", {
+  name: text("name").primaryKey(),
+  config: text("config", { mode: "json" }).notNull(), // Times, timezone, allowed symbols and active flag
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
+// News blackout settings edited from the API; a single row, and the defaults apply until it exists
+export const newsBlackoutSettings = sqliteTable("news_blackout_settings", {
+  id: integer("id").primaryKey(), // Always 1
+  config: text("config", { mode: "json" }).notNull(), // Minimum impact, action and tightened stop distance
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`(unixepoch())`),
+});
+
 // Relations
 export const accountsRelations = relations(accounts, ({ many }) => ({
   orders: many(orders),
@@ -223,6 +369,17 @@ export const insertBacktestSchema = createInsertSchema(backtests).omit({ id: tru
 export const insertAlertSchema = createInsertSchema(alerts).omit({ id: true, createdAt: true });
 export const insertSystemStatusSchema = createInsertSchema(systemStatus).omit({ id: true, lastUpdate: true });
 export const insertUserSessionSchema = createInsertSchema(userSessions).omit({ id: true, createdAt: true });
+export const insertMarketBarSchema = createInsertSchema(marketBars).omit({ id: true, createdAt: true });
+export const insertEquitySnapshotSchema = createInsertSchema(equitySnapshots).omit({ id: true, createdAt: true });
+export const insertEquityPeakSchema = createInsertSchema(equityPeaks).omit({ updatedAt: true });
+export const insertTradingHaltSchema = createInsertSchema(tradingHalts).omit({ id: true });
+export const insertRiskRuleSettingSchema = createInsertSchema(riskRuleSettings).omit({ updatedAt: true });
+export const insertRiskDecisionSchema = createInsertSchema(riskDecisions).omit({ id: true, createdAt: true });
+export const insertEconomicEventSchema = createInsertSchema(economicEvents).omit({ id: true, createdAt: true });
+export const insertRiskLimitVersionSchema = createInsertSchema(riskLimitVersions).omit({ id: true, createdAt: true });
+export const insertExecutionCostProfileSchema = createInsertSchema(executionCostProfiles).omit({ updatedAt: true });
+export const insertTradingSessionSchema = createInsertSchema(tradingSessions).omit({ updatedAt: true });
+export const insertNewsBlackoutSettingSchema = createInsertSchema(newsBlackoutSettings).omit({ updatedAt: true });
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -245,3 +402,25 @@ export type SystemStatus = typeof systemStatus.$inferSelect;
 export type InsertSystemStatus = z.infer<typeof insertSystemStatusSchema>;
 export type UserSession = typeof userSessions.$inferSelect;
 export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type MarketBar = typeof marketBars.$inferSelect;
+export type InsertMarketBar = z.infer<typeof insertMarketBarSchema>;
+export type EquitySnapshot = typeof equitySnapshots.$inferSelect;
+export type InsertEquitySnapshot = z.infer<typeof insertEquitySnapshotSchema>;
+export type EquityPeak = typeof equityPeaks.$inferSelect;
+export type InsertEquityPeak = z.infer<typeof insertEquityPeakSchema>;
+export type TradingHalt = typeof tradingHalts.$inferSelect;
+export type InsertTradingHalt = z.infer<typeof insertTradingHaltSchema>;
+export type RiskRuleSetting = typeof riskRuleSettings.$inferSelect;
+export type InsertRiskRuleSetting = z.infer<typeof insertRiskRuleSettingSchema>;
+export type RiskDecision = typeof riskDecisions.$inferSelect;
+export type InsertRiskDecision = z.infer<typeof insertRiskDecisionSchema>;
+export type EconomicEvent = typeof economicEvents.$inferSelect;
+export type InsertEconomicEvent = z.infer<typeof insertEconomicEventSchema>;
+export type RiskLimitVersion = typeof riskLimitVersions.$inferSelect;
+export type InsertRiskLimitVersion = z.infer<typeof insertRiskLimitVersionSchema>;
+export type ExecutionCostProfile = typeof executionCostProfiles.$inferSelect;
+export type InsertExecutionCostProfile = z.infer<typeof insertExecutionCostProfileSchema>;
+export type TradingSessionSetting = typeof tradingSessions.$inferSelect;
+export type InsertTradingSessionSetting = z.infer<typeof insertTradingSessionSchema>;
+export type NewsBlackoutSetting = typeof newsBlackoutSettings.$inferSelect;
+export type InsertNewsBlackoutSetting = z.infer<typeof insertNewsBlackoutSettingSchema>;